@@ -0,0 +1,151 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { buildControlPlane } from "./control-plane.js";
+import type { HeartbeatRequest } from "./contracts.js";
+import {
+  DEFAULT_ADMISSION_POLICY,
+  admissionPolicyFromEnv,
+  evaluateAdmission,
+} from "./control/admission.js";
+
+// ── Helpers ────────────────────────────────────────────────────────────────
+
+function heartbeat(telemetry: Partial<HeartbeatRequest>): HeartbeatRequest {
+  return {
+    schemaVersion: "1.0",
+    nodeId: "adm-node",
+    ts: Date.now(),
+    status: "healthy",
+    load: 0,
+    runningTasks: 0,
+    ...telemetry,
+  };
+}
+
+/** Registers "adm-node" (4 slots), reports `telemetry` and enqueues `taskIds`. */
+async function setup(
+  app: ReturnType<typeof buildControlPlane>,
+  telemetry: Partial<HeartbeatRequest>,
+  taskIds: string[]
+) {
+  const reg = await app.inject({
+    method: "POST",
+    url: "/v1/nodes/register",
+    headers: { "x-bootstrap-token": "bootstrap-dev" },
+    payload: {
+      schemaVersion: "1.0",
+      nodeId: "adm-node",
+      capabilities: { tags: [], maxConcurrentTasks: 4 },
+    },
+  });
+  const nodeToken = reg.json().token as string;
+  const hb = await app.inject({
+    method: "POST",
+    url: "/v1/nodes/adm-node/heartbeat",
+    headers: { authorization: `Bearer ${nodeToken}` },
+    payload: heartbeat(telemetry),
+  });
+  assert.equal(hb.statusCode, 200);
+
+  for (const taskId of taskIds) {
+    const jt = await app.inject({
+      method: "POST",
+      url: "/v1/auth/job-token",
+      headers: { "x-admin-token": "admin-dev" },
+      payload: { jobId: taskId, ttlMs: 60_000 },
+    });
+    await app.inject({
+      method: "POST",
+      url: "/v1/tasks",
+      headers: { authorization: `Bearer ${jt.json().token as string}` },
+      payload: { taskId, kind: "echo", payload: {} },
+    });
+  }
+
+  return () =>
+    app.inject({
+      method: "POST",
+      url: "/v1/nodes/adm-node/tasks/claim",
+      headers: { authorization: `Bearer ${nodeToken}` },
+    });
+}
+
+// ── Tests ──────────────────────────────────────────────────────────────────
+
+test("evaluateAdmission: refusals outrank throttles, missing readings pass", () => {
+  const policy = DEFAULT_ADMISSION_POLICY;
+  assert.equal(evaluateAdmission(undefined, policy), null);
+  assert.equal(evaluateAdmission(heartbeat({ load: 0.5 }), policy), null);
+  assert.deepEqual(evaluateAdmission(heartbeat({ load: 0.9 }), policy), {
+    action: "throttle",
+    metric: "load",
+    value: 0.9,
+    limit: 0.85,
+  });
+  assert.deepEqual(evaluateAdmission(heartbeat({ load: 0.9, temperatureC: 88 }), policy), {
+    action: "refuse",
+    metric: "temperatureC",
+    value: 88,
+    limit: 85,
+  });
+});
+
+test("admissionPolicyFromEnv: off by default, on and JSON policies", () => {
+  assert.equal(admissionPolicyFromEnv({}), null);
+  assert.equal(admissionPolicyFromEnv({ EDGEMESH_ADMISSION: "off" }), null);
+  assert.equal(admissionPolicyFromEnv({ EDGEMESH_ADMISSION: "on" }), DEFAULT_ADMISSION_POLICY);
+  assert.deepEqual(admissionPolicyFromEnv({ EDGEMESH_ADMISSION: '{"memory":{"refuse":0.9}}' }), {
+    memory: { refuse: 0.9 },
+  });
+  assert.throws(
+    () => admissionPolicyFromEnv({ EDGEMESH_ADMISSION: '{"disk":{"refuse":0.9}}' }),
+    /unknown EDGEMESH_ADMISSION metric: disk/
+  );
+  assert.throws(
+    () => admissionPolicyFromEnv({ EDGEMESH_ADMISSION: '{"cpu":{"throttle":"high"}}' }),
+    /invalid EDGEMESH_ADMISSION cpu.throttle/
+  );
+});
+
+test("an overheated node is refused work and told why", async () => {
+  const app = buildControlPlane(undefined, { admission: DEFAULT_ADMISSION_POLICY });
+  const claim = await setup(app, { temperatureC: 91 }, ["adm-1"]);
+
+  const res = await claim();
+  assert.equal(res.statusCode, 200);
+  assert.deepEqual(res.json(), {
+    ok: true,
+    task: null,
+    admission: { action: "refuse", metric: "temperatureC", value: 91, limit: 85 },
+  });
+
+  const task = await app.inject({ method: "GET", url: "/v1/tasks/adm-1" });
+  assert.equal(task.json().task.status, "queued");
+  await app.close();
+});
+
+test("a throttled node only holds throttledConcurrency tasks", async () => {
+  const app = buildControlPlane(undefined, {
+    admission: { memory: { throttle: 0.8, refuse: 0.95 }, throttledConcurrency: 1 },
+  });
+  const claim = await setup(app, { memory: 0.85 }, ["adm-2", "adm-3"]);
+  const reason = { action: "throttle", metric: "memory", value: 0.85, limit: 0.8 };
+
+  const first = await claim();
+  assert.equal(first.json().task.taskId, "adm-2");
+  assert.deepEqual(first.json().admission, reason);
+
+  const second = await claim();
+  assert.deepEqual(second.json(), { ok: true, task: null, admission: reason });
+  await app.close();
+});
+
+test("admission: null lets a hot node claim as before", async () => {
+  const app = buildControlPlane(undefined, { admission: null });
+  const claim = await setup(app, { temperatureC: 99, load: 1 }, ["adm-4"]);
+
+  const res = await claim();
+  assert.deepEqual(Object.keys(res.json()).sort(), ["ok", "task"]);
+  assert.equal(res.json().task.taskId, "adm-4");
+  await app.close();
+});
@@ -0,0 +1,292 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { Redis } from "ioredis";
+// ioredis-mock is CJS; cast to ioredis Redis type so tsc is satisfied
+import RedisMockDefault from "ioredis-mock";
+const RedisMock = RedisMockDefault as unknown as typeof Redis;
+import { buildControlPlane } from "./control-plane.js";
+import { InMemoryControlPlaneStore } from "./persistence.js";
+import {
+  exportStore,
+  importStore,
+  parseStoreArchive,
+  serializeStoreArchive,
+  StoreBusyError,
+} from "./persistence/archive.js";
+import { RedisControlPlaneStore } from "./persistence/redis-adapter.js";
+
+const BASE_TASK = {
+  schemaVersion: "1.0" as const,
+  kind: "echo",
+  payload: { msg: "hi" },
+  status: "queued" as const,
+};
+
+async function seed(store: InMemoryControlPlaneStore) {
+  await store.upsertNode({
+    schemaVersion: "1.0",
+    nodeId: "node-a1",
+    region: "eu",
+    capabilities: { tags: ["linux"], maxConcurrentTasks: 2 },
+  });
+  await store.setNodeTrust("node-a1", { trusted: true, revoked: false });
+  await store.setNodeDrain("node-a1", true);
+  await store.setHeartbeat("node-a1", {
+    schemaVersion: "1.0",
+    nodeId: "node-a1",
+    ts: Date.now(),
+    status: "healthy",
+    load: 0.5,
+    runningTasks: 0,
+  });
+
+  const now = Date.now();
+  await store.enqueueTask({ ...BASE_TASK, taskId: "a-queued", createdAt: now, priority: 3 });
+  await store.enqueueTask({ ...BASE_TASK, taskId: "a-done", createdAt: now + 1, status: "done" });
+  await store.setTaskResult({
+    schemaVersion: "1.0",
+    taskId: "a-done",
+    nodeId: "node-a1",
+    ok: true,
+    output: { n: 1 },
+    finishedAt: now,
+  });
+  await store.enqueueTask({
+    ...BASE_TASK,
+    taskId: "a-dead",
+    createdAt: now + 2,
+    attempt: 3,
+    status: "failed",
+  });
+  await store.enqueueDlq({
+    schemaVersion: "1.0",
+    taskId: "a-dead",
+    task: (await store.getTask("a-dead"))!,
+    lastResult: {
+      schemaVersion: "1.0",
+      taskId: "a-dead",
+      nodeId: "node-a1",
+      ok: false,
+      error: "boom",
+      finishedAt: now,
+    },
+    reason: "max_attempts_exhausted",
+    enqueuedAt: now,
+  });
+  await store.saveSchedule({
+    schemaVersion: "1.0",
+    scheduleId: "a-nightly",
+    cron: "0 3 * * *",
+    task: { kind: "echo", payload: { from: "schedule" } },
+    overlap: "skip",
+    catchUp: "latest",
+    createdAt: now,
+    nextRunAt: now + 60_000,
+  });
+  await store.saveConcurrencyLimit({
+    schemaVersion: "1.0",
+    scope: "kind",
+    name: "echo",
+    max: 4,
+    updatedAt: now,
+  });
+  await store.reserveDedupeKey("order-42", "a-done", 60_000);
+}
+
+test("archive: memory store migrates to redis through JSONL", async () => {
+  const source = new InMemoryControlPlaneStore();
+  await seed(source);
+
+  const jsonl = serializeStoreArchive(await exportStore(source));
+  const lines = jsonl.trim().split("\n");
+  assert.equal(JSON.parse(lines[0]).format, "edgemesh.store");
+  assert.equal(lines.length, 1 + 1 + 3 + 1 + 1 + 1 + 1 + 1);
+
+  const mock = new RedisMock();
+  await mock.flushall();
+  const target = new RedisControlPlaneStore(mock);
+  const counts = await importStore(target, parseStoreArchive(jsonl));
+  assert.deepEqual(counts, {
+    nodes: 1,
+    tasks: 3,
+    results: 1,
+    dlq: 1,
+    schedules: 1,
+    limits: 1,
+    dedupeKeys: 1,
+  });
+
+  const node = await target.getNode("node-a1");
+  assert.equal(node?.region, "eu");
+  assert.equal(node?.trusted, true);
+  assert.equal(node?.draining, true);
+  assert.equal(node?.lastHeartbeat?.load, 0.5);
+
+  assert.deepEqual(
+    (await target.listQueuedTasks()).map((t) => t.taskId),
+    ["a-queued"]
+  );
+  assert.equal((await target.getTask("a-queued"))?.priority, 3);
+  assert.equal((await target.getTask("a-done"))?.status, "done");
+  assert.deepEqual((await target.getTaskResult("a-done"))?.output, { n: 1 });
+  assert.equal((await target.getDlqEntry("a-dead"))?.lastResult.error, "boom");
+  const schedule = await target.getSchedule("a-nightly");
+  assert.equal(schedule?.cron, "0 3 * * *");
+  assert.equal(schedule?.overlap, "skip");
+  assert.deepEqual(
+    (await target.listConcurrencyLimits()).map((l) => [l.scope, l.name, l.max]),
+    [["kind", "echo", 4]]
+  );
+  assert.equal(await target.reserveDedupeKey("order-42", "a-other", 60_000), "a-done");
+
+  // DLQ replay still works on the migrated store
+  assert.equal(await target.requeueFromDlq("a-dead"), true);
+  assert.equal((await target.getTask("a-dead"))?.attempt, 0);
+});
+
+test("archive: export re-reads until the store holds still, else refuses", async () => {
+  const store = new InMemoryControlPlaneStore();
+  await seed(store);
+  const listTasks = store.listTasks.bind(store);
+  let writes = 0;
+  const writeThenList = (limit: number) => async () => {
+    if (writes < limit) {
+      await store.enqueueTask({ ...BASE_TASK, taskId: `a-new-${writes++}`, createdAt: Date.now() });
+    }
+    return listTasks();
+  };
+
+  store.listTasks = writeThenList(1);
+  const archive = await exportStore(store);
+  assert.deepEqual(
+    archive.tasks.map((t) => t.taskId),
+    ["a-dead", "a-done", "a-new-0", "a-queued"]
+  );
+
+  store.listTasks = writeThenList(Infinity);
+  await assert.rejects(exportStore(store), StoreBusyError);
+
+  const app = buildControlPlane(store);
+  try {
+    const busy = await app.inject({
+      method: "GET",
+      url: "/v1/admin/store/export",
+      headers: { "x-admin-token": "admin-dev" },
+    });
+    assert.equal(busy.statusCode, 409);
+    assert.equal(busy.json().error, "store_busy");
+  } finally {
+    await app.close();
+  }
+});
+
+test("archive: rejects unknown versions and truncated JSONL", () => {
+  assert.throws(
+    () => parseStoreArchive({ format: "edgemesh.store", version: 99, exportedAt: 0 }),
+    /unsupported archive version 99/
+  );
+  assert.throws(() => parseStoreArchive("{}\n"), /not an edgemesh.store archive/);
+
+  const archive = {
+    format: "edgemesh.store" as const,
+    version: 2 as const,
+    exportedAt: Date.now(),
+    nodes: [],
+    tasks: [{ ...BASE_TASK, taskId: "t-1", createdAt: 1 }],
+    results: [],
+    dlq: [],
+    schedules: [],
+    limits: [],
+    dedupeKeys: [],
+  };
+  const truncated = serializeStoreArchive(archive).split("\n")[0];
+  assert.throws(() => parseStoreArchive(truncated), /tasks count mismatch/);
+  assert.throws(() => parseStoreArchive(`${truncated}\nnot json`), /invalid archive line 2/);
+});
+
+test("archive: version 1 archives still import, without schedules, limits or keys", () => {
+  const header = {
+    format: "edgemesh.store",
+    version: 1,
+    exportedAt: 0,
+    counts: { nodes: 0, tasks: 1, results: 0, dlq: 0 },
+  };
+  const task = { ...BASE_TASK, taskId: "t-1", createdAt: 1 };
+  const parsed = parseStoreArchive(`${JSON.stringify(header)}\n${JSON.stringify({ task })}\n`);
+  assert.equal(parsed.version, 2);
+  assert.deepEqual(parsed.tasks, [task]);
+  assert.deepEqual(parsed.schedules, []);
+  assert.deepEqual(parsed.limits, []);
+  assert.deepEqual(parsed.dedupeKeys, []);
+
+  const json = { format: "edgemesh.store", version: 1, exportedAt: 0, nodes: [], tasks: [] };
+  assert.deepEqual(parseStoreArchive({ ...json, results: [], dlq: [] }).schedules, []);
+});
+
+test("admin store export/import endpoints copy state between control planes", async () => {
+  const sourceStore = new InMemoryControlPlaneStore();
+  await seed(sourceStore);
+  const source = buildControlPlane(sourceStore);
+  const target = buildControlPlane(new InMemoryControlPlaneStore());
+  await Promise.all([source.ready(), target.ready()]);
+
+  const denied = await source.inject({ method: "GET", url: "/v1/admin/store/export" });
+  assert.equal(denied.statusCode, 401);
+
+  const exported = await source.inject({
+    method: "GET",
+    url: "/v1/admin/store/export",
+    headers: { "x-admin-token": "admin-dev" },
+  });
+  assert.equal(exported.statusCode, 200);
+  assert.match(String(exported.headers["content-type"]), /application\/x-ndjson/);
+
+  const imported = await target.inject({
+    method: "POST",
+    url: "/v1/admin/store/import",
+    headers: { "x-admin-token": "admin-dev", "content-type": "application/x-ndjson" },
+    payload: exported.body,
+  });
+  assert.equal(imported.statusCode, 200);
+  assert.deepEqual(imported.json().imported, {
+    nodes: 1,
+    tasks: 3,
+    results: 1,
+    dlq: 1,
+    schedules: 1,
+    limits: 1,
+    dedupeKeys: 1,
+  });
+
+  const queue = await target.inject({ method: "GET", url: "/v1/tasks/queue" });
+  assert.deepEqual(
+    queue.json().tasks.map((t: { taskId: string }) => t.taskId),
+    ["a-queued"]
+  );
+
+  // JSON form round-trips too
+  const asJson = await source.inject({
+    method: "GET",
+    url: "/v1/admin/store/export?format=json",
+    headers: { "x-admin-token": "admin-dev" },
+  });
+  assert.equal(asJson.json().version, 2);
+  const again = await target.inject({
+    method: "POST",
+    url: "/v1/admin/store/import",
+    headers: { "x-admin-token": "admin-dev" },
+    payload: asJson.json(),
+  });
+  assert.equal(again.statusCode, 200);
+
+  const bad = await target.inject({
+    method: "POST",
+    url: "/v1/admin/store/import",
+    headers: { "x-admin-token": "admin-dev" },
+    payload: { format: "edgemesh.store", version: 3, exportedAt: 0 },
+  });
+  assert.equal(bad.statusCode, 400);
+  assert.equal(bad.json().error, "invalid_archive");
+
+  await Promise.all([source.close(), target.close()]);
+});
@@ -0,0 +1,187 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { buildControlPlane } from "./control-plane.js";
+import type { Task } from "./contracts.js";
+
+// ── Helpers ────────────────────────────────────────────────────────────────
+
+type App = ReturnType<typeof buildControlPlane>;
+
+async function bootstrapNode(app: App, maxConcurrentTasks: number, load = 0): Promise<string> {
+  const res = await app.inject({
+    method: "POST",
+    url: "/v1/nodes/register",
+    headers: { "x-bootstrap-token": "bootstrap-dev" },
+    payload: {
+      schemaVersion: "1.0",
+      nodeId: "batch-node",
+      capabilities: { tags: [], maxConcurrentTasks },
+    },
+  });
+  const nodeToken = res.json().token as string;
+  await app.inject({
+    method: "POST",
+    url: "/v1/nodes/batch-node/heartbeat",
+    headers: { authorization: `Bearer ${nodeToken}` },
+    payload: {
+      schemaVersion: "1.0",
+      nodeId: "batch-node",
+      ts: Date.now(),
+      status: "healthy",
+      load,
+      runningTasks: 0,
+    },
+  });
+  return nodeToken;
+}
+
+async function enqueue(app: App, taskId: string, extra: Record<string, unknown> = {}) {
+  const jt = await app.inject({
+    method: "POST",
+    url: "/v1/auth/job-token",
+    headers: { "x-admin-token": "admin-dev" },
+    payload: { jobId: taskId, ttlMs: 60_000 },
+  });
+  await app.inject({
+    method: "POST",
+    url: "/v1/tasks",
+    headers: { authorization: `Bearer ${jt.json().token as string}` },
+    payload: { taskId, kind: "echo", payload: {}, ...extra },
+  });
+}
+
+function claim(app: App, nodeToken: string, body?: Record<string, unknown>) {
+  return app.inject({
+    method: "POST",
+    url: "/v1/nodes/batch-node/tasks/claim",
+    headers: { authorization: `Bearer ${nodeToken}` },
+    payload: body,
+  });
+}
+
+function result(taskId: string, ok: boolean, nodeId = "batch-node") {
+  return { schemaVersion: "1.0", taskId, nodeId, ok, finishedAt: Date.now() };
+}
+
+async function statusOf(app: App, taskId: string): Promise<string> {
+  return (await app.inject({ method: "GET", url: `/v1/tasks/${taskId}` })).json().task.status;
+}
+
+// ── Batch claim ────────────────────────────────────────────────────────────
+
+test("claim with max returns up to N tasks within the node's free capacity", async () => {
+  const app = buildControlPlane(undefined, { admission: null });
+  const nodeToken = await bootstrapNode(app, 3);
+  for (const id of ["t-1", "t-2", "t-3", "t-4", "t-5"]) await enqueue(app, id);
+
+  const first = await claim(app, nodeToken, { max: 2 });
+  assert.deepEqual(
+    first.json().tasks.map((t: Task) => t.taskId),
+    ["t-1", "t-2"]
+  );
+  const second = await claim(app, nodeToken, { max: 10 });
+  assert.deepEqual(
+    second.json().tasks.map((t: Task) => t.taskId),
+    ["t-3"]
+  );
+  assert.deepEqual((await claim(app, nodeToken, { max: 10 })).json(), { ok: true, tasks: [] });
+
+  // Without a body the response keeps its single-task shape.
+  assert.deepEqual((await claim(app, nodeToken)).json(), { ok: true, task: null });
+  await app.close();
+});
+
+test("claim rejects a max outside 1..100", async () => {
+  const app = buildControlPlane();
+  const nodeToken = await bootstrapNode(app, 1);
+  assert.equal((await claim(app, nodeToken, { max: 0 })).statusCode, 400);
+  assert.equal((await claim(app, nodeToken, { max: 101 })).statusCode, 400);
+  await app.close();
+});
+
+test("a throttled batch claim stops at throttledConcurrency", async () => {
+  const app = buildControlPlane(undefined, {
+    admission: { load: { throttle: 0.8 }, throttledConcurrency: 2 },
+  });
+  const nodeToken = await bootstrapNode(app, 10, 0.9);
+  for (const id of ["t-1", "t-2", "t-3"]) await enqueue(app, id);
+
+  const res = (await claim(app, nodeToken, { max: 5 })).json();
+  assert.equal(res.tasks.length, 2);
+  assert.equal(res.admission.action, "throttle");
+  assert.deepEqual((await claim(app, nodeToken, { max: 5 })).json().tasks, []);
+  await app.close();
+});
+
+// ── Batch results ──────────────────────────────────────────────────────────
+
+test("batch results apply each item independently with per-item outcomes", async () => {
+  const app = buildControlPlane(undefined, { admission: null });
+  const nodeToken = await bootstrapNode(app, 10);
+  await enqueue(app, "ok-1");
+  await enqueue(app, "fail-1", { maxAttempts: 1 });
+  await enqueue(app, "retry-1", { maxAttempts: 3 });
+  await claim(app, nodeToken, { max: 3 });
+
+  const res = await app.inject({
+    method: "POST",
+    url: "/v1/nodes/batch-node/tasks/results",
+    headers: { authorization: `Bearer ${nodeToken}` },
+    payload: {
+      results: [
+        result("ok-1", true),
+        result("ok-1", true),
+        result("ghost", true),
+        result("fail-1", false),
+        result("retry-1", false),
+        result("retry-1", true, "other-node"),
+      ],
+    },
+  });
+  assert.equal(res.statusCode, 200);
+  const body = res.json();
+  assert.equal(body.accepted, 3);
+  assert.equal(body.rejected, 3);
+  assert.deepEqual(
+    body.results.map((r: { taskId: string; statusCode: number; error?: string }) => [
+      r.taskId,
+      r.statusCode,
+      r.error,
+    ]),
+    [
+      ["ok-1", 200, undefined],
+      ["ok-1", 409, "invalid_transition"],
+      ["ghost", 404, "task_not_found"],
+      ["fail-1", 200, undefined],
+      ["retry-1", 200, undefined],
+      ["retry-1", 403, "token_node_mismatch"],
+    ]
+  );
+  assert.equal(body.results[3].toDlq, true);
+  assert.equal(body.results[4].retrying, true);
+
+  assert.equal(await statusOf(app, "ok-1"), "done");
+  assert.equal(await statusOf(app, "fail-1"), "failed");
+  assert.equal(await statusOf(app, "retry-1"), "queued");
+  await app.close();
+});
+
+test("batch results require the node's own token and 1..100 items", async () => {
+  const app = buildControlPlane();
+  const nodeToken = await bootstrapNode(app, 1);
+  const post = (url: string, results: unknown[], auth = true) =>
+    app.inject({
+      method: "POST",
+      url,
+      headers: auth ? { authorization: `Bearer ${nodeToken}` } : {},
+      payload: { results },
+    });
+
+  const items = [result("t-1", true)];
+  assert.equal((await post("/v1/nodes/batch-node/tasks/results", items, false)).statusCode, 401);
+  assert.equal((await post("/v1/nodes/someone-else/tasks/results", items)).statusCode, 403);
+  assert.equal((await post("/v1/nodes/batch-node/tasks/results", [])).statusCode, 400);
+  const tooMany = Array.from({ length: 101 }, (_, i) => result(`t-${i}`, true));
+  assert.equal((await post("/v1/nodes/batch-node/tasks/results", tooMany)).statusCode, 400);
+  await app.close();
+});
@@ -0,0 +1,194 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { buildControlPlane } from "./control-plane.js";
+
+// ── Helpers ────────────────────────────────────────────────────────────────
+
+type App = ReturnType<typeof buildControlPlane>;
+
+async function addNode(app: App, nodeId: string, tags: string[]): Promise<string> {
+  const res = await app.inject({
+    method: "POST",
+    url: "/v1/nodes/register",
+    headers: { "x-bootstrap-token": "bootstrap-dev" },
+    payload: { schemaVersion: "1.0", nodeId, capabilities: { tags, maxConcurrentTasks: 4 } },
+  });
+  const nodeToken = res.json().token as string;
+  await app.inject({
+    method: "POST",
+    url: `/v1/nodes/${nodeId}/heartbeat`,
+    headers: { authorization: `Bearer ${nodeToken}` },
+    payload: {
+      schemaVersion: "1.0",
+      nodeId,
+      ts: Date.now(),
+      status: "healthy",
+      load: 0,
+      runningTasks: 0,
+    },
+  });
+  return nodeToken;
+}
+
+async function submit(app: App, taskId: string, extra: Record<string, unknown>) {
+  const jt = await app.inject({
+    method: "POST",
+    url: "/v1/auth/job-token",
+    headers: { "x-admin-token": "admin-dev" },
+    payload: { jobId: taskId, ttlMs: 60_000 },
+  });
+  return app.inject({
+    method: "POST",
+    url: "/v1/tasks",
+    headers: { authorization: `Bearer ${jt.json().token as string}` },
+    payload: { taskId, kind: "cache.flush", payload: {}, ...extra },
+  });
+}
+
+async function claim(app: App, nodeId: string, nodeToken: string): Promise<string | null> {
+  const res = await app.inject({
+    method: "POST",
+    url: `/v1/nodes/${nodeId}/tasks/claim`,
+    headers: { authorization: `Bearer ${nodeToken}` },
+  });
+  return res.json().task?.taskId ?? null;
+}
+
+function finish(app: App, nodeId: string, nodeToken: string, taskId: string, ok: boolean) {
+  return app.inject({
+    method: "POST",
+    url: `/v1/tasks/${taskId}/result`,
+    headers: { authorization: `Bearer ${nodeToken}` },
+    payload: {
+      schemaVersion: "1.0",
+      taskId,
+      nodeId,
+      ok,
+      finishedAt: Date.now(),
+      ...(!ok && { error: "disk full" }),
+    },
+  });
+}
+
+async function summary(app: App, taskId: string) {
+  return (await app.inject({ method: "GET", url: `/v1/tasks/${taskId}/broadcast` })).json();
+}
+
+// ── Tests ──────────────────────────────────────────────────────────────────
+
+test("a broadcast runs once on every node matching its tags", async () => {
+  const app = buildControlPlane(undefined, { admission: null });
+  const a = await addNode(app, "n-a", ["cache"]);
+  const b = await addNode(app, "n-b", ["cache", "gpu"]);
+  const c = await addNode(app, "n-c", ["gpu"]);
+
+  const res = await submit(app, "flush", { broadcast: {}, requiredTags: ["cache"] });
+  assert.deepEqual(res.json(), {
+    ok: true,
+    taskId: "flush",
+    status: "blocked",
+    nodes: ["n-a", "n-b"],
+  });
+
+  assert.equal(await claim(app, "n-c", c), null);
+  assert.equal(await claim(app, "n-a", a), "flush@n-a");
+  assert.equal(await claim(app, "n-a", a), null);
+  assert.equal(await claim(app, "n-b", b), "flush@n-b");
+
+  await finish(app, "n-a", a, "flush@n-a", true);
+  assert.equal((await summary(app, "flush")).status, "blocked");
+  await finish(app, "n-b", b, "flush@n-b", true);
+
+  const done = await summary(app, "flush");
+  assert.equal(done.status, "done");
+  assert.equal(done.total, 2);
+  assert.equal(done.counts.done, 2);
+  assert.equal(done.closed, true);
+  await app.close();
+});
+
+test("one failed child fails the broadcast and the summary says where", async () => {
+  const app = buildControlPlane(undefined, { admission: null });
+  const a = await addNode(app, "n-a", []);
+  const b = await addNode(app, "n-b", []);
+  await submit(app, "reload", { broadcast: {}, maxAttempts: 1 });
+
+  await claim(app, "n-a", a);
+  await claim(app, "n-b", b);
+  await finish(app, "n-a", a, "reload@n-a", true);
+  await finish(app, "n-b", b, "reload@n-b", false);
+
+  const res = await summary(app, "reload");
+  assert.equal(res.status, "failed");
+  assert.deepEqual(res.nodes, [
+    { nodeId: "n-a", taskId: "reload@n-a", status: "done" },
+    { nodeId: "n-b", taskId: "reload@n-b", status: "failed", error: "disk full" },
+  ]);
+  await app.close();
+});
+
+test("nodes registering inside the late-join window get a child too", async () => {
+  const app = buildControlPlane(undefined, { admission: null, reaperIntervalMs: 20 });
+  const a = await addNode(app, "n-a", ["edge"]);
+  await submit(app, "collect", { broadcast: { lateJoinWindowMs: 300 }, requiredTags: ["edge"] });
+  await claim(app, "n-a", a);
+  await finish(app, "n-a", a, "collect@n-a", true);
+
+  // Every child is done, but the window is still open.
+  assert.equal((await summary(app, "collect")).status, "blocked");
+  assert.equal((await summary(app, "collect")).closed, false);
+
+  const late = await addNode(app, "n-late", ["edge"]);
+  await addNode(app, "n-other", ["cloud"]);
+  assert.equal(await claim(app, "n-late", late), "collect@n-late");
+  await finish(app, "n-late", late, "collect@n-late", true);
+
+  // The reaper finishes the parent once the window closes.
+  await new Promise((r) => setTimeout(r, 400));
+  const res = await summary(app, "collect");
+  assert.equal(res.status, "done");
+  assert.deepEqual(
+    res.nodes.map((n: { nodeId: string }) => n.nodeId),
+    ["n-a", "n-late"]
+  );
+  await app.close();
+});
+
+test("cancelling a broadcast cancels its unfinished children", async () => {
+  const app = buildControlPlane(undefined, { admission: null });
+  const a = await addNode(app, "n-a", []);
+  await addNode(app, "n-b", []);
+  await submit(app, "diag", { broadcast: {} });
+  await claim(app, "n-a", a);
+  await finish(app, "n-a", a, "diag@n-a", true);
+
+  const cancel = await app.inject({
+    method: "POST",
+    url: "/v1/tasks/diag/cancel",
+    headers: { "x-admin-token": "admin-dev" },
+  });
+  assert.equal(cancel.statusCode, 200);
+  const res = await summary(app, "diag");
+  assert.equal(res.status, "cancelled");
+  assert.deepEqual(
+    res.nodes.map((n: { status: string }) => n.status),
+    ["done", "cancelled"]
+  );
+  await app.close();
+});
+
+test("broadcast submissions are validated", async () => {
+  const app = buildControlPlane(undefined, { admission: null });
+  const pinned = await submit(app, "b-1", { broadcast: {}, targetNodeId: "n-a" });
+  assert.equal(pinned.statusCode, 400);
+  assert.equal(pinned.json().error, "invalid_broadcast");
+
+  const nobody = await submit(app, "b-2", { broadcast: {}, requiredTags: ["none"] });
+  assert.equal(nobody.statusCode, 409);
+  assert.equal(nobody.json().error, "no_eligible_nodes");
+  assert.equal((await app.inject({ method: "GET", url: "/v1/tasks/b-2" })).statusCode, 404);
+
+  await submit(app, "plain", {});
+  assert.equal((await summary(app, "plain")).error, "not_a_broadcast");
+  await app.close();
+});
@@ -0,0 +1,113 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { buildControlPlane } from "./control-plane.js";
+
+// ── Helpers ────────────────────────────────────────────────────────────────
+
+type App = ReturnType<typeof buildControlPlane>;
+
+async function addNode(app: App, nodeId: string, hardware: object = {}): Promise<string> {
+  const res = await app.inject({
+    method: "POST",
+    url: "/v1/nodes/register",
+    headers: { "x-bootstrap-token": "bootstrap-dev" },
+    payload: {
+      schemaVersion: "1.0",
+      nodeId,
+      capabilities: { tags: [], maxConcurrentTasks: 4, ...hardware },
+    },
+  });
+  const nodeToken = res.json().token as string;
+  await app.inject({
+    method: "POST",
+    url: `/v1/nodes/${nodeId}/heartbeat`,
+    headers: { authorization: `Bearer ${nodeToken}` },
+    payload: {
+      schemaVersion: "1.0",
+      nodeId,
+      ts: Date.now(),
+      status: "healthy",
+      load: 0,
+      runningTasks: 0,
+    },
+  });
+  return nodeToken;
+}
+
+async function submit(app: App, taskId: string, extra: Record<string, unknown> = {}) {
+  const jt = await app.inject({
+    method: "POST",
+    url: "/v1/auth/job-token",
+    headers: { "x-admin-token": "admin-dev" },
+    payload: { jobId: taskId, ttlMs: 60_000 },
+  });
+  return app.inject({
+    method: "POST",
+    url: "/v1/tasks",
+    headers: { authorization: `Bearer ${jt.json().token as string}` },
+    payload: { taskId, kind: "echo", payload: {}, ...extra },
+  });
+}
+
+async function claim(app: App, nodeId: string, nodeToken: string, explain = true) {
+  const res = await app.inject({
+    method: "POST",
+    url: `/v1/nodes/${nodeId}/tasks/claim`,
+    headers: { authorization: `Bearer ${nodeToken}` },
+    payload: { explain },
+  });
+  return res.json();
+}
+
+// ── Tests ──────────────────────────────────────────────────────────────────
+
+test("an empty claim lists the waiting tasks the node's constraints rule out", async () => {
+  const app = buildControlPlane(undefined, { admission: null });
+  const token = await addNode(app, "n-1", { trustZone: "trusted-mesh", ramGb: 4 });
+  await submit(app, "private", { constraints: { privacy: "local-only" } });
+  await submit(app, "gpu", { constraints: { privacy: "trusted-mesh", requiresGpu: true } });
+  await submit(app, "npu", { constraints: { requiresNpu: true } });
+  await submit(app, "big", { constraints: { minRamGb: 32 } });
+  await submit(app, "elsewhere", { targetNodeId: "n-2", constraints: { requiresGpu: true } });
+  await submit(app, "later", { runAt: Date.now() + 60_000, constraints: { requiresGpu: true } });
+
+  // Reasons read the whole queue, so only a claim that asks gets them.
+  assert.deepEqual(await claim(app, "n-1", token, false), { ok: true, task: null });
+  assert.deepEqual(await claim(app, "n-1", token), {
+    ok: true,
+    task: null,
+    rejected: [
+      { taskId: "private", reason: "privacy-local-only" },
+      { taskId: "gpu", reason: "gpu-required" },
+      { taskId: "npu", reason: "npu-required" },
+      { taskId: "big", reason: "ram-insufficient" },
+    ],
+  });
+
+  await submit(app, "plain");
+  assert.deepEqual(Object.keys(await claim(app, "n-1", token)), ["ok", "task"]);
+  await app.close();
+});
+
+test("a matching node claims what another node was refused", async () => {
+  const app = buildControlPlane(undefined, { admission: null });
+  const cloud = await addNode(app, "n-cloud", { gpu: true });
+  const local = await addNode(app, "n-local", { trustZone: "local", gpu: true, ramGb: 64 });
+  await submit(app, "train", {
+    constraints: { privacy: "local-only", requiresGpu: true, minRamGb: 32 },
+  });
+
+  const refused = await claim(app, "n-cloud", cloud);
+  assert.deepEqual(refused.rejected, [{ taskId: "train", reason: "privacy-local-only" }]);
+  assert.equal((await claim(app, "n-local", local)).task.taskId, "train");
+  await app.close();
+});
+
+test("broadcasts skip nodes that fail the task's constraints", async () => {
+  const app = buildControlPlane(undefined, { admission: null });
+  await addNode(app, "n-gpu", { gpu: true });
+  await addNode(app, "n-cpu");
+  const res = await submit(app, "probe", { broadcast: {}, constraints: { requiresGpu: true } });
+  assert.deepEqual(res.json().nodes, ["n-gpu"]);
+  await app.close();
+});
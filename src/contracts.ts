@@ -1,14 +1,44 @@
 export type SchemaVersion = "1.0";
 
+/**
+ * Amounts by resource name. Well-known names are `cpu` (millicores),
+ * `memoryMb` and `diskMb`; any other name (e.g. `gpu`) works the same way.
+ */
+export type ResourceMap = Record<string, number>;
+
+/**
+ * Where a task's data may go, least to most permissive. `local-only` tasks run
+ * on `local` nodes only; `trusted-mesh` ones on `local` or `trusted-mesh` nodes.
+ */
+export type TaskPrivacy = "local-only" | "trusted-mesh" | "cloud-ok";
+
+/** How far a node is trusted with task data; undeclared nodes count as `cloud`. */
+export type NodeTrustZone = "local" | "trusted-mesh" | "cloud";
+
 export interface NodeCapabilities {
   tags: string[];
   maxConcurrentTasks: number;
+  /** Capacity the node offers; claims bin-pack task `resources` against it. */
+  resources?: ResourceMap;
+  gpu?: boolean;
+  npu?: boolean;
+  /** Installed memory, checked against `TaskConstraints.minRamGb`. */
+  ramGb?: number;
+  trustZone?: NodeTrustZone;
 }
 
 export interface RegisterNodeRequest {
   schemaVersion: SchemaVersion;
   nodeId: string;
   region?: string;
+  /** Failure domain within the region, e.g. a rack or an availability zone. */
+  zone?: string;
+  /**
+   * Fresh each time the node agent starts. Registering under a new bootId is a
+   * restart; registering again under the same one (say, after its token could
+   * not be refreshed) is not.
+   */
+  bootId?: string;
   capabilities: NodeCapabilities;
 }
 
@@ -19,6 +49,17 @@ export interface HeartbeatRequest {
   status: "healthy" | "degraded";
   load: number; // 0..1
   runningTasks: number;
+  /** CPU utilisation, 0..1. */
+  cpu?: number;
+  /** Fraction of memory in use, 0..1. */
+  memory?: number;
+  /** Hottest sensor reading in °C. */
+  temperatureC?: number;
+  /**
+   * Tasks the node is executing; their leases are renewed and the reply lists
+   * those it should stop. Without it, every task assigned to the node is renewed.
+   */
+  activeTaskIds?: string[];
 }
 
 export type NodeFreshnessState = "healthy" | "degraded" | "offline";
@@ -31,6 +72,29 @@ export interface NodeView extends RegisterNodeRequest {
   draining?: boolean;
 }
 
+/** Where a task may run, by the region and zone its nodes advertise. */
+export interface TaskPlacement {
+  /** Only nodes in one of these regions. */
+  regions?: string[];
+  /** Never nodes in these regions. */
+  avoidRegions?: string[];
+  /** Only nodes in one of these zones. */
+  zones?: string[];
+  /** Never nodes in these zones. */
+  avoidZones?: string[];
+  /** At most `maxPerDomain` claimed/running tasks of `group` per region or zone. */
+  spread?: { group: string; by: "region" | "zone"; maxPerDomain: number };
+}
+
+/** Privacy and hardware a node must offer to claim the task; see src/control/constraints.ts. */
+export interface TaskConstraints {
+  /** Default `cloud-ok`. */
+  privacy?: TaskPrivacy;
+  requiresGpu?: boolean;
+  requiresNpu?: boolean;
+  minRamGb?: number;
+}
+
 export interface Task {
   schemaVersion: SchemaVersion;
   taskId: string;
@@ -38,17 +102,60 @@ export interface Task {
   payload: Record<string, unknown>;
   targetNodeId?: string;
   requiredTags?: string[];
+  placement?: TaskPlacement;
+  constraints?: TaskConstraints;
+  /** May be evicted from its node to make room for a higher-priority task. */
+  preemptible?: boolean;
+  /** Times the task was evicted by preemption; those claims do not count as attempts. */
+  preemptions?: number;
+  /** Resources held on the node while the task is claimed or running. */
+  resources?: ResourceMap;
   maxAttempts?: number;
   /** Higher number = higher urgency. Default 0. Tiebreak is FIFO (createdAt asc). */
   priority?: number;
+  /** Queue name for per-queue scheduling strategies. Default "default". */
+  queue?: string;
+  /** Runtime estimate used by the shortest-expected-runtime strategy. */
+  expectedRuntimeMs?: number;
   /** Auto-fail after this many ms since claimedAt if no result is received. */
   timeoutMs?: number;
-  status: "queued" | "claimed" | "running" | "done" | "failed" | "cancelled";
+  /** Not claimable before this time (ms since epoch). */
+  runAt?: number;
+  /** Set on tasks materialized by a schedule. */
+  scheduleId?: string;
+  /** Idempotency key the task was submitted with (body `dedupeKey` or `Idempotency-Key`). */
+  dedupeKey?: string;
+  /**
+   * Run on every matching node instead of one. The task becomes a parent that
+   * is never claimed itself; it waits as `blocked` until its per-node children
+   * settle, then ends `done` (all done) or `failed`.
+   */
+  broadcast?: {
+    /** Nodes registering up to this long after submission get a child too. Default 0. */
+    lateJoinWindowMs?: number;
+  };
+  /** Set on the per-node children of a broadcast task. */
+  parentTaskId?: string;
+  /** Task ids that must all be done first; the task waits as `blocked` until then. */
+  dependsOn?: string[];
+  status: "blocked" | "queued" | "claimed" | "running" | "done" | "failed" | "cancelled";
   createdAt: number;
   claimedAt?: number;
   retryAfter?: number;
   attempt?: number;
   assignedNodeId?: string;
+  /**
+   * Issued with each claim. Acks, results and lease renewals that carry a
+   * different token come from an earlier holder and are rejected.
+   */
+  leaseToken?: string;
+  /** A claimed/running task whose lease lapses is retried or failed by the reaper. */
+  leaseExpiresAt?: number;
+  /**
+   * Bumped by the store on every write but a lease renewal; pass it back for
+   * compare-and-set updates.
+   */
+  revision?: number;
 }
 
 export interface TaskResult {
@@ -59,6 +166,10 @@ export interface TaskResult {
   output?: Record<string, unknown>;
   error?: string;
   finishedAt: number;
+  /** The claim attempt this result belongs to; results for an older attempt are rejected. */
+  attempt?: number;
+  /** The lease the result was produced under; see `Task.leaseToken`. */
+  leaseToken?: string;
 }
 
 export interface DlqEntry {
@@ -69,3 +180,54 @@ export interface DlqEntry {
   reason: string;
   enqueuedAt: number;
 }
+
+/** Task fields a schedule copies onto every task it materializes. */
+export type TaskTemplate = Pick<
+  Task,
+  | "kind"
+  | "payload"
+  | "targetNodeId"
+  | "requiredTags"
+  | "placement"
+  | "constraints"
+  | "resources"
+  | "preemptible"
+  | "maxAttempts"
+  | "priority"
+  | "timeoutMs"
+  | "queue"
+  | "expectedRuntimeMs"
+>;
+
+export interface Schedule {
+  schemaVersion: SchemaVersion;
+  scheduleId: string;
+  /** Five-field cron expression, evaluated in UTC (see src/control/cron.ts). */
+  cron: string;
+  task: TaskTemplate;
+  /** What a tick does while the previous run is still unfinished. */
+  overlap: "skip" | "queue" | "cancel-previous";
+  /** Which ticks missed while no control plane was running still run. */
+  catchUp: "none" | "latest" | "all";
+  createdAt: number;
+  /** Next tick, ms since epoch. */
+  nextRunAt: number;
+  /** The last tick that materialized a task. */
+  lastRunAt?: number;
+  /** The task that tick materialized; the overlap policy looks at it. */
+  lastTaskId?: string;
+  /** Bumped by the store on every write. */
+  revision?: number;
+}
+
+/**
+ * A cluster-wide cap on claimed/running tasks: of one `kind`, or requiring
+ * one tag (`requiredTags`). Claims that would exceed `max` are skipped.
+ */
+export interface ConcurrencyLimit {
+  schemaVersion: SchemaVersion;
+  scope: "kind" | "tag";
+  name: string;
+  max: number;
+  updatedAt: number;
+}
@@ -3,30 +3,162 @@ import Fastify from "fastify";
 import rateLimit from "@fastify/rate-limit";
 import type { FastifyInstance, FastifyRequest } from "fastify";
 import type {
+  ConcurrencyLimit,
   DlqEntry,
   HeartbeatRequest,
   RegisterNodeRequest,
+  Schedule,
   Task,
   TaskResult,
 } from "./contracts.js";
-import { InMemoryControlPlaneStore, type ControlPlaneStore } from "./persistence.js";
+import { TaskRevisionConflictError, claimableAt, type ControlPlaneStore } from "./persistence.js";
+import {
+  exportStore,
+  importStore,
+  parseStoreArchive,
+  serializeStoreArchive,
+  StoreBusyError,
+  type StoreArchive,
+} from "./persistence/archive.js";
+import {
+  createStore,
+  storeOptionsFromEnv,
+  storeUrlFromEnv,
+  verifyStore,
+} from "./persistence/registry.js";
 import type { EdgeMeshEvent, EdgeMeshPlugin } from "./plugins/types.js";
 import { createTelemetryPlugin, type TelemetryPlugin } from "./plugins/telemetry-plugin.js";
 import { JobTokenManager, NodeJwtManager, NodeTrustManager } from "./security.js";
-import { computeRetryDecision } from "./control/retry-policy.js";
-import { startTimeoutReaper } from "./control/timeout-reaper.js";
+import { chargedAttempts, computeRetryDecision } from "./control/retry-policy.js";
+import {
+  nodeLostGraceFromEnv,
+  recoverLostNode,
+  startTimeoutReaper,
+} from "./control/timeout-reaper.js";
+import { InvalidTransitionError, RETRYABLE_STATUSES, canTransition } from "./task-state.js";
+import {
+  DependencyCycleError,
+  assertAcyclic,
+  dependencyGraph,
+  releaseDependents,
+  settleBlockedTask,
+} from "./control/dependencies.js";
+import {
+  admissionPolicyFromEnv,
+  evaluateAdmission,
+  type AdmissionPolicy,
+} from "./control/admission.js";
+import { firstRunAt, startScheduler } from "./control/schedules.js";
+import {
+  dedupeWindowFromEnv,
+  reserveIdempotencyKey,
+  submissionDiff,
+} from "./control/idempotency.js";
+import {
+  broadcastSummary,
+  broadcastTargets,
+  cancelBroadcastChildren,
+  expandBroadcast,
+  joinBroadcasts,
+  settleBroadcast,
+} from "./control/broadcast.js";
+import { constraintRejections, type ConstraintRejection } from "./control/constraints.js";
+import { renewNodeLeases } from "./control/leases.js";
+import { limitStatus } from "./control/limits.js";
+import { groupByTopology } from "./control/placement.js";
+import { preemptFor, tasksToStop } from "./control/preemption.js";
+import { allocatedResources, freeResources } from "./control/resources.js";
+import { effectivePriority, waitingSince } from "./control/scheduling.js";
+import {
+  retentionPolicyFromEnv,
+  startRetentionCompactor,
+  type RetentionPolicy,
+} from "./control/retention-compactor.js";
 
 const SCHEMA_VERSION = "1.0" as const;
 
-function createStore(): ControlPlaneStore {
-  if (process.env.EDGEMESH_STORE === "redis") {
-    // eslint-disable-next-line @typescript-eslint/no-require-imports
-    const { RedisControlPlaneStore } = require("./persistence/redis-adapter.js");
-    const redisUrl = process.env.EDGEMESH_REDIS_URL ?? "redis://localhost:6379";
-    return new RedisControlPlaneStore(redisUrl) as ControlPlaneStore;
-  }
-  return new InMemoryControlPlaneStore();
-}
+// Resource amounts by name: node capacities and task requests.
+const RESOURCE_MAP_SCHEMA = {
+  type: "object",
+  additionalProperties: { type: "number", minimum: 0 },
+  maxProperties: 32,
+};
+// Body schema for the task fields a client picks, shared by tasks and schedule templates.
+const TASK_TEMPLATE_PROPERTIES = {
+  kind: { type: "string", minLength: 1 },
+  payload: { type: "object" },
+  targetNodeId: { type: "string" },
+  requiredTags: { type: "array", items: { type: "string" } },
+  resources: RESOURCE_MAP_SCHEMA,
+  placement: {
+    type: "object",
+    additionalProperties: false,
+    properties: {
+      regions: { type: "array", items: { type: "string" } },
+      avoidRegions: { type: "array", items: { type: "string" } },
+      zones: { type: "array", items: { type: "string" } },
+      avoidZones: { type: "array", items: { type: "string" } },
+      spread: {
+        type: "object",
+        additionalProperties: false,
+        required: ["group", "by", "maxPerDomain"],
+        properties: {
+          group: { type: "string", minLength: 1 },
+          by: { type: "string", enum: ["region", "zone"] },
+          maxPerDomain: { type: "integer", minimum: 1 },
+        },
+      },
+    },
+  },
+  constraints: {
+    type: "object",
+    additionalProperties: false,
+    properties: {
+      privacy: { type: "string", enum: ["local-only", "trusted-mesh", "cloud-ok"] },
+      requiresGpu: { type: "boolean" },
+      requiresNpu: { type: "boolean" },
+      minRamGb: { type: "number", minimum: 0 },
+    },
+  },
+  maxAttempts: { type: "integer", minimum: 1, maximum: 10 },
+  priority: { type: "integer", minimum: 0, maximum: 100 },
+  timeoutMs: { type: "integer", minimum: 100, maximum: 300_000 },
+  queue: { type: "string", minLength: 1, maxLength: 64 },
+  expectedRuntimeMs: { type: "integer", minimum: 0 },
+  preemptible: { type: "boolean" },
+};
+const TASK_RESULT_SCHEMA = {
+  type: "object",
+  required: ["schemaVersion", "taskId", "nodeId", "ok", "finishedAt"],
+  properties: {
+    schemaVersion: { type: "string" },
+    taskId: { type: "string" },
+    nodeId: { type: "string" },
+    ok: { type: "boolean" },
+    output: { type: "object" },
+    error: { type: "string" },
+    finishedAt: { type: "number" },
+    attempt: { type: "integer" },
+    leaseToken: { type: "string" },
+  },
+};
+// Route params naming one concurrency limit.
+const LIMIT_PARAMS_SCHEMA = {
+  type: "object",
+  required: ["scope", "name"],
+  properties: {
+    scope: { type: "string", enum: ["kind", "tag"] },
+    name: { type: "string", minLength: 1, maxLength: 128 },
+  },
+};
+// Upper bound on tasks per batch claim and results per batch submission.
+const MAX_BATCH = 100;
+// Upper bound on constraint rejections listed in an empty claim response.
+const MAX_REJECTIONS = 20;
+// Oldest queued tasks /metrics reads for the starvation gauge.
+const STARVATION_SAMPLE = 100;
+// Store archives are far larger than API payloads; Fastify defaults to 1 MiB.
+const ARCHIVE_BODY_LIMIT = 256 * 1024 * 1024;
 
 function extractNodeJwt(
   req: FastifyRequest,
@@ -38,15 +170,63 @@ function extractNodeJwt(
   return mgr.verify(raw);
 }
 
+/** Status code and body of a route response, for logic shared by single and batch routes. */
+type RouteOutcome = { code: number; body: Record<string, unknown> };
+
+const outcome = (code: number, body: Record<string, unknown>): RouteOutcome => ({ code, body });
+
+/** Status code and body for errors the routes expect; undefined for anything else. */
+function knownErrorReply(err: unknown): RouteOutcome | undefined {
+  if (err instanceof TaskRevisionConflictError) {
+    return outcome(409, {
+      ok: false,
+      error: "revision_conflict",
+      taskId: err.taskId,
+      expectedRevision: err.expectedRevision,
+      revision: err.actualRevision,
+    });
+  }
+  if (err instanceof DependencyCycleError) {
+    return outcome(400, {
+      ok: false,
+      error: "dependency_cycle",
+      taskId: err.taskId,
+      cycle: err.cycle,
+    });
+  }
+  if (err instanceof InvalidTransitionError) {
+    return outcome(409, {
+      ok: false,
+      error: "invalid_transition",
+      taskId: err.taskId,
+      from: err.from,
+      to: err.to,
+    });
+  }
+  return undefined;
+}
+
 export function buildControlPlane(
-  store: ControlPlaneStore = createStore(),
+  givenStore?: ControlPlaneStore,
   options: {
     plugins?: EdgeMeshPlugin[];
     nodeJwtManager?: NodeJwtManager;
     reaperIntervalMs?: number;
+    /** How long an offline node keeps its tasks; defaults to EDGEMESH_NODE_LOST_GRACE_MS. */
+    nodeLostGraceMs?: number;
+    /** How often due schedules are materialized. Default 1000. */
+    scheduleIntervalMs?: number;
+    /** Terminal task/DLQ retention; defaults to EDGEMESH_RETENTION_* env, else keep forever. */
+    retention?: RetentionPolicy | null;
+    retentionIntervalMs?: number;
+    /** Claim admission from heartbeat telemetry; EDGEMESH_ADMISSION, off by default. */
+    admission?: AdmissionPolicy | null;
+    /** How long an idempotency key dedupes resubmissions; defaults to EDGEMESH_DEDUPE_WINDOW_MS. */
+    dedupeWindowMs?: number;
   } = {}
 ): FastifyInstance {
   const app = Fastify({ logger: true });
+  const store = givenStore ?? createStore(storeUrlFromEnv(), storeOptionsFromEnv());
 
   // Rate limiting: protect against DoS attacks
   app.register(rateLimit, {
@@ -64,6 +244,8 @@ export function buildControlPlane(
     throw new Error("EDGEMESH_ADMIN_SECRET must be set in production");
   }
   const adminSecret = envAdminSecret ?? "admin-dev";
+  const admission = options.admission !== undefined ? options.admission : admissionPolicyFromEnv();
+  const dedupeWindowMs = options.dedupeWindowMs ?? dedupeWindowFromEnv();
 
   const events: EdgeMeshEvent[] = [];
   const ctx = {
@@ -89,15 +271,30 @@ export function buildControlPlane(
     };
   }
 
+  // Task mutations below are compare-and-set against the revision each handler
+  // read; losing a race to another writer (reaper, cancel, a late result) is a 409.
+  app.setErrorHandler((err, _req, reply) => {
+    const known = knownErrorReply(err);
+    if (known) return reply.code(known.code).send(known.body);
+    return reply.send(err);
+  });
+
   app.get("/health", async () => ({ ok: true }));
 
   app.get("/metrics", async (_req, reply) => {
-    const [allTasks, allNodes] = await Promise.all([store.listTasks(), store.listNodes()]);
+    const [taskCounts, allNodes] = await Promise.all([
+      store.countTasksByStatus(),
+      store.listNodes(),
+    ]);
 
-    const queueDepth = allTasks.filter((t) => t.status === "queued").length;
-    const runningTasks = allTasks.filter(
-      (t) => t.status === "claimed" || t.status === "running"
-    ).length;
+    const queueDepth = taskCounts.queued;
+    const now = Date.now();
+    let starvationAgeMs = 0;
+    for (const t of await store.listOldestQueuedTasks(STARVATION_SAMPLE)) {
+      if (claimableAt(t) > now) continue;
+      starvationAgeMs = Math.max(starvationAgeMs, now - waitingSince(t));
+    }
+    const runningTasks = taskCounts.claimed + taskCounts.running;
     const nodesByState = { healthy: 0, degraded: 0, offline: 0 };
     for (const n of allNodes) nodesByState[n.freshnessState]++;
 
@@ -120,12 +317,24 @@ export function buildControlPlane(
       "# HELP edgemesh_tasks_failed_total Tasks that failed (terminal) since startup",
       "# TYPE edgemesh_tasks_failed_total counter",
       `edgemesh_tasks_failed_total ${c["event.task.failed"] ?? 0}`,
+      "# HELP edgemesh_tasks_pruned_total Terminal tasks removed by the retention compactor",
+      "# TYPE edgemesh_tasks_pruned_total counter",
+      `edgemesh_tasks_pruned_total ${c["event.task.pruned"] ?? 0}`,
+      "# HELP edgemesh_dlq_pruned_total DLQ entries removed by the retention compactor",
+      "# TYPE edgemesh_dlq_pruned_total counter",
+      `edgemesh_dlq_pruned_total ${c["event.dlq.pruned"] ?? 0}`,
       "# HELP edgemesh_nodes_registered_total Nodes ever registered since startup",
       "# TYPE edgemesh_nodes_registered_total counter",
       `edgemesh_nodes_registered_total ${c["event.node.registered"] ?? 0}`,
       "# HELP edgemesh_queue_depth Current number of queued tasks",
       "# TYPE edgemesh_queue_depth gauge",
       `edgemesh_queue_depth ${queueDepth}`,
+      "# HELP edgemesh_blocked_tasks Current number of tasks waiting on dependencies",
+      "# TYPE edgemesh_blocked_tasks gauge",
+      `edgemesh_blocked_tasks ${taskCounts.blocked}`,
+      "# HELP edgemesh_queue_starvation_age_seconds Longest time a claimable queued task has waited",
+      "# TYPE edgemesh_queue_starvation_age_seconds gauge",
+      `edgemesh_queue_starvation_age_seconds ${starvationAgeMs / 1000}`,
       "# HELP edgemesh_running_tasks Current number of claimed or running tasks",
       "# TYPE edgemesh_running_tasks gauge",
       `edgemesh_running_tasks ${runningTasks}`,
@@ -177,12 +386,19 @@ export function buildControlPlane(
             schemaVersion: { type: "string" },
             nodeId: { type: "string", minLength: 1 },
             region: { type: "string" },
+            zone: { type: "string" },
+            bootId: { type: "string", minLength: 1 },
             capabilities: {
               type: "object",
               required: ["tags", "maxConcurrentTasks"],
               properties: {
                 tags: { type: "array", items: { type: "string" } },
                 maxConcurrentTasks: { type: "integer", minimum: 1, maximum: 100 },
+                resources: RESOURCE_MAP_SCHEMA,
+                gpu: { type: "boolean" },
+                npu: { type: "boolean" },
+                ramGb: { type: "number", minimum: 0 },
+                trustZone: { type: "string", enum: ["local", "trusted-mesh", "cloud"] },
               },
             },
           },
@@ -199,9 +415,15 @@ export function buildControlPlane(
         return reply.code(401).send({ ok: false, error: "node_bootstrap_denied" });
       }
 
+      const known = await store.getNode(req.body.nodeId);
       await store.upsertNode(req.body);
       await store.setNodeTrust(req.body.nodeId, { trusted: true, revoked: false });
       ctx.emit({ type: "node.registered", at: Date.now(), nodeId: req.body.nodeId });
+      // A known node back under a new bootId has restarted: whatever it held is gone.
+      const { bootId } = req.body;
+      if (known && bootId !== undefined && bootId !== known.bootId)
+        await recoverLostNode(store, ctx, req.body.nodeId, "restarted");
+      await joinBroadcasts(store, ctx, req.body.nodeId);
 
       const { token, exp } = nodeJwtManager.issue(req.body.nodeId);
       return { ok: true, nodeId: req.body.nodeId, trusted: true, token, exp };
@@ -251,7 +473,10 @@ export function buildControlPlane(
     return { ok: true };
   });
 
-  app.get("/v1/nodes", async () => ({ nodes: await store.listNodes() }));
+  app.get("/v1/nodes", async () => {
+    const nodes = await store.listNodes();
+    return { nodes, topology: groupByTopology(nodes) };
+  });
 
   app.get<{ Params: { nodeId: string } }>("/v1/nodes/:nodeId/stats", async (req, reply) => {
     const node = await store.getNode(req.params.nodeId);
@@ -261,7 +486,9 @@ export function buildControlPlane(
     const mine = allTasks.filter((t) => t.assignedNodeId === req.params.nodeId);
     const completed = mine.filter((t) => t.status === "done").length;
     const failed = mine.filter((t) => t.status === "failed").length;
-    const running = mine.filter((t) => t.status === "claimed" || t.status === "running").length;
+    const active = mine.filter((t) => t.status === "claimed" || t.status === "running");
+    const running = active.length;
+    const allocated = allocatedResources(active);
     const total = mine.length;
     const successRatio = completed + failed > 0 ? completed / (completed + failed) : null;
 
@@ -274,6 +501,11 @@ export function buildControlPlane(
       tasksFailed: failed,
       tasksRunning: running,
       successRatio,
+      resources: {
+        capacity: node.capabilities.resources ?? {},
+        allocated,
+        free: freeResources(node.capabilities, allocated),
+      },
     };
   });
 
@@ -291,6 +523,10 @@ export function buildControlPlane(
             status: { type: "string", enum: ["healthy", "degraded"] },
             load: { type: "number", minimum: 0, maximum: 1 },
             runningTasks: { type: "integer", minimum: 0 },
+            cpu: { type: "number", minimum: 0, maximum: 1 },
+            memory: { type: "number", minimum: 0, maximum: 1 },
+            temperatureC: { type: "number", minimum: -50, maximum: 200 },
+            activeTaskIds: { type: "array", items: { type: "string" }, maxItems: 1000 },
           },
         },
       },
@@ -307,7 +543,10 @@ export function buildControlPlane(
       const ok = await store.setHeartbeat(req.params.nodeId, req.body);
       if (!ok) return reply.code(404).send({ ok: false, error: "unknown_node" });
       ctx.emit({ type: "node.heartbeat", at: Date.now(), nodeId: req.params.nodeId });
-      return { ok: true };
+      const activeTaskIds = req.body.activeTaskIds;
+      await renewNodeLeases(store, req.params.nodeId, activeTaskIds);
+      if (!activeTaskIds) return { ok: true };
+      return { ok: true, stop: await tasksToStop(store, req.params.nodeId, activeTaskIds) };
     }
   );
 
@@ -355,13 +594,22 @@ export function buildControlPlane(
           required: ["taskId", "kind", "payload"],
           properties: {
             taskId: { type: "string", minLength: 1 },
-            kind: { type: "string", minLength: 1 },
-            payload: { type: "object" },
-            targetNodeId: { type: "string" },
-            requiredTags: { type: "array", items: { type: "string" } },
-            maxAttempts: { type: "integer", minimum: 1, maximum: 10 },
-            priority: { type: "integer", minimum: 0, maximum: 100 },
-            timeoutMs: { type: "integer", minimum: 100, maximum: 300_000 },
+            ...TASK_TEMPLATE_PROPERTIES,
+            runAt: { type: "integer", minimum: 0 },
+            dedupeKey: { type: "string", minLength: 1, maxLength: 256 },
+            broadcast: {
+              type: "object",
+              additionalProperties: false,
+              properties: {
+                lateJoinWindowMs: { type: "integer", minimum: 0, maximum: 7 * 24 * 3_600_000 },
+              },
+            },
+            dependsOn: {
+              type: "array",
+              items: { type: "string", minLength: 1 },
+              maxItems: 100,
+              uniqueItems: true,
+            },
           },
         },
       },
@@ -379,37 +627,156 @@ export function buildControlPlane(
       });
       if (!verify.ok) return reply.code(401).send({ ok: false, error: verify.error });
 
+      const header = req.headers["idempotency-key"];
+      const dedupeKey = (typeof header === "string" && header) || req.body.dedupeKey;
       const newTask: Task = {
         ...req.body,
+        dedupeKey,
         schemaVersion: SCHEMA_VERSION,
-        status: "queued",
+        status: req.body.broadcast || req.body.dependsOn?.length ? "blocked" : "queued",
         createdAt: Date.now(),
       };
-      await store.enqueueTask(newTask);
+      if (newTask.broadcast && (newTask.targetNodeId || newTask.dependsOn?.length))
+        return reply.code(400).send({
+          ok: false,
+          error: "invalid_broadcast",
+          message: "broadcast tasks cannot set targetNodeId or dependsOn",
+        });
+
+      // A resubmission answers with the task it duplicates instead of writing;
+      // reusing a taskId for a different task is a conflict.
+      const duplicate = (original: Task) => ({
+        ok: true,
+        taskId: original.taskId,
+        status: original.status,
+        deduplicated: true,
+      });
+      const resubmitted = (existing: Task) => {
+        const fields = submissionDiff(existing, newTask);
+        if (fields.length === 0) return duplicate(existing);
+        return reply
+          .code(409)
+          .send({ ok: false, error: "task_id_conflict", taskId: existing.taskId, fields });
+      };
+
+      const existing = await store.getTask(newTask.taskId);
+      if (existing) return resubmitted(existing);
+      if (newTask.dependsOn?.length) await assertAcyclic(store, newTask);
+      // A broadcast parent is never claimed; its per-node children are.
+      const targets = newTask.broadcast ? await broadcastTargets(store, newTask) : [];
+      if (newTask.broadcast && targets.length === 0 && !newTask.broadcast.lateJoinWindowMs)
+        return reply.code(409).send({ ok: false, error: "no_eligible_nodes" });
+
+      if (dedupeKey) {
+        const original = await reserveIdempotencyKey(
+          store,
+          dedupeKey,
+          newTask.taskId,
+          dedupeWindowMs
+        );
+        if (original) {
+          const fields = submissionDiff(original, newTask);
+          if (fields.length === 0) return duplicate(original);
+          return reply.code(409).send({
+            ok: false,
+            error: "idempotency_key_conflict",
+            taskId: original.taskId,
+            fields,
+          });
+        }
+      }
+
+      // Another request may have created the same taskId since the read above.
+      const raced = await store.enqueueTaskIfAbsent(newTask);
+      if (raced) return resubmitted(raced);
       ctx.emit({ type: "task.enqueued", at: Date.now(), taskId: newTask.taskId });
-      return { ok: true, taskId: newTask.taskId };
+      if (newTask.status === "queued") {
+        if (claimableAt(newTask) > Date.now()) return { ok: true, taskId: newTask.taskId };
+        const victim = await preemptFor(store, ctx, newTask);
+        return { ok: true, taskId: newTask.taskId, ...(victim && { preempted: victim.taskId }) };
+      }
+      if (newTask.broadcast) {
+        await expandBroadcast(store, ctx, newTask, targets);
+        return { ok: true, taskId: newTask.taskId, status: newTask.status, nodes: targets };
+      }
+
+      // Parents may already be settled; release or cancel the task right away.
+      await settleBlockedTask(store, ctx, (await store.getTask(newTask.taskId))!);
+      const status = (await store.getTask(newTask.taskId))?.status ?? newTask.status;
+      return { ok: true, taskId: newTask.taskId, status };
     }
   );
 
-  app.post<{ Params: { nodeId: string } }>("/v1/nodes/:nodeId/tasks/claim", async (req, reply) => {
-    const jwt = extractNodeJwt(req, nodeJwtManager);
-    if (!jwt.ok) return reply.code(401).send({ ok: false, error: jwt.error });
-    if (jwt.nodeId !== req.params.nodeId)
-      return reply.code(403).send({ ok: false, error: "token_node_mismatch" });
-
-    const task = await store.claimTask(req.params.nodeId);
-    if (task) {
-      ctx.emit({
-        type: "task.claimed",
-        at: Date.now(),
-        nodeId: req.params.nodeId,
-        taskId: task.taskId,
-      });
+  app.post<{ Params: { nodeId: string }; Body: { max?: number; explain?: boolean } | null }>(
+    "/v1/nodes/:nodeId/tasks/claim",
+    {
+      schema: {
+        // The body is optional; without `max` the response carries a single `task`.
+        body: {
+          type: ["object", "null"],
+          properties: {
+            max: { type: "integer", minimum: 1, maximum: MAX_BATCH },
+            explain: { type: "boolean" },
+          },
+        },
+      },
+    },
+    async (req, reply) => {
+      const jwt = extractNodeJwt(req, nodeJwtManager);
+      if (!jwt.ok) return reply.code(401).send({ ok: false, error: jwt.error });
+      if (jwt.nodeId !== req.params.nodeId)
+        return reply.code(403).send({ ok: false, error: "token_node_mismatch" });
+      const max = req.body?.max;
+      const empty = max === undefined ? { task: null } : { tasks: [] };
+
+      // Overheated or saturated nodes get less (throttle) or no (refuse) work.
+      const node = admission ? await store.getNode(req.params.nodeId) : undefined;
+      const reason = admission ? evaluateAdmission(node?.lastHeartbeat, admission) : null;
+      if (reason?.action === "refuse") return { ok: true, ...empty, admission: reason };
+      const claimOptions =
+        reason?.action === "throttle" ? { maxActive: admission!.throttledConcurrency ?? 1 } : {};
+
+      // Each claim is atomic in the store, which also stops at maxConcurrentTasks
+      // and, for a throttled node, at throttledConcurrency.
+      const tasks: Task[] = [];
+      while (tasks.length < (max ?? 1)) {
+        const task = await store.claimTask(req.params.nodeId, claimOptions);
+        if (!task) break;
+        ctx.emit({
+          type: "task.claimed",
+          at: Date.now(),
+          nodeId: req.params.nodeId,
+          taskId: task.taskId,
+        });
+        tasks.push(task);
+      }
+      const claimed = max === undefined ? { task: tasks[0] ?? null } : { tasks };
+      // Tell an idle node that asks which waiting tasks its hardware or trust
+      // zone rules out. That reads the whole queue, so it is not done by default.
+      const rejected =
+        tasks.length === 0 && req.body?.explain ? await rejectionsFor(req.params.nodeId) : [];
+      return {
+        ok: true,
+        ...claimed,
+        ...(reason && { admission: reason }),
+        ...(rejected.length > 0 && { rejected }),
+      };
     }
-    return { ok: true, task };
-  });
+  );
+
+  /** Constraint rejections for an empty claim, at most MAX_REJECTIONS of them. */
+  async function rejectionsFor(nodeId: string): Promise<ConstraintRejection[]> {
+    const node = await store.getNode(nodeId);
+    if (!node) return [];
+    const now = Date.now();
+    const due = (await store.listQueuedTasks()).filter((t) => claimableAt(t) <= now);
+    return constraintRejections(due, nodeId, node.capabilities).slice(0, MAX_REJECTIONS);
+  }
 
-  app.post<{ Params: { taskId: string } }>("/v1/tasks/:taskId/ack", async (req, reply) => {
+  app.post<{
+    Params: { taskId: string };
+    Body: { attempt?: number; leaseToken?: string } | undefined;
+  }>("/v1/tasks/:taskId/ack", async (req, reply) => {
     const jwt = extractNodeJwt(req, nodeJwtManager);
     if (!jwt.ok) return reply.code(401).send({ ok: false, error: jwt.error });
 
@@ -417,8 +784,22 @@ export function buildControlPlane(
     if (!task) return reply.code(404).send({ ok: false, error: "task_not_found" });
     if (task.assignedNodeId !== jwt.nodeId)
       return reply.code(403).send({ ok: false, error: "token_node_mismatch" });
-
-    await store.setTaskStatus(req.params.taskId, "running");
+    if (!canTransition(task.status, "running"))
+      return reply.code(409).send({
+        ok: false,
+        error: "invalid_transition",
+        taskId: task.taskId,
+        from: task.status,
+        to: "running",
+      });
+    const attempt = req.body?.attempt;
+    if (attempt !== undefined && attempt !== task.attempt)
+      return reply.code(409).send({ ok: false, error: "stale_attempt", attempt: task.attempt });
+    const leaseToken = req.body?.leaseToken;
+    if (leaseToken !== undefined && leaseToken !== task.leaseToken)
+      return reply.code(409).send({ ok: false, error: "stale_lease" });
+
+    await store.setTaskStatus(req.params.taskId, "running", task.revision);
     ctx.emit({
       type: "task.running",
       at: Date.now(),
@@ -428,82 +809,158 @@ export function buildControlPlane(
     return { ok: true };
   });
 
-  app.post<{ Params: { taskId: string }; Body: TaskResult }>(
-    "/v1/tasks/:taskId/result",
+  app.post<{ Params: { taskId: string }; Body: { leaseToken: string } }>(
+    "/v1/tasks/:taskId/lease",
     {
       schema: {
         body: {
           type: "object",
-          required: ["schemaVersion", "taskId", "nodeId", "ok", "finishedAt"],
-          properties: {
-            schemaVersion: { type: "string" },
-            taskId: { type: "string" },
-            nodeId: { type: "string" },
-            ok: { type: "boolean" },
-            output: { type: "object" },
-            error: { type: "string" },
-            finishedAt: { type: "number" },
-          },
+          required: ["leaseToken"],
+          properties: { leaseToken: { type: "string", minLength: 1 } },
         },
       },
     },
     async (req, reply) => {
       const jwt = extractNodeJwt(req, nodeJwtManager);
       if (!jwt.ok) return reply.code(401).send({ ok: false, error: jwt.error });
-      if (req.body.nodeId !== jwt.nodeId)
-        return reply.code(403).send({ ok: false, error: "token_node_mismatch" });
 
       const task = await store.getTask(req.params.taskId);
       if (!task) return reply.code(404).send({ ok: false, error: "task_not_found" });
+      if (task.assignedNodeId !== jwt.nodeId)
+        return reply.code(403).send({ ok: false, error: "token_node_mismatch" });
+      // Only the current claim's token renews; an older claim of this node is fenced too.
+      const renewed = await store.renewLease(task.taskId, req.body.leaseToken);
+      if (!renewed) return reply.code(409).send({ ok: false, error: "stale_lease" });
+      return { ok: true, leaseExpiresAt: renewed.leaseExpiresAt };
+    }
+  );
 
-      if (req.body.ok) {
-        await store.setTaskStatus(task.taskId, "done");
-        await store.setTaskResult(req.body);
-        ctx.emit({
-          type: "task.done",
-          at: Date.now(),
-          taskId: task.taskId,
-          nodeId: req.body.nodeId,
-        });
-        return { ok: true };
-      }
-
-      const retry = computeRetryDecision({
-        attempt: task.attempt ?? 1,
-        maxAttempts: task.maxAttempts ?? 3,
+  /** Applies one result from `nodeId`, which the caller has authenticated. */
+  async function applyResult(
+    nodeId: string,
+    taskId: string,
+    result: TaskResult
+  ): Promise<RouteOutcome> {
+    if (result.nodeId !== nodeId) return outcome(403, { ok: false, error: "token_node_mismatch" });
+
+    const task = await store.getTask(taskId);
+    if (!task) return outcome(404, { ok: false, error: "task_not_found" });
+    // Only the node holding the current claim may finish it, and only once.
+    if (task.assignedNodeId !== nodeId)
+      return outcome(403, { ok: false, error: "token_node_mismatch" });
+    if (!RETRYABLE_STATUSES.includes(task.status))
+      return outcome(409, {
+        ok: false,
+        error: "invalid_transition",
+        taskId: task.taskId,
+        from: task.status,
+        to: result.ok ? "done" : "failed",
+      });
+    if (result.attempt !== undefined && result.attempt !== task.attempt)
+      return outcome(409, { ok: false, error: "stale_attempt", attempt: task.attempt });
+    if (result.leaseToken !== undefined && result.leaseToken !== task.leaseToken)
+      return outcome(409, { ok: false, error: "stale_lease" });
+
+    if (result.ok) {
+      await store.setTaskStatus(task.taskId, "done", task.revision);
+      await store.setTaskResult(result);
+      ctx.emit({
+        type: "task.done",
+        at: Date.now(),
+        taskId: task.taskId,
+        nodeId: result.nodeId,
       });
+      await releaseDependents(store, ctx, task.taskId);
+      await settleBroadcast(store, ctx, task.taskId);
+      return outcome(200, { ok: true });
+    }
 
-      if (retry.retry) {
-        await store.requeueForRetry(task.taskId, Date.now() + retry.delayMs);
-        ctx.emit({
-          type: "task.failed",
-          at: Date.now(),
-          taskId: task.taskId,
-          nodeId: req.body.nodeId,
-          detail: { retrying: true, attempt: task.attempt, delayMs: retry.delayMs },
-        });
-        return { ok: true, retrying: true, delayMs: retry.delayMs };
-      }
+    const retry = computeRetryDecision({
+      attempt: chargedAttempts(task),
+      maxAttempts: task.maxAttempts ?? 3,
+    });
 
-      await store.setTaskStatus(task.taskId, "failed");
-      await store.setTaskResult(req.body);
-      const dlqEntry: DlqEntry = {
-        schemaVersion: SCHEMA_VERSION,
-        taskId: task.taskId,
-        task,
-        lastResult: req.body,
-        reason: "max_attempts_exhausted",
-        enqueuedAt: Date.now(),
-      };
-      await store.enqueueDlq(dlqEntry);
+    if (retry.retry) {
+      await store.requeueForRetry(task.taskId, Date.now() + retry.delayMs, task.revision);
       ctx.emit({
         type: "task.failed",
         at: Date.now(),
         taskId: task.taskId,
-        nodeId: req.body.nodeId,
-        detail: { retrying: false, toDlq: retry.toDlq },
+        nodeId: result.nodeId,
+        detail: { retrying: true, attempt: task.attempt, delayMs: retry.delayMs },
       });
-      return { ok: true, retrying: false, toDlq: true };
+      return outcome(200, { ok: true, retrying: true, delayMs: retry.delayMs });
+    }
+
+    await store.setTaskStatus(task.taskId, "failed", task.revision);
+    await store.setTaskResult(result);
+    const dlqEntry: DlqEntry = {
+      schemaVersion: SCHEMA_VERSION,
+      taskId: task.taskId,
+      task,
+      lastResult: result,
+      reason: "max_attempts_exhausted",
+      enqueuedAt: Date.now(),
+    };
+    await store.enqueueDlq(dlqEntry);
+    ctx.emit({
+      type: "task.failed",
+      at: Date.now(),
+      taskId: task.taskId,
+      nodeId: result.nodeId,
+      detail: { retrying: false, toDlq: retry.toDlq },
+    });
+    await releaseDependents(store, ctx, task.taskId);
+    await settleBroadcast(store, ctx, task.taskId);
+    return outcome(200, { ok: true, retrying: false, toDlq: true });
+  }
+
+  app.post<{ Params: { taskId: string }; Body: TaskResult }>(
+    "/v1/tasks/:taskId/result",
+    { schema: { body: TASK_RESULT_SCHEMA } },
+    async (req, reply) => {
+      const jwt = extractNodeJwt(req, nodeJwtManager);
+      if (!jwt.ok) return reply.code(401).send({ ok: false, error: jwt.error });
+      const { code, body } = await applyResult(jwt.nodeId, req.params.taskId, req.body);
+      return reply.code(code).send(body);
+    }
+  );
+
+  app.post<{ Params: { nodeId: string }; Body: { results: TaskResult[] } }>(
+    "/v1/nodes/:nodeId/tasks/results",
+    {
+      schema: {
+        body: {
+          type: "object",
+          required: ["results"],
+          properties: {
+            results: { type: "array", items: TASK_RESULT_SCHEMA, minItems: 1, maxItems: MAX_BATCH },
+          },
+        },
+      },
+    },
+    async (req, reply) => {
+      const jwt = extractNodeJwt(req, nodeJwtManager);
+      if (!jwt.ok) return reply.code(401).send({ ok: false, error: jwt.error });
+      if (jwt.nodeId !== req.params.nodeId)
+        return reply.code(403).send({ ok: false, error: "token_node_mismatch" });
+
+      // Items are applied in order and independently: one rejected result
+      // never undoes or blocks the others.
+      const results: Record<string, unknown>[] = [];
+      for (const result of req.body.results) {
+        let applied: RouteOutcome;
+        try {
+          applied = await applyResult(jwt.nodeId, result.taskId, result);
+        } catch (err) {
+          const known = knownErrorReply(err);
+          if (!known) req.log.error({ err, taskId: result.taskId }, "batch result failed");
+          applied = known ?? outcome(500, { ok: false, error: "internal_error" });
+        }
+        results.push({ taskId: result.taskId, statusCode: applied.code, ...applied.body });
+      }
+      const accepted = results.filter((r) => r.ok).length;
+      return { ok: true, accepted, rejected: results.length - accepted, results };
     }
   );
 
@@ -520,8 +977,11 @@ export function buildControlPlane(
         .code(409)
         .send({ ok: false, error: "task_already_terminal", status: task.status });
 
-    await store.cancelTask(req.params.taskId);
+    await store.cancelTask(req.params.taskId, task.revision);
     ctx.emit({ type: "task.cancelled", at: Date.now(), taskId: req.params.taskId });
+    if (task.broadcast) await cancelBroadcastChildren(store, ctx, task.taskId);
+    await releaseDependents(store, ctx, req.params.taskId);
+    await settleBroadcast(store, ctx, req.params.taskId);
     return { ok: true };
   });
 
@@ -536,7 +996,7 @@ export function buildControlPlane(
           properties: {
             status: {
               type: "string",
-              enum: ["queued", "claimed", "running", "done", "failed", "cancelled"],
+              enum: ["blocked", "queued", "claimed", "running", "done", "failed", "cancelled"],
             },
           },
         },
@@ -545,12 +1005,19 @@ export function buildControlPlane(
     async (req) => ({ ok: true, tasks: await store.listTasks(req.query.status) })
   );
 
-  app.get("/v1/tasks/queue", async () => ({ ok: true, tasks: await store.listQueuedTasks() }));
+  app.get("/v1/tasks/queue", async () => {
+    const now = Date.now();
+    const tasks = (await store.listQueuedTasks()).map((t) => ({
+      ...t,
+      effectivePriority: effectivePriority(t, store.scheduling?.aging, now),
+    }));
+    return { ok: true, tasks };
+  });
   app.get("/v1/tasks/running", async () => ({ ok: true, tasks: await store.listRunningTasks() }));
 
   app.get("/v1/observability/queue-depth", async () => ({
     ok: true,
-    queueDepth: (await store.listTasks("queued")).length,
+    queueDepth: (await store.countTasksByStatus()).queued,
   }));
 
   app.get("/v1/observability/node-health-timeline", async () => {
@@ -564,19 +1031,7 @@ export function buildControlPlane(
   });
 
   app.get("/v1/runs/summary", async () => {
-    const [queuedTasks, claimedTasks, runningTasks, doneTasks, failedTasks] = await Promise.all([
-      store.listTasks("queued"),
-      store.listTasks("claimed"),
-      store.listTasks("running"),
-      store.listTasks("done"),
-      store.listTasks("failed"),
-    ]);
-
-    const queued = queuedTasks.length;
-    const claimed = claimedTasks.length;
-    const running = runningTasks.length;
-    const done = doneTasks.length;
-    const failed = failedTasks.length;
+    const { queued, claimed, running, done, failed } = await store.countTasksByStatus();
 
     const finished = done + failed;
     const successRatio = finished > 0 ? done / finished : null;
@@ -613,6 +1068,20 @@ export function buildControlPlane(
     return { ok: true, task, result: (await store.getTaskResult(task.taskId)) ?? null };
   });
 
+  app.get<{ Params: { taskId: string } }>("/v1/tasks/:taskId/graph", async (req, reply) => {
+    const graph = await dependencyGraph(store, req.params.taskId);
+    if (!graph) return reply.code(404).send({ ok: false, error: "task_not_found" });
+    return { ok: true, taskId: req.params.taskId, ...graph };
+  });
+
+  app.get<{ Params: { taskId: string } }>("/v1/tasks/:taskId/broadcast", async (req, reply) => {
+    const task = await store.getTask(req.params.taskId);
+    if (!task) return reply.code(404).send({ ok: false, error: "task_not_found" });
+    if (!task.broadcast) return reply.code(404).send({ ok: false, error: "not_a_broadcast" });
+    const summary = await broadcastSummary(store, task);
+    return { ok: true, taskId: task.taskId, status: task.status, ...summary };
+  });
+
   // ── DLQ ───────────────────────────────────────────────────────────────────
 
   app.get("/v1/dlq", async () => ({ ok: true, entries: await store.listDlq() }));
@@ -633,15 +1102,251 @@ export function buildControlPlane(
     return { ok: true, taskId: req.params.taskId };
   });
 
+  // ── Schedules ─────────────────────────────────────────────────────────────
+
+  app.post<{
+    Body: Pick<Schedule, "scheduleId" | "cron" | "task"> &
+      Partial<Pick<Schedule, "overlap" | "catchUp">>;
+  }>(
+    "/v1/schedules",
+    {
+      schema: {
+        body: {
+          type: "object",
+          required: ["scheduleId", "cron", "task"],
+          properties: {
+            scheduleId: { type: "string", minLength: 1, maxLength: 128 },
+            cron: { type: "string", minLength: 1 },
+            task: {
+              type: "object",
+              required: ["kind", "payload"],
+              properties: TASK_TEMPLATE_PROPERTIES,
+              additionalProperties: false,
+            },
+            overlap: { type: "string", enum: ["skip", "queue", "cancel-previous"] },
+            catchUp: { type: "string", enum: ["none", "latest", "all"] },
+          },
+        },
+      },
+    },
+    async (req, reply) => {
+      const adminToken = req.headers["x-admin-token"];
+      if (adminToken !== adminSecret)
+        return reply.code(401).send({ ok: false, error: "unauthorized" });
+
+      const now = Date.now();
+      let nextRunAt: number;
+      try {
+        nextRunAt = firstRunAt(req.body.cron, now);
+      } catch (err) {
+        return reply
+          .code(400)
+          .send({ ok: false, error: "invalid_cron", message: (err as Error).message });
+      }
+
+      // Replacing a schedule keeps its run history so overlap still sees the last task.
+      const existing = await store.getSchedule(req.body.scheduleId);
+      const schedule: Schedule = {
+        schemaVersion: SCHEMA_VERSION,
+        scheduleId: req.body.scheduleId,
+        cron: req.body.cron,
+        task: req.body.task,
+        overlap: req.body.overlap ?? "skip",
+        catchUp: req.body.catchUp ?? "latest",
+        createdAt: existing?.createdAt ?? now,
+        nextRunAt,
+        lastRunAt: existing?.lastRunAt,
+        lastTaskId: existing?.lastTaskId,
+      };
+      await store.saveSchedule(schedule);
+      ctx.emit({
+        type: "schedule.saved",
+        at: now,
+        detail: { scheduleId: schedule.scheduleId, nextRunAt },
+      });
+      return { ok: true, schedule: await store.getSchedule(schedule.scheduleId) };
+    }
+  );
+
+  app.get("/v1/schedules", async () => ({ ok: true, schedules: await store.listSchedules() }));
+
+  app.get<{ Params: { scheduleId: string } }>("/v1/schedules/:scheduleId", async (req, reply) => {
+    const schedule = await store.getSchedule(req.params.scheduleId);
+    if (!schedule) return reply.code(404).send({ ok: false, error: "schedule_not_found" });
+    return { ok: true, schedule };
+  });
+
+  app.delete<{ Params: { scheduleId: string } }>(
+    "/v1/schedules/:scheduleId",
+    async (req, reply) => {
+      const adminToken = req.headers["x-admin-token"];
+      if (adminToken !== adminSecret)
+        return reply.code(401).send({ ok: false, error: "unauthorized" });
+      if (!(await store.deleteSchedule(req.params.scheduleId)))
+        return reply.code(404).send({ ok: false, error: "schedule_not_found" });
+      ctx.emit({
+        type: "schedule.deleted",
+        at: Date.now(),
+        detail: { scheduleId: req.params.scheduleId },
+      });
+      return { ok: true };
+    }
+  );
+
+  // ── Concurrency limits ────────────────────────────────────────────────────
+
+  app.get("/v1/limits", async () => {
+    const limits = await store.listConcurrencyLimits();
+    // Claimed/running tasks are bounded by node capacity; queued ones are counted in the store.
+    const [running, waiting] = await Promise.all([
+      store.listRunningTasks(),
+      store.countWaitingTasks(limits),
+    ]);
+    return { ok: true, limits: limitStatus(limits, running, waiting) };
+  });
+
+  app.put<{ Params: Pick<ConcurrencyLimit, "scope" | "name">; Body: { max: number } }>(
+    "/v1/limits/:scope/:name",
+    {
+      schema: {
+        params: LIMIT_PARAMS_SCHEMA,
+        body: {
+          type: "object",
+          required: ["max"],
+          properties: { max: { type: "integer", minimum: 0 } },
+        },
+      },
+    },
+    async (req, reply) => {
+      const adminToken = req.headers["x-admin-token"];
+      if (adminToken !== adminSecret)
+        return reply.code(401).send({ ok: false, error: "unauthorized" });
+      const limit: ConcurrencyLimit = {
+        schemaVersion: SCHEMA_VERSION,
+        scope: req.params.scope,
+        name: req.params.name,
+        max: req.body.max,
+        updatedAt: Date.now(),
+      };
+      await store.saveConcurrencyLimit(limit);
+      ctx.emit({
+        type: "limit.saved",
+        at: limit.updatedAt,
+        detail: { scope: limit.scope, name: limit.name, max: limit.max },
+      });
+      return { ok: true, limit };
+    }
+  );
+
+  app.delete<{ Params: Pick<ConcurrencyLimit, "scope" | "name"> }>(
+    "/v1/limits/:scope/:name",
+    { schema: { params: LIMIT_PARAMS_SCHEMA } },
+    async (req, reply) => {
+      const adminToken = req.headers["x-admin-token"];
+      if (adminToken !== adminSecret)
+        return reply.code(401).send({ ok: false, error: "unauthorized" });
+      const { scope, name } = req.params;
+      if (!(await store.deleteConcurrencyLimit(scope, name)))
+        return reply.code(404).send({ ok: false, error: "limit_not_found" });
+      ctx.emit({ type: "limit.deleted", at: Date.now(), detail: { scope, name } });
+      return { ok: true };
+    }
+  );
+
+  // ── Store export / import ─────────────────────────────────────────────────
+
+  app.addContentTypeParser("application/x-ndjson", { parseAs: "string" }, (_req, body, done) =>
+    done(null, body)
+  );
+
+  app.get<{ Querystring: { format?: string } }>("/v1/admin/store/export", async (req, reply) => {
+    const adminToken = req.headers["x-admin-token"];
+    if (adminToken !== adminSecret)
+      return reply.code(401).send({ ok: false, error: "unauthorized" });
+    let archive: StoreArchive;
+    try {
+      archive = await exportStore(store);
+    } catch (err) {
+      if (!(err instanceof StoreBusyError)) throw err;
+      return reply.code(409).send({ ok: false, error: "store_busy", message: err.message });
+    }
+    if (req.query.format === "json") return archive;
+    reply.header("content-type", "application/x-ndjson; charset=utf-8");
+    return serializeStoreArchive(archive);
+  });
+
+  app.post("/v1/admin/store/import", { bodyLimit: ARCHIVE_BODY_LIMIT }, async (req, reply) => {
+    const adminToken = req.headers["x-admin-token"];
+    if (adminToken !== adminSecret)
+      return reply.code(401).send({ ok: false, error: "unauthorized" });
+    let archive: StoreArchive;
+    try {
+      archive = parseStoreArchive(req.body);
+    } catch (err) {
+      return reply
+        .code(400)
+        .send({ ok: false, error: "invalid_archive", message: (err as Error).message });
+    }
+    const imported = await importStore(store, archive);
+    return { ok: true, imported };
+  });
+
   // Start timeout reaper; clear it on shutdown so tests don't leak open handles.
-  const reaperHandle = startTimeoutReaper(store, ctx, options.reaperIntervalMs ?? 5_000);
+  const reaperHandle = startTimeoutReaper(
+    store,
+    ctx,
+    app.log,
+    options.reaperIntervalMs ?? 5_000,
+    options.nodeLostGraceMs ?? nodeLostGraceFromEnv()
+  );
   app.addHook("onClose", async () => clearInterval(reaperHandle));
 
+  const schedulerHandle = startScheduler(store, ctx, app.log, options.scheduleIntervalMs ?? 1_000);
+  app.addHook("onClose", async () => clearInterval(schedulerHandle));
+
+  const retention = options.retention !== undefined ? options.retention : retentionPolicyFromEnv();
+  if (retention) {
+    const compactorHandle = startRetentionCompactor(
+      store,
+      ctx,
+      app.log,
+      retention,
+      options.retentionIntervalMs ?? 60_000
+    );
+    app.addHook("onClose", async () => clearInterval(compactorHandle));
+  }
+
+  // A store opened here from the environment is this app's to close.
+  if (!givenStore) {
+    app.addHook("onClose", async () => {
+      await store.close?.();
+    });
+  }
+
   return app;
 }
 
+/**
+ * Opens the store named by EDGEMESH_STORE (see storeUrlFromEnv), checks it
+ * answers, migrates data older versions wrote, and only then starts
+ * listening, so a bad URL or an unreachable backend fails startup instead of
+ * the first request.
+ */
 export async function startControlPlane() {
-  const app = buildControlPlane();
+  const store = createStore(storeUrlFromEnv(), storeOptionsFromEnv());
+  let migrated = 0;
+  try {
+    await verifyStore(store, Number(process.env.EDGEMESH_STORE_CONNECT_TIMEOUT_MS ?? 5_000));
+    migrated = (await store.migrate?.()) ?? 0;
+  } catch (err) {
+    void store.close?.().catch(() => undefined);
+    throw err;
+  }
+  const app = buildControlPlane(store);
+  if (migrated > 0) app.log.info(`migrated ${migrated} records written by an older store layout`);
+  app.addHook("onClose", async () => {
+    await store.close?.();
+  });
   const host = process.env.EDGEMESH_HOST ?? "0.0.0.0";
   const port = Number(process.env.EDGEMESH_PORT ?? 8787);
   await app.listen({ host, port });
@@ -650,8 +1355,26 @@ export async function startControlPlane() {
 }
 
 if (import.meta.url === `file://${process.argv[1]}`) {
-  startControlPlane().catch((err) => {
-    console.error(err);
-    process.exit(1);
-  });
+  startControlPlane().then(
+    (app) => {
+      // Close on shutdown so the store flushes and releases what it holds
+      // (the file store's lock) instead of dying with it.
+      for (const signal of ["SIGTERM", "SIGINT"] as const) {
+        process.once(signal, () => {
+          app.log.info(`received ${signal}, shutting down`);
+          app.close().then(
+            () => process.exit(0),
+            (err) => {
+              console.error(err);
+              process.exit(1);
+            }
+          );
+        });
+      }
+    },
+    (err) => {
+      console.error(err);
+      process.exit(1);
+    }
+  );
 }
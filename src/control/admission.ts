@@ -0,0 +1,99 @@
+import type { HeartbeatRequest } from "../contracts.js";
+
+/** Heartbeat readings admission can act on. All are optional except `load`. */
+export type AdmissionMetric = "load" | "cpu" | "memory" | "temperatureC";
+
+const METRICS: AdmissionMetric[] = ["load", "cpu", "memory", "temperatureC"];
+
+/** At or above `throttle` the node gets less work; at or above `refuse`, none. */
+export interface AdmissionLimit {
+  throttle?: number;
+  refuse?: number;
+}
+
+export type AdmissionPolicy = Partial<Record<AdmissionMetric, AdmissionLimit>> & {
+  /** Claimed/running tasks a throttled node may hold. Default 1. */
+  throttledConcurrency?: number;
+};
+
+export interface AdmissionReason {
+  action: "throttle" | "refuse";
+  metric: AdmissionMetric;
+  value: number;
+  limit: number;
+}
+
+/**
+ * Load and memory are fractions (0..1); temperature starts throttling at
+ * 70 °C, where the orchestrator's pickNode starts its thermal penalty.
+ */
+export const DEFAULT_ADMISSION_POLICY: AdmissionPolicy = {
+  load: { throttle: 0.85, refuse: 0.98 },
+  cpu: { throttle: 0.9, refuse: 0.98 },
+  memory: { throttle: 0.85, refuse: 0.95 },
+  temperatureC: { throttle: 70, refuse: 85 },
+};
+
+/**
+ * Checks the node's last heartbeat against `policy`. Returns null when the
+ * node may claim normally; otherwise the most severe breach, refusals first.
+ * Metrics the node does not report are never held against it.
+ */
+export function evaluateAdmission(
+  heartbeat: HeartbeatRequest | undefined,
+  policy: AdmissionPolicy
+): AdmissionReason | null {
+  if (!heartbeat) return null;
+  let throttle: AdmissionReason | null = null;
+  for (const metric of METRICS) {
+    const value = heartbeat[metric];
+    const limit = policy[metric];
+    if (value === undefined || !limit) continue;
+    if (limit.refuse !== undefined && value >= limit.refuse) {
+      return { action: "refuse", metric, value, limit: limit.refuse };
+    }
+    if (!throttle && limit.throttle !== undefined && value >= limit.throttle) {
+      throttle = { action: "throttle", metric, value, limit: limit.throttle };
+    }
+  }
+  return throttle;
+}
+
+/**
+ * Reads EDGEMESH_ADMISSION: unset or "off" disables admission, "on" enables
+ * DEFAULT_ADMISSION_POLICY, a JSON AdmissionPolicy replaces the defaults.
+ */
+export function admissionPolicyFromEnv(
+  env: NodeJS.ProcessEnv = process.env
+): AdmissionPolicy | null {
+  const raw = env.EDGEMESH_ADMISSION?.trim();
+  if (!raw || raw === "off") return null;
+  if (raw === "on") return DEFAULT_ADMISSION_POLICY;
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    throw new Error(`invalid EDGEMESH_ADMISSION: ${raw}`);
+  }
+  const policy = parsed as Record<string, unknown> | null;
+  if (!policy || typeof policy !== "object" || Array.isArray(policy)) {
+    throw new Error(`invalid EDGEMESH_ADMISSION: ${raw}`);
+  }
+  for (const [key, value] of Object.entries(policy)) {
+    if (key === "throttledConcurrency") {
+      if (!Number.isInteger(value) || (value as number) < 0)
+        throw new Error(`invalid EDGEMESH_ADMISSION throttledConcurrency: ${String(value)}`);
+      continue;
+    }
+    if (!METRICS.includes(key as AdmissionMetric))
+      throw new Error(`unknown EDGEMESH_ADMISSION metric: ${key}`);
+    const limit = value as Record<string, unknown> | null;
+    for (const bound of ["throttle", "refuse"]) {
+      const n = limit?.[bound];
+      if (n !== undefined && typeof n !== "number")
+        throw new Error(`invalid EDGEMESH_ADMISSION ${key}.${bound}: ${String(n)}`);
+    }
+  }
+  return policy as AdmissionPolicy;
+}
@@ -0,0 +1,42 @@
+import type { FastifyBaseLogger } from "fastify";
+
+/**
+ * Runs `run`, logging `<name> pass failed` and resolving undefined instead of
+ * rejecting when it throws.
+ */
+export type Phase = <T>(name: string, run: () => Promise<T>) => Promise<T | undefined>;
+
+/**
+ * Runs `pass` every `intervalMs` for the control plane's background loops
+ * (timeout reaper, retention compactor, scheduler).
+ *
+ * A tick that finds the previous pass still running is skipped, so a slow
+ * pass (large backlog, remote store) never overlaps the next one. Work the
+ * pass runs through `phase` fails alone: the error is logged, the rest of the
+ * pass goes on, and the next tick retries. Nothing rejects inside the
+ * interval, where an escaping rejection would take the process down.
+ */
+export function startBackgroundLoop(
+  log: Pick<FastifyBaseLogger, "error">,
+  intervalMs: number,
+  pass: (phase: Phase) => Promise<unknown>
+): ReturnType<typeof setInterval> {
+  const phase: Phase = async (name, run) => {
+    try {
+      return await run();
+    } catch (err) {
+      log.error({ err }, `${name} pass failed`);
+      return undefined;
+    }
+  };
+  let running = false;
+  return setInterval(async () => {
+    if (running) return;
+    running = true;
+    try {
+      await phase("background", () => pass(phase));
+    } finally {
+      running = false;
+    }
+  }, intervalMs);
+}
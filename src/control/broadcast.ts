@@ -0,0 +1,203 @@
+import { TaskRevisionConflictError, type ControlPlaneStore } from "../persistence.js";
+import type { NodeView, Task } from "../contracts.js";
+import type { EdgeMeshPluginContext } from "../plugins/types.js";
+import { InvalidTransitionError, isTerminal } from "../task-state.js";
+import { releaseDependents } from "./dependencies.js";
+import { constraintViolation } from "./constraints.js";
+import { topologyAllows } from "./placement.js";
+
+/** Id of the child a broadcast parent runs on `nodeId`. */
+export function broadcastChildId(parentTaskId: string, nodeId: string): string {
+  return `${parentTaskId}@${nodeId}`;
+}
+
+/** Last moment a node registering late still gets a child of `parent`. */
+export function lateJoinUntil(parent: Task): number {
+  return parent.createdAt + (parent.broadcast?.lateJoinWindowMs ?? 0);
+}
+
+function eligible(node: NodeView, parent: Task, requireFresh: boolean): boolean {
+  if (node.revoked || !node.trusted || node.draining) return false;
+  if (requireFresh && node.freshnessState === "offline") return false;
+  if (!topologyAllows(parent.placement, node)) return false;
+  if (constraintViolation(parent, node.capabilities)) return false;
+  const tags = new Set(node.capabilities.tags);
+  return (parent.requiredTags ?? []).every((tag) => tags.has(tag));
+}
+
+async function enqueueChild(
+  store: ControlPlaneStore,
+  ctx: EdgeMeshPluginContext,
+  parent: Task,
+  nodeId: string,
+  now: number
+): Promise<void> {
+  const child: Task = {
+    schemaVersion: parent.schemaVersion,
+    taskId: broadcastChildId(parent.taskId, nodeId),
+    kind: parent.kind,
+    payload: parent.payload,
+    targetNodeId: nodeId,
+    requiredTags: parent.requiredTags,
+    placement: parent.placement,
+    constraints: parent.constraints,
+    resources: parent.resources,
+    preemptible: parent.preemptible,
+    maxAttempts: parent.maxAttempts,
+    priority: parent.priority,
+    queue: parent.queue,
+    expectedRuntimeMs: parent.expectedRuntimeMs,
+    timeoutMs: parent.timeoutMs,
+    runAt: parent.runAt,
+    parentTaskId: parent.taskId,
+    status: "queued",
+    createdAt: now,
+  };
+  if (await store.enqueueTaskIfAbsent(child)) return;
+  ctx.emit({
+    type: "task.enqueued",
+    at: now,
+    taskId: child.taskId,
+    nodeId,
+    detail: { parentTaskId: parent.taskId },
+  });
+}
+
+/**
+ * Nodes that can run `parent` right now: trusted, not revoked, draining or
+ * offline, inside its region/zone affinity, meeting its privacy and hardware
+ * constraints and carrying its requiredTags. In registration order.
+ */
+export async function broadcastTargets(store: ControlPlaneStore, parent: Task): Promise<string[]> {
+  return (await store.listNodes()).filter((n) => eligible(n, parent, true)).map((n) => n.nodeId);
+}
+
+/** Creates one child of `parent` per node in `nodeIds`. */
+export async function expandBroadcast(
+  store: ControlPlaneStore,
+  ctx: EdgeMeshPluginContext,
+  parent: Task,
+  nodeIds: readonly string[]
+): Promise<void> {
+  for (const nodeId of nodeIds) await enqueueChild(store, ctx, parent, nodeId, parent.createdAt);
+}
+
+/**
+ * Call when `nodeId` registers: gives it a child of every open broadcast whose
+ * late-join window has not closed yet. A node that already has one (e.g. it
+ * re-registered after a restart) is skipped.
+ */
+export async function joinBroadcasts(
+  store: ControlPlaneStore,
+  ctx: EdgeMeshPluginContext,
+  nodeId: string,
+  now = Date.now()
+): Promise<void> {
+  const node = await store.getNode(nodeId);
+  if (!node) return;
+  for (const parent of await store.listTasks("blocked")) {
+    if (!parent.broadcast || lateJoinUntil(parent) < now) continue;
+    // Just-registered nodes have not sent a heartbeat yet, so freshness is not checked.
+    if (eligible(node, parent, false)) await enqueueChild(store, ctx, parent, nodeId, now);
+  }
+}
+
+export interface BroadcastSummary {
+  total: number;
+  counts: Record<Task["status"], number>;
+  nodes: { nodeId: string; taskId: string; status: Task["status"]; error?: string }[];
+  /** False while nodes registering late may still get a child. */
+  closed: boolean;
+}
+
+export async function broadcastSummary(
+  store: ControlPlaneStore,
+  parent: Task,
+  now = Date.now()
+): Promise<BroadcastSummary> {
+  const children = (await store.listChildTasks(parent.taskId)).sort((a, b) =>
+    a.taskId.localeCompare(b.taskId)
+  );
+  const counts: BroadcastSummary["counts"] = {
+    blocked: 0,
+    queued: 0,
+    claimed: 0,
+    running: 0,
+    done: 0,
+    failed: 0,
+    cancelled: 0,
+  };
+  const nodes: BroadcastSummary["nodes"] = [];
+  for (const child of children) {
+    counts[child.status] += 1;
+    const result = child.status === "failed" ? await store.getTaskResult(child.taskId) : undefined;
+    nodes.push({
+      nodeId: child.targetNodeId!,
+      taskId: child.taskId,
+      status: child.status,
+      ...(result?.error !== undefined && { error: result.error }),
+    });
+  }
+  return { total: children.length, counts, nodes, closed: lateJoinUntil(parent) < now };
+}
+
+/**
+ * Finishes a broadcast parent once its late-join window has closed and every
+ * child is final: `done` when all children are done, `failed` otherwise.
+ * Accepts a child (after it settles) or the parent itself; anything else is a
+ * no-op. Losing a race to another settle or a cancel is fine.
+ */
+export async function settleBroadcast(
+  store: ControlPlaneStore,
+  ctx: EdgeMeshPluginContext,
+  taskId: string,
+  now = Date.now()
+): Promise<void> {
+  const task = await store.getTask(taskId);
+  const parent = task?.parentTaskId ? await store.getTask(task.parentTaskId) : task;
+  if (!parent?.broadcast || parent.status !== "blocked") return;
+
+  const summary = await broadcastSummary(store, parent, now);
+  if (!summary.closed || summary.nodes.some((n) => !isTerminal(n.status))) return;
+
+  const status = summary.counts.done === summary.total ? "done" : "failed";
+  try {
+    await store.setTaskStatus(parent.taskId, status, parent.revision);
+  } catch (err) {
+    if (err instanceof TaskRevisionConflictError || err instanceof InvalidTransitionError) return;
+    throw err;
+  }
+  ctx.emit({
+    type: `task.${status}`,
+    at: now,
+    taskId: parent.taskId,
+    detail: { broadcast: summary.counts, total: summary.total },
+  });
+  await releaseDependents(store, ctx, parent.taskId);
+}
+
+/** Cancels every unfinished child of a cancelled broadcast parent. */
+export async function cancelBroadcastChildren(
+  store: ControlPlaneStore,
+  ctx: EdgeMeshPluginContext,
+  parentTaskId: string,
+  now = Date.now()
+): Promise<void> {
+  for (const child of await store.listChildTasks(parentTaskId)) {
+    if (isTerminal(child.status)) continue;
+    try {
+      if (!(await store.cancelTask(child.taskId, child.revision))) continue;
+    } catch (err) {
+      // The child finished or moved on after we listed it.
+      if (err instanceof TaskRevisionConflictError) continue;
+      throw err;
+    }
+    ctx.emit({
+      type: "task.cancelled",
+      at: now,
+      taskId: child.taskId,
+      nodeId: child.targetNodeId,
+      detail: { reason: "broadcast_cancelled", parentTaskId },
+    });
+  }
+}
@@ -0,0 +1,63 @@
+import type { NodeCapabilities, NodeTrustZone, Task, TaskPrivacy } from "../contracts.js";
+
+/** Why a node may not run a task, as reported to the node on an empty claim. */
+export type ConstraintReason =
+  | "privacy-local-only"
+  | "privacy-trusted-mesh"
+  | "gpu-required"
+  | "npu-required"
+  | "ram-insufficient";
+
+// Trust zones each privacy level admits.
+const ALLOWED_ZONES: Record<TaskPrivacy, readonly NodeTrustZone[]> = {
+  "local-only": ["local"],
+  "trusted-mesh": ["local", "trusted-mesh"],
+  "cloud-ok": ["local", "trusted-mesh", "cloud"],
+};
+
+/**
+ * The first constraint of `task` that `capabilities` fail, privacy before
+ * hardware; undefined when the node may run it. Nodes that declare no trust
+ * zone count as `cloud`, and undeclared hardware as absent.
+ */
+export function constraintViolation(
+  task: Pick<Task, "constraints">,
+  capabilities: NodeCapabilities
+): ConstraintReason | undefined {
+  const c = task.constraints;
+  if (!c) return undefined;
+  const privacy = c.privacy ?? "cloud-ok";
+  if (!ALLOWED_ZONES[privacy].includes(capabilities.trustZone ?? "cloud")) {
+    return privacy === "local-only" ? "privacy-local-only" : "privacy-trusted-mesh";
+  }
+  if (c.requiresGpu && !capabilities.gpu) return "gpu-required";
+  if (c.requiresNpu && !capabilities.npu) return "npu-required";
+  if (c.minRamGb !== undefined && (capabilities.ramGb ?? 0) < c.minRamGb) return "ram-insufficient";
+  return undefined;
+}
+
+export interface ConstraintRejection {
+  taskId: string;
+  reason: ConstraintReason;
+}
+
+/**
+ * Of the claimable queued tasks `due`, those the node would otherwise be
+ * offered -- targeted at it or at nobody, and carrying only tags it has --
+ * that its capabilities rule out.
+ */
+export function constraintRejections(
+  due: readonly Task[],
+  nodeId: string,
+  capabilities: NodeCapabilities
+): ConstraintRejection[] {
+  const tags = new Set(capabilities.tags);
+  const rejections: ConstraintRejection[] = [];
+  for (const task of due) {
+    if (task.targetNodeId && task.targetNodeId !== nodeId) continue;
+    if (!(task.requiredTags ?? []).every((tag) => tags.has(tag))) continue;
+    const reason = constraintViolation(task, capabilities);
+    if (reason) rejections.push({ taskId: task.taskId, reason });
+  }
+  return rejections;
+}
@@ -0,0 +1,153 @@
+/**
+ * Five-field cron expressions (minute hour day-of-month month day-of-week),
+ * evaluated in UTC. Fields take `*`, numbers, ranges `a-b`, steps on either
+ * (`a-b/n`), comma lists, and month/weekday names (`jan`, `mon`). Weekday 7 is
+ * Sunday like 0. When both day fields are restricted (do not start with `*`)
+ * a day matching either one fires, as in Vixie cron. `@hourly`, `@daily`,
+ * `@weekly`, `@monthly` and `@yearly` are accepted as shorthands.
+ */
+export interface CronExpression {
+  readonly source: string;
+  readonly minutes: ReadonlySet<number>;
+  readonly hours: ReadonlySet<number>;
+  readonly daysOfMonth: ReadonlySet<number>;
+  readonly months: ReadonlySet<number>;
+  readonly daysOfWeek: ReadonlySet<number>;
+  readonly anyDayOfMonth: boolean;
+  readonly anyDayOfWeek: boolean;
+}
+
+export class InvalidCronError extends Error {
+  constructor(
+    readonly expression: string,
+    reason: string
+  ) {
+    super(`invalid cron expression "${expression}": ${reason}`);
+    this.name = "InvalidCronError";
+  }
+}
+
+const SHORTHANDS: Record<string, string> = {
+  "@yearly": "0 0 1 1 *",
+  "@annually": "0 0 1 1 *",
+  "@monthly": "0 0 1 * *",
+  "@weekly": "0 0 * * 0",
+  "@daily": "0 0 * * *",
+  "@midnight": "0 0 * * *",
+  "@hourly": "0 * * * *",
+};
+
+const MONTHS = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+const WEEKDAYS = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+
+interface FieldSpec {
+  name: string;
+  min: number;
+  max: number;
+  names?: string[];
+  namesFrom?: number;
+}
+
+const FIELDS: FieldSpec[] = [
+  { name: "minute", min: 0, max: 59 },
+  { name: "hour", min: 0, max: 23 },
+  { name: "day of month", min: 1, max: 31 },
+  { name: "month", min: 1, max: 12, names: MONTHS, namesFrom: 1 },
+  { name: "day of week", min: 0, max: 7, names: WEEKDAYS, namesFrom: 0 },
+];
+
+// Far enough to reach the next 29 February from anywhere.
+const SEARCH_LIMIT_MS = 8 * 366 * 24 * 60 * 60 * 1000;
+
+export function parseCron(expression: string): CronExpression {
+  const source = expression.trim();
+  const fields = (SHORTHANDS[source.toLowerCase()] ?? source).split(/\s+/);
+  if (fields.length !== 5)
+    throw new InvalidCronError(expression, `expected 5 fields, got ${fields.length}`);
+
+  const [minutes, hours, daysOfMonth, months, rawDaysOfWeek] = fields.map((field, i) =>
+    parseField(expression, field, FIELDS[i])
+  );
+  const daysOfWeek = new Set([...rawDaysOfWeek].map((d) => (d === 7 ? 0 : d)));
+  return {
+    source,
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    anyDayOfMonth: fields[2].startsWith("*"),
+    anyDayOfWeek: fields[4].startsWith("*"),
+  };
+}
+
+function parseField(expression: string, field: string, spec: FieldSpec): Set<number> {
+  const values = new Set<number>();
+  const value = (raw: string): number => {
+    const named = spec.names?.indexOf(raw.toLowerCase()) ?? -1;
+    const n = named >= 0 ? named + spec.namesFrom! : Number(raw);
+    if (!/^\w+$/.test(raw) || !Number.isInteger(n) || n < spec.min || n > spec.max)
+      throw new InvalidCronError(expression, `bad ${spec.name} value "${raw}"`);
+    return n;
+  };
+
+  for (const part of field.split(",")) {
+    const [range, stepRaw, extra] = part.split("/");
+    if (extra !== undefined || range === "")
+      throw new InvalidCronError(expression, `bad ${spec.name} "${part}"`);
+    const step = stepRaw === undefined ? 1 : Number(stepRaw);
+    if (!Number.isInteger(step) || step < 1)
+      throw new InvalidCronError(expression, `bad ${spec.name} step "${stepRaw}"`);
+
+    let from: number;
+    let to: number;
+    if (range === "*") {
+      [from, to] = [spec.min, spec.max];
+    } else if (range.includes("-")) {
+      const [a, b] = range.split("-");
+      [from, to] = [value(a), value(b)];
+      if (from > to) throw new InvalidCronError(expression, `bad ${spec.name} range "${range}"`);
+    } else {
+      from = value(range);
+      to = stepRaw === undefined ? from : spec.max;
+    }
+    for (let n = from; n <= to; n += step) values.add(n);
+  }
+  return values;
+}
+
+function dayMatches(cron: CronExpression, date: Date): boolean {
+  const dom = cron.daysOfMonth.has(date.getUTCDate());
+  const dow = cron.daysOfWeek.has(date.getUTCDay());
+  if (cron.anyDayOfMonth) return dow;
+  if (cron.anyDayOfWeek) return dom;
+  return dom || dow;
+}
+
+/**
+ * First time strictly after `after` (ms since epoch) that `cron` fires, or
+ * undefined if it never does (e.g. 30 February).
+ */
+export function nextCronTime(cron: CronExpression, after: number): number | undefined {
+  const date = new Date(after);
+  date.setUTCSeconds(0, 0);
+  date.setUTCMinutes(date.getUTCMinutes() + 1);
+  const limit = after + SEARCH_LIMIT_MS;
+
+  while (date.getTime() <= limit) {
+    if (!cron.months.has(date.getUTCMonth() + 1)) {
+      date.setUTCMonth(date.getUTCMonth() + 1, 1);
+      date.setUTCHours(0, 0, 0, 0);
+    } else if (!dayMatches(cron, date)) {
+      date.setUTCDate(date.getUTCDate() + 1);
+      date.setUTCHours(0, 0, 0, 0);
+    } else if (!cron.hours.has(date.getUTCHours())) {
+      date.setUTCHours(date.getUTCHours() + 1, 0, 0, 0);
+    } else if (!cron.minutes.has(date.getUTCMinutes())) {
+      date.setUTCMinutes(date.getUTCMinutes() + 1, 0, 0);
+    } else {
+      return date.getTime();
+    }
+  }
+  return undefined;
+}
@@ -0,0 +1,151 @@
+import { TaskRevisionConflictError, type ControlPlaneStore } from "../persistence.js";
+import type { Task } from "../contracts.js";
+import type { EdgeMeshPluginContext } from "../plugins/types.js";
+import { InvalidTransitionError } from "../task-state.js";
+
+export class DependencyCycleError extends Error {
+  constructor(
+    readonly taskId: string,
+    /** Task ids along the cycle, starting and ending with `taskId`. */
+    readonly cycle: string[]
+  ) {
+    super(`task ${taskId} would create a dependency cycle: ${cycle.join(" -> ")}`);
+    this.name = "DependencyCycleError";
+  }
+}
+
+/**
+ * Walks the parents of a task about to be enqueued and returns the first path
+ * that leads back to it, or null. Parents that are not enqueued yet end the walk.
+ */
+export async function findDependencyCycle(
+  store: ControlPlaneStore,
+  taskId: string,
+  dependsOn: readonly string[]
+): Promise<string[] | null> {
+  const visited = new Set<string>();
+  const walk = async (id: string, path: string[]): Promise<string[] | null> => {
+    if (id === taskId) return [...path, id];
+    if (visited.has(id)) return null;
+    visited.add(id);
+    for (const parent of (await store.getTask(id))?.dependsOn ?? []) {
+      const cycle = await walk(parent, [...path, id]);
+      if (cycle) return cycle;
+    }
+    return null;
+  };
+
+  for (const parent of dependsOn) {
+    const cycle = await walk(parent, [taskId]);
+    if (cycle) return cycle;
+  }
+  return null;
+}
+
+/** Throws DependencyCycleError if enqueueing `task` would close a cycle. */
+export async function assertAcyclic(store: ControlPlaneStore, task: Task): Promise<void> {
+  const cycle = await findDependencyCycle(store, task.taskId, task.dependsOn ?? []);
+  if (cycle) throw new DependencyCycleError(task.taskId, cycle);
+}
+
+/**
+ * Moves a blocked task on once its parents allow it: to `queued` when every
+ * parent is done, to `cancelled` as soon as one is failed or cancelled (and
+ * on down its own dependents). Parents not enqueued yet keep it blocked.
+ * Losing a race to another writer is fine; whoever moved the task wins.
+ */
+export async function settleBlockedTask(
+  store: ControlPlaneStore,
+  ctx: EdgeMeshPluginContext,
+  task: Task
+): Promise<void> {
+  // A blocked broadcast parent waits on its children, not on dependencies.
+  if (task.status !== "blocked" || task.broadcast) return;
+  const parents = await Promise.all((task.dependsOn ?? []).map((id) => store.getTask(id)));
+  const dead = parents.find((p) => p?.status === "failed" || p?.status === "cancelled");
+
+  try {
+    if (dead) {
+      if (!(await store.cancelTask(task.taskId, task.revision))) return;
+      ctx.emit({
+        type: "task.cancelled",
+        at: Date.now(),
+        taskId: task.taskId,
+        detail: { reason: "dependency_failed", dependency: dead.taskId, status: dead.status },
+      });
+      await releaseDependents(store, ctx, task.taskId);
+    } else if (parents.every((p) => p?.status === "done")) {
+      await store.setTaskStatus(task.taskId, "queued", task.revision);
+      ctx.emit({ type: "task.unblocked", at: Date.now(), taskId: task.taskId });
+    }
+  } catch (err) {
+    if (!(err instanceof TaskRevisionConflictError || err instanceof InvalidTransitionError))
+      throw err;
+  }
+}
+
+/**
+ * Call after `taskId` reaches done, final failure or cancelled: settles every
+ * blocked task that depends on it.
+ */
+export async function releaseDependents(
+  store: ControlPlaneStore,
+  ctx: EdgeMeshPluginContext,
+  taskId: string
+): Promise<void> {
+  for (const task of await store.listDependentTasks(taskId)) {
+    await settleBlockedTask(store, ctx, task);
+  }
+}
+
+export interface DependencyGraphNode {
+  taskId: string;
+  /** `missing` for a parent that was named in dependsOn but never enqueued (or was pruned). */
+  status: Task["status"] | "missing";
+  dependsOn: string[];
+}
+
+export interface DependencyGraph {
+  nodes: DependencyGraphNode[];
+  /** Parent to child. */
+  edges: { from: string; to: string }[];
+}
+
+/**
+ * Returns the DAG `taskId` belongs to: every task reachable from it through
+ * dependsOn links in either direction. Undefined if the task does not exist.
+ */
+export async function dependencyGraph(
+  store: ControlPlaneStore,
+  taskId: string
+): Promise<DependencyGraph | undefined> {
+  const root = await store.getTask(taskId);
+  if (!root) return undefined;
+
+  // Walks one link at a time, so only the tasks of this DAG are read.
+  const tasks = new Map<string, Task>([[taskId, root]]);
+  const seen = new Set<string>([taskId]);
+  const pending = [taskId];
+  while (pending.length > 0) {
+    const id = pending.pop()!;
+    const task = tasks.get(id) ?? (await store.getTask(id));
+    if (task) tasks.set(id, task);
+    const children = await store.listDependentTasks(id);
+    for (const child of children) tasks.set(child.taskId, child);
+    for (const next of [...(task?.dependsOn ?? []), ...children.map((c) => c.taskId)]) {
+      if (seen.has(next)) continue;
+      seen.add(next);
+      pending.push(next);
+    }
+  }
+
+  const ids = [...seen].sort();
+  return {
+    nodes: ids.map((id) => ({
+      taskId: id,
+      status: tasks.get(id)?.status ?? "missing",
+      dependsOn: tasks.get(id)?.dependsOn ?? [],
+    })),
+    edges: ids.flatMap((id) => (tasks.get(id)?.dependsOn ?? []).map((from) => ({ from, to: id }))),
+  };
+}
@@ -0,0 +1,78 @@
+import type { Task } from "../contracts.js";
+import type { ControlPlaneStore } from "../persistence.js";
+
+/** How long an idempotency key keeps answering with the task it created. */
+export const DEFAULT_DEDUPE_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+/** Task fields a client chooses on submission; everything else is set by the control plane. */
+const SUBMITTED_FIELDS = [
+  "kind",
+  "payload",
+  "targetNodeId",
+  "requiredTags",
+  "placement",
+  "constraints",
+  "resources",
+  "preemptible",
+  "maxAttempts",
+  "priority",
+  "timeoutMs",
+  "queue",
+  "expectedRuntimeMs",
+  "runAt",
+  "dependsOn",
+  "broadcast",
+] as const satisfies readonly (keyof Task)[];
+
+/** JSON with object keys sorted, so `{a, b}` and `{b, a}` compare equal. */
+function canonical(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonical).join(",")}]`;
+  if (value !== null && typeof value === "object") {
+    const entries = Object.entries(value)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonical(v)}`).join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "null";
+}
+
+/**
+ * Submitted fields in which `incoming` differs from `existing`; empty when it
+ * is a resubmission of the same task.
+ */
+export function submissionDiff(existing: Task, incoming: Task): string[] {
+  return SUBMITTED_FIELDS.filter(
+    (field) => canonical(existing[field]) !== canonical(incoming[field])
+  );
+}
+
+/**
+ * Binds `key` to `taskId` for `ttlMs` and returns the task the key already
+ * dedupes to, if any. A key still bound to a task retention has since pruned
+ * is rebound to `taskId`, so it dedupes the new task for a full window.
+ */
+export async function reserveIdempotencyKey(
+  store: ControlPlaneStore,
+  key: string,
+  taskId: string,
+  ttlMs: number
+): Promise<Task | undefined> {
+  // Retry once in case another request rebinds the same pruned key first.
+  for (let i = 0; i < 2; i++) {
+    const boundTo = await store.reserveDedupeKey(key, taskId, ttlMs);
+    if (boundTo === undefined) return undefined;
+    const original = await store.getTask(boundTo);
+    if (original) return original;
+    const record = { key, taskId, expiresAt: Date.now() + ttlMs };
+    if (await store.saveDedupeKey(record, boundTo)) return undefined;
+  }
+  throw new Error(`idempotency key ${key} changed concurrently`);
+}
+
+export function dedupeWindowFromEnv(env: NodeJS.ProcessEnv = process.env): number {
+  const raw = env.EDGEMESH_DEDUPE_WINDOW_MS;
+  if (raw === undefined || raw === "") return DEFAULT_DEDUPE_WINDOW_MS;
+  const ms = Number(raw);
+  if (!Number.isInteger(ms) || ms <= 0) throw new Error(`invalid dedupe window: ${raw}`);
+  return ms;
+}
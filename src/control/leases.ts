@@ -0,0 +1,22 @@
+import type { ControlPlaneStore } from "../persistence.js";
+import { RETRYABLE_STATUSES } from "../task-state.js";
+
+/**
+ * Heartbeat renewal: extends the leases of the claimed/running tasks assigned
+ * to `nodeId` -- only those in `activeTaskIds` when the node lists them, so a
+ * task the node silently dropped still lapses.
+ */
+export async function renewNodeLeases(
+  store: ControlPlaneStore,
+  nodeId: string,
+  activeTaskIds?: readonly string[]
+): Promise<void> {
+  const tasks = activeTaskIds
+    ? await Promise.all(activeTaskIds.map((id) => store.getTask(id)))
+    : await store.listNodeTasks(nodeId);
+  for (const task of tasks) {
+    if (!task?.leaseToken || task.assignedNodeId !== nodeId) continue;
+    if (!RETRYABLE_STATUSES.includes(task.status)) continue;
+    await store.renewLease(task.taskId, task.leaseToken);
+  }
+}
@@ -0,0 +1,74 @@
+import type { ConcurrencyLimit, Task } from "../contracts.js";
+
+/** Claimed/running tasks per concurrency limit; see `limitUsage`. */
+export type LimitUsage = Map<string, number>;
+
+const limitKey = (scope: ConcurrencyLimit["scope"], name: string) => JSON.stringify([scope, name]);
+
+/** True when `limit` counts `task`: its kind, or one of its required tags. */
+export function limitApplies(limit: ConcurrencyLimit, task: Task): boolean {
+  return limit.scope === "kind"
+    ? task.kind === limit.name
+    : (task.requiredTags ?? []).includes(limit.name);
+}
+
+/**
+ * Counts `active` tasks against every limit. Tasks without an assigned node
+ * hold no slot and are not counted.
+ */
+export function limitUsage(
+  active: Iterable<Task>,
+  limits: readonly ConcurrencyLimit[]
+): LimitUsage {
+  const usage: LimitUsage = new Map();
+  for (const task of active) {
+    if (!task.assignedNodeId) continue;
+    for (const limit of limits) {
+      if (!limitApplies(limit, task)) continue;
+      const key = limitKey(limit.scope, limit.name);
+      usage.set(key, (usage.get(key) ?? 0) + 1);
+    }
+  }
+  return usage;
+}
+
+/** True when claiming `task` keeps every limit that applies to it within `max`. */
+export function limitsAllow(
+  task: Task,
+  limits: readonly ConcurrencyLimit[],
+  usage: LimitUsage
+): boolean {
+  return limits.every(
+    (limit) =>
+      !limitApplies(limit, task) || (usage.get(limitKey(limit.scope, limit.name)) ?? 0) < limit.max
+  );
+}
+
+export interface LimitStatus {
+  scope: ConcurrencyLimit["scope"];
+  name: string;
+  max: number;
+  /** Claimed/running tasks the limit counts. */
+  inUse: number;
+  /** Queued tasks the limit counts. */
+  waiting: number;
+}
+
+/**
+ * Current in-use and waiting counts per limit, in the order given. `waiting`
+ * holds the store's queued counts in the same order (countWaitingTasks).
+ */
+export function limitStatus(
+  limits: readonly ConcurrencyLimit[],
+  active: readonly Task[],
+  waiting: readonly number[]
+): LimitStatus[] {
+  const usage = limitUsage(active, limits);
+  return limits.map((limit, i) => ({
+    scope: limit.scope,
+    name: limit.name,
+    max: limit.max,
+    inUse: usage.get(limitKey(limit.scope, limit.name)) ?? 0,
+    waiting: waiting[i] ?? 0,
+  }));
+}
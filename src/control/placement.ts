@@ -0,0 +1,100 @@
+import type { RegisterNodeRequest, Task, TaskPlacement } from "../contracts.js";
+
+/** Claimed/running tasks per spread group and topology domain; see `spreadLoad`. */
+export type SpreadLoad = Map<string, number>;
+
+const domainKey = (group: string, by: "region" | "zone", domain: string) =>
+  JSON.stringify([group, by, domain]);
+
+function inList(value: string | undefined, list: readonly string[] | undefined): boolean {
+  return value !== undefined && (list ?? []).includes(value);
+}
+
+/**
+ * Region and zone affinity: a node outside a non-empty `regions`/`zones`
+ * list, or inside `avoidRegions`/`avoidZones`, is never eligible. Nodes that
+ * advertise no region or zone only pass the lists that do not ask for one.
+ */
+export function topologyAllows(
+  placement: TaskPlacement | undefined,
+  node: RegisterNodeRequest
+): boolean {
+  if (!placement) return true;
+  if (placement.regions?.length && !inList(node.region, placement.regions)) return false;
+  if (placement.zones?.length && !inList(node.zone, placement.zones)) return false;
+  if (inList(node.region, placement.avoidRegions)) return false;
+  if (inList(node.zone, placement.avoidZones)) return false;
+  return true;
+}
+
+/** True when any of `tasks` has a spread constraint, i.e. claiming needs a `SpreadLoad`. */
+export function needsSpreadLoad(tasks: readonly Task[]): boolean {
+  return tasks.some((t) => t.placement?.spread);
+}
+
+/**
+ * The `SpreadLoad` key `task` counts against while `node` holds it; undefined
+ * without a spread constraint or when the node does not advertise the domain.
+ */
+export function spreadKey(task: Task, node: RegisterNodeRequest): string | undefined {
+  const spread = task.placement?.spread;
+  if (!spread) return undefined;
+  const domain = node[spread.by];
+  return domain === undefined ? undefined : domainKey(spread.group, spread.by, domain);
+}
+
+/** Counts `active` tasks with a spread group by the region and zone of their node. */
+export function spreadLoad(
+  active: Iterable<Task>,
+  nodeOf: (nodeId: string) => RegisterNodeRequest | undefined
+): SpreadLoad {
+  const load: SpreadLoad = new Map();
+  for (const task of active) {
+    const node = task.assignedNodeId ? nodeOf(task.assignedNodeId) : undefined;
+    const key = node && spreadKey(task, node);
+    if (key === undefined) continue;
+    load.set(key, (load.get(key) ?? 0) + 1);
+  }
+  return load;
+}
+
+/**
+ * Affinity plus spread: with a spread constraint the node must advertise the
+ * spread's region/zone, and that domain must hold fewer than `maxPerDomain`
+ * claimed/running tasks of the group.
+ */
+export function placementAllows(task: Task, node: RegisterNodeRequest, load: SpreadLoad): boolean {
+  if (!topologyAllows(task.placement, node)) return false;
+  const spread = task.placement?.spread;
+  if (!spread) return true;
+  const key = spreadKey(task, node);
+  if (key === undefined) return false;
+  return (load.get(key) ?? 0) < spread.maxPerDomain;
+}
+
+export interface TopologyGroup {
+  region: string | null;
+  zones: { zone: string | null; nodes: string[] }[];
+}
+
+/** Node ids grouped by region, then zone; unlabelled nodes sort last under `null`. */
+export function groupByTopology(nodes: readonly RegisterNodeRequest[]): TopologyGroup[] {
+  const regions = new Map<string | null, Map<string | null, string[]>>();
+  for (const node of nodes) {
+    const region = node.region ?? null;
+    const zones = regions.get(region) ?? new Map<string | null, string[]>();
+    regions.set(region, zones);
+    const zone = node.zone ?? null;
+    zones.set(zone, [...(zones.get(zone) ?? []), node.nodeId]);
+  }
+  const order = (a: string | null, b: string | null) =>
+    a === b ? 0 : a === null ? 1 : b === null ? -1 : a.localeCompare(b);
+  return [...regions]
+    .sort(([a], [b]) => order(a, b))
+    .map(([region, zones]) => ({
+      region,
+      zones: [...zones]
+        .sort(([a], [b]) => order(a, b))
+        .map(([zone, ids]) => ({ zone, nodes: ids.sort() })),
+    }));
+}
@@ -0,0 +1,108 @@
+import { TaskRevisionConflictError, type ControlPlaneStore } from "../persistence.js";
+import type { NodeView, Task } from "../contracts.js";
+import type { EdgeMeshPluginContext } from "../plugins/types.js";
+import { InvalidTransitionError } from "../task-state.js";
+import { constraintViolation } from "./constraints.js";
+import { limitUsage, limitsAllow } from "./limits.js";
+import { topologyAllows } from "./placement.js";
+import { allocatedResources, fitsResources, freeResources } from "./resources.js";
+
+/** Nodes that could claim `task` if they had room, as the stores' claim path sees them. */
+function canHost(node: NodeView, task: Task): boolean {
+  if (node.revoked || !node.trusted || node.draining) return false;
+  if (node.freshnessState !== "healthy") return false;
+  if (task.targetNodeId && task.targetNodeId !== node.nodeId) return false;
+  const tags = new Set(node.capabilities.tags);
+  if (!(task.requiredTags ?? []).every((tag) => tags.has(tag))) return false;
+  if (constraintViolation(task, node.capabilities)) return false;
+  return topologyAllows(task.placement, node);
+}
+
+/** True when `task` would fit on `node` next to `active`. */
+function hasRoom(node: NodeView, active: Task[], task: Task): boolean {
+  if (active.length >= node.capabilities.maxConcurrentTasks) return false;
+  return fitsResources(task, freeResources(node.capabilities, allocatedResources(active)));
+}
+
+/**
+ * Makes room for a freshly queued `task` when it cannot be claimed right
+ * away, for want of a free slot on a node that could run it or because a
+ * concurrency limit is full: evicts one `preemptible` claimed/running task of
+ * strictly lower priority whose removal lets the urgent task in, both onto a
+ * node (slot and resources) and under every limit that counts it. The
+ * lowest-priority, most recently created victim goes first. Returns the
+ * evicted task, or undefined when nothing was preempted.
+ *
+ * The victim is requeued without charging an attempt; its node learns to
+ * stop it from its next heartbeat reply.
+ */
+export async function preemptFor(
+  store: ControlPlaneStore,
+  ctx: EdgeMeshPluginContext,
+  task: Task,
+  now = Date.now()
+): Promise<Task | undefined> {
+  const priority = task.priority ?? 0;
+  const hosts = (await store.listNodes()).filter((n) => canHost(n, task));
+  if (hosts.length === 0) return undefined;
+
+  const [running, limits] = await Promise.all([
+    store.listRunningTasks(),
+    store.listConcurrencyLimits(),
+  ]);
+  // Whether `task` could be claimed were `active` the claimed/running tasks.
+  const admits = (active: Task[]) =>
+    limitsAllow(task, limits, limitUsage(active, limits)) &&
+    hosts.some((n) =>
+      hasRoom(
+        n,
+        active.filter((t) => t.assignedNodeId === n.nodeId),
+        task
+      )
+    );
+  if (admits(running)) return undefined;
+
+  const victims = running
+    .filter((t) => t.preemptible && (t.priority ?? 0) < priority)
+    .filter((t) => admits(running.filter((other) => other !== t)))
+    .sort((a, b) => (a.priority ?? 0) - (b.priority ?? 0) || b.createdAt - a.createdAt);
+
+  for (const victim of victims) {
+    try {
+      if (!(await store.preemptTask(victim.taskId, victim.revision))) continue;
+    } catch (err) {
+      // It finished or moved since we listed it; try the next one.
+      if (err instanceof TaskRevisionConflictError || err instanceof InvalidTransitionError)
+        continue;
+      throw err;
+    }
+    ctx.emit({
+      type: "task.preempted",
+      at: now,
+      taskId: victim.taskId,
+      nodeId: victim.assignedNodeId,
+      detail: { by: task.taskId, priority, victimPriority: victim.priority ?? 0 },
+    });
+    return victim;
+  }
+  return undefined;
+}
+
+/**
+ * Of the tasks a node reports executing, those it should stop: preempted,
+ * cancelled, finished, reassigned or unknown ones.
+ */
+export async function tasksToStop(
+  store: ControlPlaneStore,
+  nodeId: string,
+  activeTaskIds: readonly string[]
+): Promise<string[]> {
+  const stop: string[] = [];
+  for (const taskId of activeTaskIds) {
+    const task = await store.getTask(taskId);
+    const mine =
+      task?.assignedNodeId === nodeId && (task.status === "claimed" || task.status === "running");
+    if (!mine) stop.push(taskId);
+  }
+  return stop;
+}
@@ -0,0 +1,35 @@
+import type { NodeCapabilities, ResourceMap, Task } from "../contracts.js";
+
+/** Sum of the resource requests of `active` (a node's claimed/running tasks). */
+export function allocatedResources(active: Iterable<Task>): ResourceMap {
+  const allocated: ResourceMap = {};
+  for (const task of active) {
+    for (const [name, amount] of Object.entries(task.resources ?? {})) {
+      allocated[name] = (allocated[name] ?? 0) + amount;
+    }
+  }
+  return allocated;
+}
+
+/**
+ * What is left of each advertised resource. Negative when a node shrank its
+ * capacity on re-registration below what its running tasks hold.
+ */
+export function freeResources(capabilities: NodeCapabilities, allocated: ResourceMap): ResourceMap {
+  const free: ResourceMap = {};
+  for (const [name, capacity] of Object.entries(capabilities.resources ?? {})) {
+    free[name] = capacity - (allocated[name] ?? 0);
+  }
+  return free;
+}
+
+/**
+ * True when every resource `task` requests is advertised by the node and
+ * still free. Tasks without requests always fit; `maxConcurrentTasks` is
+ * enforced separately.
+ */
+export function fitsResources(task: Task, free: ResourceMap): boolean {
+  return Object.entries(task.resources ?? {}).every(
+    ([name, amount]) => amount <= 0 || (free[name] ?? 0) >= amount
+  );
+}
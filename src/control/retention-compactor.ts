@@ -0,0 +1,129 @@
+import type { FastifyBaseLogger } from "fastify";
+import type { ControlPlaneStore } from "../persistence.js";
+import type { Task } from "../contracts.js";
+import type { EdgeMeshPluginContext } from "../plugins/types.js";
+import { startBackgroundLoop } from "./background.js";
+
+export type TerminalStatus = Extract<Task["status"], "done" | "failed" | "cancelled">;
+
+const TERMINAL_STATUSES: TerminalStatus[] = ["done", "failed", "cancelled"];
+
+export type RetentionPolicy = {
+  /** Prune terminal tasks (and their results) older than this, per status. */
+  maxAgeMs?: Partial<Record<TerminalStatus, number>>;
+  /** Keep at most this many of the newest terminal tasks, per status. */
+  maxCount?: Partial<Record<TerminalStatus, number>>;
+  /** Prune DLQ entries enqueued longer ago than this. */
+  dlqMaxAgeMs?: number;
+};
+
+export type PruneStats = { tasks: number; dlq: number };
+
+/**
+ * Reads a policy applied to every terminal status from
+ * EDGEMESH_RETENTION_MAX_AGE_MS, EDGEMESH_RETENTION_MAX_COUNT and
+ * EDGEMESH_DLQ_MAX_AGE_MS. Returns null when none are set.
+ */
+export function retentionPolicyFromEnv(
+  env: NodeJS.ProcessEnv = process.env
+): RetentionPolicy | null {
+  const num = (raw: string | undefined) => {
+    if (raw === undefined || raw === "") return undefined;
+    const n = Number(raw);
+    if (!Number.isFinite(n) || n < 0) throw new Error(`invalid retention setting: ${raw}`);
+    return n;
+  };
+  const maxAge = num(env.EDGEMESH_RETENTION_MAX_AGE_MS);
+  const maxCount = num(env.EDGEMESH_RETENTION_MAX_COUNT);
+  const dlqMaxAgeMs = num(env.EDGEMESH_DLQ_MAX_AGE_MS);
+  if (maxAge === undefined && maxCount === undefined && dlqMaxAgeMs === undefined) return null;
+
+  const perStatus = (n: number | undefined) =>
+    n === undefined ? undefined : { done: n, failed: n, cancelled: n };
+  return { maxAgeMs: perStatus(maxAge), maxCount: perStatus(maxCount), dlqMaxAgeMs };
+}
+
+/**
+ * One compaction pass. Stale DLQ entries go first so their tasks become
+ * eligible in the same pass; failed tasks still in the DLQ are never pruned,
+ * otherwise replay would have nothing to requeue.
+ *
+ * A task's age runs from its result's finishedAt, falling back to createdAt
+ * for tasks that never reported (e.g. cancelled while queued).
+ */
+export async function pruneTerminalTasks(
+  store: ControlPlaneStore,
+  ctx: EdgeMeshPluginContext,
+  policy: RetentionPolicy,
+  now = Date.now()
+): Promise<PruneStats> {
+  const stats: PruneStats = { tasks: 0, dlq: 0 };
+
+  let dlq = await store.listDlq();
+  if (policy.dlqMaxAgeMs !== undefined) {
+    for (const entry of dlq) {
+      if (now - entry.enqueuedAt <= policy.dlqMaxAgeMs) continue;
+      if (await store.deleteDlqEntry(entry.taskId)) {
+        stats.dlq++;
+        ctx.emit({
+          type: "dlq.pruned",
+          at: now,
+          taskId: entry.taskId,
+          detail: { reason: "age", enqueuedAt: entry.enqueuedAt },
+        });
+      }
+    }
+    dlq = await store.listDlq();
+  }
+  const inDlq = new Set(dlq.map((entry) => entry.taskId));
+
+  for (const status of TERMINAL_STATUSES) {
+    const maxAgeMs = policy.maxAgeMs?.[status];
+    const maxCount = policy.maxCount?.[status];
+    if (maxAgeMs === undefined && maxCount === undefined) continue;
+
+    const aged: { task: Task; finishedAt: number }[] = [];
+    for (const task of await store.listTasks(status)) {
+      if (inDlq.has(task.taskId)) continue;
+      const result = await store.getTaskResult(task.taskId);
+      aged.push({ task, finishedAt: result?.finishedAt ?? task.createdAt });
+    }
+    aged.sort((a, b) => b.finishedAt - a.finishedAt);
+
+    for (let i = 0; i < aged.length; i++) {
+      const { task, finishedAt } = aged[i];
+      const reason =
+        maxCount !== undefined && i >= maxCount
+          ? "count"
+          : maxAgeMs !== undefined && now - finishedAt > maxAgeMs
+            ? "age"
+            : null;
+      if (!reason) continue;
+      // The reaper marks a task failed before writing its DLQ entry; look again.
+      if (status === "failed" && (await store.getDlqEntry(task.taskId))) continue;
+      if (await store.deleteTask(task.taskId)) {
+        stats.tasks++;
+        ctx.emit({
+          type: "task.pruned",
+          at: now,
+          taskId: task.taskId,
+          detail: { status, reason, finishedAt },
+        });
+      }
+    }
+  }
+
+  return stats;
+}
+
+export function startRetentionCompactor(
+  store: ControlPlaneStore,
+  ctx: EdgeMeshPluginContext,
+  log: Pick<FastifyBaseLogger, "error">,
+  policy: RetentionPolicy,
+  intervalMs = 60_000
+): ReturnType<typeof setInterval> {
+  return startBackgroundLoop(log, intervalMs, (phase) =>
+    phase("retention", () => pruneTerminalTasks(store, ctx, policy))
+  );
+}
@@ -1,3 +1,10 @@
+import type { Task } from "../contracts.js";
+
+/** Claims that count against maxAttempts: preempted ones are free. */
+export function chargedAttempts(task: Task): number {
+  return Math.max(1, (task.attempt ?? 1) - (task.preemptions ?? 0));
+}
+
 export type RetryDecision = {
   retry: boolean;
   delayMs: number;
@@ -0,0 +1,157 @@
+import type { FastifyBaseLogger } from "fastify";
+import { TaskRevisionConflictError, type ControlPlaneStore } from "../persistence.js";
+import type { Schedule, Task } from "../contracts.js";
+import type { EdgeMeshPluginContext } from "../plugins/types.js";
+import { isTerminal } from "../task-state.js";
+import { startBackgroundLoop } from "./background.js";
+import { nextCronTime, parseCron } from "./cron.js";
+import { releaseDependents } from "./dependencies.js";
+
+/** A tick more than this late counts as missed and is subject to `catchUp`. */
+export const SCHEDULE_GRACE_MS = 60_000;
+/** Upper bound on tasks one `catchUp: "all"` pass materializes. */
+export const MAX_CATCH_UP_RUNS = 50;
+
+/** Id of the task a schedule materializes for the tick at `scheduledAt`. */
+export function scheduledTaskId(scheduleId: string, scheduledAt: number): string {
+  return `${scheduleId}-${scheduledAt}`;
+}
+
+/** First tick of `cron` after `after`; throws for expressions that never fire. */
+export function firstRunAt(cron: string, after: number): number {
+  const next = nextCronTime(parseCron(cron), after);
+  if (next === undefined) throw new Error(`cron expression "${cron}" never fires`);
+  return next;
+}
+
+/**
+ * Ticks due at `now` that `schedule.catchUp` lets run, oldest first, and the
+ * tick after them. `none` keeps only a tick within SCHEDULE_GRACE_MS, `latest`
+ * the most recent one, `all` up to MAX_CATCH_UP_RUNS of the most recent.
+ */
+export function dueRuns(schedule: Schedule, now: number): { runs: number[]; nextRunAt: number } {
+  const cron = parseCron(schedule.cron);
+  let due: number[] = [];
+  let tick: number | undefined = schedule.nextRunAt;
+  while (tick !== undefined && tick <= now) {
+    due.push(tick);
+    if (due.length > MAX_CATCH_UP_RUNS) due = due.slice(-MAX_CATCH_UP_RUNS);
+    tick = nextCronTime(cron, tick);
+  }
+  if (tick === undefined) throw new Error(`cron expression "${schedule.cron}" never fires`);
+
+  const latest = due.slice(-1);
+  const runs =
+    schedule.catchUp === "all"
+      ? due
+      : schedule.catchUp === "latest"
+        ? latest
+        : latest.filter((at) => now - at <= SCHEDULE_GRACE_MS);
+  return { runs, nextRunAt: tick };
+}
+
+/**
+ * One scheduler pass: materializes a task for every due tick of every
+ * schedule. The schedule is advanced with a compare-and-set write before any
+ * task is created, so control planes sharing a store never fire a tick twice;
+ * a crash between the two loses that tick rather than repeating it.
+ *
+ * Overlap is judged once per pass against the task of the previous pass:
+ * `skip` drops this pass's ticks while it is unfinished, `cancel-previous`
+ * cancels it first, `queue` lets runs pile up.
+ */
+export async function runDueSchedules(
+  store: ControlPlaneStore,
+  ctx: EdgeMeshPluginContext,
+  now = Date.now()
+): Promise<number> {
+  let materialized = 0;
+
+  for (const schedule of await store.listSchedules()) {
+    if (schedule.nextRunAt > now) continue;
+    const { runs, nextRunAt } = dueRuns(schedule, now);
+
+    const previous = schedule.lastTaskId ? await store.getTask(schedule.lastTaskId) : undefined;
+    const running = previous && !isTerminal(previous.status) ? previous : undefined;
+    const skip = runs.length === 0 || (running !== undefined && schedule.overlap === "skip");
+
+    const lastRunAt = skip ? schedule.lastRunAt : runs[runs.length - 1];
+    const advanced: Schedule = {
+      ...schedule,
+      nextRunAt,
+      lastRunAt,
+      lastTaskId: skip ? schedule.lastTaskId : scheduledTaskId(schedule.scheduleId, lastRunAt!),
+    };
+    if (!(await store.saveSchedule(advanced, schedule.revision ?? 0))) continue;
+
+    if (skip) {
+      if (runs.length > 0) {
+        ctx.emit({
+          type: "schedule.skipped",
+          at: now,
+          taskId: running!.taskId,
+          detail: { scheduleId: schedule.scheduleId, reason: "overlap", ticks: runs.length },
+        });
+      }
+      continue;
+    }
+
+    if (running && schedule.overlap === "cancel-previous") {
+      await cancelPrevious(store, ctx, running, schedule.scheduleId, now);
+    }
+
+    for (const scheduledAt of runs) {
+      const task: Task = {
+        ...schedule.task,
+        schemaVersion: "1.0",
+        taskId: scheduledTaskId(schedule.scheduleId, scheduledAt),
+        scheduleId: schedule.scheduleId,
+        status: "queued",
+        createdAt: now,
+      };
+      await store.enqueueTask(task);
+      ctx.emit({
+        type: "task.enqueued",
+        at: now,
+        taskId: task.taskId,
+        detail: { scheduleId: schedule.scheduleId, scheduledAt },
+      });
+      materialized += 1;
+    }
+  }
+  return materialized;
+}
+
+async function cancelPrevious(
+  store: ControlPlaneStore,
+  ctx: EdgeMeshPluginContext,
+  task: Task,
+  scheduleId: string,
+  now: number
+): Promise<void> {
+  try {
+    if (!(await store.cancelTask(task.taskId, task.revision))) return;
+  } catch (err) {
+    // The previous run finished or moved on after we read it; nothing to cancel.
+    if (err instanceof TaskRevisionConflictError) return;
+    throw err;
+  }
+  ctx.emit({
+    type: "task.cancelled",
+    at: now,
+    taskId: task.taskId,
+    detail: { reason: "schedule_overlap", scheduleId },
+  });
+  await releaseDependents(store, ctx, task.taskId);
+}
+
+export function startScheduler(
+  store: ControlPlaneStore,
+  ctx: EdgeMeshPluginContext,
+  log: Pick<FastifyBaseLogger, "error">,
+  intervalMs = 1_000
+): ReturnType<typeof setInterval> {
+  return startBackgroundLoop(log, intervalMs, (phase) =>
+    phase("schedule", () => runDueSchedules(store, ctx))
+  );
+}
@@ -0,0 +1,228 @@
+import type { RegisterNodeRequest, Task } from "../contracts.js";
+
+export const DEFAULT_QUEUE = "default";
+
+export interface SchedulingContext {
+  /** The node asking for work. */
+  node: RegisterNodeRequest;
+  now: number;
+  /** Set by rankCandidates from SchedulingConfig.aging. */
+  aging?: AgingPolicy;
+}
+
+/**
+ * Raises a task's effective priority by one for every `stepMs` it has been
+ * claimable, up to `maxBoost` (default unbounded). The stored `priority` is
+ * never changed.
+ */
+export interface AgingPolicy {
+  stepMs: number;
+  maxBoost?: number;
+}
+
+/**
+ * Orders the tasks a node could claim, best first. Stores filter eligibility
+ * (status, retryAfter, targetNodeId, requiredTags) before calling `rank`, and
+ * claim the first entry that is still claimable when they write.
+ */
+export interface SchedulingStrategy {
+  readonly name: string;
+  /** Returns a new array; must not mutate `candidates`. */
+  rank(candidates: readonly Task[], ctx: SchedulingContext): Task[];
+}
+
+/**
+ * `strategy` ranks the whole queue set (default strict-priority). A strategy
+ * in `queues` orders tasks within that queue instead; `strategy` then only
+ * decides which queue's head goes next.
+ */
+export interface SchedulingConfig {
+  strategy?: SchedulingStrategy;
+  queues?: Record<string, SchedulingStrategy>;
+  aging?: AgingPolicy;
+}
+
+export function queueOf(task: Task): string {
+  return task.queue ?? DEFAULT_QUEUE;
+}
+
+/** When a queued task became claimable: the latest of createdAt, runAt and retryAfter. */
+export function waitingSince(task: Task): number {
+  return Math.max(task.createdAt, task.runAt ?? 0, task.retryAfter ?? 0);
+}
+
+/** `priority` plus the aging boost it has earned by `now`. */
+export function effectivePriority(task: Task, aging: AgingPolicy | undefined, now: number): number {
+  const priority = task.priority ?? 0;
+  if (!aging) return priority;
+  const boost = Math.floor(Math.max(0, now - waitingSince(task)) / aging.stepMs);
+  return priority + Math.min(boost, aging.maxBoost ?? Number.POSITIVE_INFINITY);
+}
+
+const byCreatedAt = (a: Task, b: Task) => a.createdAt - b.createdAt;
+const byPriority =
+  (ctx: SchedulingContext) =>
+  (a: Task, b: Task): number =>
+    effectivePriority(b, ctx.aging, ctx.now) - effectivePriority(a, ctx.aging, ctx.now) ||
+    byCreatedAt(a, b);
+
+/** Oldest first; priority is ignored. */
+export const fifo: SchedulingStrategy = {
+  name: "fifo",
+  rank: (candidates) => [...candidates].sort(byCreatedAt),
+};
+
+/** Highest priority first, FIFO within a priority. The historical claim order. */
+export const strictPriority: SchedulingStrategy = {
+  name: "strict-priority",
+  rank: (candidates, ctx) => [...candidates].sort(byPriority(ctx)),
+};
+
+/**
+ * Lottery between priority levels: each pick takes the oldest task of a level
+ * chosen with probability proportional to `weight(priority)` (default
+ * priority + 1), so low priorities still get a share under sustained load.
+ */
+export function weightedPriority(
+  options: { weight?: (priority: number) => number; random?: () => number } = {}
+): SchedulingStrategy {
+  const weight = options.weight ?? ((priority: number) => priority + 1);
+  const random = options.random ?? Math.random;
+  return {
+    name: "weighted-priority",
+    rank(candidates, ctx) {
+      const levels = new Map<number, Task[]>();
+      for (const task of [...candidates].sort(byCreatedAt)) {
+        const priority = effectivePriority(task, ctx.aging, ctx.now);
+        const level = levels.get(priority);
+        if (level) level.push(task);
+        else levels.set(priority, [task]);
+      }
+
+      const ranked: Task[] = [];
+      while (levels.size > 0) {
+        const entries = [...levels.entries()].sort(([a], [b]) => b - a);
+        const weights = entries.map(([priority]) => Math.max(0, weight(priority)));
+        const total = weights.reduce((sum, w) => sum + w, 0);
+        let roll = random() * total;
+        let pick = 0;
+        while (pick < entries.length - 1 && roll >= weights[pick]) roll -= weights[pick++];
+
+        const [priority, tasks] = entries[pick];
+        ranked.push(tasks.shift()!);
+        if (tasks.length === 0) levels.delete(priority);
+      }
+      return ranked;
+    },
+  };
+}
+
+/**
+ * Smallest `expectedRuntimeMs` first; tasks without an estimate go last.
+ * Ties fall back to strict priority.
+ */
+export const shortestExpectedRuntime: SchedulingStrategy = {
+  name: "shortest-expected-runtime",
+  rank: (candidates, ctx) =>
+    [...candidates].sort((a, b) => {
+      const ra = a.expectedRuntimeMs ?? Number.POSITIVE_INFINITY;
+      const rb = b.expectedRuntimeMs ?? Number.POSITIVE_INFINITY;
+      if (ra !== rb) return ra < rb ? -1 : 1;
+      return byPriority(ctx)(a, b);
+    }),
+};
+
+export const SCHEDULING_STRATEGIES: Readonly<Record<string, () => SchedulingStrategy>> = {
+  fifo: () => fifo,
+  "strict-priority": () => strictPriority,
+  "weighted-priority": () => weightedPriority(),
+  "shortest-expected-runtime": () => shortestExpectedRuntime,
+};
+
+export function schedulingStrategy(name: string): SchedulingStrategy {
+  const make = SCHEDULING_STRATEGIES[name];
+  if (!make) {
+    throw new Error(
+      `unknown scheduling strategy: ${name} (known: ${Object.keys(SCHEDULING_STRATEGIES).join(", ")})`
+    );
+  }
+  return make();
+}
+
+/** Ranks claim candidates under `config`; see SchedulingConfig. */
+export function rankCandidates(
+  candidates: readonly Task[],
+  config: SchedulingConfig | undefined,
+  schedulingCtx: SchedulingContext
+): Task[] {
+  const ctx = config?.aging ? { ...schedulingCtx, aging: config.aging } : schedulingCtx;
+  const strategy = config?.strategy ?? strictPriority;
+  const queues = config?.queues ?? {};
+  if (Object.keys(queues).length === 0) return strategy.rank(candidates, ctx);
+
+  const byQueue = new Map<string, Task[]>();
+  for (const task of candidates) {
+    const lane = byQueue.get(queueOf(task));
+    if (lane) lane.push(task);
+    else byQueue.set(queueOf(task), [task]);
+  }
+  const lanes = [...byQueue].map(([queue, tasks]) => (queues[queue] ?? strategy).rank(tasks, ctx));
+
+  // Merge lanes: the global strategy picks among the current heads.
+  const ranked: Task[] = [];
+  while (lanes.some((lane) => lane.length > 0)) {
+    const heads = lanes.filter((lane) => lane.length > 0).map((lane) => lane[0]);
+    const next = strategy.rank(heads, ctx)[0];
+    ranked.push(lanes.find((lane) => lane[0] === next)!.shift()!);
+  }
+  return ranked;
+}
+
+/**
+ * Reads EDGEMESH_PRIORITY_AGING_MS and EDGEMESH_PRIORITY_AGING_MAX (see
+ * AgingPolicy). Returns undefined when aging is off.
+ */
+export function agingFromEnv(env: NodeJS.ProcessEnv = process.env): AgingPolicy | undefined {
+  const step = env.EDGEMESH_PRIORITY_AGING_MS?.trim();
+  const max = env.EDGEMESH_PRIORITY_AGING_MAX?.trim();
+  if (!step) {
+    if (max) throw new Error("EDGEMESH_PRIORITY_AGING_MAX requires EDGEMESH_PRIORITY_AGING_MS");
+    return undefined;
+  }
+  const stepMs = Number(step);
+  if (!Number.isInteger(stepMs) || stepMs <= 0) {
+    throw new Error(`invalid EDGEMESH_PRIORITY_AGING_MS: ${step}`);
+  }
+  if (!max) return { stepMs };
+  const maxBoost = Number(max);
+  if (!Number.isInteger(maxBoost) || maxBoost < 0) {
+    throw new Error(`invalid EDGEMESH_PRIORITY_AGING_MAX: ${max}`);
+  }
+  return { stepMs, maxBoost };
+}
+
+/**
+ * Reads EDGEMESH_SCHEDULING (a strategy name), EDGEMESH_QUEUE_SCHEDULING
+ * (`queue=strategy` pairs separated by commas) and the aging settings (see
+ * agingFromEnv). Returns undefined when none is set.
+ */
+export function schedulingFromEnv(
+  env: NodeJS.ProcessEnv = process.env
+): SchedulingConfig | undefined {
+  const global = env.EDGEMESH_SCHEDULING?.trim();
+  const perQueue = env.EDGEMESH_QUEUE_SCHEDULING?.trim();
+  const aging = agingFromEnv(env);
+  if (!global && !perQueue && !aging) return undefined;
+
+  const queues: Record<string, SchedulingStrategy> = {};
+  for (const pair of (perQueue ?? "").split(",").filter((p) => p.trim() !== "")) {
+    const [queue, name] = pair.split("=").map((s) => s.trim());
+    if (!queue || !name) throw new Error(`invalid EDGEMESH_QUEUE_SCHEDULING entry: ${pair}`);
+    queues[queue] = schedulingStrategy(name);
+  }
+  return {
+    strategy: global ? schedulingStrategy(global) : undefined,
+    queues,
+    ...(aging && { aging }),
+  };
+}
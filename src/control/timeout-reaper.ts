@@ -1,69 +1,241 @@
-import type { ControlPlaneStore } from "../persistence.js";
-import type { DlqEntry, TaskResult } from "../contracts.js";
+import type { FastifyBaseLogger } from "fastify";
+import { TaskRevisionConflictError, type ControlPlaneStore } from "../persistence.js";
+import type { DlqEntry, NodeView, Task, TaskResult } from "../contracts.js";
 import type { EdgeMeshPluginContext } from "../plugins/types.js";
-import { computeRetryDecision } from "./retry-policy.js";
+import { InvalidTransitionError } from "../task-state.js";
+import { startBackgroundLoop } from "./background.js";
+import { settleBroadcast } from "./broadcast.js";
+import { releaseDependents } from "./dependencies.js";
+import { chargedAttempts, computeRetryDecision } from "./retry-policy.js";
+
+/** How long a node may stay `offline` before its in-flight tasks are recovered. */
+export const DEFAULT_NODE_LOST_GRACE_MS = 60_000;
+
+export function nodeLostGraceFromEnv(env: NodeJS.ProcessEnv = process.env): number {
+  const raw = env.EDGEMESH_NODE_LOST_GRACE_MS;
+  if (raw === undefined || raw === "") return DEFAULT_NODE_LOST_GRACE_MS;
+  const ms = Number(raw);
+  if (!Number.isInteger(ms) || ms < 0) throw new Error(`invalid node-lost grace: ${raw}`);
+  return ms;
+}
+
+/** Why a node's in-flight tasks were recovered. */
+export type NodeLossReason = "offline" | "restarted";
+
+/**
+ * Requeues or fails (per the retry policy, like a timeout) every claimed or
+ * running task assigned to `nodeId`, after emitting `node.lost`. A restart
+ * with nothing in flight is not a loss: no event, nothing to do.
+ */
+export async function recoverLostNode(
+  store: ControlPlaneStore,
+  ctx: EdgeMeshPluginContext,
+  nodeId: string,
+  reason: NodeLossReason,
+  now = Date.now()
+): Promise<Task[]> {
+  const inFlight = await store.listNodeTasks(nodeId);
+  if (reason === "restarted" && inFlight.length === 0) return [];
+
+  ctx.emit({
+    type: "node.lost",
+    at: now,
+    nodeId,
+    detail: { reason, taskIds: inFlight.map((t) => t.taskId) },
+  });
+  for (const task of inFlight) {
+    try {
+      await expireTask(store, ctx, task, now, "node_lost");
+    } catch (err) {
+      // It finished, was cancelled or moved since we listed it.
+      if (err instanceof TaskRevisionConflictError || err instanceof InvalidTransitionError)
+        continue;
+      throw err;
+    }
+  }
+  return inFlight;
+}
+
+/** Whether `node` stopped heartbeating, as opposed to reporting itself degraded. */
+function silent(node: NodeView): boolean {
+  if (node.freshnessState === "offline") return true;
+  return node.freshnessState === "degraded" && node.lastHeartbeat?.status !== "degraded";
+}
+
+/**
+ * Watches node freshness across reaper ticks: a node seen `offline` for
+ * `graceMs` is declared lost once, until it reports back in. A silent node
+ * holding a lapsed lease is lost at once -- it cannot renew anything -- so
+ * its tasks are recovered, and named in `node.lost`, before lease expiry
+ * would take them one by one.
+ */
+function nodeLossWatcher(
+  store: ControlPlaneStore,
+  ctx: EdgeMeshPluginContext,
+  graceMs: number
+): (now: number, lapsed: readonly Task[]) => Promise<void> {
+  const offlineSince = new Map<string, number>();
+  const lost = new Set<string>();
+
+  return async (now, lapsed) => {
+    const holders = new Set(lapsed.map((t) => t.assignedNodeId));
+    const nodes = await store.listNodes();
+    const listed = new Set(nodes.map((n) => n.nodeId));
+    for (const nodeId of offlineSince.keys()) {
+      if (!listed.has(nodeId)) offlineSince.delete(nodeId);
+    }
+
+    for (const node of nodes) {
+      if (!silent(node)) {
+        offlineSince.delete(node.nodeId);
+        lost.delete(node.nodeId);
+        continue;
+      }
+      let overdue = false;
+      if (node.freshnessState === "offline") {
+        const since = offlineSince.get(node.nodeId) ?? now;
+        offlineSince.set(node.nodeId, since);
+        overdue = now - since >= graceMs;
+      }
+      if (lost.has(node.nodeId) || !(overdue || holders.has(node.nodeId))) continue;
+
+      lost.add(node.nodeId);
+      await recoverLostNode(store, ctx, node.nodeId, "offline", now);
+    }
+  };
+}
 
 export function startTimeoutReaper(
   store: ControlPlaneStore,
   ctx: EdgeMeshPluginContext,
-  intervalMs = 5_000
+  log: Pick<FastifyBaseLogger, "error">,
+  intervalMs = 5_000,
+  nodeLostGraceMs = DEFAULT_NODE_LOST_GRACE_MS
 ): ReturnType<typeof setInterval> {
-  return setInterval(async () => {
+  const watchNodes = nodeLossWatcher(store, ctx, nodeLostGraceMs);
+  // A store error expiring leases must not also stop node-loss recovery or timeouts.
+  return startBackgroundLoop(log, intervalMs, async (phase) => {
     const now = Date.now();
-    const [claimed, running] = await Promise.all([
-      store.listTasks("claimed"),
-      store.listTasks("running"),
-    ]);
-
-    for (const task of [...claimed, ...running]) {
-      if (!task.timeoutMs || !task.claimedAt) continue;
-      if (now - task.claimedAt <= task.timeoutMs) continue;
-
-      const retry = computeRetryDecision({
-        attempt: task.attempt ?? 1,
-        maxAttempts: task.maxAttempts ?? 3,
-      });
-
-      if (retry.retry) {
-        await store.requeueForRetry(task.taskId, now + retry.delayMs);
-        ctx.emit({
-          type: "task.failed",
-          at: now,
-          taskId: task.taskId,
-          detail: {
-            reason: "timeout",
-            retrying: true,
-            attempt: task.attempt,
-            delayMs: retry.delayMs,
-          },
-        });
-      } else {
-        const syntheticResult: TaskResult = {
-          schemaVersion: "1.0",
-          taskId: task.taskId,
-          nodeId: task.assignedNodeId ?? "unknown",
-          ok: false,
-          error: "task_timeout",
-          finishedAt: now,
-        };
-        const dlqEntry: DlqEntry = {
-          schemaVersion: "1.0",
-          taskId: task.taskId,
-          task,
-          lastResult: syntheticResult,
-          reason: "timeout",
-          enqueuedAt: now,
-        };
-        await store.setTaskStatus(task.taskId, "failed");
-        await store.setTaskResult(syntheticResult);
-        await store.enqueueDlq(dlqEntry);
-        ctx.emit({
-          type: "task.failed",
-          at: now,
-          taskId: task.taskId,
-          detail: { reason: "timeout", retrying: false, toDlq: true },
-        });
-      }
+    const lapsed = (await phase("lease expiry", () => store.listExpiredLeases())) ?? [];
+    await phase("node loss", () => watchNodes(now, lapsed));
+    await phase("lease expiry", () => expireLeases(store, ctx, lapsed, now));
+    await phase("timeout", () => expireTimedOut(store, ctx, now));
+  });
+}
+
+/**
+ * Retries or fails each task whose lease lapsed, like a timeout, and emits
+ * `task.lease_expired` for each one it moved.
+ */
+async function expireLeases(
+  store: ControlPlaneStore,
+  ctx: EdgeMeshPluginContext,
+  lapsed: readonly Task[],
+  now: number
+): Promise<void> {
+  for (const task of lapsed) {
+    try {
+      await expireTask(store, ctx, task, now, "lease_expired");
+    } catch (err) {
+      // Renewed, finished, or recovered with its node since we listed it.
+      if (err instanceof TaskRevisionConflictError || err instanceof InvalidTransitionError)
+        continue;
+      throw err;
     }
-  }, intervalMs);
+    ctx.emit({
+      type: "task.lease_expired",
+      at: now,
+      taskId: task.taskId,
+      nodeId: task.assignedNodeId,
+      detail: { status: task.status, attempt: task.attempt },
+    });
+  }
+}
+
+async function expireTimedOut(
+  store: ControlPlaneStore,
+  ctx: EdgeMeshPluginContext,
+  now: number
+): Promise<void> {
+  const [blocked, claimed, running] = await Promise.all([
+    store.listTasks("blocked"),
+    store.listTasks("claimed"),
+    store.listTasks("running"),
+  ]);
+
+  for (const task of blocked) {
+    // Broadcast parents whose children all settled inside the late-join
+    // window finish once it closes; nothing else would wake them.
+    if (task.broadcast) await settleBroadcast(store, ctx, task.taskId, now);
+  }
+
+  for (const task of [...claimed, ...running]) {
+    if (!task.timeoutMs || !task.claimedAt) continue;
+    if (now - task.claimedAt <= task.timeoutMs) continue;
+
+    try {
+      await expireTask(store, ctx, task, now, "timeout");
+    } catch (err) {
+      // A result or cancel landed after we listed the task; it wins.
+      if (!(err instanceof TaskRevisionConflictError)) throw err;
+    }
+  }
+}
+
+/** Requeues `task` if it has attempts left, else fails it into the DLQ. */
+async function expireTask(
+  store: ControlPlaneStore,
+  ctx: EdgeMeshPluginContext,
+  task: Task,
+  now: number,
+  reason: "timeout" | "node_lost" | "lease_expired"
+): Promise<void> {
+  const retry = computeRetryDecision({
+    attempt: chargedAttempts(task),
+    maxAttempts: task.maxAttempts ?? 3,
+  });
+
+  if (retry.retry) {
+    await store.requeueForRetry(task.taskId, now + retry.delayMs, task.revision);
+    ctx.emit({
+      type: "task.failed",
+      at: now,
+      taskId: task.taskId,
+      detail: {
+        reason,
+        retrying: true,
+        attempt: task.attempt,
+        delayMs: retry.delayMs,
+      },
+    });
+    return;
+  }
+
+  const syntheticResult: TaskResult = {
+    schemaVersion: "1.0",
+    taskId: task.taskId,
+    nodeId: task.assignedNodeId ?? "unknown",
+    ok: false,
+    error: reason === "timeout" ? "task_timeout" : reason,
+    finishedAt: now,
+  };
+  const dlqEntry: DlqEntry = {
+    schemaVersion: "1.0",
+    taskId: task.taskId,
+    task,
+    lastResult: syntheticResult,
+    reason,
+    enqueuedAt: now,
+  };
+  await store.setTaskStatus(task.taskId, "failed", task.revision);
+  await store.setTaskResult(syntheticResult);
+  await store.enqueueDlq(dlqEntry);
+  ctx.emit({
+    type: "task.failed",
+    at: now,
+    taskId: task.taskId,
+    detail: { reason, retrying: false, toDlq: true },
+  });
+  await releaseDependents(store, ctx, task.taskId);
+  await settleBroadcast(store, ctx, task.taskId, now);
 }
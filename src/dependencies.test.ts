@@ -0,0 +1,222 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { buildControlPlane } from "./control-plane.js";
+import type { EdgeMeshEvent, EdgeMeshPlugin } from "./plugins/types.js";
+
+// ── Helpers ────────────────────────────────────────────────────────────────
+
+type App = ReturnType<typeof buildControlPlane>;
+
+async function bootstrapNode(app: App): Promise<string> {
+  const res = await app.inject({
+    method: "POST",
+    url: "/v1/nodes/register",
+    headers: { "x-bootstrap-token": "bootstrap-dev" },
+    payload: {
+      schemaVersion: "1.0",
+      nodeId: "dag-node",
+      capabilities: { tags: [], maxConcurrentTasks: 10 },
+    },
+  });
+  const nodeToken = res.json().token as string;
+  await app.inject({
+    method: "POST",
+    url: "/v1/nodes/dag-node/heartbeat",
+    headers: { authorization: `Bearer ${nodeToken}` },
+    payload: {
+      schemaVersion: "1.0",
+      nodeId: "dag-node",
+      ts: Date.now(),
+      status: "healthy",
+      load: 0,
+      runningTasks: 0,
+    },
+  });
+  return nodeToken;
+}
+
+async function enqueue(app: App, taskId: string, extra: Record<string, unknown> = {}) {
+  const jt = await app.inject({
+    method: "POST",
+    url: "/v1/auth/job-token",
+    headers: { "x-admin-token": "admin-dev" },
+    payload: { jobId: taskId, ttlMs: 60_000 },
+  });
+  return app.inject({
+    method: "POST",
+    url: "/v1/tasks",
+    headers: { authorization: `Bearer ${jt.json().token as string}` },
+    payload: { taskId, kind: "echo", payload: {}, ...extra },
+  });
+}
+
+async function claim(app: App, nodeToken: string): Promise<string | null> {
+  const res = await app.inject({
+    method: "POST",
+    url: "/v1/nodes/dag-node/tasks/claim",
+    headers: { authorization: `Bearer ${nodeToken}` },
+  });
+  return res.json().task?.taskId ?? null;
+}
+
+function finish(app: App, nodeToken: string, taskId: string, ok: boolean) {
+  return app.inject({
+    method: "POST",
+    url: `/v1/tasks/${taskId}/result`,
+    headers: { authorization: `Bearer ${nodeToken}` },
+    payload: { schemaVersion: "1.0", taskId, nodeId: "dag-node", ok, finishedAt: Date.now() },
+  });
+}
+
+async function statusOf(app: App, taskId: string): Promise<string> {
+  return (await app.inject({ method: "GET", url: `/v1/tasks/${taskId}` })).json().task.status;
+}
+
+/** A plugin that records every event emitted through ctx. */
+function recorder(): { plugin: EdgeMeshPlugin; events: EdgeMeshEvent[] } {
+  const events: EdgeMeshEvent[] = [];
+  const plugin: EdgeMeshPlugin = {
+    name: "recorder",
+    register(_app, ctx) {
+      const emit = ctx.emit.bind(ctx);
+      ctx.emit = (event) => {
+        events.push(event);
+        emit(event);
+      };
+    },
+  };
+  return { plugin, events };
+}
+
+// ── Tests ──────────────────────────────────────────────────────────────────
+
+test("a dependent stays blocked until every parent is done", async () => {
+  const app = buildControlPlane();
+  const nodeToken = await bootstrapNode(app);
+  await enqueue(app, "build");
+  await enqueue(app, "lint");
+  const res = await enqueue(app, "deploy", { dependsOn: ["build", "lint"] });
+  assert.deepEqual(res.json(), { ok: true, taskId: "deploy", status: "blocked" });
+
+  assert.equal(await claim(app, nodeToken), "build");
+  assert.equal(await claim(app, nodeToken), "lint");
+  assert.equal(await claim(app, nodeToken), null);
+
+  await finish(app, nodeToken, "build", true);
+  assert.equal(await statusOf(app, "deploy"), "blocked");
+  await finish(app, nodeToken, "lint", true);
+  assert.equal(await statusOf(app, "deploy"), "queued");
+  assert.equal(await claim(app, nodeToken), "deploy");
+  await app.close();
+});
+
+test("a failed parent cancels its dependents all the way down", async () => {
+  const { plugin, events } = recorder();
+  const app = buildControlPlane(undefined, { plugins: [plugin] });
+  const nodeToken = await bootstrapNode(app);
+  await enqueue(app, "build", { maxAttempts: 1 });
+  await enqueue(app, "test", { dependsOn: ["build"] });
+  await enqueue(app, "deploy", { dependsOn: ["test"] });
+
+  await claim(app, nodeToken);
+  await finish(app, nodeToken, "build", false);
+  assert.equal(await statusOf(app, "build"), "failed");
+  assert.equal(await statusOf(app, "test"), "cancelled");
+  assert.equal(await statusOf(app, "deploy"), "cancelled");
+
+  const cancelled = events.filter((e) => e.type === "task.cancelled");
+  assert.deepEqual(
+    cancelled.map((e) => [e.taskId, e.detail?.dependency]),
+    [
+      ["test", "build"],
+      ["deploy", "test"],
+    ]
+  );
+  await app.close();
+});
+
+test("cancelling a parent cancels blocked dependents", async () => {
+  const app = buildControlPlane();
+  await enqueue(app, "build");
+  await enqueue(app, "deploy", { dependsOn: ["build"] });
+
+  await app.inject({
+    method: "POST",
+    url: "/v1/tasks/build/cancel",
+    headers: { "x-admin-token": "admin-dev" },
+  });
+  assert.equal(await statusOf(app, "deploy"), "cancelled");
+  await app.close();
+});
+
+test("enqueue settles against parents that already finished", async () => {
+  const app = buildControlPlane();
+  const nodeToken = await bootstrapNode(app);
+  await enqueue(app, "done-parent");
+  await claim(app, nodeToken);
+  await finish(app, nodeToken, "done-parent", true);
+  await enqueue(app, "cancelled-parent");
+  await app.inject({
+    method: "POST",
+    url: "/v1/tasks/cancelled-parent/cancel",
+    headers: { "x-admin-token": "admin-dev" },
+  });
+
+  const ready = await enqueue(app, "child-1", { dependsOn: ["done-parent"] });
+  assert.equal(ready.json().status, "queued");
+  const doomed = await enqueue(app, "child-2", { dependsOn: ["done-parent", "cancelled-parent"] });
+  assert.equal(doomed.json().status, "cancelled");
+  await app.close();
+});
+
+test("dependency cycles are rejected at enqueue", async () => {
+  const app = buildControlPlane();
+  const self = await enqueue(app, "loop", { dependsOn: ["loop"] });
+  assert.equal(self.statusCode, 400);
+  assert.deepEqual(self.json().cycle, ["loop", "loop"]);
+
+  // Parents may be enqueued after their children, which is how a cycle can close.
+  await enqueue(app, "b", { dependsOn: ["a"] });
+  await enqueue(app, "c", { dependsOn: ["b"] });
+  const res = await enqueue(app, "a", { dependsOn: ["c"] });
+  assert.equal(res.statusCode, 400);
+  assert.deepEqual(res.json(), {
+    ok: false,
+    error: "dependency_cycle",
+    taskId: "a",
+    cycle: ["a", "c", "b", "a"],
+  });
+  const missing = await app.inject({ method: "GET", url: "/v1/tasks/a" });
+  assert.equal(missing.statusCode, 404);
+  await app.close();
+});
+
+test("GET /v1/tasks/:taskId/graph returns the whole DAG with statuses", async () => {
+  const app = buildControlPlane();
+  await enqueue(app, "build");
+  await enqueue(app, "test", { dependsOn: ["build", "fixtures"] });
+  await enqueue(app, "deploy", { dependsOn: ["test"] });
+  await enqueue(app, "unrelated");
+
+  const res = await app.inject({ method: "GET", url: "/v1/tasks/build/graph" });
+  assert.equal(res.statusCode, 200);
+  assert.deepEqual(res.json(), {
+    ok: true,
+    taskId: "build",
+    nodes: [
+      { taskId: "build", status: "queued", dependsOn: [] },
+      { taskId: "deploy", status: "blocked", dependsOn: ["test"] },
+      { taskId: "fixtures", status: "missing", dependsOn: [] },
+      { taskId: "test", status: "blocked", dependsOn: ["build", "fixtures"] },
+    ],
+    edges: [
+      { from: "test", to: "deploy" },
+      { from: "build", to: "test" },
+      { from: "fixtures", to: "test" },
+    ],
+  });
+
+  const unknown = await app.inject({ method: "GET", url: "/v1/tasks/nope/graph" });
+  assert.equal(unknown.statusCode, 404);
+  await app.close();
+});
@@ -1,5 +1,13 @@
-import type { HeartbeatRequest, RegisterNodeRequest, Task, TaskResult } from "./contracts.js";
+import { randomUUID } from "node:crypto";
+import type {
+  HeartbeatRequest,
+  NodeTrustZone,
+  RegisterNodeRequest,
+  Task,
+  TaskResult,
+} from "./contracts.js";
 import { executeRealTask } from "./node-agent/executor.js";
+import { sampleHostTelemetry } from "./node-agent/telemetry.js";
 
 const SCHEMA_VERSION = "1.0" as const;
 const baseUrl = process.env.EDGEMESH_URL ?? "http://localhost:8787";
@@ -7,6 +15,8 @@ const nodeId = process.env.EDGEMESH_NODE_ID ?? `node-${Math.random().toString(36
 const bootstrapToken = process.env.EDGEMESH_BOOTSTRAP_TOKEN ?? "bootstrap-dev";
 const heartbeatMs = Number(process.env.EDGEMESH_HEARTBEAT_MS ?? 3000);
 const pollMs = Number(process.env.EDGEMESH_POLL_MS ?? 1500);
+// Tells the control plane a re-registration from this process apart from a restart.
+const bootId = randomUUID();
 
 let nodeJwt: string | null = null;
 
@@ -36,9 +46,15 @@ async function registerNode() {
     schemaVersion: SCHEMA_VERSION,
     nodeId,
     region: process.env.EDGEMESH_REGION ?? "local",
+    zone: process.env.EDGEMESH_ZONE,
+    bootId,
     capabilities: {
       tags: ["default", "demo"],
       maxConcurrentTasks: 1,
+      gpu: process.env.EDGEMESH_GPU === "1",
+      npu: process.env.EDGEMESH_NPU === "1",
+      ramGb: process.env.EDGEMESH_RAM_GB ? Number(process.env.EDGEMESH_RAM_GB) : undefined,
+      trustZone: process.env.EDGEMESH_TRUST_ZONE as NodeTrustZone | undefined,
     },
   };
 
@@ -72,44 +88,71 @@ async function reAuth() {
   }
 }
 
+// The task being executed, and whether the control plane asked us to stop it
+// (preempted, cancelled or reassigned); it is then aborted and its result dropped.
+let currentTaskId: string | null = null;
+let currentTaskStopped = false;
+let currentTaskAbort: AbortController | null = null;
+
 async function sendHeartbeat() {
   const hb: HeartbeatRequest = {
     schemaVersion: SCHEMA_VERSION,
     nodeId,
     ts: Date.now(),
     status: "healthy",
-    load: 0,
-    runningTasks: 0,
+    runningTasks: currentTaskId ? 1 : 0,
+    ...sampleHostTelemetry(),
+    activeTaskIds: currentTaskId ? [currentTaskId] : [],
   };
 
-  await httpJson(`${baseUrl}/v1/nodes/${nodeId}/heartbeat`, {
-    method: "POST",
-    headers: authHeaders(),
-    body: JSON.stringify(hb),
-  });
-}
-
-async function claimTask(): Promise<Task | null> {
-  const claimed = await httpJson<{ ok: boolean; task: Task | null }>(
-    `${baseUrl}/v1/nodes/${nodeId}/tasks/claim`,
+  const res = await httpJson<{ ok: boolean; stop?: string[] }>(
+    `${baseUrl}/v1/nodes/${nodeId}/heartbeat`,
     {
       method: "POST",
       headers: authHeaders(),
-      body: JSON.stringify({}),
+      body: JSON.stringify(hb),
     }
   );
+  if (currentTaskId && res.stop?.includes(currentTaskId)) {
+    currentTaskStopped = true;
+    currentTaskAbort?.abort();
+  }
+}
+
+// Ask for rejection reasons on the first empty claim after work, not on every idle poll.
+let explainClaim = true;
+
+async function claimTask(): Promise<Task | null> {
+  const claimed = await httpJson<{
+    ok: boolean;
+    task: Task | null;
+    admission?: { action: string; metric: string; value: number; limit: number };
+    rejected?: { taskId: string; reason: string }[];
+  }>(`${baseUrl}/v1/nodes/${nodeId}/tasks/claim`, {
+    method: "POST",
+    headers: authHeaders(),
+    body: JSON.stringify({ explain: explainClaim }),
+  });
+  explainClaim = claimed.task !== null;
+  if (claimed.admission && !claimed.task) {
+    const { action, metric, value, limit } = claimed.admission;
+    console.warn(`[edge-node:${nodeId}] claim ${action}d: ${metric} ${value} >= ${limit}`);
+  }
+  for (const { taskId, reason } of claimed.rejected ?? []) {
+    console.warn(`[edge-node:${nodeId}] cannot run ${taskId}: ${reason}`);
+  }
   return claimed.task;
 }
 
-async function ackTask(taskId: string) {
-  await httpJson(`${baseUrl}/v1/tasks/${taskId}/ack`, {
+async function ackTask(task: Task) {
+  await httpJson(`${baseUrl}/v1/tasks/${task.taskId}/ack`, {
     method: "POST",
     headers: authHeaders(),
-    body: JSON.stringify({}),
+    body: JSON.stringify({ attempt: task.attempt, leaseToken: task.leaseToken }),
   });
 }
 
-async function executeTask(task: Task): Promise<TaskResult> {
+async function executeTask(task: Task, signal: AbortSignal): Promise<TaskResult> {
   if (task.kind === "echo") {
     return {
       schemaVersion: SCHEMA_VERSION,
@@ -118,10 +161,12 @@ async function executeTask(task: Task): Promise<TaskResult> {
       ok: true,
       output: { echoed: task.payload },
       finishedAt: Date.now(),
+      attempt: task.attempt,
+      leaseToken: task.leaseToken,
     };
   }
 
-  const execution = await executeRealTask(task);
+  const execution = await executeRealTask(task, signal);
   return {
     schemaVersion: SCHEMA_VERSION,
     taskId: task.taskId,
@@ -132,6 +177,8 @@ async function executeTask(task: Task): Promise<TaskResult> {
       ? undefined
       : `${execution.errorCode ?? "EXECUTION_ERROR"}:${execution.error ?? "unknown"}`,
     finishedAt: Date.now(),
+    attempt: task.attempt,
+    leaseToken: task.leaseToken,
   };
 }
 
@@ -183,11 +230,22 @@ async function main() {
       // Reset backoff on successful claim
       backoffMs = pollMs;
 
-      await ackTask(task.taskId);
-      const result = await executeTask(task);
+      currentTaskId = task.taskId;
+      currentTaskStopped = false;
+      currentTaskAbort = new AbortController();
+      await ackTask(task);
+      const result = await executeTask(task, currentTaskAbort.signal);
+      currentTaskId = null;
+      currentTaskAbort = null;
+      if (currentTaskStopped) {
+        console.warn(`[edge-node:${nodeId}] task ${task.taskId} was stopped, dropping result`);
+        continue;
+      }
       await submitResult(result);
       console.log(`[edge-node:${nodeId}] task completed`, task.taskId, result.ok ? "ok" : "failed");
     } catch (err) {
+      currentTaskId = null;
+      currentTaskAbort = null;
       if (String(err).includes("HTTP 401")) {
         console.warn(`[edge-node:${nodeId}] 401 on task loop, re-authenticating`);
         await reAuth().catch((e) => console.error(`[edge-node:${nodeId}] re-auth failed`, e));
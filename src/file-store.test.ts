@@ -0,0 +1,399 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { spawnSync } from "node:child_process";
+import {
+  appendFileSync,
+  existsSync,
+  mkdtempSync,
+  readFileSync,
+  rmSync,
+  writeFileSync,
+} from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { FileControlPlaneStore } from "./persistence/file-adapter.js";
+import { buildControlPlane } from "./control-plane.js";
+
+function makeDir() {
+  return mkdtempSync(join(tmpdir(), "edgemesh-file-store-"));
+}
+
+/** Leaves `dir` locked the way a crashed process would: by a pid that is gone. */
+function lockByDeadProcess(dir: string) {
+  const { pid } = spawnSync(process.execPath, ["-e", ""]);
+  writeFileSync(join(dir, "store.lock"), String(pid));
+}
+
+const BASE_TASK = {
+  schemaVersion: "1.0" as const,
+  kind: "echo",
+  payload: {},
+  status: "queued" as const,
+};
+
+async function registerHealthyNode(store: FileControlPlaneStore, nodeId: string) {
+  await store.upsertNode({
+    schemaVersion: "1.0",
+    nodeId,
+    capabilities: { tags: ["linux"], maxConcurrentTasks: 4 },
+  });
+  await store.setNodeTrust(nodeId, { trusted: true, revoked: false });
+  await store.setHeartbeat(nodeId, {
+    schemaVersion: "1.0",
+    nodeId,
+    ts: Date.now(),
+    status: "healthy",
+    load: 0,
+    runningTasks: 0,
+  });
+}
+
+test("file store: state survives a restart without close (crash)", async () => {
+  const dir = makeDir();
+  try {
+    const store = new FileControlPlaneStore(dir, { fsync: false });
+    await registerHealthyNode(store, "node-f1");
+    await store.enqueueTask({ ...BASE_TASK, taskId: "f-1", createdAt: Date.now() });
+    await store.enqueueTask({ ...BASE_TASK, taskId: "f-2", createdAt: Date.now() + 1 });
+    await store.enqueueTask({ ...BASE_TASK, taskId: "f-3", createdAt: Date.now() + 2 });
+
+    await store.claimTask("node-f1");
+    await store.setTaskStatus("f-1", "done");
+    await store.setTaskResult({
+      schemaVersion: "1.0",
+      taskId: "f-1",
+      nodeId: "node-f1",
+      ok: true,
+      finishedAt: Date.now(),
+    });
+    await store.cancelTask("f-2");
+    // No close(): simulate the process dying here.
+    lockByDeadProcess(dir);
+
+    const recovered = new FileControlPlaneStore(dir, { fsync: false });
+    const node = await recovered.getNode("node-f1");
+    assert.equal(node?.trusted, true);
+    assert.equal(node?.freshnessState, "healthy");
+
+    assert.equal((await recovered.getTask("f-1"))?.status, "done");
+    assert.equal((await recovered.getTaskResult("f-1"))?.ok, true);
+    assert.equal((await recovered.getTask("f-2"))?.status, "cancelled");
+    assert.deepEqual(
+      (await recovered.listQueuedTasks()).map((t) => t.taskId),
+      ["f-3"]
+    );
+
+    const next = await recovered.claimTask("node-f1");
+    assert.equal(next?.taskId, "f-3");
+    await recovered.close();
+    await store.close();
+  } finally {
+    rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+test("file store: torn final journal line is dropped on recovery", async () => {
+  const dir = makeDir();
+  try {
+    const store = new FileControlPlaneStore(dir, { fsync: false });
+    await store.enqueueTask({ ...BASE_TASK, taskId: "torn-1", createdAt: Date.now() });
+    await store.close();
+
+    // Crash halfway through writing the next entry
+    appendFileSync(join(dir, "journal.jsonl"), '{"op":"task","task":{"taskId":"torn-2"');
+
+    const recovered = new FileControlPlaneStore(dir, { fsync: false });
+    assert.ok(await recovered.getTask("torn-1"));
+    assert.equal(await recovered.getTask("torn-2"), undefined);
+
+    // Appends after recovery must start on a clean line
+    await recovered.enqueueTask({ ...BASE_TASK, taskId: "torn-3", createdAt: Date.now() });
+    await recovered.close();
+
+    const again = new FileControlPlaneStore(dir, { fsync: false });
+    assert.ok(await again.getTask("torn-1"));
+    assert.ok(await again.getTask("torn-3"));
+    await again.close();
+  } finally {
+    rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+test("file store: corrupt entry before the tail fails recovery loudly", async () => {
+  const dir = makeDir();
+  try {
+    const store = new FileControlPlaneStore(dir, { fsync: false });
+    await store.close();
+    appendFileSync(join(dir, "journal.jsonl"), "not json\n" + '{"op":"dlq.delete","taskId":"x"}\n');
+
+    assert.throws(() => new FileControlPlaneStore(dir), /corrupt journal entry at line 1/);
+  } finally {
+    rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+test("file store: compaction snapshots state and truncates the journal", async () => {
+  const dir = makeDir();
+  try {
+    const store = new FileControlPlaneStore(dir, { fsync: false, compactEvery: 5 });
+    for (let i = 0; i < 7; i++) {
+      await store.enqueueTask({
+        ...BASE_TASK,
+        taskId: `c-${i}`,
+        createdAt: Date.now() + i,
+        status: i === 0 ? "failed" : "queued",
+      });
+    }
+    await store.enqueueDlq({
+      schemaVersion: "1.0",
+      taskId: "c-0",
+      task: (await store.getTask("c-0"))!,
+      lastResult: {
+        schemaVersion: "1.0",
+        taskId: "c-0",
+        nodeId: "node-x",
+        ok: false,
+        finishedAt: Date.now(),
+      },
+      reason: "max_attempts_exhausted",
+      enqueuedAt: Date.now(),
+    });
+
+    assert.ok(existsSync(join(dir, "snapshot.json")));
+    const journalLines = readFileSync(join(dir, "journal.jsonl"), "utf8").split("\n");
+    assert.ok(journalLines.filter(Boolean).length < 5, "journal should have been truncated");
+    await store.close();
+
+    const recovered = new FileControlPlaneStore(dir, { fsync: false });
+    assert.equal((await recovered.listTasks()).length, 7);
+    assert.equal((await recovered.listDlq()).length, 1);
+    assert.deepEqual(
+      (await recovered.listQueuedTasks()).map((t) => t.taskId),
+      ["c-1", "c-2", "c-3", "c-4", "c-5", "c-6"]
+    );
+
+    assert.equal(await recovered.requeueFromDlq("c-0"), true);
+    recovered.compact();
+    await recovered.close();
+
+    const final = new FileControlPlaneStore(dir, { fsync: false });
+    assert.equal((await final.listDlq()).length, 0);
+    assert.equal((await final.getTask("c-0"))?.status, "queued");
+    await final.close();
+  } finally {
+    rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+test("file store: pruned tasks and DLQ entries stay deleted after restart", async () => {
+  const dir = makeDir();
+  try {
+    const store = new FileControlPlaneStore(dir, { fsync: false });
+    await store.enqueueTask({
+      ...BASE_TASK,
+      taskId: "d-1",
+      createdAt: Date.now(),
+      status: "failed",
+    });
+    await store.enqueueTask({ ...BASE_TASK, taskId: "d-2", createdAt: Date.now() + 1 });
+    await store.enqueueDlq({
+      schemaVersion: "1.0",
+      taskId: "d-1",
+      task: (await store.getTask("d-1"))!,
+      lastResult: {
+        schemaVersion: "1.0",
+        taskId: "d-1",
+        nodeId: "node-x",
+        ok: false,
+        finishedAt: Date.now(),
+      },
+      reason: "max_attempts_exhausted",
+      enqueuedAt: Date.now(),
+    });
+    await store.deleteDlqEntry("d-1");
+    await store.deleteTask("d-1");
+    await store.deleteTask("d-2");
+    await store.close();
+
+    const recovered = new FileControlPlaneStore(dir, { fsync: false });
+    assert.deepEqual(await recovered.listTasks(), []);
+    assert.deepEqual(await recovered.listQueuedTasks(), []);
+    assert.deepEqual(await recovered.listDlq(), []);
+    await recovered.close();
+  } finally {
+    rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+test("file store: schedules survive a restart from journal and snapshot", async () => {
+  const dir = makeDir();
+  try {
+    const store = new FileControlPlaneStore(dir, { fsync: false });
+    const schedule = {
+      schemaVersion: "1.0" as const,
+      scheduleId: "nightly",
+      cron: "0 2 * * *",
+      task: { kind: "echo", payload: {} },
+      overlap: "skip" as const,
+      catchUp: "latest" as const,
+      createdAt: Date.now(),
+      nextRunAt: Date.now() + 60_000,
+    };
+    await store.saveSchedule(schedule);
+    await store.saveSchedule({ ...schedule, scheduleId: "hourly", cron: "0 * * * *" });
+    await store.deleteSchedule("hourly");
+    await store.close();
+
+    const fromJournal = new FileControlPlaneStore(dir, { fsync: false });
+    assert.deepEqual(await fromJournal.listSchedules(), [{ ...schedule, revision: 1 }]);
+    fromJournal.compact();
+    await fromJournal.close();
+
+    const fromSnapshot = new FileControlPlaneStore(dir, { fsync: false });
+    assert.equal((await fromSnapshot.getSchedule("nightly"))?.cron, "0 2 * * *");
+    await fromSnapshot.close();
+  } finally {
+    rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+test("file store: concurrency limits survive a restart from journal and snapshot", async () => {
+  const dir = makeDir();
+  try {
+    const store = new FileControlPlaneStore(dir, { fsync: false });
+    const limit = { schemaVersion: "1.0" as const, updatedAt: Date.now() };
+    await store.saveConcurrencyLimit({ ...limit, scope: "kind", name: "render", max: 1 });
+    await store.saveConcurrencyLimit({ ...limit, scope: "kind", name: "render", max: 3 });
+    await store.saveConcurrencyLimit({ ...limit, scope: "tag", name: "gpu", max: 2 });
+    await store.deleteConcurrencyLimit("tag", "gpu");
+    await store.close();
+
+    const fromJournal = new FileControlPlaneStore(dir, { fsync: false });
+    assert.deepEqual(await fromJournal.listConcurrencyLimits(), [
+      { ...limit, scope: "kind", name: "render", max: 3 },
+    ]);
+    fromJournal.compact();
+    await fromJournal.close();
+
+    const fromSnapshot = new FileControlPlaneStore(dir, { fsync: false });
+    assert.equal((await fromSnapshot.listConcurrencyLimits())[0]?.max, 3);
+    await fromSnapshot.close();
+  } finally {
+    rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+test("EDGEMESH_STORE=file persists control-plane state across restarts", async () => {
+  const dir = makeDir();
+  const prevStore = process.env.EDGEMESH_STORE;
+  const prevDir = process.env.EDGEMESH_DATA_DIR;
+  process.env.EDGEMESH_STORE = "file";
+  process.env.EDGEMESH_DATA_DIR = dir;
+  try {
+    const app = buildControlPlane();
+    await app.ready();
+    const reg = await app.inject({
+      method: "POST",
+      url: "/v1/nodes/register",
+      headers: { "x-bootstrap-token": "bootstrap-dev" },
+      payload: {
+        schemaVersion: "1.0",
+        nodeId: "node-env-file",
+        capabilities: { tags: ["linux"], maxConcurrentTasks: 1 },
+      },
+    });
+    assert.equal(reg.statusCode, 200);
+    await app.close();
+
+    const restarted = buildControlPlane();
+    await restarted.ready();
+    const nodes = await restarted.inject({ method: "GET", url: "/v1/nodes" });
+    assert.deepEqual(
+      nodes.json().nodes.map((n: { nodeId: string }) => n.nodeId),
+      ["node-env-file"]
+    );
+    await restarted.close();
+  } finally {
+    if (prevStore === undefined) delete process.env.EDGEMESH_STORE;
+    else process.env.EDGEMESH_STORE = prevStore;
+    if (prevDir === undefined) delete process.env.EDGEMESH_DATA_DIR;
+    else process.env.EDGEMESH_DATA_DIR = prevDir;
+    rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+test("file store: one store at a time per directory", async () => {
+  const dir = makeDir();
+  try {
+    const store = new FileControlPlaneStore(dir, { fsync: false });
+    assert.throws(
+      () => new FileControlPlaneStore(dir, { fsync: false }),
+      new RegExp(`in use by process ${process.pid}`)
+    );
+    await store.close();
+    assert.equal(existsSync(join(dir, "store.lock")), false);
+
+    const reopened = new FileControlPlaneStore(dir, { fsync: false });
+    await reopened.close();
+
+    // A lock left by an earlier run under our pid (a container's PID 1) is stale.
+    writeFileSync(join(dir, "store.lock"), `${process.pid}\nearlier-run`);
+    const restarted = new FileControlPlaneStore(dir, { fsync: false });
+    await restarted.close();
+  } finally {
+    rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+test("file store: heartbeats are journaled at most once per interval", async () => {
+  const dir = makeDir();
+  try {
+    const store = new FileControlPlaneStore(dir, { fsync: false, heartbeatJournalMs: 1_000 });
+    await registerHealthyNode(store, "node-hb");
+    const heartbeat = (ts: number, status: "healthy" | "degraded") =>
+      store.setHeartbeat("node-hb", {
+        schemaVersion: "1.0",
+        nodeId: "node-hb",
+        ts,
+        status,
+        load: 0,
+        runningTasks: 0,
+      });
+    const journaled = () =>
+      readFileSync(join(dir, "journal.jsonl"), "utf8")
+        .split("\n")
+        .filter((line) => line.includes('"op":"heartbeat"')).length;
+
+    const start = Date.now();
+    assert.equal(journaled(), 1);
+    await heartbeat(start + 100, "healthy");
+    await heartbeat(start + 200, "healthy");
+    assert.equal(journaled(), 1, "within the interval only memory changes");
+    assert.equal((await store.getNode("node-hb"))?.lastHeartbeat?.ts, start + 200);
+
+    await heartbeat(start + 300, "degraded");
+    await heartbeat(start + 1_300, "degraded");
+    assert.equal(journaled(), 3, "a status change or a lapsed interval is journaled");
+    await store.close();
+  } finally {
+    rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+test("file store: a change the journal rejects never reaches memory", async () => {
+  const dir = makeDir();
+  try {
+    const store = new FileControlPlaneStore(dir, { fsync: false });
+    await store.enqueueTask({ ...BASE_TASK, taskId: "kept", createdAt: Date.now() });
+    await store.close(); // later appends fail on the closed journal
+
+    await assert.rejects(
+      store.enqueueTask({ ...BASE_TASK, taskId: "lost", createdAt: Date.now() })
+    );
+    await assert.rejects(store.cancelTask("kept"));
+    assert.equal(await store.getTask("lost"), undefined);
+    assert.equal((await store.getTask("kept"))?.status, "queued");
+  } finally {
+    rmSync(dir, { recursive: true, force: true });
+  }
+});
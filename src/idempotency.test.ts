@@ -0,0 +1,138 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { buildControlPlane } from "./control-plane.js";
+import { InMemoryControlPlaneStore } from "./persistence.js";
+import { submissionDiff } from "./control/idempotency.js";
+import type { Task } from "./contracts.js";
+
+// ── Helpers ────────────────────────────────────────────────────────────────
+
+type App = ReturnType<typeof buildControlPlane>;
+
+async function submit(
+  app: App,
+  body: Record<string, unknown>,
+  headers: Record<string, string> = {}
+) {
+  // Job tokens are single-use, so every attempt fetches a fresh one.
+  const jt = await app.inject({
+    method: "POST",
+    url: "/v1/auth/job-token",
+    headers: { "x-admin-token": "admin-dev" },
+    payload: { jobId: body.taskId, ttlMs: 60_000 },
+  });
+  return app.inject({
+    method: "POST",
+    url: "/v1/tasks",
+    headers: { authorization: `Bearer ${jt.json().token as string}`, ...headers },
+    payload: { kind: "echo", payload: { n: 1 }, ...body },
+  });
+}
+
+async function queued(app: App): Promise<string[]> {
+  const res = await app.inject({ method: "GET", url: "/v1/tasks/queue" });
+  return res.json().tasks.map((t: Task) => t.taskId);
+}
+
+// ── Tests ──────────────────────────────────────────────────────────────────
+
+test("submissionDiff ignores key order and server-set fields", () => {
+  const base: Task = {
+    schemaVersion: "1.0",
+    taskId: "t",
+    kind: "echo",
+    payload: { a: 1, b: { c: [1, 2] } },
+    status: "queued",
+    createdAt: 1,
+  };
+  const same = { ...base, payload: { b: { c: [1, 2] }, a: 1 }, status: "done", createdAt: 2 };
+  assert.deepEqual(submissionDiff(base, same as Task), []);
+  assert.deepEqual(submissionDiff(base, { ...base, payload: { a: 2 }, priority: 3 }), [
+    "payload",
+    "priority",
+  ]);
+});
+
+test("resubmitting a taskId with the same task returns the original", async () => {
+  const app = buildControlPlane();
+  const first = await submit(app, { taskId: "t-1", priority: 4 });
+  assert.deepEqual(first.json(), { ok: true, taskId: "t-1" });
+
+  const again = await submit(app, { taskId: "t-1", priority: 4 });
+  assert.equal(again.statusCode, 200);
+  assert.deepEqual(again.json(), { ok: true, taskId: "t-1", status: "queued", deduplicated: true });
+  assert.deepEqual(await queued(app), ["t-1"]);
+  await app.close();
+});
+
+test("reusing a taskId for a different task is rejected with 409", async () => {
+  const app = buildControlPlane();
+  await submit(app, { taskId: "t-1" });
+  const res = await submit(app, { taskId: "t-1", payload: { n: 2 } });
+  assert.equal(res.statusCode, 409);
+  assert.deepEqual(res.json(), {
+    ok: false,
+    error: "task_id_conflict",
+    taskId: "t-1",
+    fields: ["payload"],
+  });
+  const task = await app.inject({ method: "GET", url: "/v1/tasks/t-1" });
+  assert.deepEqual(task.json().task.payload, { n: 1 });
+  await app.close();
+});
+
+test("an idempotency key returns the task it first created", async () => {
+  const app = buildControlPlane();
+  const first = await submit(app, { taskId: "attempt-1" }, { "idempotency-key": "order-42" });
+  assert.equal(first.json().taskId, "attempt-1");
+
+  // A retry under a fresh taskId (header or body field) still maps to the first task.
+  const viaHeader = await submit(app, { taskId: "attempt-2" }, { "idempotency-key": "order-42" });
+  assert.deepEqual(viaHeader.json(), {
+    ok: true,
+    taskId: "attempt-1",
+    status: "queued",
+    deduplicated: true,
+  });
+  const viaBody = await submit(app, { taskId: "attempt-3", dedupeKey: "order-42" });
+  assert.equal(viaBody.json().taskId, "attempt-1");
+  assert.deepEqual(await queued(app), ["attempt-1"]);
+
+  const task = await app.inject({ method: "GET", url: "/v1/tasks/attempt-1" });
+  assert.equal(task.json().task.dedupeKey, "order-42");
+
+  const changed = await submit(app, {
+    taskId: "attempt-4",
+    payload: { n: 9 },
+    dedupeKey: "order-42",
+  });
+  assert.equal(changed.statusCode, 409);
+  assert.equal(changed.json().error, "idempotency_key_conflict");
+  assert.equal(changed.json().taskId, "attempt-1");
+  await app.close();
+});
+
+test("an idempotency key stops deduping once its window passes", async () => {
+  const app = buildControlPlane(undefined, { dedupeWindowMs: 50 });
+  await submit(app, { taskId: "a", dedupeKey: "k" });
+  await new Promise((r) => setTimeout(r, 80));
+  const res = await submit(app, { taskId: "b", dedupeKey: "k" });
+  assert.deepEqual(res.json(), { ok: true, taskId: "b" });
+  assert.deepEqual((await queued(app)).sort(), ["a", "b"]);
+  await app.close();
+});
+
+test("an idempotency key whose task was pruned is rebound to the next one", async () => {
+  const store = new InMemoryControlPlaneStore();
+  const app = buildControlPlane(store);
+  await submit(app, { taskId: "a", dedupeKey: "k" });
+  await store.deleteTask("a");
+
+  const b = await submit(app, { taskId: "b", dedupeKey: "k" });
+  assert.deepEqual(b.json(), { ok: true, taskId: "b" });
+  const retry = await submit(app, { taskId: "c", dedupeKey: "k" });
+  assert.equal(retry.json().taskId, "b");
+  assert.equal(retry.json().deduplicated, true);
+  assert.deepEqual(await queued(app), ["b"]);
+  await app.close();
+});
@@ -0,0 +1,183 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { buildControlPlane } from "./control-plane.js";
+import { InMemoryControlPlaneStore } from "./persistence.js";
+import type { EdgeMeshEvent, EdgeMeshPlugin } from "./plugins/types.js";
+
+// ── Helpers ────────────────────────────────────────────────────────────────
+
+type App = ReturnType<typeof buildControlPlane>;
+type Claimed = { taskId: string; attempt: number; leaseToken: string };
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+function recorder(): { plugin: EdgeMeshPlugin; events: EdgeMeshEvent[] } {
+  const events: EdgeMeshEvent[] = [];
+  const plugin: EdgeMeshPlugin = {
+    name: "recorder",
+    register(_app, ctx) {
+      const emit = ctx.emit.bind(ctx);
+      ctx.emit = (event) => {
+        events.push(event);
+        emit(event);
+      };
+    },
+  };
+  return { plugin, events };
+}
+
+/** A control plane whose leases last 150ms and whose reaper runs every 20ms. */
+function leasedControlPlane(plugins: EdgeMeshPlugin[] = []): App {
+  return buildControlPlane(new InMemoryControlPlaneStore({ claimTtlMs: 150 }), {
+    admission: null,
+    reaperIntervalMs: 20,
+    plugins,
+  });
+}
+
+function heartbeat(app: App, nodeId: string, nodeToken: string, activeTaskIds?: string[]) {
+  return app.inject({
+    method: "POST",
+    url: `/v1/nodes/${nodeId}/heartbeat`,
+    headers: { authorization: `Bearer ${nodeToken}` },
+    payload: {
+      schemaVersion: "1.0",
+      nodeId,
+      ts: Date.now(),
+      status: "healthy",
+      load: 0,
+      runningTasks: 0,
+      activeTaskIds,
+    },
+  });
+}
+
+async function addNode(app: App, nodeId: string): Promise<string> {
+  const res = await app.inject({
+    method: "POST",
+    url: "/v1/nodes/register",
+    headers: { "x-bootstrap-token": "bootstrap-dev" },
+    payload: { schemaVersion: "1.0", nodeId, capabilities: { tags: [], maxConcurrentTasks: 4 } },
+  });
+  const nodeToken = res.json().token as string;
+  await heartbeat(app, nodeId, nodeToken);
+  return nodeToken;
+}
+
+async function submit(app: App, taskId: string) {
+  const jt = await app.inject({
+    method: "POST",
+    url: "/v1/auth/job-token",
+    headers: { "x-admin-token": "admin-dev" },
+    payload: { jobId: taskId, ttlMs: 60_000 },
+  });
+  await app.inject({
+    method: "POST",
+    url: "/v1/tasks",
+    headers: { authorization: `Bearer ${jt.json().token as string}` },
+    payload: { taskId, kind: "echo", payload: {} },
+  });
+}
+
+async function claim(app: App, nodeId: string, nodeToken: string): Promise<Claimed | null> {
+  const res = await app.inject({
+    method: "POST",
+    url: `/v1/nodes/${nodeId}/tasks/claim`,
+    headers: { authorization: `Bearer ${nodeToken}` },
+  });
+  return res.json().task;
+}
+
+function post(app: App, url: string, nodeToken: string, payload: object) {
+  return app.inject({
+    method: "POST",
+    url,
+    headers: { authorization: `Bearer ${nodeToken}` },
+    payload,
+  });
+}
+
+async function statusOf(app: App, taskId: string): Promise<string> {
+  return (await app.inject({ method: "GET", url: `/v1/tasks/${taskId}` })).json().task.status;
+}
+
+// ── Tests ──────────────────────────────────────────────────────────────────
+
+test("a running task whose lease lapses is requeued and its old holder fenced", async () => {
+  const { plugin, events } = recorder();
+  const app = leasedControlPlane([plugin]);
+  const token = await addNode(app, "n-1");
+  await submit(app, "long");
+  const first = (await claim(app, "n-1", token))!;
+  const ack = { attempt: first.attempt, leaseToken: first.leaseToken };
+  assert.equal((await post(app, "/v1/tasks/long/ack", token, ack)).statusCode, 200);
+
+  await sleep(250);
+  assert.equal(await statusOf(app, "long"), "queued");
+  const expired = events.find((e) => e.type === "task.lease_expired");
+  assert.equal(expired?.taskId, "long");
+  assert.equal(expired?.nodeId, "n-1");
+  assert.equal(expired?.detail?.status, "running");
+  const failed = events.find((e) => e.type === "task.failed");
+  assert.deepEqual(failed?.detail, {
+    reason: "lease_expired",
+    retrying: true,
+    attempt: 1,
+    delayMs: 275,
+  });
+
+  // The same node claims again, after the retry backoff; anything sent under
+  // the first lease is stale.
+  await sleep(300);
+  const second = (await claim(app, "n-1", token))!;
+  assert.notEqual(second.leaseToken, first.leaseToken);
+  const late = {
+    schemaVersion: "1.0",
+    taskId: "long",
+    nodeId: "n-1",
+    ok: true,
+    finishedAt: Date.now(),
+    leaseToken: first.leaseToken,
+  };
+  const fenced = await post(app, "/v1/tasks/long/result", token, late);
+  assert.equal(fenced.statusCode, 409);
+  assert.equal(fenced.json().error, "stale_lease");
+  assert.equal(
+    (await post(app, "/v1/tasks/long/ack", token, { leaseToken: first.leaseToken })).statusCode,
+    409
+  );
+  const lease = await post(app, "/v1/tasks/long/lease", token, { leaseToken: first.leaseToken });
+  assert.equal(lease.json().error, "stale_lease");
+
+  const done = { ...late, leaseToken: second.leaseToken };
+  assert.equal((await post(app, "/v1/tasks/long/result", token, done)).statusCode, 200);
+  await app.close();
+});
+
+test("the lease endpoint and heartbeats keep a long task leased", async () => {
+  const app = leasedControlPlane();
+  const token = await addNode(app, "n-1");
+  await submit(app, "a");
+  await submit(app, "b");
+  const a = (await claim(app, "n-1", token))!;
+  await claim(app, "n-1", token); // b
+  await post(app, "/v1/tasks/a/ack", token, { leaseToken: a.leaseToken });
+
+  for (let i = 0; i < 4; i++) {
+    await sleep(80);
+    const renewed = await post(app, "/v1/tasks/a/lease", token, { leaseToken: a.leaseToken });
+    assert.ok(renewed.json().leaseExpiresAt > Date.now());
+    await heartbeat(app, "n-1", token); // renews every task of the node, b included
+  }
+  assert.equal(await statusOf(app, "a"), "running");
+  assert.equal(await statusOf(app, "b"), "claimed");
+
+  // A node that lists its tasks only keeps those.
+  for (let i = 0; i < 3; i++) {
+    await sleep(80);
+    await heartbeat(app, "n-1", token, ["a"]);
+  }
+  assert.equal(await statusOf(app, "a"), "running");
+  assert.equal(await statusOf(app, "b"), "queued");
+  await app.close();
+});
@@ -0,0 +1,128 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { buildControlPlane } from "./control-plane.js";
+
+// ── Helpers ────────────────────────────────────────────────────────────────
+
+type App = ReturnType<typeof buildControlPlane>;
+
+const admin = { "x-admin-token": "admin-dev" };
+
+async function addNode(app: App, nodeId: string): Promise<string> {
+  const res = await app.inject({
+    method: "POST",
+    url: "/v1/nodes/register",
+    headers: { "x-bootstrap-token": "bootstrap-dev" },
+    payload: {
+      schemaVersion: "1.0",
+      nodeId,
+      capabilities: { tags: ["gpu"], maxConcurrentTasks: 4 },
+    },
+  });
+  const nodeToken = res.json().token as string;
+  await app.inject({
+    method: "POST",
+    url: `/v1/nodes/${nodeId}/heartbeat`,
+    headers: { authorization: `Bearer ${nodeToken}` },
+    payload: {
+      schemaVersion: "1.0",
+      nodeId,
+      ts: Date.now(),
+      status: "healthy",
+      load: 0,
+      runningTasks: 0,
+    },
+  });
+  return nodeToken;
+}
+
+async function submit(app: App, taskId: string, extra: Record<string, unknown> = {}) {
+  const jt = await app.inject({
+    method: "POST",
+    url: "/v1/auth/job-token",
+    headers: admin,
+    payload: { jobId: taskId, ttlMs: 60_000 },
+  });
+  return app.inject({
+    method: "POST",
+    url: "/v1/tasks",
+    headers: { authorization: `Bearer ${jt.json().token as string}` },
+    payload: { taskId, kind: "echo", payload: {}, ...extra },
+  });
+}
+
+async function claim(app: App, nodeId: string, nodeToken: string): Promise<string | null> {
+  const res = await app.inject({
+    method: "POST",
+    url: `/v1/nodes/${nodeId}/tasks/claim`,
+    headers: { authorization: `Bearer ${nodeToken}` },
+  });
+  return res.json().task?.taskId ?? null;
+}
+
+function putLimit(app: App, scope: string, name: string, max: unknown, headers = admin) {
+  return app.inject({
+    method: "PUT",
+    url: `/v1/limits/${scope}/${name}`,
+    headers,
+    payload: { max },
+  });
+}
+
+// ── Tests ──────────────────────────────────────────────────────────────────
+
+test("GET /v1/limits reports in-use and waiting counts per limit", async () => {
+  const app = buildControlPlane(undefined, { admission: null });
+  const t1 = await addNode(app, "n-1");
+  const t2 = await addNode(app, "n-2");
+  assert.equal((await putLimit(app, "kind", "render", 1)).statusCode, 200);
+  assert.equal((await putLimit(app, "tag", "gpu", 2)).statusCode, 200);
+  await submit(app, "r-1", { kind: "render" });
+  await submit(app, "r-2", { kind: "render", requiredTags: ["gpu"] });
+  await submit(app, "g-1", { requiredTags: ["gpu"] });
+  await submit(app, "plain");
+
+  assert.equal(await claim(app, "n-1", t1), "r-1");
+  assert.equal(await claim(app, "n-2", t2), "g-1", "r-2 waits on the render limit");
+  assert.equal(await claim(app, "n-1", t1), "plain");
+
+  const res = await app.inject({ method: "GET", url: "/v1/limits" });
+  assert.deepEqual(res.json(), {
+    ok: true,
+    limits: [
+      { scope: "kind", name: "render", max: 1, inUse: 1, waiting: 1 },
+      { scope: "tag", name: "gpu", max: 2, inUse: 1, waiting: 1 },
+    ],
+  });
+  await app.close();
+});
+
+test("raising a limit lets waiting tasks through; deleting it lifts the cap", async () => {
+  const app = buildControlPlane(undefined, { admission: null });
+  const token = await addNode(app, "n-1");
+  await putLimit(app, "kind", "render", 0);
+  await submit(app, "r-1", { kind: "render" });
+  await submit(app, "r-2", { kind: "render" });
+  assert.equal(await claim(app, "n-1", token), null);
+
+  await putLimit(app, "kind", "render", 1);
+  assert.equal(await claim(app, "n-1", token), "r-1");
+  assert.equal(await claim(app, "n-1", token), null);
+
+  const del = () => app.inject({ method: "DELETE", url: "/v1/limits/kind/render", headers: admin });
+  assert.equal((await del()).statusCode, 200);
+  assert.equal((await del()).statusCode, 404);
+  assert.equal(await claim(app, "n-1", token), "r-2");
+  await app.close();
+});
+
+test("limit changes need the admin token and a valid scope and max", async () => {
+  const app = buildControlPlane();
+  assert.equal((await putLimit(app, "kind", "render", 1, {} as typeof admin)).statusCode, 401);
+  assert.equal((await putLimit(app, "queue", "render", 1)).statusCode, 400);
+  assert.equal((await putLimit(app, "kind", "render", -1)).statusCode, 400);
+  assert.equal((await putLimit(app, "kind", "render", 1.5)).statusCode, 400);
+  const list = await app.inject({ method: "GET", url: "/v1/limits" });
+  assert.deepEqual(list.json(), { ok: true, limits: [] });
+  await app.close();
+});
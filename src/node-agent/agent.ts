@@ -12,6 +12,7 @@ type RunOptions = {
   timeoutMs?: number;
   cwd?: string;
   env?: Record<string, string>;
+  signal?: AbortSignal;
 };
 
 type CaptureResult = {
@@ -136,6 +137,7 @@ export async function runWithCapture(
       timeout: timeoutMs,
       maxBuffer: 1024 * 1024,
       env: { ...process.env, ...(options.env || {}) },
+      signal: options.signal,
     });
 
     return {
@@ -259,6 +261,7 @@ async function runHookDispatch(payload: Record<string, unknown>) {
 }
 
 function classifyExecError(err: any) {
+  if (err?.name === "AbortError") return "aborted";
   if (err?.killed || err?.signal === "SIGTERM") return "timeout";
   if (typeof err?.code === "number") return "nonzero_exit";
   return "exec_error";
@@ -43,7 +43,7 @@ function isRealTaskKind(kind: string): kind is RealTaskKind {
   return kind === "shell" || kind === "orchestrator-run" || kind === "hook-dispatch";
 }
 
-async function executeShell(payload: ShellPayload): Promise<ExecutorResult> {
+async function executeShell(payload: ShellPayload, signal?: AbortSignal): Promise<ExecutorResult> {
   if (!payload.command || typeof payload.command !== "string") {
     return { ok: false, errorCode: "INVALID_PAYLOAD", error: "shell.command_required" };
   }
@@ -52,6 +52,7 @@ async function executeShell(payload: ShellPayload): Promise<ExecutorResult> {
     cwd: payload.cwd,
     env: payload.env,
     timeoutMs: payload.timeoutMs,
+    signal,
   });
 
   const output = {
@@ -119,7 +120,7 @@ function executeHookDispatch(payload: HookDispatchPayload): ExecutorResult {
   };
 }
 
-export async function executeRealTask(task: Task): Promise<ExecutorResult> {
+export async function executeRealTask(task: Task, signal?: AbortSignal): Promise<ExecutorResult> {
   if (!isRealTaskKind(task.kind)) {
     return {
       ok: false,
@@ -131,7 +132,7 @@ export async function executeRealTask(task: Task): Promise<ExecutorResult> {
   const payload = isRecord(task.payload) ? task.payload : {};
 
   if (task.kind === "shell") {
-    return await executeShell(payload as unknown as ShellPayload);
+    return await executeShell(payload as unknown as ShellPayload, signal);
   }
 
   if (task.kind === "orchestrator-run") {
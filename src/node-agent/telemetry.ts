@@ -0,0 +1,58 @@
+import { readFileSync, readdirSync } from "node:fs";
+import os from "node:os";
+import type { HeartbeatRequest } from "../contracts.js";
+
+export type HostTelemetry = Pick<HeartbeatRequest, "load" | "cpu" | "memory" | "temperatureC">;
+
+let lastCpuTimes: { idle: number; total: number } | null = null;
+
+function cpuTimes() {
+  let idle = 0;
+  let total = 0;
+  for (const cpu of os.cpus()) {
+    idle += cpu.times.idle;
+    total += cpu.times.user + cpu.times.nice + cpu.times.sys + cpu.times.irq + cpu.times.idle;
+  }
+  return { idle, total };
+}
+
+/** Hottest Linux thermal zone in °C, or undefined where sysfs has none. */
+function readTemperatureC(): number | undefined {
+  const root = "/sys/class/thermal";
+  let hottest: number | undefined;
+  try {
+    for (const zone of readdirSync(root)) {
+      if (!zone.startsWith("thermal_zone")) continue;
+      const milli = Number(readFileSync(`${root}/${zone}/temp`, "utf8").trim());
+      if (Number.isFinite(milli)) hottest = Math.max(hottest ?? -Infinity, milli / 1000);
+    }
+  } catch {
+    return undefined;
+  }
+  return hottest;
+}
+
+const clamp01 = (n: number) => Math.min(1, Math.max(0, n));
+
+/**
+ * Samples this host for a heartbeat. `load` is the 1-minute load average per
+ * core; `cpu` is utilisation since the previous sample and is omitted on the
+ * first call.
+ */
+export function sampleHostTelemetry(): HostTelemetry {
+  const cores = Math.max(1, os.cpus().length);
+  const times = cpuTimes();
+  const previous = lastCpuTimes;
+  lastCpuTimes = times;
+
+  const telemetry: HostTelemetry = {
+    load: clamp01(os.loadavg()[0] / cores),
+    memory: clamp01(1 - os.freemem() / os.totalmem()),
+  };
+  if (previous && times.total > previous.total) {
+    telemetry.cpu = clamp01(1 - (times.idle - previous.idle) / (times.total - previous.total));
+  }
+  const temperatureC = readTemperatureC();
+  if (temperatureC !== undefined) telemetry.temperatureC = temperatureC;
+  return telemetry;
+}
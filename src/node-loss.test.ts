@@ -0,0 +1,216 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { buildControlPlane } from "./control-plane.js";
+import { nodeLostGraceFromEnv } from "./control/timeout-reaper.js";
+import { InMemoryControlPlaneStore } from "./persistence.js";
+import type { EdgeMeshEvent, EdgeMeshPlugin } from "./plugins/types.js";
+
+// ── Helpers ────────────────────────────────────────────────────────────────
+
+type App = ReturnType<typeof buildControlPlane>;
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+function recorder(): { plugin: EdgeMeshPlugin; events: EdgeMeshEvent[] } {
+  const events: EdgeMeshEvent[] = [];
+  const plugin: EdgeMeshPlugin = {
+    name: "recorder",
+    register(_app, ctx) {
+      const emit = ctx.emit.bind(ctx);
+      ctx.emit = (event) => {
+        events.push(event);
+        emit(event);
+      };
+    },
+  };
+  return { plugin, events };
+}
+
+/** Nodes go offline 60ms after their last heartbeat and are lost 60ms later. */
+function fastControlPlane(plugins: EdgeMeshPlugin[] = []): App {
+  const store = new InMemoryControlPlaneStore({ heartbeatHealthyMs: 30, heartbeatDegradedMs: 60 });
+  return buildControlPlane(store, {
+    admission: null,
+    reaperIntervalMs: 20,
+    nodeLostGraceMs: 60,
+    plugins,
+  });
+}
+
+function heartbeat(app: App, nodeId: string, nodeToken: string) {
+  return app.inject({
+    method: "POST",
+    url: `/v1/nodes/${nodeId}/heartbeat`,
+    headers: { authorization: `Bearer ${nodeToken}` },
+    payload: {
+      schemaVersion: "1.0",
+      nodeId,
+      ts: Date.now(),
+      status: "healthy",
+      load: 0,
+      runningTasks: 0,
+    },
+  });
+}
+
+async function addNode(
+  app: App,
+  nodeId: string,
+  maxConcurrentTasks = 2,
+  bootId?: string
+): Promise<string> {
+  const res = await app.inject({
+    method: "POST",
+    url: "/v1/nodes/register",
+    headers: { "x-bootstrap-token": "bootstrap-dev" },
+    payload: {
+      schemaVersion: "1.0",
+      nodeId,
+      bootId,
+      capabilities: { tags: [], maxConcurrentTasks },
+    },
+  });
+  const nodeToken = res.json().token as string;
+  await heartbeat(app, nodeId, nodeToken);
+  return nodeToken;
+}
+
+async function submit(app: App, taskId: string, maxAttempts: number) {
+  const jt = await app.inject({
+    method: "POST",
+    url: "/v1/auth/job-token",
+    headers: { "x-admin-token": "admin-dev" },
+    payload: { jobId: taskId, ttlMs: 60_000 },
+  });
+  await app.inject({
+    method: "POST",
+    url: "/v1/tasks",
+    headers: { authorization: `Bearer ${jt.json().token as string}` },
+    payload: { taskId, kind: "echo", payload: {}, maxAttempts },
+  });
+}
+
+async function claim(app: App, nodeId: string, nodeToken: string): Promise<string | null> {
+  const res = await app.inject({
+    method: "POST",
+    url: `/v1/nodes/${nodeId}/tasks/claim`,
+    headers: { authorization: `Bearer ${nodeToken}` },
+  });
+  return res.json().task?.taskId ?? null;
+}
+
+async function statusOf(app: App, taskId: string): Promise<string> {
+  return (await app.inject({ method: "GET", url: `/v1/tasks/${taskId}` })).json().task.status;
+}
+
+// ── Tests ──────────────────────────────────────────────────────────────────
+
+test("a node offline past the grace period loses its tasks per the retry policy", async () => {
+  const { plugin, events } = recorder();
+  const app = fastControlPlane([plugin]);
+  const token = await addNode(app, "n-1");
+  await submit(app, "retried", 2);
+  await submit(app, "last-try", 1);
+  assert.equal(await claim(app, "n-1", token), "retried");
+  assert.equal(await claim(app, "n-1", token), "last-try");
+  await app.inject({
+    method: "POST",
+    url: "/v1/tasks/retried/ack",
+    headers: { authorization: `Bearer ${token}` },
+  });
+
+  await sleep(300);
+  assert.equal(await statusOf(app, "retried"), "queued");
+  assert.equal(await statusOf(app, "last-try"), "failed");
+  const dlq = (await app.inject({ method: "GET", url: "/v1/dlq/last-try" })).json();
+  assert.equal(dlq.entry.reason, "node_lost");
+
+  // Declared lost once, however long it stays away.
+  const lost = events.filter((e) => e.type === "node.lost");
+  assert.equal(lost.length, 1);
+  assert.equal(lost[0].nodeId, "n-1");
+  assert.deepEqual(lost[0].detail, { reason: "offline", taskIds: ["retried", "last-try"] });
+  const failed = events.filter((e) => e.type === "task.failed");
+  assert.deepEqual(
+    failed.map((e) => [e.taskId, e.detail?.reason, e.detail?.retrying]),
+    [
+      ["retried", "node_lost", true],
+      ["last-try", "node_lost", false],
+    ]
+  );
+  await app.close();
+});
+
+test("a silent node's lapsed leases are recovered as its loss", async () => {
+  // Leases last as long as heartbeats stay fresh and outlive the grace period
+  // by far, as with the defaults (30s, 30s, 60s): the leases lapse first.
+  const { plugin, events } = recorder();
+  const store = new InMemoryControlPlaneStore({
+    claimTtlMs: 300,
+    heartbeatHealthyMs: 100,
+    heartbeatDegradedMs: 300,
+  });
+  const app = buildControlPlane(store, {
+    admission: null,
+    reaperIntervalMs: 20,
+    nodeLostGraceMs: 600,
+    plugins: [plugin],
+  });
+  const token = await addNode(app, "n-1");
+  await submit(app, "retried", 2);
+  await submit(app, "last-try", 1);
+  assert.equal(await claim(app, "n-1", token), "retried");
+  assert.equal(await claim(app, "n-1", token), "last-try");
+
+  await sleep(1_100);
+  assert.equal(await statusOf(app, "retried"), "queued");
+  assert.equal(await statusOf(app, "last-try"), "failed");
+  const dlq = (await app.inject({ method: "GET", url: "/v1/dlq/last-try" })).json();
+  assert.equal(dlq.entry.reason, "node_lost");
+
+  const lost = events.filter((e) => e.type === "node.lost");
+  assert.deepEqual(
+    lost.map((e) => e.detail),
+    [{ reason: "offline", taskIds: ["retried", "last-try"] }]
+  );
+  assert.equal(events.filter((e) => e.type === "task.lease_expired").length, 0);
+  await app.close();
+});
+
+test("a node that restarts gives up what it held and can claim again", async () => {
+  const { plugin, events } = recorder();
+  const app = buildControlPlane(undefined, { admission: null, plugins: [plugin] });
+  const token = await addNode(app, "n-1", 1, "boot-1");
+  await submit(app, "job", 3);
+  assert.equal(await claim(app, "n-1", token), "job");
+
+  // Registering again from the same run (its token lapsed) keeps the claim.
+  await addNode(app, "n-1", 1, "boot-1");
+  await addNode(app, "n-1", 1);
+  assert.equal(await statusOf(app, "job"), "claimed");
+  assert.equal(events.filter((e) => e.type === "node.lost").length, 0);
+
+  const fresh = await addNode(app, "n-1", 1, "boot-2");
+  assert.equal(await statusOf(app, "job"), "queued"); // after its retry backoff
+  const lost = events.filter((e) => e.type === "node.lost");
+  assert.deepEqual(lost[0]?.detail, { reason: "restarted", taskIds: ["job"] });
+  await submit(app, "next", 3);
+  assert.equal(await claim(app, "n-1", fresh), "next", "its slot is free again");
+
+  // Registering again with nothing in flight is not a loss.
+  await app.inject({
+    method: "POST",
+    url: "/v1/tasks/next/result",
+    headers: { authorization: `Bearer ${fresh}` },
+    payload: { schemaVersion: "1.0", taskId: "next", nodeId: "n-1", ok: true, finishedAt: 1 },
+  });
+  await addNode(app, "n-1", 1, "boot-3");
+  assert.equal(events.filter((e) => e.type === "node.lost").length, 1);
+  await app.close();
+});
+
+test("EDGEMESH_NODE_LOST_GRACE_MS is validated", () => {
+  assert.equal(nodeLostGraceFromEnv({}), 60_000);
+  assert.equal(nodeLostGraceFromEnv({ EDGEMESH_NODE_LOST_GRACE_MS: "0" }), 0);
+  assert.throws(() => nodeLostGraceFromEnv({ EDGEMESH_NODE_LOST_GRACE_MS: "soon" }));
+});
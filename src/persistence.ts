@@ -1,21 +1,108 @@
+import { randomUUID } from "node:crypto";
 import type {
+  ConcurrencyLimit,
   DlqEntry,
   HeartbeatRequest,
   NodeFreshnessState,
   NodeView,
   RegisterNodeRequest,
+  Schedule,
   Task,
   TaskResult,
 } from "./contracts.js";
+import {
+  InvalidTransitionError,
+  RETRYABLE_STATUSES,
+  assertTransition,
+  isTerminal,
+} from "./task-state.js";
+import { rankCandidates, type SchedulingConfig } from "./control/scheduling.js";
+import { needsSpreadLoad, placementAllows, spreadLoad } from "./control/placement.js";
+import { allocatedResources, fitsResources, freeResources } from "./control/resources.js";
+import { limitApplies, limitUsage, limitsAllow } from "./control/limits.js";
+import { constraintViolation } from "./control/constraints.js";
+
+/** Constructor options shared by every store adapter. */
+export interface StoreOptions {
+  /** Lease a claim starts with, and what each renewal extends it to. Default 30s. */
+  claimTtlMs?: number;
+  heartbeatHealthyMs?: number;
+  heartbeatDegradedMs?: number;
+  /** Claim ordering; defaults to strict priority. */
+  scheduling?: SchedulingConfig;
+}
 
-type NodeRecord = RegisterNodeRequest & {
+export type NodeRecord = RegisterNodeRequest & {
   lastHeartbeat?: HeartbeatRequest;
   trusted?: boolean;
   revoked?: boolean;
   draining?: boolean;
 };
 
+/** Per-call limits on a claim, checked with the rest of the claim. */
+export interface ClaimOptions {
+  /**
+   * Claim only while the node holds fewer claimed/running tasks than this;
+   * tightens `maxConcurrentTasks` (claim admission throttling uses it).
+   */
+  maxActive?: number;
+}
+
+/** An idempotency key bound to the task it first created, until `expiresAt`. */
+export interface DedupeKeyRecord {
+  key: string;
+  taskId: string;
+  expiresAt: number;
+}
+
+/**
+ * One change to InMemoryControlPlaneStore state, carrying the full new state
+ * of the record it touches. Every mutation goes through `write`, so a durable
+ * subclass can persist the change before it lands in memory.
+ */
+export type StoreWrite =
+  | { op: "node"; node: NodeRecord }
+  | { op: "heartbeat"; nodeId: string; heartbeat: HeartbeatRequest }
+  | { op: "task"; task: Task }
+  | { op: "task.delete"; taskId: string }
+  | { op: "result"; result: TaskResult }
+  | { op: "dlq"; entry: DlqEntry }
+  | { op: "dlq.delete"; taskId: string }
+  | { op: "schedule"; schedule: Schedule }
+  | { op: "schedule.delete"; scheduleId: string }
+  | { op: "limit"; limit: ConcurrencyLimit }
+  | { op: "limit.delete"; scope: ConcurrencyLimit["scope"]; name: string }
+  | { op: "dedupe"; record: DedupeKeyRecord };
+
+/**
+ * Thrown by task mutations given an `expectedRevision` that no longer matches:
+ * another writer changed the task since the caller read it.
+ */
+export class TaskRevisionConflictError extends Error {
+  constructor(
+    readonly taskId: string,
+    readonly expectedRevision: number,
+    readonly actualRevision: number
+  ) {
+    super(`task ${taskId} is at revision ${actualRevision}, expected ${expectedRevision}`);
+    this.name = "TaskRevisionConflictError";
+  }
+}
+
+/**
+ * Every task write bumps `Task.revision`. Mutations that take an
+ * `expectedRevision` are compare-and-set: they throw
+ * TaskRevisionConflictError instead of overwriting a newer state.
+ *
+ * Status changes follow TASK_TRANSITIONS (src/task-state.ts): setTaskStatus,
+ * requeueForRetry (claimed/running only) and requeueFromDlq (failed only)
+ * throw InvalidTransitionError on any other edge; cancelTask returns false
+ * for tasks that are already final.
+ */
 export interface ControlPlaneStore {
+  /** Claim ordering the store was created with; undefined means strict priority. */
+  readonly scheduling?: SchedulingConfig;
+
   upsertNode(node: RegisterNodeRequest): Promise<void>;
   getNode(nodeId: string): Promise<NodeView | undefined>;
   listNodes(): Promise<NodeView[]>;
@@ -24,15 +111,56 @@ export interface ControlPlaneStore {
   setNodeDrain(nodeId: string, draining: boolean): Promise<boolean>;
 
   enqueueTask(task: Task): Promise<void>;
-  claimTask(nodeId: string): Promise<Task | null>;
-  setTaskStatus(taskId: string, status: Task["status"]): Promise<Task | null>;
+  /**
+   * Enqueues `task` only if no task with its id exists. Returns the existing
+   * task, untouched, when there is one; undefined when `task` was enqueued.
+   */
+  enqueueTaskIfAbsent(task: Task): Promise<Task | undefined>;
+  claimTask(nodeId: string, options?: ClaimOptions): Promise<Task | null>;
+  setTaskStatus(
+    taskId: string,
+    status: Task["status"],
+    expectedRevision?: number
+  ): Promise<Task | null>;
   getTask(taskId: string): Promise<Task | undefined>;
   listQueuedTasks(): Promise<Task[]>;
   listRunningTasks(): Promise<Task[]>;
+  /** Claimed/running tasks assigned to `nodeId`. */
+  listNodeTasks(nodeId: string): Promise<Task[]>;
+  /** Up to `limit` queued tasks not pinned to a node, oldest createdAt first. */
+  listOldestQueuedTasks(limit: number): Promise<Task[]>;
+  /** Per-node children of the broadcast task `parentTaskId`, in any status. */
+  listChildTasks(parentTaskId: string): Promise<Task[]>;
+  /** Tasks that list `taskId` in dependsOn, in any status. */
+  listDependentTasks(taskId: string): Promise<Task[]>;
+  /** Queued tasks each of `limits` counts, in the order given. */
+  countWaitingTasks(limits: readonly ConcurrencyLimit[]): Promise<number[]>;
   listTasks(status?: Task["status"]): Promise<Task[]>;
-
-  cancelTask(taskId: string): Promise<boolean>;
-  requeueForRetry(taskId: string, retryAfter: number): Promise<boolean>;
+  countTasksByStatus(): Promise<Record<Task["status"], number>>;
+
+  cancelTask(taskId: string, expectedRevision?: number): Promise<boolean>;
+  requeueForRetry(taskId: string, retryAfter: number, expectedRevision?: number): Promise<boolean>;
+  /**
+   * Evicts a claimed/running task back onto the queue, immediately claimable,
+   * and bumps its `preemptions` so the interrupted claim is not charged
+   * against maxAttempts.
+   */
+  preemptTask(taskId: string, expectedRevision?: number): Promise<boolean>;
+  /**
+   * Extends the lease of a claimed/running task to `claimTtlMs` from now.
+   * Returns the renewed task, or null when the task is not claimed/running,
+   * holds a different `leaseToken`, or its lease already lapsed. Leaves the
+   * revision alone: a heartbeat renewing the lease must not fail a result or
+   * cancel that read the task just before it.
+   */
+  renewLease(taskId: string, leaseToken: string): Promise<Task | null>;
+  /**
+   * Claimed/running tasks whose lease lapsed, left as they are: the timeout
+   * reaper retries or fails them per the retry policy.
+   */
+  listExpiredLeases(): Promise<Task[]>;
+  /** Removes a task and its stored result. */
+  deleteTask(taskId: string): Promise<boolean>;
 
   setTaskResult(result: TaskResult): Promise<void>;
   getTaskResult(taskId: string): Promise<TaskResult | undefined>;
@@ -41,29 +169,74 @@ export interface ControlPlaneStore {
   listDlq(): Promise<DlqEntry[]>;
   getDlqEntry(taskId: string): Promise<DlqEntry | undefined>;
   requeueFromDlq(taskId: string): Promise<boolean>;
+  /** Removes a DLQ entry without requeueing its task. */
+  deleteDlqEntry(taskId: string): Promise<boolean>;
+
+  /**
+   * Creates or replaces a schedule and bumps its revision. With
+   * `expectedRevision` (0 = must not exist yet) it returns false instead of
+   * overwriting a write it has not seen.
+   */
+  saveSchedule(schedule: Schedule, expectedRevision?: number): Promise<boolean>;
+  getSchedule(scheduleId: string): Promise<Schedule | undefined>;
+  listSchedules(): Promise<Schedule[]>;
+  deleteSchedule(scheduleId: string): Promise<boolean>;
+
+  /** Creates or replaces the limit for `limit.scope`/`limit.name`; claimTask enforces it. */
+  saveConcurrencyLimit(limit: ConcurrencyLimit): Promise<void>;
+  listConcurrencyLimits(): Promise<ConcurrencyLimit[]>;
+  deleteConcurrencyLimit(scope: ConcurrencyLimit["scope"], name: string): Promise<boolean>;
+
+  /**
+   * Binds an idempotency key to `taskId` for `ttlMs`. Returns the task id the
+   * key is already bound to while that binding is unexpired, or undefined
+   * when this call bound it.
+   */
+  reserveDedupeKey(key: string, taskId: string, ttlMs: number): Promise<string | undefined>;
+  /** Unexpired idempotency keys, sorted by key. */
+  listDedupeKeys(): Promise<DedupeKeyRecord[]>;
+  /**
+   * Creates or replaces the binding for `record.key`; an already expired one
+   * is dropped. With `expectedTaskId` it only replaces an unexpired binding
+   * to that task. Returns whether it wrote.
+   */
+  saveDedupeKey(record: DedupeKeyRecord, expectedTaskId?: string): Promise<boolean>;
+
+  /** Round-trips to the backing store; startup fails fast when this rejects. */
+  ping?(): Promise<void>;
+  /**
+   * Upgrades data an older version of the adapter wrote; startup runs it
+   * before listening. Returns how many records it converted.
+   */
+  migrate?(): Promise<number>;
+  /** Releases connections and file handles. */
+  close?(): Promise<void>;
 }
 
 export class InMemoryControlPlaneStore implements ControlPlaneStore {
-  private nodes = new Map<string, NodeRecord>();
-  private tasks = new Map<string, Task>();
-  private taskQueue: string[] = [];
-  private results = new Map<string, TaskResult>();
-  private dlq = new Map<string, DlqEntry>();
+  protected nodes = new Map<string, NodeRecord>();
+  protected tasks = new Map<string, Task>();
+  protected taskQueue: string[] = [];
+  protected results = new Map<string, TaskResult>();
+  protected dlq = new Map<string, DlqEntry>();
+  protected schedules = new Map<string, Schedule>();
+  protected limits = new Map<string, ConcurrencyLimit>();
+  protected dedupeKeys = new Map<string, DedupeKeyRecord>();
   private readonly claimTtlMs: number;
   private readonly heartbeatHealthyMs: number;
   private readonly heartbeatDegradedMs: number;
+  readonly scheduling?: SchedulingConfig;
 
-  constructor(
-    options: { claimTtlMs?: number; heartbeatHealthyMs?: number; heartbeatDegradedMs?: number } = {}
-  ) {
+  constructor(options: StoreOptions = {}) {
     this.claimTtlMs = options.claimTtlMs ?? 30_000;
     this.heartbeatHealthyMs = options.heartbeatHealthyMs ?? 10_000;
     this.heartbeatDegradedMs = options.heartbeatDegradedMs ?? 30_000;
+    this.scheduling = options.scheduling;
   }
 
   async upsertNode(node: RegisterNodeRequest): Promise<void> {
     const existing = this.nodes.get(node.nodeId);
-    this.nodes.set(node.nodeId, { ...node, lastHeartbeat: existing?.lastHeartbeat });
+    this.write({ op: "node", node: { ...node, lastHeartbeat: existing?.lastHeartbeat } });
   }
 
   async getNode(nodeId: string): Promise<NodeView | undefined> {
@@ -77,10 +250,8 @@ export class InMemoryControlPlaneStore implements ControlPlaneStore {
   }
 
   async setHeartbeat(nodeId: string, heartbeat: HeartbeatRequest): Promise<boolean> {
-    const node = this.nodes.get(nodeId);
-    if (!node) return false;
-    node.lastHeartbeat = heartbeat;
-    this.nodes.set(nodeId, node);
+    if (!this.nodes.has(nodeId)) return false;
+    this.write({ op: "heartbeat", nodeId, heartbeat });
     return true;
   }
 
@@ -90,28 +261,32 @@ export class InMemoryControlPlaneStore implements ControlPlaneStore {
   ): Promise<boolean> {
     const node = this.nodes.get(nodeId);
     if (!node) return false;
-    node.trusted = trust.trusted ?? node.trusted;
-    node.revoked = trust.revoked ?? node.revoked;
-    this.nodes.set(nodeId, node);
+    const trusted = trust.trusted ?? node.trusted;
+    const revoked = trust.revoked ?? node.revoked;
+    this.write({ op: "node", node: { ...node, trusted, revoked } });
     return true;
   }
 
   async setNodeDrain(nodeId: string, draining: boolean): Promise<boolean> {
     const node = this.nodes.get(nodeId);
     if (!node) return false;
-    node.draining = draining;
-    this.nodes.set(nodeId, node);
+    this.write({ op: "node", node: { ...node, draining } });
     return true;
   }
 
   async enqueueTask(task: Task): Promise<void> {
-    this.tasks.set(task.taskId, task);
-    this.taskQueue.push(task.taskId);
+    const existing = this.tasks.get(task.taskId);
+    this.write({ op: "task", task: { ...task, revision: nextRevision(existing, task) } });
   }
 
-  async claimTask(nodeId: string): Promise<Task | null> {
-    this.requeueExpiredClaims();
+  async enqueueTaskIfAbsent(task: Task): Promise<Task | undefined> {
+    const existing = this.tasks.get(task.taskId);
+    if (existing) return { ...existing };
+    await this.enqueueTask(task);
+    return undefined;
+  }
 
+  async claimTask(nodeId: string, options: ClaimOptions = {}): Promise<Task | null> {
     const node = this.nodes.get(nodeId);
     if (!node) return null;
     if (node.revoked || !node.trusted) return null;
@@ -119,7 +294,7 @@ export class InMemoryControlPlaneStore implements ControlPlaneStore {
     if (this.getFreshnessState(node) !== "healthy") return null;
 
     const activeOnNode = this.countActiveTasksForNode(nodeId);
-    if (activeOnNode >= node.capabilities.maxConcurrentTasks) return null;
+    if (activeOnNode >= maxActive(node, options)) return null;
 
     const now = Date.now();
     const nodeTags = new Set(node.capabilities.tags);
@@ -127,49 +302,64 @@ export class InMemoryControlPlaneStore implements ControlPlaneStore {
       .map((taskId) => this.tasks.get(taskId))
       .filter((t): t is Task => {
         if (!t || t.status !== "queued") return false;
-        if (t.retryAfter && t.retryAfter > now) return false;
+        if (claimableAt(t) > now) return false;
         if (t.targetNodeId && t.targetNodeId !== nodeId) return false;
         if (t.requiredTags?.length && !t.requiredTags.every((tag) => nodeTags.has(tag)))
           return false;
-        return true;
-      })
-      .sort((a, b) => {
-        const pa = a.priority ?? 0;
-        const pb = b.priority ?? 0;
-        if (pb !== pa) return pb - pa; // higher priority first
-        return a.createdAt - b.createdAt; // FIFO tiebreak
+        return !constraintViolation(t, node.capabilities);
       });
+    const load = needsSpreadLoad(candidates)
+      ? spreadLoad(this.activeTasks(), (id) => this.nodes.get(id))
+      : new Map();
+    const mine = this.activeTasks().filter((t) => t.assignedNodeId === nodeId);
+    const free = freeResources(node.capabilities, allocatedResources(mine));
+    const limits = [...this.limits.values()];
+    const usage = limitUsage(limits.length ? this.activeTasks() : [], limits);
+    const placeable = candidates.filter(
+      (t) =>
+        placementAllows(t, node, load) && fitsResources(t, free) && limitsAllow(t, limits, usage)
+    );
 
-    const candidateId = candidates[0]?.taskId;
+    const candidateId = rankCandidates(placeable, this.scheduling, { node, now })[0]?.taskId;
     if (!candidateId) return null;
 
     const task = this.tasks.get(candidateId)!;
-    task.status = "claimed";
-    task.claimedAt = Date.now();
-    task.attempt = (task.attempt ?? 0) + 1;
-    task.assignedNodeId = nodeId;
-    this.tasks.set(task.taskId, task);
-
-    const idx = this.taskQueue.indexOf(candidateId);
-    if (idx >= 0) this.taskQueue.splice(idx, 1);
-
-    return task;
+    const claimedAt = Date.now();
+    const claimed: Task = {
+      ...task,
+      status: "claimed",
+      claimedAt,
+      attempt: (task.attempt ?? 0) + 1,
+      assignedNodeId: nodeId,
+      leaseToken: randomUUID(),
+      leaseExpiresAt: claimedAt + this.claimTtlMs,
+      revision: nextRevision(task),
+    };
+    this.write({ op: "task", task: claimed });
+    return { ...claimed };
   }
 
-  async setTaskStatus(taskId: string, status: Task["status"]): Promise<Task | null> {
+  async setTaskStatus(
+    taskId: string,
+    status: Task["status"],
+    expectedRevision?: number
+  ): Promise<Task | null> {
     const task = this.tasks.get(taskId);
     if (!task) return null;
-    task.status = status;
-
+    checkRevision(task, expectedRevision);
+    assertTransition(task, status);
+    const next: Task = { ...task, status, revision: nextRevision(task) };
     if (status === "running" || status === "done" || status === "failed") {
-      task.claimedAt = undefined;
+      next.claimedAt = undefined;
     }
-    this.tasks.set(taskId, task);
-    return task;
+    this.write({ op: "task", task: next });
+    return { ...next };
   }
 
   async getTask(taskId: string): Promise<Task | undefined> {
-    return this.tasks.get(taskId);
+    // Copies, so a caller holding a task keeps the revision it read.
+    const task = this.tasks.get(taskId);
+    return task && { ...task };
   }
 
   async listQueuedTasks(): Promise<Task[]> {
@@ -177,49 +367,146 @@ export class InMemoryControlPlaneStore implements ControlPlaneStore {
   }
 
   async listRunningTasks(): Promise<Task[]> {
-    return [...this.tasks.values()].filter(
-      (task) => task.status === "claimed" || task.status === "running"
-    );
+    return [...this.tasks.values()]
+      .filter((task) => task.status === "claimed" || task.status === "running")
+      .map((task) => ({ ...task }));
+  }
+
+  async listNodeTasks(nodeId: string): Promise<Task[]> {
+    return this.activeTasks()
+      .filter((task) => task.assignedNodeId === nodeId)
+      .map((task) => ({ ...task }));
+  }
+
+  async listOldestQueuedTasks(limit: number): Promise<Task[]> {
+    return [...this.tasks.values()]
+      .filter((task) => task.status === "queued" && !task.targetNodeId)
+      .sort((a, b) => a.createdAt - b.createdAt)
+      .slice(0, limit)
+      .map((task) => ({ ...task }));
+  }
+
+  async listChildTasks(parentTaskId: string): Promise<Task[]> {
+    return [...this.tasks.values()]
+      .filter((task) => task.parentTaskId === parentTaskId)
+      .map((task) => ({ ...task }));
+  }
+
+  async listDependentTasks(taskId: string): Promise<Task[]> {
+    return [...this.tasks.values()]
+      .filter((task) => task.dependsOn?.includes(taskId))
+      .map((task) => ({ ...task }));
+  }
+
+  async countWaitingTasks(limits: readonly ConcurrencyLimit[]): Promise<number[]> {
+    const queued = [...this.tasks.values()].filter((task) => task.status === "queued");
+    return limits.map((limit) => queued.filter((task) => limitApplies(limit, task)).length);
   }
 
   async listTasks(status?: Task["status"]): Promise<Task[]> {
-    if (!status) return [...this.tasks.values()];
-    return [...this.tasks.values()].filter((task) => task.status === status);
+    const tasks = [...this.tasks.values()].map((task) => ({ ...task }));
+    return status ? tasks.filter((task) => task.status === status) : tasks;
   }
 
-  async cancelTask(taskId: string): Promise<boolean> {
+  async countTasksByStatus(): Promise<Record<Task["status"], number>> {
+    const counts = {
+      blocked: 0,
+      queued: 0,
+      claimed: 0,
+      running: 0,
+      done: 0,
+      failed: 0,
+      cancelled: 0,
+    };
+    for (const task of this.tasks.values()) counts[task.status]++;
+    return counts;
+  }
+
+  async cancelTask(taskId: string, expectedRevision?: number): Promise<boolean> {
     const task = this.tasks.get(taskId);
     if (!task) return false;
-    if (task.status === "done" || task.status === "failed" || task.status === "cancelled")
-      return false;
+    checkRevision(task, expectedRevision);
+    if (isTerminal(task.status)) return false;
 
-    const idx = this.taskQueue.indexOf(taskId);
-    if (idx >= 0) this.taskQueue.splice(idx, 1);
+    this.write({
+      op: "task",
+      task: { ...task, status: "cancelled", claimedAt: undefined, revision: nextRevision(task) },
+    });
+    return true;
+  }
 
-    task.status = "cancelled";
-    task.claimedAt = undefined;
-    this.tasks.set(taskId, task);
+  async requeueForRetry(
+    taskId: string,
+    retryAfter: number,
+    expectedRevision?: number
+  ): Promise<boolean> {
+    const task = this.tasks.get(taskId);
+    if (!task) return false;
+    checkRevision(task, expectedRevision);
+    if (!RETRYABLE_STATUSES.includes(task.status))
+      throw new InvalidTransitionError(taskId, task.status, "queued");
+
+    this.write({
+      op: "task",
+      task: {
+        ...task,
+        status: "queued",
+        claimedAt: undefined,
+        assignedNodeId: undefined,
+        retryAfter,
+        revision: nextRevision(task),
+      },
+    });
     return true;
   }
 
-  async requeueForRetry(taskId: string, retryAfter: number): Promise<boolean> {
+  async preemptTask(taskId: string, expectedRevision?: number): Promise<boolean> {
     const task = this.tasks.get(taskId);
     if (!task) return false;
+    checkRevision(task, expectedRevision);
+    if (!RETRYABLE_STATUSES.includes(task.status))
+      throw new InvalidTransitionError(taskId, task.status, "queued");
+
+    this.write({
+      op: "task",
+      task: {
+        ...task,
+        status: "queued",
+        claimedAt: undefined,
+        assignedNodeId: undefined,
+        retryAfter: undefined,
+        preemptions: (task.preemptions ?? 0) + 1,
+        revision: nextRevision(task),
+      },
+    });
+    return true;
+  }
 
-    task.status = "queued";
-    task.claimedAt = undefined;
-    task.assignedNodeId = undefined;
-    task.retryAfter = retryAfter;
-    this.tasks.set(taskId, task);
+  async renewLease(taskId: string, leaseToken: string): Promise<Task | null> {
+    const task = this.tasks.get(taskId);
+    if (!task || !RETRYABLE_STATUSES.includes(task.status)) return null;
+    const now = Date.now();
+    if (task.leaseToken !== leaseToken || leaseExpired(task, now, this.claimTtlMs)) return null;
+    const renewed = { ...task, leaseExpiresAt: now + this.claimTtlMs };
+    this.write({ op: "task", task: renewed });
+    return { ...renewed };
+  }
 
-    if (!this.taskQueue.includes(taskId)) {
-      this.taskQueue.push(taskId);
-    }
+  async listExpiredLeases(): Promise<Task[]> {
+    const now = Date.now();
+    return this.activeTasks()
+      .filter((task) => leaseExpired(task, now, this.claimTtlMs))
+      .map((task) => ({ ...task }));
+  }
+
+  async deleteTask(taskId: string): Promise<boolean> {
+    if (!this.tasks.has(taskId)) return false;
+    this.write({ op: "task.delete", taskId });
     return true;
   }
 
   async setTaskResult(result: TaskResult): Promise<void> {
-    this.results.set(result.taskId, result);
+    this.write({ op: "result", result });
   }
 
   async getTaskResult(taskId: string): Promise<TaskResult | undefined> {
@@ -227,7 +514,7 @@ export class InMemoryControlPlaneStore implements ControlPlaneStore {
   }
 
   async enqueueDlq(entry: DlqEntry): Promise<void> {
-    this.dlq.set(entry.taskId, entry);
+    this.write({ op: "dlq", entry });
   }
 
   async listDlq(): Promise<DlqEntry[]> {
@@ -244,16 +531,96 @@ export class InMemoryControlPlaneStore implements ControlPlaneStore {
 
     const task = this.tasks.get(taskId);
     if (!task) return false;
+    if (task.status !== "failed") throw new InvalidTransitionError(taskId, task.status, "queued");
+
+    this.write({
+      op: "task",
+      task: {
+        ...task,
+        status: "queued",
+        attempt: 0,
+        retryAfter: undefined,
+        claimedAt: undefined,
+        assignedNodeId: undefined,
+        revision: nextRevision(task),
+      },
+    });
+    this.write({ op: "dlq.delete", taskId });
+    return true;
+  }
 
-    task.status = "queued";
-    task.attempt = 0;
-    task.retryAfter = undefined;
-    task.claimedAt = undefined;
-    task.assignedNodeId = undefined;
-    this.tasks.set(taskId, task);
+  async deleteDlqEntry(taskId: string): Promise<boolean> {
+    if (!this.dlq.has(taskId)) return false;
+    this.write({ op: "dlq.delete", taskId });
+    return true;
+  }
+
+  async saveSchedule(schedule: Schedule, expectedRevision?: number): Promise<boolean> {
+    const revision = this.schedules.get(schedule.scheduleId)?.revision ?? 0;
+    if (expectedRevision !== undefined && expectedRevision !== revision) return false;
+    this.write({ op: "schedule", schedule: { ...schedule, revision: revision + 1 } });
+    return true;
+  }
+
+  async getSchedule(scheduleId: string): Promise<Schedule | undefined> {
+    const schedule = this.schedules.get(scheduleId);
+    return schedule && { ...schedule };
+  }
+
+  async listSchedules(): Promise<Schedule[]> {
+    return [...this.schedules.values()]
+      .map((schedule) => ({ ...schedule }))
+      .sort((a, b) => a.scheduleId.localeCompare(b.scheduleId));
+  }
+
+  async deleteSchedule(scheduleId: string): Promise<boolean> {
+    if (!this.schedules.has(scheduleId)) return false;
+    this.write({ op: "schedule.delete", scheduleId });
+    return true;
+  }
+
+  async saveConcurrencyLimit(limit: ConcurrencyLimit): Promise<void> {
+    this.write({ op: "limit", limit: { ...limit } });
+  }
+
+  async listConcurrencyLimits(): Promise<ConcurrencyLimit[]> {
+    return [...this.limits.values()].map((limit) => ({ ...limit })).sort(byLimitId);
+  }
+
+  async deleteConcurrencyLimit(scope: ConcurrencyLimit["scope"], name: string): Promise<boolean> {
+    if (!this.limits.has(limitId(scope, name))) return false;
+    this.write({ op: "limit.delete", scope, name });
+    return true;
+  }
+
+  async reserveDedupeKey(key: string, taskId: string, ttlMs: number): Promise<string | undefined> {
+    const now = Date.now();
+    // Expired keys are dropped unlogged: a replayed one is expired again.
+    for (const [k, record] of this.dedupeKeys) {
+      if (record.expiresAt <= now) this.dedupeKeys.delete(k);
+    }
+    const bound = this.dedupeKeys.get(key);
+    if (bound) return bound.taskId;
+    this.write({ op: "dedupe", record: { key, taskId, expiresAt: now + ttlMs } });
+    return undefined;
+  }
+
+  async listDedupeKeys(): Promise<DedupeKeyRecord[]> {
+    const now = Date.now();
+    return [...this.dedupeKeys.values()]
+      .filter((record) => record.expiresAt > now)
+      .map((record) => ({ ...record }))
+      .sort((a, b) => (a.key < b.key ? -1 : a.key > b.key ? 1 : 0));
+  }
 
-    if (!this.taskQueue.includes(taskId)) this.taskQueue.push(taskId);
-    this.dlq.delete(taskId);
+  async saveDedupeKey(record: DedupeKeyRecord, expectedTaskId?: string): Promise<boolean> {
+    const now = Date.now();
+    if (record.expiresAt <= now) return false;
+    if (expectedTaskId !== undefined) {
+      const bound = this.dedupeKeys.get(record.key);
+      if (!bound || bound.expiresAt <= now || bound.taskId !== expectedTaskId) return false;
+    }
+    this.write({ op: "dedupe", record: { ...record } });
     return true;
   }
 
@@ -278,6 +645,10 @@ export class InMemoryControlPlaneStore implements ControlPlaneStore {
     };
   }
 
+  private activeTasks(): Task[] {
+    return [...this.tasks.values()].filter((t) => t.status === "claimed" || t.status === "running");
+  }
+
   private countActiveTasksForNode(nodeId: string): number {
     let total = 0;
     for (const task of this.tasks.values()) {
@@ -287,22 +658,106 @@ export class InMemoryControlPlaneStore implements ControlPlaneStore {
     return total;
   }
 
-  private requeueExpiredClaims() {
-    const now = Date.now();
-
-    for (const task of this.tasks.values()) {
-      if (task.status !== "claimed") continue;
-      if (!task.claimedAt) continue;
-      if (now - task.claimedAt < this.claimTtlMs) continue;
-
-      task.status = "queued";
-      task.claimedAt = undefined;
-      task.assignedNodeId = undefined;
-      this.tasks.set(task.taskId, task);
+  /** Every mutation lands here; a durable subclass persists `change` before applying it. */
+  protected write(change: StoreWrite): void {
+    this.apply(change);
+  }
 
-      if (!this.taskQueue.includes(task.taskId)) {
-        this.taskQueue.push(task.taskId);
+  /** Applies `change` to the in-memory state; also used to replay persisted changes. */
+  protected apply(change: StoreWrite): void {
+    switch (change.op) {
+      case "node":
+        this.nodes.set(change.node.nodeId, change.node);
+        break;
+      case "heartbeat": {
+        const node = this.nodes.get(change.nodeId);
+        if (node) this.nodes.set(change.nodeId, { ...node, lastHeartbeat: change.heartbeat });
+        break;
+      }
+      case "task": {
+        this.tasks.set(change.task.taskId, change.task);
+        const idx = this.taskQueue.indexOf(change.task.taskId);
+        if (change.task.status === "queued" && idx < 0) this.taskQueue.push(change.task.taskId);
+        if (change.task.status !== "queued" && idx >= 0) this.taskQueue.splice(idx, 1);
+        break;
       }
+      case "task.delete": {
+        this.tasks.delete(change.taskId);
+        this.results.delete(change.taskId);
+        const idx = this.taskQueue.indexOf(change.taskId);
+        if (idx >= 0) this.taskQueue.splice(idx, 1);
+        break;
+      }
+      case "result":
+        this.results.set(change.result.taskId, change.result);
+        break;
+      case "dlq":
+        this.dlq.set(change.entry.taskId, change.entry);
+        break;
+      case "dlq.delete":
+        this.dlq.delete(change.taskId);
+        break;
+      case "schedule":
+        this.schedules.set(change.schedule.scheduleId, change.schedule);
+        break;
+      case "schedule.delete":
+        this.schedules.delete(change.scheduleId);
+        break;
+      case "limit":
+        this.limits.set(limitId(change.limit.scope, change.limit.name), change.limit);
+        break;
+      case "limit.delete":
+        this.limits.delete(limitId(change.scope, change.name));
+        break;
+      case "dedupe":
+        this.dedupeKeys.set(change.record.key, change.record);
+        break;
     }
   }
 }
+
+/**
+ * True when `task` is claimed/running and its lease lapsed. Tasks claimed
+ * before leases existed fall back to `claimedAt + claimTtlMs` while claimed.
+ */
+export function leaseExpired(task: Task, now: number, claimTtlMs: number): boolean {
+  if (!RETRYABLE_STATUSES.includes(task.status)) return false;
+  if (task.leaseExpiresAt !== undefined) return task.leaseExpiresAt <= now;
+  return task.status === "claimed" && !!task.claimedAt && now - task.claimedAt >= claimTtlMs;
+}
+
+/** How many claimed/running tasks `node` may hold for this claim. */
+export function maxActive(node: RegisterNodeRequest, options: ClaimOptions): number {
+  return Math.min(node.capabilities.maxConcurrentTasks, options.maxActive ?? Infinity);
+}
+
+/** Storage key of a concurrency limit, e.g. `kind:transcode`. */
+export function limitId(scope: ConcurrencyLimit["scope"], name: string): string {
+  return `${scope}:${name}`;
+}
+
+/** Sorts limits by scope, then name. */
+export function byLimitId(a: ConcurrencyLimit, b: ConcurrencyLimit): number {
+  return a.scope.localeCompare(b.scope) || a.name.localeCompare(b.name);
+}
+
+/** Earliest time a queued task may be claimed: the later of runAt and retryAfter. */
+export function claimableAt(task: Task): number {
+  return Math.max(task.runAt ?? 0, task.retryAfter ?? 0);
+}
+
+/**
+ * Revision for the next write of a task. An enqueue over an existing task (or
+ * an imported one carrying its own revision) continues from the higher of the
+ * two so revisions never go backwards.
+ */
+export function nextRevision(current: Task | undefined, incoming?: Task): number {
+  return Math.max(current?.revision ?? 0, incoming?.revision ?? 0) + 1;
+}
+
+/** Throws TaskRevisionConflictError when `expected` is given and stale. */
+export function checkRevision(task: Task, expected: number | undefined): void {
+  if (expected !== undefined && (task.revision ?? 0) !== expected) {
+    throw new TaskRevisionConflictError(task.taskId, expected, task.revision ?? 0);
+  }
+}
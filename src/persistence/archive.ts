@@ -0,0 +1,291 @@
+import type { ControlPlaneStore, DedupeKeyRecord } from "../persistence.js";
+import type {
+  ConcurrencyLimit,
+  DlqEntry,
+  NodeView,
+  Schedule,
+  Task,
+  TaskResult,
+} from "../contracts.js";
+
+export const STORE_ARCHIVE_FORMAT = "edgemesh.store";
+export const STORE_ARCHIVE_VERSION = 2;
+// Older versions still import: record kinds they predate are read as empty.
+const READABLE_ARCHIVE_VERSIONS: readonly number[] = [1, STORE_ARCHIVE_VERSION];
+
+// Reads exportStore makes looking for two identical ones in a row.
+const EXPORT_READS = 5;
+
+/** Thrown by exportStore when the store kept changing under every read. */
+export class StoreBusyError extends Error {
+  constructor(readonly reads: number) {
+    super(`store changed during each of ${reads} export reads; retry when it is quieter`);
+    this.name = "StoreBusyError";
+  }
+}
+
+/** Node as archived: everything but `freshnessState`, which is derived on read. */
+export type ArchivedNode = Omit<NodeView, "freshnessState">;
+
+export interface StoreArchiveCounts {
+  nodes: number;
+  tasks: number;
+  results: number;
+  dlq: number;
+  schedules: number;
+  limits: number;
+  dedupeKeys: number;
+}
+
+export interface StoreArchive {
+  format: typeof STORE_ARCHIVE_FORMAT;
+  version: typeof STORE_ARCHIVE_VERSION;
+  exportedAt: number;
+  nodes: ArchivedNode[];
+  tasks: Task[];
+  results: TaskResult[];
+  dlq: DlqEntry[];
+  schedules: Schedule[];
+  limits: ConcurrencyLimit[];
+  dedupeKeys: DedupeKeyRecord[];
+}
+
+// JSONL layout: one header line, then one record per line keyed by its kind.
+type ArchiveHeader = Pick<StoreArchive, "format" | "version" | "exportedAt"> & {
+  counts: StoreArchiveCounts;
+};
+type ArchiveLine =
+  | { node: ArchivedNode }
+  | { task: Task }
+  | { result: TaskResult }
+  | { dlq: DlqEntry }
+  | { schedule: Schedule }
+  | { limit: ConcurrencyLimit }
+  | { dedupe: DedupeKeyRecord };
+
+/**
+ * Reads every node, task, result, DLQ entry, schedule, concurrency limit and
+ * unexpired idempotency key out of `store`.
+ *
+ * Works against any ControlPlaneStore through its public interface, which
+ * reads one list at a time. To still return one consistent moment, the store
+ * is read until two reads in a row match: every record then held its value
+ * from the end of the first to the start of the second. Nodes are left out
+ * of the comparison, since heartbeats rewrite them constantly and no other
+ * record depends on them. Throws StoreBusyError when no two reads match.
+ */
+export async function exportStore(store: ControlPlaneStore): Promise<StoreArchive> {
+  let archive = await readArchive(store);
+  for (let read = 1; read < EXPORT_READS; read++) {
+    const next = await readArchive(store);
+    if (sameRecords(archive, next)) return next;
+    archive = next;
+  }
+  throw new StoreBusyError(EXPORT_READS);
+}
+
+async function readArchive(store: ControlPlaneStore): Promise<StoreArchive> {
+  const [nodes, tasks, dlq, schedules, limits, dedupeKeys] = await Promise.all([
+    store.listNodes(),
+    store.listTasks(),
+    store.listDlq(),
+    store.listSchedules(),
+    store.listConcurrencyLimits(),
+    store.listDedupeKeys(),
+  ]);
+  const results: TaskResult[] = [];
+  for (const task of tasks) {
+    const result = await store.getTaskResult(task.taskId);
+    if (result) results.push(result);
+  }
+
+  const compare = (a: string, b: string) => (a < b ? -1 : a > b ? 1 : 0);
+  const byTaskId = (a: { taskId: string }, b: { taskId: string }) => compare(a.taskId, b.taskId);
+  return {
+    format: STORE_ARCHIVE_FORMAT,
+    version: STORE_ARCHIVE_VERSION,
+    exportedAt: Date.now(),
+    nodes: nodes.map((view) => {
+      const node: ArchivedNode & Partial<Pick<NodeView, "freshnessState">> = { ...view };
+      delete node.freshnessState;
+      return node;
+    }),
+    tasks: tasks.sort(byTaskId),
+    results: results.sort(byTaskId),
+    dlq: dlq.sort(byTaskId),
+    schedules: schedules.sort((a, b) => compare(a.scheduleId, b.scheduleId)),
+    limits: limits.sort((a, b) => compare(`${a.scope}:${a.name}`, `${b.scope}:${b.name}`)),
+    dedupeKeys: dedupeKeys.sort((a, b) => compare(a.key, b.key)),
+  };
+}
+
+function sameRecords(a: StoreArchive, b: StoreArchive): boolean {
+  const records = (archive: StoreArchive) =>
+    JSON.stringify([
+      archive.tasks,
+      archive.results,
+      archive.dlq,
+      archive.schedules,
+      archive.limits,
+      archive.dedupeKeys,
+    ]);
+  return records(a) === records(b);
+}
+
+/**
+ * Writes an archive into `store`. Records overwrite existing ones with the
+ * same id; nothing else in the target is touched. Tasks keep their status,
+ * attempt and assignment, so claimed tasks are still subject to the claim TTL.
+ * Idempotency keys keep their deadline; keys that expired since the export
+ * are skipped.
+ */
+export async function importStore(
+  store: ControlPlaneStore,
+  archive: StoreArchive
+): Promise<StoreArchiveCounts> {
+  for (const { lastHeartbeat, trusted, revoked, draining, ...node } of archive.nodes) {
+    await store.upsertNode(node);
+    if (lastHeartbeat) await store.setHeartbeat(node.nodeId, lastHeartbeat);
+    await store.setNodeTrust(node.nodeId, { trusted: !!trusted, revoked: !!revoked });
+    await store.setNodeDrain(node.nodeId, !!draining);
+  }
+  for (const task of archive.tasks) await store.enqueueTask(task);
+  for (const result of archive.results) await store.setTaskResult(result);
+  for (const entry of archive.dlq) await store.enqueueDlq(entry);
+  for (const schedule of archive.schedules) await store.saveSchedule(schedule);
+  for (const limit of archive.limits) await store.saveConcurrencyLimit(limit);
+  for (const record of archive.dedupeKeys) await store.saveDedupeKey(record);
+  return countArchive(archive);
+}
+
+export function countArchive(archive: StoreArchive): StoreArchiveCounts {
+  return {
+    nodes: archive.nodes.length,
+    tasks: archive.tasks.length,
+    results: archive.results.length,
+    dlq: archive.dlq.length,
+    schedules: archive.schedules.length,
+    limits: archive.limits.length,
+    dedupeKeys: archive.dedupeKeys.length,
+  };
+}
+
+export function serializeStoreArchive(archive: StoreArchive): string {
+  const header: ArchiveHeader = {
+    format: archive.format,
+    version: archive.version,
+    exportedAt: archive.exportedAt,
+    counts: countArchive(archive),
+  };
+  const lines: unknown[] = [
+    header,
+    ...archive.nodes.map((node) => ({ node })),
+    ...archive.tasks.map((task) => ({ task })),
+    ...archive.results.map((result) => ({ result })),
+    ...archive.dlq.map((dlq) => ({ dlq })),
+    ...archive.schedules.map((schedule) => ({ schedule })),
+    ...archive.limits.map((limit) => ({ limit })),
+    ...archive.dedupeKeys.map((dedupe) => ({ dedupe })),
+  ];
+  return lines.map((line) => JSON.stringify(line)).join("\n") + "\n";
+}
+
+/**
+ * Parses a JSONL archive (as written by `serializeStoreArchive`) or an
+ * already-decoded JSON archive object. Throws on an unknown format or
+ * version, malformed records, or a JSONL body whose record counts do not
+ * match its header (a truncated backup).
+ */
+export function parseStoreArchive(input: string | unknown): StoreArchive {
+  if (typeof input !== "string") return validateArchive(input);
+
+  const lines = input.split("\n").filter((line) => line.trim() !== "");
+  if (lines.length === 0) throw new Error("empty archive");
+  const decoded = lines.map((line, i) => {
+    try {
+      return JSON.parse(line) as unknown;
+    } catch (err) {
+      throw new Error(`invalid archive line ${i + 1}: ${(err as Error).message}`);
+    }
+  });
+
+  const header = decoded[0] as Partial<ArchiveHeader>;
+  const archive = {
+    format: header.format,
+    version: header.version,
+    exportedAt: header.exportedAt,
+    nodes: [] as unknown[],
+    tasks: [] as unknown[],
+    results: [] as unknown[],
+    dlq: [] as unknown[],
+    schedules: [] as unknown[],
+    limits: [] as unknown[],
+    dedupeKeys: [] as unknown[],
+  };
+  for (let i = 1; i < decoded.length; i++) {
+    const line = decoded[i] as Partial<Record<keyof ArchiveLine, unknown>> | null;
+    if (line && "node" in line) archive.nodes.push(line.node);
+    else if (line && "task" in line) archive.tasks.push(line.task);
+    else if (line && "result" in line) archive.results.push(line.result);
+    else if (line && "dlq" in line) archive.dlq.push(line.dlq);
+    else if (line && "schedule" in line) archive.schedules.push(line.schedule);
+    else if (line && "limit" in line) archive.limits.push(line.limit);
+    else if (line && "dedupe" in line) archive.dedupeKeys.push(line.dedupe);
+    else throw new Error(`invalid archive line ${i + 1}: unknown record`);
+  }
+
+  const parsed = validateArchive(archive);
+  const counts = countArchive(parsed);
+  for (const key of Object.keys(counts) as (keyof StoreArchiveCounts)[]) {
+    // Older headers leave out the kinds their version predates.
+    const expected =
+      header.counts?.[key] ?? (header.version !== STORE_ARCHIVE_VERSION ? 0 : undefined);
+    if (expected !== counts[key]) {
+      throw new Error(
+        `archive ${key} count mismatch: header says ${String(expected)}, found ${counts[key]}`
+      );
+    }
+  }
+  return parsed;
+}
+
+function validateArchive(input: unknown): StoreArchive {
+  let archive = input as Partial<Record<keyof StoreArchive, unknown>> | null;
+  if (!archive || archive.format !== STORE_ARCHIVE_FORMAT) {
+    throw new Error(`not an ${STORE_ARCHIVE_FORMAT} archive`);
+  }
+  if (!READABLE_ARCHIVE_VERSIONS.includes(archive.version as number)) {
+    throw new Error(`unsupported archive version ${String(archive.version)}`);
+  }
+  if (typeof archive.exportedAt !== "number") throw new Error("archive exportedAt missing");
+  if (archive.version === 1) {
+    archive = {
+      ...archive,
+      version: STORE_ARCHIVE_VERSION,
+      schedules: archive.schedules ?? [],
+      limits: archive.limits ?? [],
+      dedupeKeys: archive.dedupeKeys ?? [],
+    };
+  }
+
+  const checkRecords = (
+    key: "nodes" | "tasks" | "results" | "dlq" | "schedules" | "limits" | "dedupeKeys",
+    id: string
+  ) => {
+    const records = archive[key];
+    if (!Array.isArray(records)) throw new Error(`archive ${key} must be an array`);
+    records.forEach((record: Record<string, unknown> | null, i) => {
+      if (typeof record?.[id] !== "string") {
+        throw new Error(`archive ${key}[${i}] is missing ${id}`);
+      }
+    });
+  };
+  checkRecords("nodes", "nodeId");
+  checkRecords("tasks", "taskId");
+  checkRecords("results", "taskId");
+  checkRecords("dlq", "taskId");
+  checkRecords("schedules", "scheduleId");
+  checkRecords("limits", "name");
+  checkRecords("dedupeKeys", "key");
+  return archive as unknown as StoreArchive;
+}
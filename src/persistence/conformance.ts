@@ -0,0 +1,1020 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import {
+  TaskRevisionConflictError,
+  type ControlPlaneStore,
+  type StoreOptions,
+} from "../persistence.js";
+import { fifo, shortestExpectedRuntime } from "../control/scheduling.js";
+import { InvalidTransitionError } from "../task-state.js";
+import type {
+  DlqEntry,
+  HeartbeatRequest,
+  RegisterNodeRequest,
+  Schedule,
+  Task,
+} from "../contracts.js";
+
+export type StoreConformanceOptions = StoreOptions;
+
+export interface StoreConformanceTarget {
+  /** Returns a fresh, empty store configured with the given options. */
+  create(options: StoreConformanceOptions): ControlPlaneStore | Promise<ControlPlaneStore>;
+  /** Releases whatever `create` opened (connections, files). */
+  destroy?(store: ControlPlaneStore): void | Promise<void>;
+  /** Skip the whole suite, e.g. when the backend is unavailable on this runtime. */
+  skip?: boolean | string;
+}
+
+const HEALTHY_MS = 1_000;
+const DEGRADED_MS = 3_000;
+
+function node(nodeId: string, tags = ["linux"], maxConcurrentTasks = 2): RegisterNodeRequest {
+  return { schemaVersion: "1.0", nodeId, capabilities: { tags, maxConcurrentTasks } };
+}
+
+function heartbeat(
+  nodeId: string,
+  ageMs = 0,
+  status: HeartbeatRequest["status"] = "healthy"
+): HeartbeatRequest {
+  return {
+    schemaVersion: "1.0",
+    nodeId,
+    ts: Date.now() - ageMs,
+    status,
+    load: 0,
+    runningTasks: 0,
+  };
+}
+
+function task(taskId: string, extra: Partial<Task> = {}): Task {
+  return {
+    schemaVersion: "1.0",
+    taskId,
+    kind: "echo",
+    payload: { taskId },
+    status: "queued",
+    createdAt: Date.now(),
+    ...extra,
+  };
+}
+
+function dlqEntry(t: Task): DlqEntry {
+  return {
+    schemaVersion: "1.0",
+    taskId: t.taskId,
+    task: t,
+    lastResult: {
+      schemaVersion: "1.0",
+      taskId: t.taskId,
+      nodeId: t.assignedNodeId ?? "node-x",
+      ok: false,
+      error: "boom",
+      finishedAt: Date.now(),
+    },
+    reason: "max_attempts_exhausted",
+    enqueuedAt: Date.now(),
+  };
+}
+
+async function addHealthyNode(store: ControlPlaneStore, n: RegisterNodeRequest) {
+  await store.upsertNode(n);
+  await store.setNodeTrust(n.nodeId, { trusted: true, revoked: false });
+  await store.setHeartbeat(n.nodeId, heartbeat(n.nodeId));
+}
+
+const ids = (tasks: Task[]) => tasks.map((t) => t.taskId).sort();
+
+/**
+ * Registers the ControlPlaneStore contract tests with node:test. Every store
+ * adapter, in-tree or third party, should pass this suite:
+ *
+ *   runStoreConformance("my-store", { create: (opts) => new MyStore(opts) });
+ */
+export function runStoreConformance(name: string, target: StoreConformanceTarget): void {
+  const it = (
+    title: string,
+    fn: (store: ControlPlaneStore) => Promise<void>,
+    options: StoreConformanceOptions = {}
+  ) =>
+    test(`${name} conformance: ${title}`, { skip: target.skip }, async () => {
+      const store = await target.create({
+        heartbeatHealthyMs: HEALTHY_MS,
+        heartbeatDegradedMs: DEGRADED_MS,
+        ...options,
+      });
+      try {
+        await fn(store);
+      } finally {
+        await target.destroy?.(store);
+      }
+    });
+
+  // ── Nodes ────────────────────────────────────────────────────────────────
+
+  it("upsertNode/getNode/listNodes round-trip with safe defaults", async (store) => {
+    assert.equal(await store.getNode("ghost"), undefined);
+    await store.upsertNode({ ...node("n-1"), region: "eu-west" });
+    await store.upsertNode(node("n-2"));
+
+    const n1 = await store.getNode("n-1");
+    assert.equal(n1?.region, "eu-west");
+    assert.deepEqual(n1?.capabilities, { tags: ["linux"], maxConcurrentTasks: 2 });
+    assert.equal(n1?.trusted, false);
+    assert.equal(n1?.revoked, false);
+    assert.equal(n1?.draining, false);
+    assert.equal(n1?.freshnessState, "offline");
+    assert.deepEqual((await store.listNodes()).map((n) => n.nodeId).sort(), ["n-1", "n-2"]);
+  });
+
+  it("upsertNode keeps the last heartbeat of an existing node", async (store) => {
+    await store.upsertNode(node("n-1"));
+    await store.setHeartbeat("n-1", heartbeat("n-1"));
+    await store.upsertNode(node("n-1", ["gpu"]));
+
+    const n1 = await store.getNode("n-1");
+    assert.ok(n1?.lastHeartbeat);
+    assert.deepEqual(n1?.capabilities.tags, ["gpu"]);
+  });
+
+  it("setHeartbeat drives freshness: healthy, degraded, offline", async (store) => {
+    assert.equal(await store.setHeartbeat("ghost", heartbeat("ghost")), false);
+    await store.upsertNode(node("n-1"));
+
+    assert.equal(await store.setHeartbeat("n-1", heartbeat("n-1")), true);
+    assert.equal((await store.getNode("n-1"))?.freshnessState, "healthy");
+
+    await store.setHeartbeat("n-1", heartbeat("n-1", 0, "degraded"));
+    assert.equal((await store.getNode("n-1"))?.freshnessState, "degraded");
+
+    await store.setHeartbeat("n-1", heartbeat("n-1", HEALTHY_MS + 500));
+    assert.equal((await store.getNode("n-1"))?.freshnessState, "degraded");
+
+    await store.setHeartbeat("n-1", heartbeat("n-1", DEGRADED_MS + 500));
+    assert.equal((await store.getNode("n-1"))?.freshnessState, "offline");
+  });
+
+  it("setNodeTrust applies partial updates", async (store) => {
+    assert.equal(await store.setNodeTrust("ghost", { trusted: true }), false);
+    await store.upsertNode(node("n-1"));
+
+    assert.equal(await store.setNodeTrust("n-1", { trusted: true }), true);
+    await store.setNodeTrust("n-1", { revoked: true });
+    const n1 = await store.getNode("n-1");
+    assert.equal(n1?.trusted, true);
+    assert.equal(n1?.revoked, true);
+  });
+
+  it("setNodeDrain toggles draining", async (store) => {
+    assert.equal(await store.setNodeDrain("ghost", true), false);
+    await store.upsertNode(node("n-1"));
+    assert.equal(await store.setNodeDrain("n-1", true), true);
+    assert.equal((await store.getNode("n-1"))?.draining, true);
+    await store.setNodeDrain("n-1", false);
+    assert.equal((await store.getNode("n-1"))?.draining, false);
+  });
+
+  // ── Claim gating ─────────────────────────────────────────────────────────
+
+  it("claimTask only serves trusted, undrained, healthy nodes", async (store) => {
+    await store.enqueueTask(task("t-1"));
+    assert.equal(await store.claimTask("ghost"), null);
+
+    await store.upsertNode(node("n-1"));
+    await store.setHeartbeat("n-1", heartbeat("n-1"));
+    assert.equal(await store.claimTask("n-1"), null, "untrusted");
+
+    await store.setNodeTrust("n-1", { trusted: true, revoked: true });
+    assert.equal(await store.claimTask("n-1"), null, "revoked");
+
+    await store.setNodeTrust("n-1", { revoked: false });
+    await store.setNodeDrain("n-1", true);
+    assert.equal(await store.claimTask("n-1"), null, "draining");
+
+    await store.setNodeDrain("n-1", false);
+    await store.setHeartbeat("n-1", heartbeat("n-1", 0, "degraded"));
+    assert.equal(await store.claimTask("n-1"), null, "degraded");
+
+    await store.setHeartbeat("n-1", heartbeat("n-1", DEGRADED_MS + 500));
+    assert.equal(await store.claimTask("n-1"), null, "offline");
+
+    await store.setHeartbeat("n-1", heartbeat("n-1"));
+    assert.equal((await store.claimTask("n-1"))?.taskId, "t-1");
+  });
+
+  it("claimTask enforces maxConcurrentTasks over claimed and running", async (store) => {
+    await addHealthyNode(store, node("n-1", ["linux"], 2));
+    for (const id of ["t-1", "t-2", "t-3"]) await store.enqueueTask(task(id));
+
+    const first = await store.claimTask("n-1");
+    assert.ok(first);
+    await store.setTaskStatus(first.taskId, "running");
+    assert.ok(await store.claimTask("n-1"));
+    assert.equal(await store.claimTask("n-1"), null);
+
+    await store.setTaskStatus(first.taskId, "done");
+    assert.ok(await store.claimTask("n-1"));
+  });
+
+  it("claimTask stops at options.maxActive below maxConcurrentTasks", async (store) => {
+    await addHealthyNode(store, node("n-1", ["linux"], 4));
+    for (const id of ["t-1", "t-2", "t-3"]) await store.enqueueTask(task(id));
+
+    assert.ok(await store.claimTask("n-1", { maxActive: 2 }));
+    assert.ok(await store.claimTask("n-1", { maxActive: 2 }));
+    assert.equal(await store.claimTask("n-1", { maxActive: 2 }), null);
+    assert.ok(await store.claimTask("n-1"), "without the option the node's own cap applies");
+  });
+
+  it("claimTask honours targetNodeId, requiredTags and retryAfter", async (store) => {
+    await addHealthyNode(store, node("n-1", ["linux", "arm"], 10));
+    await store.enqueueTask(task("t-target", { targetNodeId: "n-2" }));
+    await store.enqueueTask(task("t-gpu", { requiredTags: ["linux", "gpu"] }));
+    await store.enqueueTask(task("t-later", { retryAfter: Date.now() + 60_000 }));
+    assert.equal(await store.claimTask("n-1"), null);
+
+    await store.enqueueTask(task("t-mine", { targetNodeId: "n-1", requiredTags: ["arm"] }));
+    await store.enqueueTask(task("t-due", { retryAfter: Date.now() - 1 }));
+    const claimed = [await store.claimTask("n-1"), await store.claimTask("n-1")];
+    assert.deepEqual(ids(claimed.filter((t): t is Task => t !== null)), ["t-due", "t-mine"]);
+    assert.equal(await store.claimTask("n-1"), null);
+  });
+
+  it("claimTask honours region/zone affinity and spread limits", async (store) => {
+    await addHealthyNode(store, { ...node("n-eu-a", ["linux"], 10), region: "eu", zone: "eu-a" });
+    await addHealthyNode(store, { ...node("n-eu-b", ["linux"], 10), region: "eu", zone: "eu-b" });
+    await addHealthyNode(store, { ...node("n-us", ["linux"], 10), region: "us" });
+    await store.enqueueTask(task("t-us", { placement: { regions: ["us"] } }));
+    await store.enqueueTask(task("t-not-a", { placement: { avoidZones: ["eu-a"] } }));
+    assert.equal(await store.claimTask("n-eu-a"), null);
+    assert.equal((await store.claimTask("n-eu-b"))?.taskId, "t-not-a");
+    assert.equal((await store.claimTask("n-us"))?.taskId, "t-us");
+
+    const spread = { group: "web", by: "region" as const, maxPerDomain: 1 };
+    await store.enqueueTask(task("t-web-1", { placement: { spread } }));
+    await store.enqueueTask(task("t-web-2", { placement: { spread } }));
+    await store.enqueueTask(task("t-web-3", { placement: { spread } }));
+    assert.equal((await store.claimTask("n-eu-a"))?.taskId, "t-web-1");
+    assert.equal(await store.claimTask("n-eu-b"), null, "eu already runs one");
+    assert.equal((await store.claimTask("n-us"))?.taskId, "t-web-2");
+
+    await store.setTaskStatus("t-web-1", "done");
+    assert.equal((await store.claimTask("n-eu-b"))?.taskId, "t-web-3");
+  });
+
+  it("claimTask bin-packs resource requests into the node's free capacity", async (store) => {
+    const capabilities = { tags: ["linux"], maxConcurrentTasks: 10, resources: { cpu: 2000 } };
+    await addHealthyNode(store, { ...node("n-1"), capabilities: { ...capabilities } });
+    await store.enqueueTask(task("t-big", { resources: { cpu: 1500 }, createdAt: 1 }));
+    await store.enqueueTask(task("t-huge", { resources: { cpu: 1500 }, createdAt: 2 }));
+    await store.enqueueTask(task("t-small", { resources: { cpu: 500 }, createdAt: 3 }));
+    await store.enqueueTask(task("t-gpu", { resources: { gpu: 1 }, createdAt: 4 }));
+
+    assert.equal((await store.claimTask("n-1"))?.taskId, "t-big");
+    assert.equal((await store.claimTask("n-1"))?.taskId, "t-small", "t-huge does not fit");
+    assert.equal(await store.claimTask("n-1"), null, "full, and no gpu advertised");
+
+    await store.setTaskStatus("t-big", "running");
+    await store.setTaskStatus("t-big", "done");
+    assert.equal((await store.claimTask("n-1"))?.taskId, "t-huge");
+  });
+
+  it("claimTask enforces cluster-wide concurrency limits per kind and tag", async (store) => {
+    await addHealthyNode(store, node("n-1", ["linux", "gpu"], 10));
+    await addHealthyNode(store, node("n-2", ["linux", "gpu"], 10));
+    const limit = { schemaVersion: "1.0" as const, updatedAt: Date.now() };
+    await store.saveConcurrencyLimit({ ...limit, scope: "kind", name: "render", max: 1 });
+    await store.saveConcurrencyLimit({ ...limit, scope: "tag", name: "gpu", max: 2 });
+    await store.enqueueTask(task("r-1", { kind: "render", createdAt: 1 }));
+    await store.enqueueTask(task("r-2", { kind: "render", createdAt: 2 }));
+    await store.enqueueTask(task("g-1", { requiredTags: ["gpu"], createdAt: 3 }));
+    await store.enqueueTask(task("g-2", { requiredTags: ["gpu"], createdAt: 4 }));
+    await store.enqueueTask(task("g-3", { requiredTags: ["gpu"], createdAt: 5 }));
+
+    assert.equal((await store.claimTask("n-1"))?.taskId, "r-1");
+    assert.equal((await store.claimTask("n-2"))?.taskId, "g-1", "render is at its limit");
+    assert.equal((await store.claimTask("n-1"))?.taskId, "g-2");
+    assert.equal(await store.claimTask("n-2"), null, "gpu is at its limit on every node");
+
+    await store.setTaskStatus("r-1", "running");
+    await store.setTaskStatus("r-1", "done");
+    assert.equal((await store.claimTask("n-2"))?.taskId, "r-2");
+
+    assert.equal(await store.deleteConcurrencyLimit("tag", "gpu"), true);
+    assert.equal(await store.deleteConcurrencyLimit("tag", "gpu"), false);
+    assert.equal((await store.claimTask("n-2"))?.taskId, "g-3");
+    assert.deepEqual(
+      (await store.listConcurrencyLimits()).map((l) => [l.scope, l.name, l.max]),
+      [["kind", "render", 1]]
+    );
+  });
+
+  it("countWaitingTasks counts queued tasks per limit as they move", async (store) => {
+    await addHealthyNode(store, node("n-1", ["linux", "gpu"], 10));
+    const limit = { schemaVersion: "1.0" as const, updatedAt: Date.now(), max: 5 };
+    const limits = [
+      { ...limit, scope: "kind" as const, name: "render" },
+      { ...limit, scope: "tag" as const, name: "gpu" },
+      { ...limit, scope: "tag" as const, name: "none" },
+    ];
+    await store.enqueueTask(task("r-1", { kind: "render", requiredTags: ["gpu"], createdAt: 1 }));
+    await store.enqueueTask(task("r-2", { kind: "render", createdAt: 2 }));
+    await store.enqueueTask(task("g-1", { requiredTags: ["gpu", "gpu"], createdAt: 3 }));
+    await store.enqueueTask(task("b-1", { kind: "render", status: "blocked" }));
+    assert.deepEqual(await store.countWaitingTasks(limits), [2, 2, 0]);
+
+    assert.equal((await store.claimTask("n-1"))?.taskId, "r-1");
+    assert.deepEqual(await store.countWaitingTasks(limits), [1, 1, 0]);
+    assert.equal(await store.requeueForRetry("r-1", Date.now()), true);
+    assert.deepEqual(await store.countWaitingTasks(limits), [2, 2, 0]);
+    assert.equal(await store.cancelTask("r-2"), true);
+    assert.equal(await store.deleteTask("g-1"), true);
+    await store.setTaskStatus("b-1", "queued");
+    assert.deepEqual(await store.countWaitingTasks(limits), [2, 1, 0]);
+    assert.deepEqual(await store.countWaitingTasks([]), []);
+  });
+
+  it("claimTask enforces privacy and hardware constraints", async (store) => {
+    const caps = (extra: object) => ({ tags: ["linux"], maxConcurrentTasks: 10, ...extra });
+    await addHealthyNode(store, { ...node("n-cloud"), capabilities: caps({ gpu: true }) });
+    await addHealthyNode(store, {
+      ...node("n-mesh"),
+      capabilities: caps({ trustZone: "trusted-mesh", ramGb: 16 }),
+    });
+    await addHealthyNode(store, { ...node("n-local"), capabilities: caps({ trustZone: "local" }) });
+    await store.enqueueTask(
+      task("t-local", { constraints: { privacy: "local-only" }, createdAt: 1 })
+    );
+    await store.enqueueTask(
+      task("t-mesh", { constraints: { privacy: "trusted-mesh" }, createdAt: 2 })
+    );
+    await store.enqueueTask(task("t-gpu", { constraints: { requiresGpu: true }, createdAt: 3 }));
+    await store.enqueueTask(task("t-ram", { constraints: { minRamGb: 8 }, createdAt: 4 }));
+
+    assert.equal((await store.claimTask("n-cloud"))?.taskId, "t-gpu");
+    assert.equal(await store.claimTask("n-cloud"), null);
+    assert.equal((await store.claimTask("n-mesh"))?.taskId, "t-mesh");
+    assert.equal((await store.claimTask("n-mesh"))?.taskId, "t-ram");
+    assert.equal(await store.claimTask("n-mesh"), null);
+    assert.equal((await store.claimTask("n-local"))?.taskId, "t-local");
+  });
+
+  it("claimTask waits for runAt", async (store) => {
+    await addHealthyNode(store, node("n-1", ["linux"], 10));
+    await store.enqueueTask(task("t-later", { runAt: Date.now() + 60_000, priority: 9 }));
+    assert.equal(await store.claimTask("n-1"), null);
+
+    await store.enqueueTask(task("t-due", { runAt: Date.now() - 1 }));
+    assert.equal((await store.claimTask("n-1"))?.taskId, "t-due");
+    assert.equal(await store.claimTask("n-1"), null);
+  });
+
+  it("claimTask orders by priority desc, then createdAt asc", async (store) => {
+    await addHealthyNode(store, node("n-1", ["linux"], 10));
+    const now = Date.now();
+    await store.enqueueTask(task("t-low-new", { createdAt: now + 20 }));
+    await store.enqueueTask(task("t-low-old", { createdAt: now }));
+    await store.enqueueTask(task("t-high", { createdAt: now + 30, priority: 10 }));
+    await store.enqueueTask(task("t-mid", { createdAt: now + 10, priority: 5 }));
+
+    const order: (string | undefined)[] = [];
+    for (let i = 0; i < 4; i++) order.push((await store.claimTask("n-1"))?.taskId);
+    assert.deepEqual(order, ["t-high", "t-mid", "t-low-old", "t-low-new"]);
+  });
+
+  it(
+    "claimTask follows the configured scheduling strategy",
+    async (store) => {
+      await addHealthyNode(store, node("n-1", ["linux"], 10));
+      const now = Date.now();
+      await store.enqueueTask(task("t-old", { createdAt: now }));
+      await store.enqueueTask(task("t-high", { createdAt: now + 10, priority: 10 }));
+
+      assert.equal((await store.claimTask("n-1"))?.taskId, "t-old");
+      assert.equal((await store.claimTask("n-1"))?.taskId, "t-high");
+    },
+    { scheduling: { strategy: fifo } }
+  );
+
+  it(
+    "per-queue strategies order their queue; the global one picks between queues",
+    async (store) => {
+      await addHealthyNode(store, node("n-1", ["linux"], 10));
+      const now = Date.now();
+      await store.enqueueTask(
+        task("short-slow", { queue: "short", expectedRuntimeMs: 500, createdAt: now })
+      );
+      await store.enqueueTask(
+        task("short-fast", { queue: "short", expectedRuntimeMs: 100, createdAt: now + 10 })
+      );
+      await store.enqueueTask(task("default-urgent", { priority: 5, createdAt: now + 20 }));
+
+      const order: (string | undefined)[] = [];
+      for (let i = 0; i < 3; i++) order.push((await store.claimTask("n-1"))?.taskId);
+      assert.deepEqual(order, ["default-urgent", "short-fast", "short-slow"]);
+    },
+    { scheduling: { queues: { short: shortestExpectedRuntime } } }
+  );
+
+  it("claimTask finds an eligible task behind hundreds it cannot take", async (store) => {
+    await addHealthyNode(store, node("n-1", ["linux"], 10));
+    const now = Date.now();
+    for (let i = 0; i < 300; i++) {
+      await store.enqueueTask(task(`t-gpu-${i}`, { requiredTags: ["gpu"], priority: 5 }));
+    }
+    await store.enqueueTask(task("t-plain", { createdAt: now + 1 }));
+    await store.setHeartbeat("n-1", heartbeat("n-1")); // enqueueing may outlast HEALTHY_MS
+    assert.equal((await store.claimTask("n-1"))?.taskId, "t-plain");
+  });
+
+  it(
+    "claimTask ranks every eligible task, however deep in the queue",
+    async (store) => {
+      await addHealthyNode(store, node("n-1", ["linux"], 10));
+      const now = Date.now();
+      for (let i = 0; i < 40; i++) {
+        await store.enqueueTask(task(`t-slow-${i}`, { expectedRuntimeMs: 1_000, createdAt: now }));
+      }
+      await store.enqueueTask(task("t-fast", { expectedRuntimeMs: 10, createdAt: now + 1 }));
+      assert.equal((await store.claimTask("n-1"))?.taskId, "t-fast");
+    },
+    { scheduling: { strategy: shortestExpectedRuntime } }
+  );
+
+  it("claimTask marks the task claimed and takes it off the queue", async (store) => {
+    await addHealthyNode(store, node("n-1"));
+    await store.enqueueTask(task("t-1", { requiredTags: [] }));
+
+    const before = Date.now();
+    const claimed = await store.claimTask("n-1");
+    assert.equal(claimed?.status, "claimed");
+    assert.equal(claimed?.assignedNodeId, "n-1");
+    assert.equal(claimed?.attempt, 1);
+    assert.ok((claimed?.claimedAt ?? 0) >= before);
+    assert.deepEqual(claimed?.payload, { taskId: "t-1" });
+    assert.deepEqual(claimed?.requiredTags, []);
+
+    assert.equal((await store.getTask("t-1"))?.status, "claimed");
+    assert.deepEqual(await store.listQueuedTasks(), []);
+    assert.deepEqual(ids(await store.listRunningTasks()), ["t-1"]);
+  });
+
+  it(
+    "listExpiredLeases lists claimed and running tasks whose lease lapsed, unchanged",
+    async (store) => {
+      await addHealthyNode(store, node("n-1", ["linux"], 10));
+      await store.enqueueTask(task("t-claimed", { createdAt: Date.now() - 10 }));
+      await store.enqueueTask(task("t-running", { createdAt: Date.now() }));
+      const first = await store.claimTask("n-1");
+      await store.claimTask("n-1");
+      await store.setTaskStatus("t-running", "running");
+      assert.ok(first?.leaseToken);
+      assert.ok(first.leaseExpiresAt! > Date.now());
+
+      await new Promise((r) => setTimeout(r, 120));
+      const expired = await store.listExpiredLeases();
+      assert.deepEqual(expired.map((t) => t.taskId).sort(), ["t-claimed", "t-running"]);
+      // Listing moves nothing, and neither does claiming: the reaper does.
+      assert.equal(await store.claimTask("n-1"), null);
+      const running = await store.getTask("t-running");
+      assert.equal(running?.status, "running");
+      assert.equal(running?.leaseToken, expired.find((t) => t.taskId === "t-running")?.leaseToken);
+      assert.equal((await store.getTask("t-claimed"))?.leaseToken, first.leaseToken);
+    },
+    { claimTtlMs: 100 }
+  );
+
+  it(
+    "renewLease keeps a task leased and rejects stale tokens",
+    async (store) => {
+      await addHealthyNode(store, node("n-1", ["linux"], 10));
+      await store.enqueueTask(task("t-1"));
+      const claimed = await store.claimTask("n-1");
+      const running = await store.setTaskStatus("t-1", "running");
+      assert.equal(await store.renewLease("t-1", "not-the-token"), null);
+      assert.equal(await store.renewLease("ghost", claimed!.leaseToken!), null);
+
+      for (let i = 0; i < 3; i++) {
+        await new Promise((r) => setTimeout(r, 60));
+        const renewed = await store.renewLease("t-1", claimed!.leaseToken!);
+        assert.equal(renewed?.status, "running");
+        assert.equal(renewed?.revision, running?.revision, "renewals keep the revision");
+      }
+      assert.deepEqual(await store.listExpiredLeases(), []);
+
+      await new Promise((r) => setTimeout(r, 120));
+      assert.equal(await store.renewLease("t-1", claimed!.leaseToken!), null, "already lapsed");
+      const expired = await store.listExpiredLeases();
+      assert.deepEqual(
+        expired.map((t) => [t.taskId, t.status, t.assignedNodeId]),
+        [["t-1", "running", "n-1"]]
+      );
+    },
+    { claimTtlMs: 100 }
+  );
+
+  // ── Task state ───────────────────────────────────────────────────────────
+
+  it("enqueueTask/getTask round-trip", async (store) => {
+    assert.equal(await store.getTask("ghost"), undefined);
+    const t = task("t-1", { priority: 3, maxAttempts: 2, timeoutMs: 500, requiredTags: ["a"] });
+    await store.enqueueTask(t);
+
+    const got = await store.getTask("t-1");
+    assert.equal(got?.status, "queued");
+    assert.equal(got?.priority, 3);
+    assert.equal(got?.maxAttempts, 2);
+    assert.equal(got?.timeoutMs, 500);
+    assert.equal(got?.createdAt, t.createdAt);
+    assert.deepEqual(got?.requiredTags, ["a"]);
+    assert.deepEqual(got?.payload, { taskId: "t-1" });
+  });
+
+  it("enqueueTaskIfAbsent never overwrites an existing task", async (store) => {
+    assert.equal(await store.enqueueTaskIfAbsent(task("t-1", { priority: 1 })), undefined);
+    await addHealthyNode(store, node("n-1"));
+    await store.claimTask("n-1");
+
+    const existing = await store.enqueueTaskIfAbsent(task("t-1", { priority: 9 }));
+    assert.equal(existing?.status, "claimed");
+    assert.equal(existing?.priority, 1);
+    const stored = await store.getTask("t-1");
+    assert.deepEqual(stored, existing);
+    assert.deepEqual(await store.listQueuedTasks(), []);
+  });
+
+  it("setTaskStatus updates status and clears claimedAt once running", async (store) => {
+    assert.equal(await store.setTaskStatus("ghost", "done"), null);
+    await addHealthyNode(store, node("n-1"));
+    await store.enqueueTask(task("t-1"));
+    await store.claimTask("n-1");
+
+    const running = await store.setTaskStatus("t-1", "running");
+    assert.equal(running?.status, "running");
+    assert.equal(running?.claimedAt, undefined);
+    assert.equal((await store.getTask("t-1"))?.claimedAt, undefined);
+    assert.equal((await store.getTask("t-1"))?.assignedNodeId, "n-1");
+  });
+
+  it("setTaskStatus back to queued makes the task claimable", async (store) => {
+    await addHealthyNode(store, node("n-1"));
+    await store.enqueueTask(task("t-1"));
+    await store.claimTask("n-1");
+    await store.setTaskStatus("t-1", "running");
+    assert.equal(await store.claimTask("n-1"), null);
+
+    await store.setTaskStatus("t-1", "queued");
+    assert.equal((await store.claimTask("n-1"))?.taskId, "t-1");
+  });
+
+  it("status changes outside the transition table throw and change nothing", async (store) => {
+    const rejectsEdge = (from: Task["status"], to: Task["status"]) => (err: unknown) => {
+      assert.ok(err instanceof InvalidTransitionError);
+      assert.equal(err.taskId, "t-1");
+      assert.equal(err.from, from);
+      assert.equal(err.to, to);
+      return true;
+    };
+    await addHealthyNode(store, node("n-1"));
+    await store.enqueueTask(task("t-1"));
+
+    await assert.rejects(
+      () => store.setTaskStatus("t-1", "running"),
+      rejectsEdge("queued", "running")
+    );
+    await assert.rejects(() => store.setTaskStatus("t-1", "done"), rejectsEdge("queued", "done"));
+    await assert.rejects(
+      () => store.requeueForRetry("t-1", Date.now()),
+      rejectsEdge("queued", "queued")
+    );
+    await store.enqueueDlq(dlqEntry((await store.getTask("t-1"))!));
+    await assert.rejects(() => store.requeueFromDlq("t-1"), rejectsEdge("queued", "queued"));
+    assert.ok(await store.getDlqEntry("t-1"));
+    assert.equal((await store.getTask("t-1"))?.revision, 1);
+
+    await store.claimTask("n-1");
+    await store.setTaskStatus("t-1", "done");
+    await assert.rejects(
+      () => store.setTaskStatus("t-1", "running"),
+      rejectsEdge("done", "running")
+    );
+    await assert.rejects(
+      () => store.requeueForRetry("t-1", Date.now()),
+      rejectsEdge("done", "queued")
+    );
+    assert.equal(await store.cancelTask("t-1"), false);
+    const t1 = await store.getTask("t-1");
+    assert.equal(t1?.status, "done");
+    assert.equal(t1?.revision, 3);
+  });
+
+  it("blocked tasks are never claimed until released to queued", async (store) => {
+    await addHealthyNode(store, node("n-1"));
+    await store.enqueueTask({ ...task("t-1"), status: "blocked", dependsOn: ["t-0"] });
+    assert.equal(await store.claimTask("n-1"), null);
+    assert.deepEqual(ids(await store.listTasks("blocked")), ["t-1"]);
+    assert.deepEqual((await store.getTask("t-1"))?.dependsOn, ["t-0"]);
+    assert.equal((await store.countTasksByStatus()).blocked, 1);
+
+    await store.setTaskStatus("t-1", "queued");
+    assert.equal((await store.claimTask("n-1"))?.taskId, "t-1");
+  });
+
+  it("listNodeTasks lists only the node's claimed and running tasks", async (store) => {
+    await addHealthyNode(store, node("n-1", ["linux"], 10));
+    await addHealthyNode(store, node("n-2", ["linux"], 10));
+    for (const id of ["t-1", "t-2", "t-3"]) await store.enqueueTask(task(id));
+    await store.claimTask("n-1");
+    await store.claimTask("n-1");
+    await store.claimTask("n-2");
+    await store.setTaskStatus("t-2", "running");
+    await store.enqueueTask(task("t-4"));
+    await store.claimTask("n-1");
+    await store.setTaskStatus("t-4", "done");
+
+    assert.deepEqual(ids(await store.listNodeTasks("n-1")), ["t-1", "t-2"]);
+    assert.deepEqual(ids(await store.listNodeTasks("n-2")), ["t-3"]);
+    assert.deepEqual(await store.listNodeTasks("n-3"), []);
+  });
+
+  it("listOldestQueuedTasks reads unpinned queued tasks oldest first", async (store) => {
+    const now = Date.now();
+    await store.enqueueTask(task("t-new", { createdAt: now, priority: 9 }));
+    await store.enqueueTask(task("t-old", { createdAt: now - 3_000 }));
+    await store.enqueueTask(task("t-mid", { createdAt: now - 2_000 }));
+    await store.enqueueTask(task("t-pinned", { createdAt: now - 4_000, targetNodeId: "n-1" }));
+    await store.enqueueTask(task("t-done", { createdAt: now - 5_000, status: "done" }));
+
+    const oldest = await store.listOldestQueuedTasks(2);
+    assert.deepEqual(
+      oldest.map((t) => t.taskId),
+      ["t-old", "t-mid"]
+    );
+    assert.equal((await store.listOldestQueuedTasks(10)).length, 3);
+  });
+
+  it("listDependentTasks lists the tasks that depend on a task", async (store) => {
+    await store.enqueueTask(task("p"));
+    await store.enqueueTask(task("c-1", { status: "blocked", dependsOn: ["p"] }));
+    await store.enqueueTask(task("c-2", { status: "blocked", dependsOn: ["other", "p"] }));
+    await store.enqueueTask(task("c-3", { status: "blocked", dependsOn: ["other"] }));
+
+    assert.deepEqual(ids(await store.listDependentTasks("p")), ["c-1", "c-2"]);
+    assert.deepEqual(ids(await store.listDependentTasks("missing")), []);
+    assert.equal(await store.deleteTask("c-1"), true);
+    assert.deepEqual(ids(await store.listDependentTasks("p")), ["c-2"]);
+    assert.deepEqual(ids(await store.listDependentTasks("other")), ["c-2", "c-3"]);
+  });
+
+  it("listChildTasks lists a broadcast parent's children until they are deleted", async (store) => {
+    await store.enqueueTask(task("b", { status: "blocked", broadcast: {} }));
+    await store.enqueueTask(task("b@n-1", { parentTaskId: "b", targetNodeId: "n-1" }));
+    await store.enqueueTask(task("b@n-2", { parentTaskId: "b", status: "done" }));
+    await store.enqueueTask(task("other"));
+
+    assert.deepEqual(ids(await store.listChildTasks("b")), ["b@n-1", "b@n-2"]);
+    assert.equal(await store.deleteTask("b@n-1"), true);
+    assert.deepEqual(ids(await store.listChildTasks("b")), ["b@n-2"]);
+    assert.deepEqual(await store.listChildTasks("other"), []);
+  });
+
+  it("listTasks, listQueuedTasks, listRunningTasks and counts agree", async (store) => {
+    await addHealthyNode(store, node("n-1", ["linux"], 10));
+    for (const id of ["t-1", "t-2", "t-3", "t-4"]) await store.enqueueTask(task(id));
+    for (let i = 0; i < 4; i++) await store.claimTask("n-1");
+    await store.enqueueTask(task("t-5"));
+    await store.setTaskStatus("t-1", "done");
+    await store.setTaskStatus("t-2", "failed");
+    await store.cancelTask("t-3");
+    await store.setTaskStatus("t-4", "running");
+
+    assert.deepEqual(ids(await store.listTasks()), ["t-1", "t-2", "t-3", "t-4", "t-5"]);
+    assert.deepEqual(ids(await store.listTasks("done")), ["t-1"]);
+    assert.deepEqual(ids(await store.listTasks("failed")), ["t-2"]);
+    assert.deepEqual(ids(await store.listTasks("cancelled")), ["t-3"]);
+    assert.deepEqual(ids(await store.listQueuedTasks()), ["t-5"]);
+    assert.deepEqual(ids(await store.listRunningTasks()), ["t-4"]);
+    assert.deepEqual(await store.countTasksByStatus(), {
+      blocked: 0,
+      queued: 1,
+      claimed: 0,
+      running: 1,
+      done: 1,
+      failed: 1,
+      cancelled: 1,
+    });
+  });
+
+  it("cancelTask removes queued tasks from the queue and refuses terminal ones", async (store) => {
+    assert.equal(await store.cancelTask("ghost"), false);
+    await addHealthyNode(store, node("n-1"));
+    await store.enqueueTask(task("t-1"));
+    await store.enqueueTask(task("t-2", { status: "done" }));
+
+    assert.equal(await store.cancelTask("t-1"), true);
+    assert.equal(await store.cancelTask("t-1"), false);
+    assert.equal(await store.cancelTask("t-2"), false);
+    assert.equal((await store.getTask("t-1"))?.status, "cancelled");
+    assert.deepEqual(await store.listQueuedTasks(), []);
+    assert.equal(await store.claimTask("n-1"), null);
+  });
+
+  it("cancelTask on a claimed task frees the node's capacity", async (store) => {
+    await addHealthyNode(store, node("n-1", ["linux"], 1));
+    await store.enqueueTask(task("t-1", { createdAt: Date.now() - 10 }));
+    await store.enqueueTask(task("t-2"));
+    await store.claimTask("n-1");
+
+    assert.equal(await store.cancelTask("t-1"), true);
+    const t1 = await store.getTask("t-1");
+    assert.equal(t1?.status, "cancelled");
+    assert.equal(t1?.claimedAt, undefined);
+    assert.equal((await store.claimTask("n-1"))?.taskId, "t-2");
+  });
+
+  it("requeueForRetry clears the assignment and delays the next claim", async (store) => {
+    assert.equal(await store.requeueForRetry("ghost", Date.now()), false);
+    await addHealthyNode(store, node("n-1"));
+    await store.enqueueTask(task("t-1"));
+    await store.claimTask("n-1");
+
+    const retryAfter = Date.now() + 60_000;
+    assert.equal(await store.requeueForRetry("t-1", retryAfter), true);
+    const t1 = await store.getTask("t-1");
+    assert.equal(t1?.status, "queued");
+    assert.equal(t1?.retryAfter, retryAfter);
+    assert.equal(t1?.assignedNodeId, undefined);
+    assert.equal(t1?.claimedAt, undefined);
+    assert.equal(t1?.attempt, 1);
+    assert.deepEqual(ids(await store.listQueuedTasks()), ["t-1"]);
+    assert.equal(await store.claimTask("n-1"), null);
+
+    await store.enqueueTask(task("t-2"));
+    await store.claimTask("n-1");
+    await store.requeueForRetry("t-2", Date.now() - 1);
+    assert.equal((await store.claimTask("n-1"))?.attempt, 2);
+  });
+
+  it("preemptTask requeues a claimed task for immediate reclaim and counts it", async (store) => {
+    assert.equal(await store.preemptTask("ghost"), false);
+    await addHealthyNode(store, node("n-1"));
+    await store.enqueueTask(task("t-1", { retryAfter: Date.now() - 1 }));
+    const claimed = await store.claimTask("n-1");
+
+    assert.equal(await store.preemptTask("t-1", claimed?.revision), true);
+    const t1 = await store.getTask("t-1");
+    assert.equal(t1?.status, "queued");
+    assert.equal(t1?.preemptions, 1);
+    assert.equal(t1?.assignedNodeId, undefined);
+    assert.equal(t1?.retryAfter, undefined);
+    assert.deepEqual(ids(await store.listQueuedTasks()), ["t-1"]);
+
+    const again = await store.claimTask("n-1");
+    assert.equal(again?.attempt, 2);
+    await store.setTaskStatus("t-1", "running");
+    await store.setTaskStatus("t-1", "done");
+    await assert.rejects(store.preemptTask("t-1"), InvalidTransitionError);
+  });
+
+  it("deleteTask removes the task, its result and its queue slot", async (store) => {
+    assert.equal(await store.deleteTask("ghost"), false);
+    await addHealthyNode(store, node("n-1", ["linux"], 1));
+    await store.enqueueTask(task("t-queued"));
+    await store.enqueueTask(task("t-done", { status: "done" }));
+    await store.setTaskResult({
+      schemaVersion: "1.0",
+      taskId: "t-done",
+      nodeId: "n-1",
+      ok: true,
+      finishedAt: Date.now(),
+    });
+
+    assert.equal(await store.deleteTask("t-done"), true);
+    assert.equal(await store.deleteTask("t-done"), false);
+    assert.equal(await store.getTask("t-done"), undefined);
+    assert.equal(await store.getTaskResult("t-done"), undefined);
+
+    assert.equal(await store.deleteTask("t-queued"), true);
+    assert.deepEqual(await store.listTasks(), []);
+    assert.deepEqual(await store.listQueuedTasks(), []);
+    assert.equal((await store.countTasksByStatus()).queued, 0);
+    assert.equal(await store.claimTask("n-1"), null);
+  });
+
+  it("deleteTask on a claimed task frees the node's capacity", async (store) => {
+    await addHealthyNode(store, node("n-1", ["linux"], 1));
+    await store.enqueueTask(task("t-1", { createdAt: Date.now() - 10 }));
+    await store.enqueueTask(task("t-2"));
+    await store.claimTask("n-1");
+
+    assert.equal(await store.deleteTask("t-1"), true);
+    assert.deepEqual(await store.listRunningTasks(), []);
+    assert.equal((await store.claimTask("n-1"))?.taskId, "t-2");
+  });
+
+  it("every task write bumps the revision", async (store) => {
+    await addHealthyNode(store, node("n-1"));
+    await store.enqueueTask(task("t-1"));
+    assert.equal((await store.getTask("t-1"))?.revision, 1);
+
+    assert.equal((await store.claimTask("n-1"))?.revision, 2);
+    assert.equal((await store.setTaskStatus("t-1", "running"))?.revision, 3);
+    await store.requeueForRetry("t-1", Date.now() - 1);
+    assert.equal((await store.getTask("t-1"))?.revision, 4);
+    await store.cancelTask("t-1");
+    assert.equal((await store.getTask("t-1"))?.revision, 5);
+
+    // Re-enqueueing never moves the revision backwards
+    await store.enqueueTask(task("t-1"));
+    assert.equal((await store.getTask("t-1"))?.revision, 6);
+  });
+
+  it("mutations with a stale expectedRevision throw and change nothing", async (store) => {
+    await addHealthyNode(store, node("n-1"));
+    await store.enqueueTask(task("t-1"));
+    const read = (await store.getTask("t-1"))!;
+    await store.claimTask("n-1");
+
+    for (const attempt of [
+      () => store.setTaskStatus("t-1", "done", read.revision),
+      () => store.cancelTask("t-1", read.revision),
+      () => store.requeueForRetry("t-1", Date.now(), read.revision),
+    ]) {
+      await assert.rejects(attempt, (err: unknown) => {
+        assert.ok(err instanceof TaskRevisionConflictError);
+        assert.equal(err.taskId, "t-1");
+        assert.equal(err.expectedRevision, 1);
+        assert.equal(err.actualRevision, 2);
+        return true;
+      });
+    }
+    const current = await store.getTask("t-1");
+    assert.equal(current?.status, "claimed");
+    assert.equal(current?.revision, 2);
+
+    assert.equal((await store.setTaskStatus("t-1", "running", 2))?.status, "running");
+    assert.equal(await store.cancelTask("t-1", 3), true);
+  });
+
+  // ── Results + DLQ ────────────────────────────────────────────────────────
+
+  it("setTaskResult/getTaskResult round-trip and overwrite", async (store) => {
+    assert.equal(await store.getTaskResult("ghost"), undefined);
+    const base = { schemaVersion: "1.0" as const, taskId: "t-1", nodeId: "n-1" };
+    await store.setTaskResult({ ...base, ok: false, error: "boom", finishedAt: 1 });
+    await store.setTaskResult({ ...base, ok: true, output: { x: [1, 2] }, finishedAt: 2 });
+
+    const result = await store.getTaskResult("t-1");
+    assert.equal(result?.ok, true);
+    assert.equal(result?.finishedAt, 2);
+    assert.deepEqual(result?.output, { x: [1, 2] });
+  });
+
+  it("enqueueDlq/listDlq/getDlqEntry round-trip", async (store) => {
+    assert.equal(await store.getDlqEntry("ghost"), undefined);
+    await store.enqueueTask(task("t-1"));
+    await store.enqueueTask(task("t-2"));
+    await store.enqueueDlq(dlqEntry((await store.getTask("t-1"))!));
+    await store.enqueueDlq(dlqEntry((await store.getTask("t-2"))!));
+
+    assert.deepEqual((await store.listDlq()).map((e) => e.taskId).sort(), ["t-1", "t-2"]);
+    const entry = await store.getDlqEntry("t-1");
+    assert.equal(entry?.reason, "max_attempts_exhausted");
+    assert.equal(entry?.lastResult.error, "boom");
+    assert.equal(entry?.task.taskId, "t-1");
+  });
+
+  it("requeueFromDlq resets attempts and makes the task claimable again", async (store) => {
+    assert.equal(await store.requeueFromDlq("ghost"), false);
+    await addHealthyNode(store, node("n-1"));
+    await store.enqueueTask(task("t-1", { maxAttempts: 1 }));
+    await store.claimTask("n-1");
+    await store.setTaskStatus("t-1", "failed");
+    await store.enqueueDlq(dlqEntry((await store.getTask("t-1"))!));
+
+    assert.equal(await store.requeueFromDlq("t-1"), true);
+    assert.equal(await store.requeueFromDlq("t-1"), false);
+    assert.deepEqual(await store.listDlq(), []);
+    assert.equal(await store.getDlqEntry("t-1"), undefined);
+
+    const t1 = await store.getTask("t-1");
+    assert.equal(t1?.status, "queued");
+    assert.equal(t1?.attempt, 0);
+    assert.equal(t1?.retryAfter, undefined);
+    assert.equal(t1?.assignedNodeId, undefined);
+    assert.equal((await store.claimTask("n-1"))?.attempt, 1);
+  });
+
+  it("deleteDlqEntry drops the entry and leaves the task alone", async (store) => {
+    assert.equal(await store.deleteDlqEntry("ghost"), false);
+    await store.enqueueTask(task("t-1", { status: "failed" }));
+    await store.enqueueDlq(dlqEntry((await store.getTask("t-1"))!));
+
+    assert.equal(await store.deleteDlqEntry("t-1"), true);
+    assert.equal(await store.deleteDlqEntry("t-1"), false);
+    assert.deepEqual(await store.listDlq(), []);
+    assert.equal((await store.getTask("t-1"))?.status, "failed");
+    assert.equal(await store.requeueFromDlq("t-1"), false);
+  });
+
+  it("requeueFromDlq without the task keeps the DLQ entry", async (store) => {
+    await store.enqueueDlq(dlqEntry(task("t-orphan")));
+    assert.equal(await store.requeueFromDlq("t-orphan"), false);
+    assert.ok(await store.getDlqEntry("t-orphan"));
+  });
+
+  // ── Schedules ────────────────────────────────────────────────────────────
+
+  it("schedules round-trip and bump their revision on every save", async (store) => {
+    const schedule: Schedule = {
+      schemaVersion: "1.0",
+      scheduleId: "s-1",
+      cron: "*/5 * * * *",
+      task: { kind: "echo", payload: { n: 1 } },
+      overlap: "skip",
+      catchUp: "latest",
+      createdAt: 1,
+      nextRunAt: 300_000,
+    };
+    assert.equal(await store.getSchedule("s-1"), undefined);
+    assert.equal(await store.saveSchedule(schedule), true);
+    assert.equal(await store.saveSchedule({ ...schedule, scheduleId: "s-0" }), true);
+
+    const saved = await store.getSchedule("s-1");
+    assert.deepEqual(saved, { ...schedule, revision: 1 });
+    assert.deepEqual(
+      (await store.listSchedules()).map((s) => s.scheduleId),
+      ["s-0", "s-1"]
+    );
+
+    assert.equal(await store.deleteSchedule("s-0"), true);
+    assert.equal(await store.deleteSchedule("s-0"), false);
+    assert.deepEqual(
+      (await store.listSchedules()).map((s) => s.scheduleId),
+      ["s-1"]
+    );
+  });
+
+  it("saveSchedule with a stale expectedRevision writes nothing", async (store) => {
+    const schedule: Schedule = {
+      schemaVersion: "1.0",
+      scheduleId: "s-1",
+      cron: "0 * * * *",
+      task: { kind: "echo", payload: {} },
+      overlap: "queue",
+      catchUp: "all",
+      createdAt: 1,
+      nextRunAt: 3_600_000,
+    };
+    assert.equal(await store.saveSchedule(schedule, 1), false);
+    assert.equal(await store.getSchedule("s-1"), undefined);
+    assert.equal(await store.saveSchedule(schedule, 0), true);
+    assert.equal(await store.saveSchedule(schedule, 0), false);
+
+    assert.equal(await store.saveSchedule({ ...schedule, nextRunAt: 7_200_000 }, 1), true);
+    assert.equal(await store.saveSchedule({ ...schedule, nextRunAt: 9_999_999 }, 1), false);
+    const current = await store.getSchedule("s-1");
+    assert.equal(current?.nextRunAt, 7_200_000);
+    assert.equal(current?.revision, 2);
+  });
+
+  // ── Idempotency keys ─────────────────────────────────────────────────────
+
+  it("reserveDedupeKey binds a key to the first task until it expires", async (store) => {
+    assert.equal(await store.reserveDedupeKey("k-1", "t-1", 200), undefined);
+    assert.equal(await store.reserveDedupeKey("k-1", "t-2", 200), "t-1");
+    assert.equal(await store.reserveDedupeKey("k-2", "t-2", 200), undefined);
+
+    await new Promise((r) => setTimeout(r, 250));
+    assert.equal(await store.reserveDedupeKey("k-1", "t-3", 200), undefined);
+    assert.equal(await store.reserveDedupeKey("k-1", "t-4", 200), "t-3");
+  });
+
+  it("saveDedupeKey replaces a binding and listDedupeKeys lists the unexpired ones", async (store) => {
+    const expiresAt = Date.now() + 60_000;
+    assert.equal(await store.reserveDedupeKey("k-2", "t-1", 200), undefined);
+    await store.saveDedupeKey({ key: "k-1", taskId: "t-2", expiresAt });
+    await store.saveDedupeKey({ key: "k-2", taskId: "t-3", expiresAt });
+    await store.saveDedupeKey({ key: "k-3", taskId: "t-4", expiresAt: Date.now() - 1 });
+    assert.deepEqual(await store.listDedupeKeys(), [
+      { key: "k-1", taskId: "t-2", expiresAt },
+      { key: "k-2", taskId: "t-3", expiresAt },
+    ]);
+    assert.equal(await store.reserveDedupeKey("k-2", "t-5", 200), "t-3");
+    assert.equal(await store.reserveDedupeKey("k-3", "t-5", 200), undefined);
+  });
+
+  it("saveDedupeKey with an expected task only replaces that binding", async (store) => {
+    const expiresAt = Date.now() + 60_000;
+    assert.equal(await store.reserveDedupeKey("k-1", "t-1", 200), undefined);
+    assert.equal(await store.saveDedupeKey({ key: "k-1", taskId: "t-3", expiresAt }, "t-2"), false);
+    assert.equal(await store.saveDedupeKey({ key: "k-1", taskId: "t-2", expiresAt }, "t-1"), true);
+    assert.equal(await store.reserveDedupeKey("k-1", "t-4", 200), "t-2");
+    assert.equal(await store.saveDedupeKey({ key: "k-2", taskId: "t-2", expiresAt }, "t-1"), false);
+    assert.deepEqual(
+      (await store.listDedupeKeys()).map((record) => record.key),
+      ["k-1"]
+    );
+  });
+}
@@ -0,0 +1,263 @@
+import { randomUUID } from "node:crypto";
+import {
+  closeSync,
+  existsSync,
+  fsyncSync,
+  ftruncateSync,
+  mkdirSync,
+  openSync,
+  readFileSync,
+  renameSync,
+  rmSync,
+  writeSync,
+} from "node:fs";
+import { join } from "node:path";
+import {
+  InMemoryControlPlaneStore,
+  limitId,
+  type DedupeKeyRecord,
+  type NodeRecord,
+  type StoreOptions,
+  type StoreWrite,
+} from "../persistence.js";
+import type { ConcurrencyLimit, DlqEntry, Schedule, Task, TaskResult } from "../contracts.js";
+
+const SNAPSHOT_VERSION = 1;
+
+// Each journal line is one StoreWrite: the full post-mutation state of one
+// record, so replaying an entry twice (e.g. after a crash mid-compaction) is
+// harmless.
+type JournalEntry = StoreWrite;
+
+interface Snapshot {
+  version: typeof SNAPSHOT_VERSION;
+  takenAt: number;
+  nodes: NodeRecord[];
+  tasks: Task[];
+  taskQueue: string[];
+  results: TaskResult[];
+  dlq: DlqEntry[];
+  /** Absent in snapshots written before schedules existed. */
+  schedules?: Schedule[];
+  /** Absent in snapshots written before concurrency limits existed. */
+  limits?: ConcurrencyLimit[];
+  /** Absent in snapshots written before idempotency keys existed. */
+  dedupeKeys?: DedupeKeyRecord[];
+}
+
+/**
+ * Contents of the lock files this process holds. A lock naming our own pid
+ * with other contents was left by an earlier run under the same pid, as a
+ * container's PID 1 always is.
+ */
+const heldLocks = new Set<string>();
+
+/** True when a process with this pid exists (possibly owned by another user). */
+function processAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (err) {
+    return (err as NodeJS.ErrnoException).code === "EPERM";
+  }
+}
+
+/**
+ * Durable single-host store for sites without Redis.
+ *
+ * State lives in memory (same semantics as InMemoryControlPlaneStore); every
+ * mutation is appended to `journal.jsonl` before it is applied, so memory
+ * never holds a change the journal lacks. Heartbeats are the exception: a
+ * node's heartbeat is journaled at most every `heartbeatJournalMs` (or when
+ * its status changes) and without its own fsync, so a crash loses at most
+ * that much heartbeat freshness. After `compactEvery` entries the state is
+ * written to `snapshot.json` and the journal is truncated. On startup the
+ * snapshot is loaded and the journal replayed on top; a torn final line
+ * from a crash mid-write is dropped.
+ *
+ * `store.lock` holds the directory for one process: a second store on the
+ * same directory throws until the first is closed or its process has died
+ * (or restarted under the same pid).
+ */
+export class FileControlPlaneStore extends InMemoryControlPlaneStore {
+  private readonly snapshotPath: string;
+  private readonly journalPath: string;
+  private readonly lockPath: string;
+  private readonly lockContent = `${process.pid}\n${randomUUID()}`;
+  private readonly compactEvery: number;
+  private readonly fsync: boolean;
+  private readonly heartbeatJournalMs: number;
+  private readonly lockFd: number;
+  private journalFd: number;
+  private journalEntries = 0;
+  /** Last journaled heartbeat per node, for coalescing. */
+  private readonly journaledHeartbeats = new Map<string, { ts: number; status: string }>();
+
+  constructor(
+    dir: string,
+    options: StoreOptions & {
+      /** Journal entries between snapshots. Default 1000. */
+      compactEvery?: number;
+      /** fsync after every journal append. Default true. */
+      fsync?: boolean;
+      /** Minimum gap between journaled heartbeats of one node. Default 5000. */
+      heartbeatJournalMs?: number;
+    } = {}
+  ) {
+    super(options);
+    this.snapshotPath = join(dir, "snapshot.json");
+    this.journalPath = join(dir, "journal.jsonl");
+    this.lockPath = join(dir, "store.lock");
+    this.compactEvery = Math.max(1, options.compactEvery ?? 1000);
+    this.fsync = options.fsync ?? true;
+    this.heartbeatJournalMs = options.heartbeatJournalMs ?? 5_000;
+
+    mkdirSync(dir, { recursive: true });
+    this.lockFd = this.lock(dir);
+    try {
+      this.journalFd = openSync(this.journalPath, "a");
+      this.recover();
+    } catch (err) {
+      this.unlock();
+      throw err;
+    }
+  }
+
+  // ── Lifecycle ─────────────────────────────────────────────────────────────
+
+  /** Writes a snapshot of the full state and truncates the journal. */
+  compact(): void {
+    const snapshot: Snapshot = {
+      version: SNAPSHOT_VERSION,
+      takenAt: Date.now(),
+      nodes: [...this.nodes.values()],
+      tasks: [...this.tasks.values()],
+      taskQueue: [...this.taskQueue],
+      results: [...this.results.values()],
+      dlq: [...this.dlq.values()],
+      schedules: [...this.schedules.values()],
+      limits: [...this.limits.values()],
+      dedupeKeys: [...this.dedupeKeys.values()],
+    };
+
+    // Write-then-rename so a crash never leaves a half-written snapshot behind.
+    const tmpPath = `${this.snapshotPath}.tmp`;
+    const fd = openSync(tmpPath, "w");
+    try {
+      writeSync(fd, JSON.stringify(snapshot));
+      fsyncSync(fd);
+    } finally {
+      closeSync(fd);
+    }
+    renameSync(tmpPath, this.snapshotPath);
+
+    ftruncateSync(this.journalFd, 0);
+    this.journalEntries = 0;
+  }
+
+  async close(): Promise<void> {
+    closeSync(this.journalFd);
+    this.unlock();
+  }
+
+  // ── Private helpers ───────────────────────────────────────────────────────
+
+  protected override write(change: StoreWrite): void {
+    if (change.op === "heartbeat") {
+      if (this.heartbeatDue(change)) {
+        this.append(change, false);
+        this.journaledHeartbeats.set(change.nodeId, change.heartbeat);
+      }
+    } else {
+      this.append(change, this.fsync);
+    }
+    super.write(change);
+    if (this.journalEntries >= this.compactEvery) this.compact();
+  }
+
+  private heartbeatDue(change: Extract<StoreWrite, { op: "heartbeat" }>): boolean {
+    const last = this.journaledHeartbeats.get(change.nodeId);
+    if (!last || last.status !== change.heartbeat.status) return true;
+    return change.heartbeat.ts - last.ts >= this.heartbeatJournalMs;
+  }
+
+  private append(entry: JournalEntry, sync: boolean) {
+    // Synchronous single write per line keeps journal order identical to
+    // mutation order without an extra write queue. Unsynced lines reach the
+    // disk with the next synced one.
+    writeSync(this.journalFd, `${JSON.stringify(entry)}\n`);
+    if (sync) fsyncSync(this.journalFd);
+    this.journalEntries += 1;
+  }
+
+  /** Creates `store.lock`, replacing one left behind by a process that died. */
+  private lock(dir: string): number {
+    for (let attempt = 0; attempt < 2; attempt++) {
+      try {
+        const fd = openSync(this.lockPath, "wx");
+        writeSync(fd, this.lockContent);
+        heldLocks.add(this.lockContent);
+        return fd;
+      } catch (err) {
+        if ((err as NodeJS.ErrnoException).code !== "EEXIST") throw err;
+      }
+      const held = readFileSync(this.lockPath, "utf8");
+      const holder = Number.parseInt(held, 10);
+      const live =
+        holder === process.pid ? heldLocks.has(held) : holder > 0 && processAlive(holder);
+      if (live) {
+        throw new Error(`file store ${dir} is in use by process ${holder}`);
+      }
+      rmSync(this.lockPath, { force: true });
+    }
+    throw new Error(`file store ${dir} is being locked by another process`);
+  }
+
+  private unlock() {
+    closeSync(this.lockFd);
+    heldLocks.delete(this.lockContent);
+    // Only remove the lock while it is still ours.
+    if (existsSync(this.lockPath) && readFileSync(this.lockPath, "utf8") === this.lockContent) {
+      rmSync(this.lockPath, { force: true });
+    }
+  }
+
+  private recover() {
+    if (existsSync(this.snapshotPath)) {
+      const snapshot = JSON.parse(readFileSync(this.snapshotPath, "utf8")) as Snapshot;
+      if (snapshot.version !== SNAPSHOT_VERSION) {
+        throw new Error(`unsupported snapshot version ${String(snapshot.version)}`);
+      }
+      for (const node of snapshot.nodes) this.nodes.set(node.nodeId, node);
+      for (const task of snapshot.tasks) this.tasks.set(task.taskId, task);
+      this.taskQueue = [...snapshot.taskQueue];
+      for (const result of snapshot.results) this.results.set(result.taskId, result);
+      for (const entry of snapshot.dlq) this.dlq.set(entry.taskId, entry);
+      for (const schedule of snapshot.schedules ?? []) {
+        this.schedules.set(schedule.scheduleId, schedule);
+      }
+      for (const limit of snapshot.limits ?? []) {
+        this.limits.set(limitId(limit.scope, limit.name), limit);
+      }
+      for (const record of snapshot.dedupeKeys ?? []) this.dedupeKeys.set(record.key, record);
+    }
+
+    const lines = readFileSync(this.journalPath, "utf8").split("\n");
+    for (let i = 0; i < lines.length; i++) {
+      if (!lines[i]) continue;
+      let entry: JournalEntry;
+      try {
+        entry = JSON.parse(lines[i]) as JournalEntry;
+      } catch (err) {
+        // Only the last line can be torn by a crash; anything earlier is corruption.
+        if (i === lines.length - 1) break;
+        throw new Error(`corrupt journal entry at line ${i + 1}: ${(err as Error).message}`);
+      }
+      this.apply(entry);
+      this.journalEntries += 1;
+    }
+
+    // Drop a torn tail so later appends start on a clean line.
+    if (lines[lines.length - 1] !== "") this.compact();
+  }
+}
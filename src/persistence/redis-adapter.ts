@@ -1,14 +1,47 @@
+import { randomUUID } from "node:crypto";
 import { Redis } from "ioredis";
-import type { ControlPlaneStore } from "../persistence.js";
+import {
+  byLimitId,
+  checkRevision,
+  claimableAt,
+  leaseExpired,
+  limitId,
+  maxActive,
+  nextRevision,
+  type ClaimOptions,
+  type ControlPlaneStore,
+  type DedupeKeyRecord,
+  type StoreOptions,
+} from "../persistence.js";
+import { rankCandidates, strictPriority, type SchedulingConfig } from "../control/scheduling.js";
+import { placementAllows, spreadKey } from "../control/placement.js";
+import { constraintViolation } from "../control/constraints.js";
 import type {
+  ConcurrencyLimit,
   DlqEntry,
   HeartbeatRequest,
   NodeFreshnessState,
   NodeView,
   RegisterNodeRequest,
+  ResourceMap,
+  Schedule,
   Task,
   TaskResult,
 } from "../contracts.js";
+import {
+  InvalidTransitionError,
+  RETRYABLE_STATUSES,
+  assertTransition,
+  isTerminal,
+} from "../task-state.js";
+import {
+  CLAIM_TASK_SCRIPT,
+  DELETE_TASK_SCRIPT,
+  REBIND_DEDUPE_SCRIPT,
+  SAVE_SCHEDULE_SCRIPT,
+  SAVE_TASK_SCRIPT,
+  UPGRADE_TASK_SCRIPT,
+} from "./redis-scripts.js";
 
 type NodeRecord = RegisterNodeRequest & {
   lastHeartbeat?: HeartbeatRequest;
@@ -17,24 +50,110 @@ type NodeRecord = RegisterNodeRequest & {
   draining?: boolean;
 };
 
+type TaskPatch = { [K in keyof Task]?: Task[K] | undefined };
+
+// Claim attempts retried when a heartbeat rewrites the node record mid-claim.
+const CLAIM_NODE_RETRIES = 3;
+// A claim reads the queues, and offers candidates to the claim script, this
+// many at a time.
+const CLAIM_WINDOW = 32;
+// Task writes retried when a concurrent transition moved the task first.
+const SAVE_TASK_RETRIES = 5;
+
+const TASK_STATUSES: Task["status"][] = [
+  "blocked",
+  "queued",
+  "claimed",
+  "running",
+  "done",
+  "failed",
+  "cancelled",
+];
+
+// Keyspace layout written by migrate(); bump it whenever migrate() learns a new step.
+const LAYOUT_VERSION = "9";
+
+const statusKey = (status: Task["status"]) => `tasks:${status}`;
+const activeKey = (nodeId: string) => `active:${nodeId}`;
+const allocKey = (nodeId: string) => `alloc:${nodeId}`;
+const childrenKey = (parentTaskId: string) => `children:${parentTaskId}`;
+const dependentsKey = (taskId: string) => `dependents:${taskId}`;
+const SHARED_QUEUE = "taskqueue";
+const AGE_QUEUE = "taskqueue:age";
+const targetQueueKey = (nodeId: string) => `taskqueue:node:${nodeId}`;
+
+/** The node whose active set holds `task`: claimed/running tasks with an assigned node. */
+function heldOn(task: Task): string | undefined {
+  const active = task.status === "claimed" || task.status === "running";
+  return active ? task.assignedNodeId : undefined;
+}
+
+/** `usage` hash field counted for a concurrency limit (mirrors usageFields in the scripts). */
+const usageField = (scope: ConcurrencyLimit["scope"], name: string) =>
+  `${scope}:${JSON.stringify(name)}`;
+
+/** The `usage` fields a held task counts against, each once. */
+function usageFields(task: Task): string[] {
+  const tags = [...new Set(task.requiredTags ?? [])];
+  return [usageField("kind", task.kind), ...tags.map((tag) => usageField("tag", tag))];
+}
+
+/** Script arguments for a resource map: the count, then name/amount pairs. */
+function resourceArgs(resources: ResourceMap | undefined): string[] {
+  const entries = Object.entries(resources ?? {});
+  return [String(entries.length), ...entries.flatMap(([name, amount]) => [name, String(amount)])];
+}
+
+/**
+ * Sorted-set score for the queue: priority desc, then createdAt asc.
+ * createdAt (ms) stays below 1e13 until the year 2286.
+ */
+function queueScore(task: Task): number {
+  return -(task.priority ?? 0) * 1e13 + task.createdAt;
+}
+
+/**
+ * The sorted sets a queued task sits in, with its score in each: its target
+ * node's queue, or the shared priority and age queues.
+ */
+function queueEntries(task: Task): [key: string, score: number][] {
+  if (task.status !== "queued") return [];
+  if (task.targetNodeId) return [[targetQueueKey(task.targetNodeId), queueScore(task)]];
+  return [
+    [SHARED_QUEUE, queueScore(task)],
+    [AGE_QUEUE, task.createdAt],
+  ];
+}
+
+/** Flattens a task into HSET arguments, one JSON-encoded value per field. */
+function encodeTask(task: TaskPatch): string[] {
+  const args: string[] = [];
+  for (const [field, value] of Object.entries(task)) {
+    if (value === undefined) continue;
+    args.push(field, JSON.stringify(value));
+  }
+  return args;
+}
+
+function decodeTask(fields: Record<string, string>): Task | undefined {
+  const entries = Object.entries(fields);
+  if (entries.length === 0) return undefined;
+  return Object.fromEntries(entries.map(([k, v]) => [k, JSON.parse(v)])) as Task;
+}
+
 export class RedisControlPlaneStore implements ControlPlaneStore {
   private readonly redis: Redis;
   private readonly claimTtlMs: number;
   private readonly heartbeatHealthyMs: number;
   private readonly heartbeatDegradedMs: number;
+  readonly scheduling?: SchedulingConfig;
 
-  constructor(
-    redisOrUrl: Redis | string,
-    options: {
-      claimTtlMs?: number;
-      heartbeatHealthyMs?: number;
-      heartbeatDegradedMs?: number;
-    } = {}
-  ) {
+  constructor(redisOrUrl: Redis | string, options: StoreOptions = {}) {
     this.redis = typeof redisOrUrl === "string" ? new Redis(redisOrUrl) : redisOrUrl;
     this.claimTtlMs = options.claimTtlMs ?? 30_000;
     this.heartbeatHealthyMs = options.heartbeatHealthyMs ?? 10_000;
     this.heartbeatDegradedMs = options.heartbeatDegradedMs ?? 30_000;
+    this.scheduling = options.scheduling;
   }
 
   // ── Nodes ────────────────────────────────────────────────────────────────
@@ -89,69 +208,72 @@ export class RedisControlPlaneStore implements ControlPlaneStore {
   // ── Tasks ─────────────────────────────────────────────────────────────────
 
   async enqueueTask(task: Task): Promise<void> {
-    await this.redis.set(`task:${task.taskId}`, JSON.stringify(task));
-    await this.redis.sadd("tasks", task.taskId);
-    await this.redis.rpush("taskqueue", task.taskId);
+    for (let i = 0; i < SAVE_TASK_RETRIES; i++) {
+      const prev = await this.getTask(task.taskId);
+      const next = { ...task, revision: nextRevision(prev, task) };
+      if (await this.saveTask(prev, next, encodeTask(next), [], true)) return;
+    }
+    throw new Error(`task ${task.taskId} changed concurrently during enqueue`);
   }
 
-  async claimTask(nodeId: string): Promise<Task | null> {
-    await this.requeueExpiredClaims();
-
-    const node = await this.getNodeRecord(nodeId);
-    if (!node) return null;
-    if (node.revoked || !node.trusted) return null;
-    if (node.draining) return null;
-    if (this.getFreshnessState(node) !== "healthy") return null;
-
-    const active = await this.countActiveTasksForNode(nodeId);
-    if (active >= node.capabilities.maxConcurrentTasks) return null;
-
-    const queuedIds = await this.redis.lrange("taskqueue", 0, -1);
-    const now = Date.now();
-    const nodeTags = new Set(node.capabilities.tags);
+  async enqueueTaskIfAbsent(task: Task): Promise<Task | undefined> {
+    // SAVE_TASK_SCRIPT with no previous revision only writes if the key is absent.
+    for (let i = 0; i < SAVE_TASK_RETRIES; i++) {
+      const existing = await this.getTask(task.taskId);
+      if (existing) return existing;
+      const next = { ...task, revision: nextRevision(undefined, task) };
+      if (await this.saveTask(undefined, next, encodeTask(next), [], true)) return undefined;
+    }
+    throw new Error(`task ${task.taskId} changed concurrently during enqueue`);
+  }
 
-    const raws = await Promise.all(queuedIds.map((id) => this.redis.get(`task:${id}`)));
-    const candidates = raws
-      .map((raw) => (raw ? (JSON.parse(raw) as Task) : null))
-      .filter((task): task is Task => {
-        if (!task || task.status !== "queued") return false;
-        if (task.retryAfter && task.retryAfter > now) return false;
-        if (task.targetNodeId && task.targetNodeId !== nodeId) return false;
-        if (task.requiredTags?.length && !task.requiredTags.every((t) => nodeTags.has(t)))
-          return false;
-        return true;
-      })
-      .sort((a, b) => {
-        const pa = a.priority ?? 0;
-        const pb = b.priority ?? 0;
-        if (pb !== pa) return pb - pa; // higher priority first
-        return a.createdAt - b.createdAt; // FIFO tiebreak
-      });
-
-    for (const task of candidates) {
-      const claimed = await this.tryClaimTask(task, nodeId);
-      if (claimed) return claimed;
+  async claimTask(nodeId: string, options: ClaimOptions = {}): Promise<Task | null> {
+    // Selection and the claim itself run inside one Lua script so that several
+    // control-plane instances sharing this Redis can never hand out the same task.
+    for (let i = 0; i < CLAIM_NODE_RETRIES; i++) {
+      const raw = await this.redis.get(`node:${nodeId}`);
+      if (!raw) return null;
+      const node = JSON.parse(raw) as NodeRecord;
+      const cap = maxActive(node, options);
+      if (!(await this.mayClaim(node, cap))) return null;
+      const limits = await this.listConcurrencyLimits();
+
+      let reply: string[] | number = 0;
+      for await (const candidates of this.claimCandidates(node)) {
+        reply = await this.claimFrom(raw, node, cap, limits, candidates);
+        if (reply !== 0) break;
+      }
+
+      if (reply === -1) continue; // node record changed between GET and EVAL
+      if (!Array.isArray(reply)) return null;
+
+      const fields: Record<string, string> = {};
+      for (let f = 0; f < reply.length; f += 2) fields[reply[f]] = reply[f + 1];
+      return decodeTask(fields) ?? null;
     }
 
     return null;
   }
 
-  async setTaskStatus(taskId: string, status: Task["status"]): Promise<Task | null> {
-    const raw = await this.redis.get(`task:${taskId}`);
-    if (!raw) return null;
-    const task = JSON.parse(raw) as Task;
-    task.status = status;
-    if (status === "running" || status === "done" || status === "failed") {
-      task.claimedAt = undefined;
-    }
-    await this.redis.set(`task:${taskId}`, JSON.stringify(task));
-    return task;
+  async setTaskStatus(
+    taskId: string,
+    status: Task["status"],
+    expectedRevision?: number
+  ): Promise<Task | null> {
+    return this.updateTask(
+      taskId,
+      (t) => {
+        assertTransition(t, status);
+        return status === "running" || status === "done" || status === "failed"
+          ? { status, claimedAt: undefined }
+          : { status };
+      },
+      expectedRevision
+    );
   }
 
   async getTask(taskId: string): Promise<Task | undefined> {
-    const raw = await this.redis.get(`task:${taskId}`);
-    if (!raw) return undefined;
-    return JSON.parse(raw) as Task;
+    return decodeTask(await this.redis.hgetall(`task:${taskId}`));
   }
 
   async listQueuedTasks(): Promise<Task[]> {
@@ -159,43 +281,168 @@ export class RedisControlPlaneStore implements ControlPlaneStore {
   }
 
   async listRunningTasks(): Promise<Task[]> {
-    const all = await this.listTasks();
-    return all.filter((t) => t.status === "claimed" || t.status === "running");
+    const [claimed, running] = await Promise.all([
+      this.listTasks("claimed"),
+      this.listTasks("running"),
+    ]);
+    return [...claimed, ...running];
+  }
+
+  async listNodeTasks(nodeId: string): Promise<Task[]> {
+    const ids = await this.redis.smembers(activeKey(nodeId));
+    const tasks = await Promise.all(ids.map((id) => this.getTask(id)));
+    // The set and the task hash move in one script; the recheck covers a
+    // task deleted between the two reads.
+    return tasks.filter(
+      (t): t is Task =>
+        t?.assignedNodeId === nodeId && (t.status === "claimed" || t.status === "running")
+    );
+  }
+
+  async listOldestQueuedTasks(limit: number): Promise<Task[]> {
+    if (limit <= 0) return [];
+    const ids = await this.redis.zrange(AGE_QUEUE, 0, limit - 1);
+    const tasks = await Promise.all(ids.map((id) => this.getTask(id)));
+    return tasks.filter((t): t is Task => t?.status === "queued");
+  }
+
+  async listDependentTasks(taskId: string): Promise<Task[]> {
+    const ids = await this.redis.smembers(dependentsKey(taskId));
+    const tasks = await Promise.all(ids.map((id) => this.getTask(id)));
+    return tasks.filter((t): t is Task => !!t?.dependsOn?.includes(taskId));
+  }
+
+  async countWaitingTasks(limits: readonly ConcurrencyLimit[]): Promise<number[]> {
+    if (limits.length === 0) return [];
+    const counts = await this.redis.hmget(
+      "waiting",
+      ...limits.map((l) => usageField(l.scope, l.name))
+    );
+    return counts.map((n) => Number(n ?? 0));
+  }
+
+  async listChildTasks(parentTaskId: string): Promise<Task[]> {
+    const ids = await this.redis.smembers(childrenKey(parentTaskId));
+    const tasks = await Promise.all(ids.map((id) => this.getTask(id)));
+    // The set is written after the task and trimmed after its delete.
+    return tasks.filter((t): t is Task => t?.parentTaskId === parentTaskId);
   }
 
   async listTasks(status?: Task["status"]): Promise<Task[]> {
-    const ids = await this.redis.smembers("tasks");
-    const raws = await Promise.all(ids.map((id) => this.redis.get(`task:${id}`)));
-    const tasks = raws.filter((r): r is string => r !== null).map((r) => JSON.parse(r) as Task);
-    return status ? tasks.filter((t) => t.status === status) : tasks;
-  }
-
-  async cancelTask(taskId: string): Promise<boolean> {
-    const raw = await this.redis.get(`task:${taskId}`);
-    if (!raw) return false;
-    const task = JSON.parse(raw) as Task;
-    if (task.status === "done" || task.status === "failed" || task.status === "cancelled")
-      return false;
-
-    task.status = "cancelled";
-    task.claimedAt = undefined;
-    await this.redis.set(`task:${taskId}`, JSON.stringify(task));
-    await this.redis.lrem("taskqueue", 1, taskId);
-    return true;
+    const ids = await this.redis.smembers(status ? statusKey(status) : "tasks");
+    const tasks = await Promise.all(ids.map((id) => this.getTask(id)));
+    return tasks.filter((t): t is Task => t !== undefined);
   }
 
-  async requeueForRetry(taskId: string, retryAfter: number): Promise<boolean> {
-    const raw = await this.redis.get(`task:${taskId}`);
-    if (!raw) return false;
-    const task = JSON.parse(raw) as Task;
-    task.status = "queued";
-    task.claimedAt = undefined;
-    task.assignedNodeId = undefined;
-    task.retryAfter = retryAfter;
-    await this.redis.set(`task:${taskId}`, JSON.stringify(task));
-    const queue = await this.redis.lrange("taskqueue", 0, -1);
-    if (!queue.includes(taskId)) await this.redis.rpush("taskqueue", taskId);
-    return true;
+  async countTasksByStatus(): Promise<Record<Task["status"], number>> {
+    const counts = await Promise.all(TASK_STATUSES.map((s) => this.redis.scard(statusKey(s))));
+    return Object.fromEntries(TASK_STATUSES.map((s, i) => [s, counts[i]])) as Record<
+      Task["status"],
+      number
+    >;
+  }
+
+  async cancelTask(taskId: string, expectedRevision?: number): Promise<boolean> {
+    const task = await this.updateTask(
+      taskId,
+      (t) => (isTerminal(t.status) ? null : { status: "cancelled", claimedAt: undefined }),
+      expectedRevision
+    );
+    return task !== null;
+  }
+
+  async requeueForRetry(
+    taskId: string,
+    retryAfter: number,
+    expectedRevision?: number
+  ): Promise<boolean> {
+    const task = await this.updateTask(
+      taskId,
+      (t) => {
+        if (!RETRYABLE_STATUSES.includes(t.status))
+          throw new InvalidTransitionError(taskId, t.status, "queued");
+        return { status: "queued", claimedAt: undefined, assignedNodeId: undefined, retryAfter };
+      },
+      expectedRevision
+    );
+    return task !== null;
+  }
+
+  async preemptTask(taskId: string, expectedRevision?: number): Promise<boolean> {
+    const task = await this.updateTask(
+      taskId,
+      (t) => {
+        if (!RETRYABLE_STATUSES.includes(t.status))
+          throw new InvalidTransitionError(taskId, t.status, "queued");
+        return {
+          status: "queued",
+          claimedAt: undefined,
+          assignedNodeId: undefined,
+          retryAfter: undefined,
+          preemptions: (t.preemptions ?? 0) + 1,
+        };
+      },
+      expectedRevision
+    );
+    return task !== null;
+  }
+
+  async renewLease(taskId: string, leaseToken: string): Promise<Task | null> {
+    const now = Date.now();
+    return this.updateTask(
+      taskId,
+      (t) =>
+        RETRYABLE_STATUSES.includes(t.status) &&
+        t.leaseToken === leaseToken &&
+        !leaseExpired(t, now, this.claimTtlMs)
+          ? { leaseExpiresAt: now + this.claimTtlMs }
+          : null,
+      undefined,
+      false
+    );
+  }
+
+  async listExpiredLeases(): Promise<Task[]> {
+    const now = Date.now();
+    return (await this.listRunningTasks()).filter((t) => leaseExpired(t, now, this.claimTtlMs));
+  }
+
+  async deleteTask(taskId: string): Promise<boolean> {
+    for (let i = 0; i < SAVE_TASK_RETRIES; i++) {
+      const prev = await this.getTask(taskId);
+      if (!prev) return false;
+      const held = heldOn(prev);
+      const keys = [
+        `task:${taskId}`,
+        "tasks",
+        `result:${taskId}`,
+        "usage",
+        "spread",
+        "spreadholds",
+        statusKey(prev.status),
+        statusKey("queued"),
+        "waiting",
+        ...(held ? [activeKey(held), allocKey(held)] : []),
+        ...queueEntries(prev).map(([key]) => key),
+      ];
+      const reply = await this.redis.eval(
+        DELETE_TASK_SCRIPT,
+        keys.length,
+        ...keys,
+        taskId,
+        String(prev.revision ?? 0),
+        held ? "1" : "0",
+        ...resourceArgs(held ? prev.resources : undefined)
+      );
+      if (reply === 1) {
+        if (prev.parentTaskId) await this.redis.srem(childrenKey(prev.parentTaskId), taskId);
+        for (const parent of prev.dependsOn ?? []) {
+          await this.redis.srem(dependentsKey(parent), taskId);
+        }
+        return true;
+      }
+    }
+    throw new Error(`task ${taskId} changed concurrently during delete`);
   }
 
   // ── Results ───────────────────────────────────────────────────────────────
@@ -232,85 +479,475 @@ export class RedisControlPlaneStore implements ControlPlaneStore {
   async requeueFromDlq(taskId: string): Promise<boolean> {
     const dlqRaw = await this.redis.get(`dlq:${taskId}`);
     if (!dlqRaw) return false;
-    const taskRaw = await this.redis.get(`task:${taskId}`);
-    if (!taskRaw) return false;
-
-    const task = JSON.parse(taskRaw) as Task;
-    task.status = "queued";
-    task.attempt = 0;
-    task.retryAfter = undefined;
-    task.claimedAt = undefined;
-    task.assignedNodeId = undefined;
-
-    await this.redis.set(`task:${taskId}`, JSON.stringify(task));
-    const queue = await this.redis.lrange("taskqueue", 0, -1);
-    if (!queue.includes(taskId)) await this.redis.rpush("taskqueue", taskId);
+    const task = await this.updateTask(taskId, (t) => {
+      if (t.status !== "failed") throw new InvalidTransitionError(taskId, t.status, "queued");
+      return {
+        status: "queued",
+        attempt: 0,
+        retryAfter: undefined,
+        claimedAt: undefined,
+        assignedNodeId: undefined,
+      };
+    });
+    if (!task) return false;
+
     await this.redis.del(`dlq:${taskId}`);
     await this.redis.srem("dlq", taskId);
     return true;
   }
 
+  async deleteDlqEntry(taskId: string): Promise<boolean> {
+    const deleted = await this.redis.del(`dlq:${taskId}`);
+    await this.redis.srem("dlq", taskId);
+    return deleted > 0;
+  }
+
+  // ── Schedules ────────────────────────────────────────────────────────────
+
+  async saveSchedule(schedule: Schedule, expectedRevision?: number): Promise<boolean> {
+    const revision = await this.redis.eval(
+      SAVE_SCHEDULE_SCRIPT,
+      2,
+      `schedule:${schedule.scheduleId}`,
+      "schedules",
+      schedule.scheduleId,
+      expectedRevision === undefined ? "" : String(expectedRevision),
+      JSON.stringify({ ...schedule, revision: undefined })
+    );
+    return Number(revision) > 0;
+  }
+
+  async getSchedule(scheduleId: string): Promise<Schedule | undefined> {
+    const { data, revision } = await this.redis.hgetall(`schedule:${scheduleId}`);
+    if (!data) return undefined;
+    return { ...(JSON.parse(data) as Schedule), revision: Number(revision) };
+  }
+
+  async listSchedules(): Promise<Schedule[]> {
+    const ids = await this.redis.smembers("schedules");
+    const schedules = await Promise.all(ids.map((id) => this.getSchedule(id)));
+    return schedules
+      .filter((s): s is Schedule => s !== undefined)
+      .sort((a, b) => a.scheduleId.localeCompare(b.scheduleId));
+  }
+
+  async deleteSchedule(scheduleId: string): Promise<boolean> {
+    const deleted = await this.redis.del(`schedule:${scheduleId}`);
+    await this.redis.srem("schedules", scheduleId);
+    return deleted > 0;
+  }
+
+  // ── Concurrency limits ───────────────────────────────────────────────────
+
+  async saveConcurrencyLimit(limit: ConcurrencyLimit): Promise<void> {
+    await this.redis.hset("limits", limitId(limit.scope, limit.name), JSON.stringify(limit));
+  }
+
+  async listConcurrencyLimits(): Promise<ConcurrencyLimit[]> {
+    const raw = await this.redis.hvals("limits");
+    return raw.map((value) => JSON.parse(value) as ConcurrencyLimit).sort(byLimitId);
+  }
+
+  async deleteConcurrencyLimit(scope: ConcurrencyLimit["scope"], name: string): Promise<boolean> {
+    return (await this.redis.hdel("limits", limitId(scope, name))) > 0;
+  }
+
+  async reserveDedupeKey(key: string, taskId: string, ttlMs: number): Promise<string | undefined> {
+    // Retry once in case the existing binding expires between SET and GET.
+    for (let i = 0; i < 2; i++) {
+      const set = await this.redis.set(`dedupe:${key}`, taskId, "PX", ttlMs, "NX");
+      if (set === "OK") return undefined;
+      const bound = await this.redis.get(`dedupe:${key}`);
+      if (bound !== null) return bound;
+    }
+    throw new Error(`idempotency key ${key} changed concurrently`);
+  }
+
+  async listDedupeKeys(): Promise<DedupeKeyRecord[]> {
+    // SCAN neither applies the client's keyPrefix to its pattern nor strips it from replies.
+    const prefix = `${this.redis.options.keyPrefix ?? ""}dedupe:`;
+    const names: string[] = [];
+    let cursor = "0";
+    do {
+      const [next, batch] = await this.redis.scan(cursor, "MATCH", `${prefix}*`, "COUNT", 500);
+      names.push(...batch.map((name) => `dedupe:${name.slice(prefix.length)}`));
+      cursor = next;
+    } while (cursor !== "0");
+
+    const records: DedupeKeyRecord[] = [];
+    for (const name of new Set(names)) {
+      // PEXPIRETIME (Redis 7) gives the stored deadline, not one drifting with the clock.
+      const [taskId, expiresAt] = await Promise.all([
+        this.redis.get(name),
+        this.redis.pexpiretime(name),
+      ]);
+      if (taskId === null || expiresAt < 0) continue;
+      records.push({ key: name.slice("dedupe:".length), taskId, expiresAt });
+    }
+    return records.sort((a, b) => (a.key < b.key ? -1 : a.key > b.key ? 1 : 0));
+  }
+
+  async saveDedupeKey(record: DedupeKeyRecord, expectedTaskId?: string): Promise<boolean> {
+    if (record.expiresAt <= Date.now()) return false;
+    const key = `dedupe:${record.key}`;
+    if (expectedTaskId === undefined) {
+      await this.redis.set(key, record.taskId, "PXAT", record.expiresAt);
+      return true;
+    }
+    const reply = await this.redis.eval(
+      REBIND_DEDUPE_SCRIPT,
+      1,
+      key,
+      expectedTaskId,
+      record.taskId,
+      String(record.expiresAt)
+    );
+    return Number(reply) === 1;
+  }
+
   // ── Lifecycle ─────────────────────────────────────────────────────────────
 
+  /**
+   * Upgrades a keyspace written by an older adapter: tasks the original one
+   * stored as JSON strings become hashes, and the status, active, children,
+   * dependents and queue indexes and the `usage`, `waiting`, `spread` and `alloc`
+   * counters are rebuilt from the tasks. The `layout` key records the result, so later
+   * calls return at once. Run it
+   * before any instance of this version serves claims; startControlPlane does.
+   * Returns the number of tasks converted.
+   */
+  async migrate(): Promise<number> {
+    if ((await this.redis.get("layout")) === LAYOUT_VERSION) return 0;
+
+    let converted = 0;
+    for (const taskId of await this.redis.smembers("tasks")) {
+      if ((await this.redis.type(`task:${taskId}`)) !== "string") continue;
+      const raw = await this.redis.get(`task:${taskId}`);
+      if (raw === null) continue;
+      const task = JSON.parse(raw) as Task;
+      const fields = encodeTask({ ...task, revision: task.revision ?? 0 });
+      converted += Number(
+        await this.redis.eval(UPGRADE_TASK_SCRIPT, 1, `task:${taskId}`, raw, ...fields)
+      );
+    }
+
+    const tasks = await this.listTasks();
+    const nodeIds = new Set(await this.redis.smembers("nodes"));
+    for (const task of tasks) {
+      if (task.targetNodeId) nodeIds.add(task.targetNodeId);
+      if (task.assignedNodeId) nodeIds.add(task.assignedNodeId);
+    }
+    const perNode = [...nodeIds].flatMap((id) => [targetQueueKey(id), allocKey(id)]);
+    await this.redis.del(
+      SHARED_QUEUE,
+      AGE_QUEUE,
+      ...perNode,
+      "usage",
+      "waiting",
+      "spread",
+      "spreadholds"
+    );
+    for (const task of tasks) {
+      await this.redis.sadd(statusKey(task.status), task.taskId);
+      if (task.parentTaskId) await this.redis.sadd(childrenKey(task.parentTaskId), task.taskId);
+      for (const parent of task.dependsOn ?? []) {
+        await this.redis.sadd(dependentsKey(parent), task.taskId);
+      }
+      if (task.status === "queued") {
+        for (const field of usageFields(task)) await this.redis.hincrby("waiting", field, 1);
+      }
+      const held = heldOn(task);
+      if (held) {
+        await this.redis.sadd(activeKey(held), task.taskId);
+        for (const field of usageFields(task)) await this.redis.hincrby("usage", field, 1);
+        for (const [name, amount] of Object.entries(task.resources ?? {})) {
+          await this.redis.hincrbyfloat(allocKey(held), name, amount);
+        }
+        const node = await this.getNodeRecord(held);
+        const spread = node && spreadKey(task, node);
+        if (spread) {
+          await this.redis.hincrby("spread", spread, 1);
+          await this.redis.hset("spreadholds", task.taskId, spread);
+        }
+      }
+      for (const [key, score] of queueEntries(task)) {
+        await this.redis.zadd(key, score, task.taskId);
+      }
+    }
+    await this.redis.set("layout", LAYOUT_VERSION);
+    return converted;
+  }
+
+  async ping(): Promise<void> {
+    await this.redis.ping();
+  }
+
   async quit(): Promise<void> {
     await this.redis.quit();
   }
 
+  async close(): Promise<void> {
+    await this.quit();
+  }
+
   // ── Private helpers ───────────────────────────────────────────────────────
 
-  private async tryClaimTask(task: Task, nodeId: string): Promise<Task | null> {
-    const key = `task:${task.taskId}`;
-
-    // Re-read inside claim to catch any concurrent status change.
-    // Node.js is single-threaded so this is safe for single-process deployments.
-    // Multi-instance deployments should layer Redlock (or similar) on top.
-    const fresh = await this.redis.get(key);
-    if (!fresh) return null;
-    const freshTask = JSON.parse(fresh) as Task;
-    if (freshTask.status !== "queued") return null;
-
-    const updated: Task = {
-      ...freshTask,
-      status: "claimed",
-      claimedAt: Date.now(),
-      attempt: (freshTask.attempt ?? 0) + 1,
-      assignedNodeId: nodeId,
-    };
+  /**
+   * Applies a field update computed from the current task. `change` returns
+   * null to leave the task untouched; fields set to undefined are removed.
+   * Returns the updated task, or null when the task is missing or unchanged.
+   * With `expectedRevision` a stale read throws instead of being retried.
+   * `bump: false` keeps the revision, for lease renewals; the write still
+   * fails and retries if the task changed since it was read.
+   */
+  private async updateTask(
+    taskId: string,
+    change: (task: Task) => TaskPatch | null,
+    expectedRevision?: number,
+    bump = true
+  ): Promise<Task | null> {
+    for (let i = 0; i < SAVE_TASK_RETRIES; i++) {
+      const prev = await this.getTask(taskId);
+      if (!prev) return null;
+      checkRevision(prev, expectedRevision);
+      const changed = change(prev);
+      if (!changed) return null;
+
+      const patch: TaskPatch = bump ? { ...changed, revision: nextRevision(prev) } : changed;
+      const next = { ...prev, ...patch };
+      const cleared = Object.keys(patch).filter(
+        (field) => patch[field as keyof Task] === undefined
+      );
+      if (await this.saveTask(prev, next, encodeTask(patch), cleared, false)) return next;
+    }
+    throw new Error(`task ${taskId} changed concurrently during update`);
+  }
 
-    await this.redis.set(key, JSON.stringify(updated));
-    await this.redis.lrem("taskqueue", 1, task.taskId);
-    return updated;
+  /** Writes task fields and moves the task between indexes; false on a lost race. */
+  private async saveTask(
+    prev: Task | undefined,
+    next: Task,
+    set: string[],
+    cleared: string[],
+    replace: boolean
+  ): Promise<boolean> {
+    const leaveHeld = prev && heldOn(prev);
+    const joinHeld = heldOn(next);
+    const leaveQueues = prev ? queueEntries(prev).map(([key]) => key) : [];
+    const joinQueues = queueEntries(next);
+    // Claims take the spread hold; other writes onto a node (rare) look up its domain.
+    let joinSpread: string | undefined;
+    if (joinHeld && joinHeld !== leaveHeld && next.placement?.spread) {
+      const node = await this.getNodeRecord(joinHeld);
+      joinSpread = node && spreadKey(next, node);
+    }
+    const keys = [
+      `task:${next.taskId}`,
+      "tasks",
+      "usage",
+      "spread",
+      "spreadholds",
+      statusKey(next.status),
+      statusKey("queued"),
+      "waiting",
+    ];
+    if (prev) keys.push(statusKey(prev.status));
+    if (leaveHeld) keys.push(activeKey(leaveHeld), allocKey(leaveHeld));
+    if (joinHeld) keys.push(activeKey(joinHeld), allocKey(joinHeld));
+    keys.push(...leaveQueues, ...joinQueues.map(([key]) => key));
+    const reply = await this.redis.eval(
+      SAVE_TASK_SCRIPT,
+      keys.length,
+      ...keys,
+      next.taskId,
+      prev ? String(prev.revision ?? 0) : "",
+      replace ? "1" : "0",
+      prev ? "1" : "0",
+      leaveHeld ? "1" : "0",
+      joinHeld ? "1" : "0",
+      joinSpread ?? "",
+      ...resourceArgs(leaveHeld ? prev.resources : undefined),
+      ...resourceArgs(joinHeld ? next.resources : undefined),
+      String(leaveQueues.length),
+      String(joinQueues.length),
+      ...joinQueues.map(([, score]) => String(score)),
+      String(set.length / 2),
+      ...set,
+      ...cleared
+    );
+    if (reply !== 1) return false;
+    if (next.parentTaskId && next.parentTaskId !== prev?.parentTaskId) {
+      await this.redis.sadd(childrenKey(next.parentTaskId), next.taskId);
+    }
+    for (const parent of next.dependsOn ?? []) {
+      if (!prev?.dependsOn?.includes(parent))
+        await this.redis.sadd(dependentsKey(parent), next.taskId);
+    }
+    return true;
   }
 
-  private async requeueExpiredClaims(): Promise<void> {
+  /** Node-side claim checks, ahead of the script's atomic ones, to skip reading the queues. */
+  private async mayClaim(node: NodeRecord, cap: number): Promise<boolean> {
+    if (!node.trusted || node.revoked || node.draining) return false;
+    if (this.getFreshnessState(node) !== "healthy") return false;
+    return (await this.redis.scard(activeKey(node.nodeId))) < cap;
+  }
+
+  /**
+   * The queued tasks `node` may claim, best first, in batches of at most
+   * CLAIM_WINDOW. Under plain strict priority the queues are already in claim
+   * order, so they are read a window at a time and a claim stops at the first
+   * batch that yields a task. Any other ranking needs every eligible task
+   * first, so the queues are read to the end.
+   */
+  private async *claimCandidates(node: NodeRecord): AsyncGenerator<Task[]> {
     const now = Date.now();
-    const ids = await this.redis.smembers("tasks");
-    const raws = await Promise.all(ids.map((id) => this.redis.get(`task:${id}`)));
+    const queues = [targetQueueKey(node.nodeId), SHARED_QUEUE];
+    if (!this.rankFollowsQueue()) {
+      const eligible: Task[] = [];
+      for (let window = 0; ; window++) {
+        const page = await this.queueWindow(queues, window);
+        eligible.push(...this.eligibleTasks(node, page.tasks, now));
+        if (page.exhausted) break;
+      }
+      const ranked = rankCandidates(eligible, this.scheduling, { node, now });
+      for (let i = 0; i < ranked.length; i += CLAIM_WINDOW) {
+        yield ranked.slice(i, i + CLAIM_WINDOW);
+      }
+      return;
+    }
 
-    for (const raw of raws) {
-      if (!raw) continue;
-      const task = JSON.parse(raw) as Task;
-      if (task.status !== "claimed" || !task.claimedAt) continue;
-      if (now - task.claimedAt < this.claimTtlMs) continue;
-
-      task.status = "queued";
-      task.claimedAt = undefined;
-      task.assignedNodeId = undefined;
-      await this.redis.set(`task:${task.taskId}`, JSON.stringify(task));
-      const queue = await this.redis.lrange("taskqueue", 0, -1);
-      if (!queue.includes(task.taskId)) await this.redis.rpush("taskqueue", task.taskId);
+    // Eligible tasks read so far, by queue score. Those scoring at most
+    // `bound` precede everything still unread in every queue, so they are
+    // settled and can be offered.
+    let pending: [task: Task, score: number][] = [];
+    for (let window = 0; ; window++) {
+      const page = await this.queueWindow(queues, window);
+      const scores = new Map(page.entries);
+      for (const task of this.eligibleTasks(node, page.tasks, now)) {
+        pending.push([task, scores.get(task.taskId)!]);
+      }
+      pending.sort(([, a], [, b]) => a - b);
+      const settled = page.exhausted ? pending : pending.filter(([, s]) => s <= page.bound);
+      pending = page.exhausted ? [] : pending.slice(settled.length);
+      for (let i = 0; i < settled.length; i += CLAIM_WINDOW) {
+        yield settled.slice(i, i + CLAIM_WINDOW).map(([task]) => task);
+      }
+      if (page.exhausted) return;
+    }
+  }
+
+  /** Whether queue score order is claim order: plain strict priority, no aging, no lanes. */
+  private rankFollowsQueue(): boolean {
+    const config = this.scheduling;
+    if (!config) return true;
+    if (config.aging || Object.keys(config.queues ?? {}).length > 0) return false;
+    return (config.strategy ?? strictPriority) === strictPriority;
+  }
+
+  /**
+   * The `window`-th slice of CLAIM_WINDOW entries from each of `queues`, with
+   * their tasks. `bound` is the lowest score an unread entry can have;
+   * `exhausted` means nothing is left unread.
+   */
+  private async queueWindow(
+    queues: string[],
+    window: number
+  ): Promise<{
+    tasks: Task[];
+    entries: [taskId: string, score: number][];
+    bound: number;
+    exhausted: boolean;
+  }> {
+    const start = window * CLAIM_WINDOW;
+    const slices = await Promise.all(
+      queues.map((key) => this.redis.zrange(key, start, start + CLAIM_WINDOW - 1, "WITHSCORES"))
+    );
+    const entries: [string, number][] = [];
+    let bound = Number.POSITIVE_INFINITY;
+    for (const slice of slices) {
+      for (let i = 0; i < slice.length; i += 2) entries.push([slice[i], Number(slice[i + 1])]);
+      // A full slice may have more behind it, scoring no lower than its last entry.
+      if (slice.length === 2 * CLAIM_WINDOW) bound = Math.min(bound, Number(slice.at(-1)));
     }
+    const tasks = await Promise.all(entries.map(([id]) => this.getTask(id)));
+    return {
+      tasks: tasks.filter((t): t is Task => t !== undefined),
+      entries,
+      bound,
+      exhausted: bound === Number.POSITIVE_INFINITY,
+    };
   }
 
-  private async countActiveTasksForNode(nodeId: string): Promise<number> {
-    const ids = await this.redis.smembers("tasks");
-    const raws = await Promise.all(ids.map((id) => this.redis.get(`task:${id}`)));
-    return raws
-      .filter((r): r is string => r !== null)
-      .map((r) => JSON.parse(r) as Task)
-      .filter(
-        (t) => t.assignedNodeId === nodeId && (t.status === "claimed" || t.status === "running")
-      ).length;
+  /** The `queued` tasks `node` may claim, before spread, resource and limit checks. */
+  private eligibleTasks(node: NodeRecord, queued: Task[], now: number): Task[] {
+    const nodeTags = new Set(node.capabilities.tags);
+    // The claim script re-checks this atomically, except constraints and
+    // affinity: those only depend on the task and on the node record, and the
+    // script verifies that neither changed. It also checks spread counts and
+    // resource fit, which depend on what other claims hold.
+    return queued.filter((t) => {
+      if (t.status !== "queued") return false;
+      if (claimableAt(t) > now) return false;
+      if (t.targetNodeId && t.targetNodeId !== node.nodeId) return false;
+      if (t.requiredTags?.length && !t.requiredTags.every((tag) => nodeTags.has(tag))) return false;
+      // Affinity only here: with no load, this checks that the node has the
+      // spread's domain; the claim script checks the domain's count.
+      return !constraintViolation(t, node.capabilities) && placementAllows(t, node, new Map());
+    });
+  }
+
+  /** Runs CLAIM_TASK_SCRIPT over `candidates`; see there for the reply. */
+  private async claimFrom(
+    raw: string,
+    node: NodeRecord,
+    cap: number,
+    limits: ConcurrencyLimit[],
+    candidates: Task[]
+  ): Promise<string[] | number> {
+    const now = Date.now();
+    return (await this.redis.eval(
+      CLAIM_TASK_SCRIPT,
+      12 + candidates.length,
+      `node:${node.nodeId}`,
+      SHARED_QUEUE,
+      AGE_QUEUE,
+      targetQueueKey(node.nodeId),
+      statusKey("queued"),
+      statusKey("claimed"),
+      activeKey(node.nodeId),
+      "usage",
+      "spread",
+      "spreadholds",
+      allocKey(node.nodeId),
+      "waiting",
+      ...candidates.map((t) => `task:${t.taskId}`),
+      raw,
+      JSON.stringify(node.nodeId),
+      String(now),
+      String(this.heartbeatHealthyMs),
+      String(this.heartbeatDegradedMs),
+      node.trusted ? "1" : "0",
+      node.revoked ? "1" : "0",
+      node.draining ? "1" : "0",
+      node.lastHeartbeat ? String(node.lastHeartbeat.ts) : "",
+      node.lastHeartbeat?.status ?? "",
+      String(cap),
+      JSON.stringify(randomUUID()),
+      String(now + this.claimTtlMs),
+      String(node.capabilities.tags.length),
+      ...node.capabilities.tags.map((tag) => JSON.stringify(tag)),
+      String(limits.length),
+      ...limits.flatMap((l) => [usageField(l.scope, l.name), String(l.max)]),
+      ...resourceArgs(node.capabilities.resources),
+      ...candidates.flatMap((t) => [
+        t.taskId,
+        String(t.revision ?? 0),
+        spreadKey(t, node) ?? "",
+        String(t.placement?.spread?.maxPerDomain ?? 0),
+        ...resourceArgs(t.resources),
+      ])
+    )) as string[] | number;
   }
 
   private async getNodeRecord(nodeId: string): Promise<NodeRecord | undefined> {
@@ -0,0 +1,475 @@
+// Server-side Lua scripts used by RedisControlPlaneStore.
+//
+// Task records are stored as hashes with one JSON-encoded value per top-level
+// field (see encodeTask in redis-adapter.ts), so scripts can compare and
+// rewrite individual fields without a JSON library on the Redis side.
+//
+// Every key a script touches is passed in KEYS, never built inside the
+// script, so a Redis Cluster deployment can keep the keyspace on one slot
+// with an ioredis keyPrefix such as `{edgemesh}:`.
+//
+// Secondary indexes kept in sync by these scripts:
+//   tasks              set of every task id
+//   tasks:<status>     set of task ids per status
+//   active:<nodeId>    set of claimed/running task ids assigned to a node
+//   taskqueue          sorted set of queued untargeted task ids, scored by queueScore()
+//   taskqueue:age      the same ids scored by createdAt
+//   taskqueue:node:<nodeId>  queued tasks targeted at a node, scored by queueScore()
+//   usage              hash of tasks in an active set per `kind:<name>` and
+//                      `tag:<name>` (JSON-encoded names), for concurrency limits
+//   waiting            the same counts over tasks in tasks:queued, for limit status
+//   spread             hash of held tasks per spread domain (spreadKey() in
+//                      control/placement.ts), for placement spread limits
+//   spreadholds        hash of held task id -> the spread field it counts in
+//   alloc:<nodeId>     hash of resource name -> amount held by the node's
+//                      claimed/running tasks, for bin-packing
+//
+// Schedules live in `schedule:<id>` hashes ({ data: JSON, revision }) indexed
+// by the `schedules` set. Concurrency limits are JSON values in the `limits`
+// hash, keyed by `<scope>:<name>`. Idempotency keys are `dedupe:<key>` strings
+// holding the bound task id, expiring with the binding. The adapter keeps the
+// broadcast children of each parent in a `children:<parentTaskId>` set, and the
+// tasks that depend on a task in a `dependents:<taskId>` set, itself, after the
+// script that creates or deletes the child.
+
+// Missing hash fields come back as false from Redis (and as a null userdata
+// from some emulators); normalise both to nil.
+const STR_HELPER = `
+local function str(v)
+  if type(v) == 'string' then return v end
+  return nil
+end
+`;
+
+// Splits a JSON array of strings into its still-encoded elements. Encoded
+// strings compare equal exactly when the decoded strings do.
+const ENCODED_STRINGS_HELPER = `
+local function encodedStrings(raw)
+  local out, i = {}, 1
+  while true do
+    local s = string.find(raw, '"', i, true)
+    if not s then break end
+    local j = s + 1
+    while true do
+      local c = string.sub(raw, j, j)
+      if c == '\\\\' then j = j + 2
+      elseif c == '"' or c == '' then break
+      else j = j + 1 end
+    end
+    out[#out + 1] = string.sub(raw, s, j)
+    i = j + 1
+  end
+  return out
+end
+`;
+
+// The `usage` fields a task counts against (see usageFields in redis-adapter.ts),
+// and moving a task in or out of them. `waiting` uses the same fields.
+const USAGE_HELPER = `${ENCODED_STRINGS_HELPER}
+local function usageFields(taskKey)
+  local f = redis.call('HMGET', taskKey, 'kind', 'requiredTags')
+  local fields, seen = {}, {}
+  if str(f[1]) then fields[1] = 'kind:' .. f[1] end
+  for _, tag in ipairs(encodedStrings(str(f[2]) or '[]')) do
+    if not seen[tag] then
+      seen[tag] = true
+      fields[#fields + 1] = 'tag:' .. tag
+    end
+  end
+  return fields
+end
+
+local function addUsage(usageKey, taskKey, delta)
+  for _, field in ipairs(usageFields(taskKey)) do redis.call('HINCRBY', usageKey, field, delta) end
+end
+`;
+
+// Releasing the spread domain a task counts in, if any. The domain is recorded
+// at claim time, so a node relabelled later still releases what it took.
+const SPREAD_HELPER = `
+local function releaseSpread(spreadKey, holdsKey, taskId)
+  local field = str(redis.call('HGET', holdsKey, taskId))
+  if not field then return end
+  redis.call('HDEL', holdsKey, taskId)
+  if redis.call('HINCRBY', spreadKey, field, -1) <= 0 then redis.call('HDEL', spreadKey, field) end
+end
+
+local function takeSpread(spreadKey, holdsKey, taskId, field)
+  redis.call('HINCRBY', spreadKey, field, 1)
+  redis.call('HSET', holdsKey, taskId, field)
+end
+`;
+
+// Adds the resource amounts at ARGV[from..from+2n-1] (name/amount pairs) to a
+// node's allocation, dropping fields that return to zero.
+const ALLOC_HELPER = `
+local function addAlloc(allocKey, from, n, sign)
+  for i = from, from + 2 * (n - 1), 2 do
+    local left = tonumber(redis.call('HINCRBYFLOAT', allocKey, ARGV[i], sign * tonumber(ARGV[i + 1])))
+    if math.abs(left) < 1e-9 then redis.call('HDEL', allocKey, ARGV[i]) end
+  end
+end
+`;
+
+// Current revision as the caller encodes it: '' when the task does not exist,
+// '0' for a task written before revisions were tracked.
+const REVISION_HELPER = `
+local function revisionOf(key)
+  if redis.call('EXISTS', key) == 0 then return '' end
+  return str(redis.call('HGET', key, 'revision')) or '0'
+end
+`;
+
+/**
+ * Atomically claims the first still-eligible task of a caller-ranked list.
+ * Ranking (the scheduling strategy) runs in the caller; this script re-checks
+ * every candidate so a task claimed or changed in between is skipped. Each
+ * candidate comes with the revision the caller read, so what the caller
+ * derived from the task (its spread domain and resource requests) is only
+ * used while it holds.
+ *
+ * KEYS[1] node:<nodeId>   KEYS[2] taskqueue   KEYS[3] taskqueue:age
+ * KEYS[4] taskqueue:node:<nodeId>   KEYS[5] tasks:queued   KEYS[6] tasks:claimed
+ * KEYS[7] active:<nodeId>   KEYS[8] usage   KEYS[9] spread   KEYS[10] spreadholds
+ * KEYS[11] alloc:<nodeId>   KEYS[12] waiting
+ * KEYS[13..] task:<taskId> of each candidate, best first
+ *
+ * ARGV[1]  node record JSON as read by the caller (claim aborts with -1 if it changed)
+ * ARGV[2]  JSON-encoded nodeId
+ * ARGV[3]  now (ms)
+ * ARGV[4]  heartbeatHealthyMs
+ * ARGV[5]  heartbeatDegradedMs
+ * ARGV[6]  trusted ("1" | "0")
+ * ARGV[7]  revoked ("1" | "0")
+ * ARGV[8]  draining ("1" | "0")
+ * ARGV[9]  last heartbeat ts ("" when the node never sent one)
+ * ARGV[10] last heartbeat status
+ * ARGV[11] most claimed/running tasks the node may hold (maxConcurrentTasks or less)
+ * ARGV[12] JSON-encoded lease token for the claim
+ * ARGV[13] lease expiry (ms)
+ * ARGV[14] number N of node tags that follow
+ * ARGV[15..14+N] JSON-encoded node tags
+ * ARGV[15+N] number L of concurrency limits that follow
+ * ARGV[16+N..15+N+2L] limits as `usage` field, max
+ * then the number C of resources the node advertises and C name/capacity pairs
+ * then per candidate, in KEYS order: task id, revision, `spread` field on this
+ * node ("" without a spread constraint), maxPerDomain, the number R of
+ * resources it requests and R name/amount pairs
+ *
+ * Returns the claimed task hash as a flat field/value array, 0 when nothing is
+ * claimable, or -1 when the node record changed under the caller.
+ */
+export const CLAIM_TASK_SCRIPT = `${STR_HELPER}${USAGE_HELPER}${SPREAD_HELPER}${ALLOC_HELPER}
+local nodeKey, queuedKey, claimedKey, activeKey, usageKey = KEYS[1], KEYS[5], KEYS[6], KEYS[7], KEYS[8]
+local spreadKey, holdsKey, allocKey, waitingKey = KEYS[9], KEYS[10], KEYS[11], KEYS[12]
+
+if redis.call('GET', nodeKey) ~= ARGV[1] then return -1 end
+
+local encodedNodeId = ARGV[2]
+local now = tonumber(ARGV[3])
+local healthyMs = tonumber(ARGV[4])
+local degradedMs = tonumber(ARGV[5])
+
+-- Node eligibility: trusted, not revoked, not draining, freshness "healthy"
+if ARGV[6] ~= '1' or ARGV[7] == '1' or ARGV[8] == '1' then return 0 end
+if ARGV[9] == '' then return 0 end
+local age = now - tonumber(ARGV[9])
+if age > degradedMs or age > healthyMs or ARGV[10] ~= 'healthy' then return 0 end
+
+-- Capacity: claimed/running tasks assigned to this node
+if redis.call('SCARD', activeKey) >= tonumber(ARGV[11]) then return 0 end
+
+local tagCount = tonumber(ARGV[14])
+local nodeTags = {}
+for i = 15, 14 + tagCount do nodeTags[ARGV[i]] = true end
+
+-- Concurrency limits against the cluster-wide usage counters
+local limitCount = tonumber(ARGV[15 + tagCount])
+local limitMax = {}
+for i = 0, limitCount - 1 do
+  local at = 16 + tagCount + 2 * i
+  limitMax[ARGV[at]] = tonumber(ARGV[at + 1])
+end
+
+local function withinLimits(taskKey)
+  if limitCount == 0 then return true end
+  for _, field in ipairs(usageFields(taskKey)) do
+    local max = limitMax[field]
+    if max and tonumber(str(redis.call('HGET', usageKey, field)) or '0') >= max then
+      return false
+    end
+  end
+  return true
+end
+
+local function withinSpread(field, max)
+  if field == '' then return true end
+  return tonumber(str(redis.call('HGET', spreadKey, field)) or '0') < tonumber(max)
+end
+
+-- Resource fit against the node's capacity minus what its held tasks take
+local at = 16 + tagCount + 2 * limitCount
+local capacity = {}
+for i = at + 1, at + 2 * tonumber(ARGV[at]), 2 do capacity[ARGV[i]] = tonumber(ARGV[i + 1]) end
+at = at + 1 + 2 * tonumber(ARGV[at])
+
+local function fits(from, n)
+  for i = from, from + 2 * (n - 1), 2 do
+    local amount = tonumber(ARGV[i + 1])
+    if amount > 0 then
+      local cap = capacity[ARGV[i]]
+      if not cap then return false end
+      if cap - tonumber(str(redis.call('HGET', allocKey, ARGV[i])) or '0') < amount then
+        return false
+      end
+    end
+  end
+  return true
+end
+
+local bestKey, bestId, bestSpread, bestResourcesAt, bestResources
+for k = 13, #KEYS do
+  local taskKey = KEYS[k]
+  local id, revision, spreadField, spreadMax = ARGV[at], ARGV[at + 1], ARGV[at + 2], ARGV[at + 3]
+  local resourcesAt, resources = at + 5, tonumber(ARGV[at + 4])
+  at = resourcesAt + 2 * resources
+  local f = redis.call('HMGET', taskKey,
+    'status', 'retryAfter', 'targetNodeId', 'requiredTags', 'runAt', 'revision')
+  local retryAfter, targetNodeId, requiredTags, runAt = str(f[2]), str(f[3]), str(f[4]), str(f[5])
+  local eligible = f[1] == '"queued"' and (str(f[6]) or '0') == revision
+  if eligible and retryAfter and tonumber(retryAfter) > now then eligible = false end
+  if eligible and runAt and tonumber(runAt) > now then eligible = false end
+  if eligible and targetNodeId and targetNodeId ~= encodedNodeId then eligible = false end
+  if eligible and requiredTags then
+    for _, tag in ipairs(encodedStrings(requiredTags)) do
+      if not nodeTags[tag] then eligible = false break end
+    end
+  end
+  if eligible and withinLimits(taskKey) and withinSpread(spreadField, spreadMax)
+      and fits(resourcesAt, resources) then
+    bestKey, bestId, bestSpread = taskKey, id, spreadField
+    bestResourcesAt, bestResources = resourcesAt, resources
+    break
+  end
+end
+
+if bestKey == nil then return 0 end
+
+local attempt = tonumber(str(redis.call('HGET', bestKey, 'attempt')) or '0') or 0
+redis.call('HSET', bestKey,
+  'status', '"claimed"',
+  'claimedAt', ARGV[3],
+  'attempt', string.format('%d', attempt + 1),
+  'assignedNodeId', encodedNodeId,
+  'leaseToken', ARGV[12],
+  'leaseExpiresAt', ARGV[13])
+redis.call('HINCRBY', bestKey, 'revision', 1)
+-- A task sits in the shared queues or in this node's, so removing it from all is safe.
+for k = 2, 4 do redis.call('ZREM', KEYS[k], bestId) end
+redis.call('SMOVE', queuedKey, claimedKey, bestId)
+redis.call('SADD', activeKey, bestId)
+addUsage(waitingKey, bestKey, -1)
+addUsage(usageKey, bestKey, 1)
+addAlloc(allocKey, bestResourcesAt, bestResources, 1)
+if bestSpread ~= '' then takeSpread(spreadKey, holdsKey, bestId, bestSpread) end
+return redis.call('HGETALL', bestKey)
+`;
+
+/**
+ * Writes task fields and moves the task between secondary indexes in one step.
+ * The caller computes the index keys and the next revision from the task it
+ * read; the write is rejected if the revision changed since. Leaving an
+ * active set releases the task's `usage` and node resources, joining one
+ * takes them; moving to another node's active set also moves its `spread`
+ * hold. Leaving or joining tasks:queued moves the task's `waiting` counts.
+ *
+ * KEYS[1] task:<taskId>   KEYS[2] tasks   KEYS[3] usage   KEYS[4] spread
+ * KEYS[5] spreadholds   KEYS[6] status set to join   KEYS[7] tasks:queued
+ * KEYS[8] waiting
+ * then, as flagged in ARGV[4..6]: the status set to leave, the active and
+ * alloc sets to leave, the active and alloc sets to join; then the queues to
+ * leave and the queues to join
+ *
+ * ARGV, in order:
+ *   taskId
+ *   expected revision ("" = task must not exist yet)
+ *   "1" replaces the whole hash, "0" patches individual fields
+ *   "1" when a status set to leave is passed
+ *   "1" when an active set to leave is passed
+ *   "1" when an active set to join is passed
+ *   `spread` field to hold on the joined node ("" for none)
+ *   number of resources released, then name/amount pairs (the task as read)
+ *   number of resources taken, then name/amount pairs (the task as written)
+ *   number Q of queues to leave
+ *   number J of queues to join, then the score in each
+ *   number N of field/value pairs to set, then the pairs
+ *   any remaining ARGV are fields to delete
+ *
+ * Returns 1 when written, 0 on a conflicting concurrent change.
+ */
+export const SAVE_TASK_SCRIPT = `${STR_HELPER}${REVISION_HELPER}${USAGE_HELPER}${SPREAD_HELPER}${ALLOC_HELPER}
+local taskKey, tasksKey, usageKey, spreadKey, holdsKey = KEYS[1], KEYS[2], KEYS[3], KEYS[4], KEYS[5]
+local joinStatusKey, queuedKey, waitingKey = KEYS[6], KEYS[7], KEYS[8]
+local taskId = ARGV[1]
+
+local nextKey = 9
+local function optionalKey(flag)
+  if flag ~= '1' then return nil end
+  nextKey = nextKey + 1
+  return KEYS[nextKey - 1]
+end
+local leaveStatusKey = optionalKey(ARGV[4])
+local leaveActiveKey = optionalKey(ARGV[5])
+local leaveAllocKey = optionalKey(ARGV[5])
+local joinActiveKey = optionalKey(ARGV[6])
+local joinAllocKey = optionalKey(ARGV[6])
+local changesNode = leaveActiveKey ~= joinActiveKey
+
+local at = 8
+local function counted(width)
+  local n = tonumber(ARGV[at])
+  local from = at + 1
+  at = from + width * n
+  return from, n
+end
+local releasedAt, released = counted(2)
+local takenAt, taken = counted(2)
+local leaveQueueCount = tonumber(ARGV[at])
+at = at + 1
+local scoresAt, joinQueueCount = counted(1)
+local pairsAt, pairCount = counted(2)
+
+if revisionOf(taskKey) ~= ARGV[2] then return 0 end
+
+if redis.call('SISMEMBER', queuedKey, taskId) == 1 then addUsage(waitingKey, taskKey, -1) end
+if leaveActiveKey then
+  redis.call('SREM', leaveActiveKey, taskId)
+  addUsage(usageKey, taskKey, -1)
+  addAlloc(leaveAllocKey, releasedAt, released, -1)
+  if changesNode then releaseSpread(spreadKey, holdsKey, taskId) end
+end
+
+if ARGV[3] == '1' then redis.call('DEL', taskKey) end
+local set = {}
+for i = pairsAt, pairsAt + 2 * pairCount - 1 do set[#set + 1] = ARGV[i] end
+-- Redis ships Lua 5.1 (unpack); emulators may run 5.3 (table.unpack)
+if #set > 0 then redis.call('HSET', taskKey, (table.unpack or unpack)(set)) end
+for i = at, #ARGV do redis.call('HDEL', taskKey, ARGV[i]) end
+
+redis.call('SADD', tasksKey, taskId)
+if leaveStatusKey then redis.call('SREM', leaveStatusKey, taskId) end
+redis.call('SADD', joinStatusKey, taskId)
+if joinActiveKey then
+  redis.call('SADD', joinActiveKey, taskId)
+  addUsage(usageKey, taskKey, 1)
+  addAlloc(joinAllocKey, takenAt, taken, 1)
+  if changesNode and ARGV[7] ~= '' then takeSpread(spreadKey, holdsKey, taskId, ARGV[7]) end
+end
+if redis.call('SISMEMBER', queuedKey, taskId) == 1 then addUsage(waitingKey, taskKey, 1) end
+for i = 0, leaveQueueCount - 1 do redis.call('ZREM', KEYS[nextKey + i], taskId) end
+for i = 0, joinQueueCount - 1 do
+  redis.call('ZADD', KEYS[nextKey + leaveQueueCount + i], ARGV[scoresAt + i], taskId)
+end
+return 1
+`;
+
+/**
+ * Deletes a task, its result and its index entries in one step. Like
+ * SAVE_TASK_SCRIPT, the caller passes the revision it read and the delete is
+ * rejected if it changed since.
+ *
+ * KEYS[1] task:<taskId>   KEYS[2] tasks   KEYS[3] result:<taskId>   KEYS[4] usage
+ * KEYS[5] spread   KEYS[6] spreadholds   KEYS[7] status set to leave
+ * KEYS[8] tasks:queued   KEYS[9] waiting
+ * then the active and alloc sets to leave, if ARGV[3] says so, and the queues
+ * to leave
+ *
+ * ARGV[1] taskId
+ * ARGV[2] expected revision
+ * ARGV[3] "1" when an active set to leave is passed
+ * ARGV[4] number R of resources released
+ * ARGV[5..4+2R] resource name/amount pairs of the task as read
+ *
+ * Returns 1 when deleted, 0 on a conflicting concurrent change.
+ */
+export const DELETE_TASK_SCRIPT = `${STR_HELPER}${REVISION_HELPER}${USAGE_HELPER}${SPREAD_HELPER}${ALLOC_HELPER}
+local taskKey, tasksKey, resultKey, usageKey = KEYS[1], KEYS[2], KEYS[3], KEYS[4]
+local spreadKey, holdsKey, statusKey = KEYS[5], KEYS[6], KEYS[7]
+local queuedKey, waitingKey = KEYS[8], KEYS[9]
+local taskId = ARGV[1]
+
+if revisionOf(taskKey) ~= ARGV[2] then return 0 end
+
+if redis.call('SISMEMBER', queuedKey, taskId) == 1 then addUsage(waitingKey, taskKey, -1) end
+local queuesFrom = 10
+if ARGV[3] == '1' then
+  redis.call('SREM', KEYS[10], taskId)
+  addUsage(usageKey, taskKey, -1)
+  addAlloc(KEYS[11], 5, tonumber(ARGV[4]), -1)
+  releaseSpread(spreadKey, holdsKey, taskId)
+  queuesFrom = 12
+end
+redis.call('DEL', taskKey, resultKey)
+redis.call('SREM', tasksKey, taskId)
+redis.call('SREM', statusKey, taskId)
+for k = queuesFrom, #KEYS do redis.call('ZREM', KEYS[k], taskId) end
+return 1
+`;
+
+/**
+ * Converts a task stored as a JSON string by the original adapter into a
+ * hash, unless it changed since the caller read it. Indexes are rebuilt by
+ * the caller (RedisControlPlaneStore.migrate).
+ *
+ * KEYS[1] task:<taskId>
+ *
+ * ARGV[1]  the JSON string as read by the caller
+ * ARGV[2..] field/value pairs of the hash, encoded like encodeTask
+ *
+ * Returns 1 when converted, 0 when the key no longer holds that string.
+ */
+export const UPGRADE_TASK_SCRIPT = `
+local taskKey = KEYS[1]
+if redis.pcall('GET', taskKey) ~= ARGV[1] then return 0 end
+redis.call('DEL', taskKey)
+local set = {}
+for i = 2, #ARGV do set[#set + 1] = ARGV[i] end
+redis.call('HSET', taskKey, (table.unpack or unpack)(set))
+return 1
+`;
+
+/**
+ * Rebinds an idempotency key, but only while it is still bound to the task
+ * the caller saw.
+ *
+ * KEYS[1] dedupe:<key>
+ *
+ * ARGV[1] expected task id   ARGV[2] new task id   ARGV[3] new expiry, ms since epoch
+ *
+ * Returns 1 when rebound, 0 when the key expired or now names another task.
+ */
+export const REBIND_DEDUPE_SCRIPT = `
+if redis.call('GET', KEYS[1]) ~= ARGV[1] then return 0 end
+redis.call('SET', KEYS[1], ARGV[2], 'PXAT', ARGV[3])
+return 1
+`;
+
+/**
+ * Writes a schedule and bumps its revision, optionally compare-and-set.
+ *
+ * KEYS[1] schedule:<scheduleId>   KEYS[2] schedules
+ *
+ * ARGV[1] scheduleId
+ * ARGV[2] expected revision ("" = no check, "0" = must not exist yet)
+ * ARGV[3] schedule JSON without its revision
+ *
+ * Returns the new revision, or 0 when the expected revision did not match.
+ */
+export const SAVE_SCHEDULE_SCRIPT = `${STR_HELPER}
+local key, indexKey = KEYS[1], KEYS[2]
+local revision = tonumber(str(redis.call('HGET', key, 'revision')) or '0')
+if ARGV[2] ~= '' and tonumber(ARGV[2]) ~= revision then return 0 end
+redis.call('HSET', key, 'data', ARGV[3], 'revision', string.format('%d', revision + 1))
+redis.call('SADD', indexKey, ARGV[1])
+return revision + 1
+`;
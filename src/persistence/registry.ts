@@ -0,0 +1,143 @@
+import {
+  InMemoryControlPlaneStore,
+  type ControlPlaneStore,
+  type StoreOptions,
+} from "../persistence.js";
+import { schedulingFromEnv } from "../control/scheduling.js";
+import { FileControlPlaneStore } from "./file-adapter.js";
+import { RedisControlPlaneStore } from "./redis-adapter.js";
+import { SqliteControlPlaneStore } from "./sqlite-adapter.js";
+
+/** Options every adapter accepts; adapters ignore the ones they have no use for. */
+export type StoreAdapterOptions = StoreOptions;
+
+/**
+ * Builds a store for `url`, which still carries its scheme. Factories are
+ * synchronous; an unreachable backend surfaces through verifyStore.
+ */
+export type StoreAdapterFactory = (url: string, options: StoreAdapterOptions) => ControlPlaneStore;
+
+const adapters = new Map<string, StoreAdapterFactory>();
+
+function normalizeScheme(scheme: string): string {
+  const s = scheme.toLowerCase();
+  return s.endsWith(":") ? s : `${s}:`;
+}
+
+/** Returns the URL's scheme with its trailing colon, e.g. `redis:`. */
+export function storeUrlScheme(url: string): string {
+  const match = /^([a-z][a-z0-9+.-]*):/i.exec(url);
+  if (!match) throw new Error(`store URL has no scheme: ${url}`);
+  return normalizeScheme(match[1]);
+}
+
+/** Strips `scheme:` and an optional `//`, leaving the adapter's location. */
+export function storeUrlPath(url: string): string {
+  return url.replace(/^[a-z][a-z0-9+.-]*:(\/\/)?/i, "");
+}
+
+/**
+ * Makes `scheme` (`"postgres"` or `"postgres:"`) resolvable by createStore.
+ * Adapters and plugins call this at import time; a scheme can only be taken once.
+ */
+export function registerStoreAdapter(scheme: string, factory: StoreAdapterFactory): void {
+  const key = normalizeScheme(scheme);
+  if (adapters.has(key)) throw new Error(`store adapter already registered for ${key}`);
+  adapters.set(key, factory);
+}
+
+export function unregisterStoreAdapter(scheme: string): boolean {
+  return adapters.delete(normalizeScheme(scheme));
+}
+
+export function registeredStoreSchemes(): string[] {
+  return [...adapters.keys()].sort();
+}
+
+export function createStore(url: string, options: StoreAdapterOptions = {}): ControlPlaneStore {
+  const scheme = storeUrlScheme(url);
+  const factory = adapters.get(scheme);
+  if (!factory) {
+    throw new Error(
+      `no store adapter for ${scheme} (registered: ${registeredStoreSchemes().join(", ")})`
+    );
+  }
+  return factory(url, options);
+}
+
+/**
+ * Resolves EDGEMESH_STORE to a store URL. Besides full URLs it keeps the
+ * older bare values working: unset means `memory:`, `redis` reads
+ * EDGEMESH_REDIS_URL and `file` reads EDGEMESH_DATA_DIR.
+ */
+export function storeUrlFromEnv(env: NodeJS.ProcessEnv = process.env): string {
+  const value = env.EDGEMESH_STORE?.trim();
+  if (!value || value === "memory") return "memory:";
+  if (value === "redis") return env.EDGEMESH_REDIS_URL ?? "redis://localhost:6379";
+  if (value === "file") return `file:${env.EDGEMESH_DATA_DIR ?? "./data"}`;
+  return value;
+}
+
+/**
+ * Reads EDGEMESH_CLAIM_TTL_MS, EDGEMESH_HEARTBEAT_HEALTHY_MS,
+ * EDGEMESH_HEARTBEAT_DEGRADED_MS and the scheduling settings (see
+ * schedulingFromEnv); unset ones keep the adapter defaults.
+ */
+export function storeOptionsFromEnv(env: NodeJS.ProcessEnv = process.env): StoreAdapterOptions {
+  const num = (name: string) => {
+    const raw = env[name];
+    if (raw === undefined || raw === "") return undefined;
+    const n = Number(raw);
+    if (!Number.isFinite(n) || n <= 0) throw new Error(`invalid ${name}: ${raw}`);
+    return n;
+  };
+  return {
+    claimTtlMs: num("EDGEMESH_CLAIM_TTL_MS"),
+    heartbeatHealthyMs: num("EDGEMESH_HEARTBEAT_HEALTHY_MS"),
+    heartbeatDegradedMs: num("EDGEMESH_HEARTBEAT_DEGRADED_MS"),
+    scheduling: schedulingFromEnv(env),
+  };
+}
+
+/**
+ * Pings `store` and rejects if it fails or takes longer than `timeoutMs`.
+ * Stores without a ping (in-memory) always pass.
+ */
+export async function verifyStore(store: ControlPlaneStore, timeoutMs = 5_000): Promise<void> {
+  if (!store.ping) return;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(
+      () => reject(new Error(`store did not answer within ${timeoutMs}ms`)),
+      timeoutMs
+    );
+  });
+  try {
+    await Promise.race([store.ping(), timeout]);
+  } catch (err) {
+    throw new Error(`store connection check failed: ${(err as Error).message}`, { cause: err });
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+// ── Built-in adapters ───────────────────────────────────────────────────────
+
+registerStoreAdapter("memory", (_url, options) => new InMemoryControlPlaneStore(options));
+
+const redisAdapter: StoreAdapterFactory = (url, options) =>
+  new RedisControlPlaneStore(url, options);
+registerStoreAdapter("redis", redisAdapter);
+registerStoreAdapter("rediss", redisAdapter);
+
+// file:./data or file:///var/lib/edgemesh
+registerStoreAdapter(
+  "file",
+  (url, options) => new FileControlPlaneStore(storeUrlPath(url) || "./data", options)
+);
+
+// sqlite:./data/edgemesh.db, sqlite:///abs/path.db or sqlite::memory:
+registerStoreAdapter(
+  "sqlite",
+  (url, options) => new SqliteControlPlaneStore(storeUrlPath(url) || ":memory:", options)
+);
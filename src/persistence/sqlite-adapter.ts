@@ -0,0 +1,836 @@
+import { randomUUID } from "node:crypto";
+import type { DatabaseSync, SQLInputValue } from "node:sqlite";
+import {
+  checkRevision,
+  claimableAt,
+  leaseExpired,
+  maxActive,
+  nextRevision,
+  type ClaimOptions,
+  type ControlPlaneStore,
+  type DedupeKeyRecord,
+  type NodeRecord,
+  type StoreOptions,
+} from "../persistence.js";
+import { rankCandidates, type SchedulingConfig } from "../control/scheduling.js";
+import { needsSpreadLoad, placementAllows, spreadLoad } from "../control/placement.js";
+import { allocatedResources, fitsResources, freeResources } from "../control/resources.js";
+import { limitUsage, limitsAllow } from "../control/limits.js";
+import { constraintViolation } from "../control/constraints.js";
+import type {
+  ConcurrencyLimit,
+  DlqEntry,
+  HeartbeatRequest,
+  NodeFreshnessState,
+  NodeView,
+  RegisterNodeRequest,
+  Schedule,
+  Task,
+  TaskResult,
+} from "../contracts.js";
+import {
+  InvalidTransitionError,
+  RETRYABLE_STATUSES,
+  assertTransition,
+  isTerminal,
+} from "../task-state.js";
+
+// node:sqlite only exists on Node >= 22.5; resolve it lazily so importing this
+// module (and the control plane) keeps working on older runtimes.
+function loadSqlite(): typeof import("node:sqlite") {
+  const sqlite = process.getBuiltinModule?.("node:sqlite");
+  if (!sqlite) throw new Error("SqliteControlPlaneStore requires Node.js 22.5+ (node:sqlite)");
+  return sqlite;
+}
+
+/** True when the running Node.js ships node:sqlite. */
+export const sqliteAvailable = (() => {
+  try {
+    loadSqlite();
+    return true;
+  } catch {
+    return false;
+  }
+})();
+
+// Each row keeps the full record as JSON in `data` (the source of truth) next
+// to the columns that claims and queries filter or sort on.
+const SCHEMA = `
+CREATE TABLE IF NOT EXISTS nodes (
+  node_id  TEXT PRIMARY KEY,
+  region   TEXT,
+  trusted  INTEGER NOT NULL DEFAULT 0,
+  revoked  INTEGER NOT NULL DEFAULT 0,
+  draining INTEGER NOT NULL DEFAULT 0,
+  data     TEXT NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS tasks (
+  task_id          TEXT PRIMARY KEY,
+  kind             TEXT NOT NULL,
+  status           TEXT NOT NULL,
+  priority         INTEGER NOT NULL DEFAULT 0,
+  created_at       INTEGER NOT NULL,
+  queue_seq        INTEGER NOT NULL DEFAULT 0,
+  claimed_at       INTEGER,
+  retry_after      INTEGER,
+  target_node_id   TEXT,
+  required_tags    TEXT,
+  assigned_node_id TEXT,
+  data             TEXT NOT NULL
+);
+CREATE INDEX IF NOT EXISTS tasks_queue ON tasks (status, priority DESC, created_at, queue_seq);
+CREATE INDEX IF NOT EXISTS tasks_assigned ON tasks (assigned_node_id, status);
+CREATE INDEX IF NOT EXISTS tasks_age ON tasks (status, created_at);
+CREATE INDEX IF NOT EXISTS tasks_parent ON tasks (json_extract(data, '$.parentTaskId'));
+
+-- dependsOn links, parent to child, for looking up a task's dependents.
+CREATE TABLE IF NOT EXISTS task_dependencies (
+  parent_id TEXT NOT NULL,
+  task_id   TEXT NOT NULL,
+  PRIMARY KEY (parent_id, task_id)
+);
+CREATE INDEX IF NOT EXISTS task_dependencies_task ON task_dependencies (task_id);
+
+CREATE TABLE IF NOT EXISTS results (
+  task_id     TEXT PRIMARY KEY,
+  node_id     TEXT NOT NULL,
+  ok          INTEGER NOT NULL,
+  finished_at INTEGER NOT NULL,
+  data        TEXT NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS dlq (
+  task_id     TEXT PRIMARY KEY,
+  reason      TEXT NOT NULL,
+  enqueued_at INTEGER NOT NULL,
+  data        TEXT NOT NULL
+);
+CREATE INDEX IF NOT EXISTS dlq_enqueued ON dlq (enqueued_at);
+
+CREATE TABLE IF NOT EXISTS schedules (
+  schedule_id TEXT PRIMARY KEY,
+  revision    INTEGER NOT NULL,
+  data        TEXT NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS concurrency_limits (
+  scope TEXT NOT NULL,
+  name  TEXT NOT NULL,
+  data  TEXT NOT NULL,
+  PRIMARY KEY (scope, name)
+);
+
+CREATE TABLE IF NOT EXISTS dedupe_keys (
+  key        TEXT PRIMARY KEY,
+  task_id    TEXT NOT NULL,
+  expires_at INTEGER NOT NULL
+);
+CREATE INDEX IF NOT EXISTS dedupe_keys_expiry ON dedupe_keys (expires_at);
+`;
+
+type DataRow = { data: string };
+
+// Schema version recorded in PRAGMA user_version; bump it whenever migrate() learns a new step.
+const DB_VERSION = 1;
+
+export class SqliteControlPlaneStore implements ControlPlaneStore {
+  private readonly db: DatabaseSync;
+  private readonly claimTtlMs: number;
+  private readonly heartbeatHealthyMs: number;
+  private readonly heartbeatDegradedMs: number;
+  readonly scheduling?: SchedulingConfig;
+  private inTransaction = false;
+
+  /** @param path database file, or ":memory:" */
+  constructor(path: string, options: StoreOptions = {}) {
+    const { DatabaseSync } = loadSqlite();
+    this.db = new DatabaseSync(path);
+    // WAL lets readers proceed while a claim transaction holds the write lock;
+    // busy_timeout makes competing writers (other processes) wait instead of failing.
+    this.db.exec("PRAGMA journal_mode = WAL; PRAGMA busy_timeout = 5000;");
+    this.db.exec(SCHEMA);
+    this.claimTtlMs = options.claimTtlMs ?? 30_000;
+    this.heartbeatHealthyMs = options.heartbeatHealthyMs ?? 10_000;
+    this.heartbeatDegradedMs = options.heartbeatDegradedMs ?? 30_000;
+    this.scheduling = options.scheduling;
+  }
+
+  // ── Nodes ────────────────────────────────────────────────────────────────
+
+  async upsertNode(node: RegisterNodeRequest): Promise<void> {
+    this.transaction(() => {
+      const existing = this.getNodeRecord(node.nodeId);
+      this.putNode({ ...node, lastHeartbeat: existing?.lastHeartbeat });
+    });
+  }
+
+  async getNode(nodeId: string): Promise<NodeView | undefined> {
+    const record = this.getNodeRecord(nodeId);
+    if (!record) return undefined;
+    return this.toNodeView(record);
+  }
+
+  async listNodes(): Promise<NodeView[]> {
+    const rows = this.db.prepare("SELECT data FROM nodes ORDER BY rowid").all() as DataRow[];
+    return rows.map((r) => this.toNodeView(JSON.parse(r.data) as NodeRecord));
+  }
+
+  async setHeartbeat(nodeId: string, heartbeat: HeartbeatRequest): Promise<boolean> {
+    return this.updateNode(nodeId, (node) => {
+      node.lastHeartbeat = heartbeat;
+    });
+  }
+
+  async setNodeTrust(
+    nodeId: string,
+    trust: { trusted?: boolean; revoked?: boolean }
+  ): Promise<boolean> {
+    return this.updateNode(nodeId, (node) => {
+      node.trusted = trust.trusted ?? node.trusted;
+      node.revoked = trust.revoked ?? node.revoked;
+    });
+  }
+
+  async setNodeDrain(nodeId: string, draining: boolean): Promise<boolean> {
+    return this.updateNode(nodeId, (node) => {
+      node.draining = draining;
+    });
+  }
+
+  // ── Tasks ─────────────────────────────────────────────────────────────────
+
+  async enqueueTask(task: Task): Promise<void> {
+    this.transaction(() => {
+      const existing = this.getTaskRecord(task.taskId);
+      this.putTask({ ...task, revision: nextRevision(existing, task) }, true);
+    });
+  }
+
+  async enqueueTaskIfAbsent(task: Task): Promise<Task | undefined> {
+    return this.transaction(() => {
+      const existing = this.getTaskRecord(task.taskId);
+      if (existing) return existing;
+      this.putTask({ ...task, revision: nextRevision(undefined, task) }, true);
+      return undefined;
+    });
+  }
+
+  async claimTask(nodeId: string, options: ClaimOptions = {}): Promise<Task | null> {
+    // BEGIN IMMEDIATE takes the database write lock up front, so selection and
+    // update cannot interleave with a claim from another connection or process.
+    return this.transaction(() => {
+      const node = this.getNodeRecord(nodeId);
+      if (!node) return null;
+      if (node.revoked || !node.trusted) return null;
+      if (node.draining) return null;
+      if (this.getFreshnessState(node) !== "healthy") return null;
+
+      const { active } = this.db
+        .prepare(
+          `SELECT COUNT(*) AS active FROM tasks
+           WHERE assigned_node_id = ? AND status IN ('claimed', 'running')`
+        )
+        .get(nodeId) as { active: number };
+      if (active >= maxActive(node, options)) return null;
+
+      const now = Date.now();
+      const rows = this.db
+        .prepare(
+          `SELECT data FROM tasks t
+           WHERE status = 'queued'
+             AND (retry_after IS NULL OR retry_after <= :now)
+             AND (target_node_id IS NULL OR target_node_id = :nodeId)
+             AND NOT EXISTS (
+               SELECT 1 FROM json_each(COALESCE(t.required_tags, '[]')) req
+               WHERE req.value NOT IN (SELECT value FROM json_each(:nodeTags))
+             )
+           ORDER BY priority DESC, created_at ASC, queue_seq ASC`
+        )
+        .all({
+          now,
+          nodeId,
+          nodeTags: JSON.stringify(node.capabilities.tags),
+        }) as DataRow[];
+      const candidates = rows
+        .map((r) => JSON.parse(r.data) as Task)
+        .filter((t) => !constraintViolation(t, node.capabilities));
+      const load = needsSpreadLoad(candidates)
+        ? spreadLoad(this.activeTasks(), (id) => this.getNodeRecord(id))
+        : new Map();
+      const mine = this.activeTasks().filter((t) => t.assignedNodeId === nodeId);
+      const free = freeResources(node.capabilities, allocatedResources(mine));
+      const limits = this.listLimits();
+      const usage = limitUsage(limits.length ? this.activeTasks() : [], limits);
+      const placeable = candidates.filter(
+        (t) =>
+          placementAllows(t, node, load) && fitsResources(t, free) && limitsAllow(t, limits, usage)
+      );
+      const task = rankCandidates(placeable, this.scheduling, { node, now })[0];
+      if (!task) return null;
+
+      task.status = "claimed";
+      task.claimedAt = Date.now();
+      task.attempt = (task.attempt ?? 0) + 1;
+      task.assignedNodeId = nodeId;
+      task.leaseToken = randomUUID();
+      task.leaseExpiresAt = task.claimedAt + this.claimTtlMs;
+      task.revision = nextRevision(task);
+      this.putTask(task, false);
+      return task;
+    });
+  }
+
+  async setTaskStatus(
+    taskId: string,
+    status: Task["status"],
+    expectedRevision?: number
+  ): Promise<Task | null> {
+    return this.transaction(() => {
+      const task = this.getTaskRecord(taskId);
+      if (!task) return null;
+      checkRevision(task, expectedRevision);
+      assertTransition(task, status);
+      task.status = status;
+      if (status === "running" || status === "done" || status === "failed") {
+        task.claimedAt = undefined;
+      }
+      task.revision = nextRevision(task);
+      this.putTask(task, false);
+      return task;
+    });
+  }
+
+  async getTask(taskId: string): Promise<Task | undefined> {
+    return this.getTaskRecord(taskId);
+  }
+
+  async listQueuedTasks(): Promise<Task[]> {
+    return this.listTasks("queued");
+  }
+
+  async listRunningTasks(): Promise<Task[]> {
+    const rows = this.db
+      .prepare("SELECT data FROM tasks WHERE status IN ('claimed', 'running') ORDER BY rowid")
+      .all() as DataRow[];
+    return rows.map((r) => JSON.parse(r.data) as Task);
+  }
+
+  async listNodeTasks(nodeId: string): Promise<Task[]> {
+    const rows = this.db
+      .prepare(
+        `SELECT data FROM tasks
+         WHERE assigned_node_id = ? AND status IN ('claimed', 'running') ORDER BY rowid`
+      )
+      .all(nodeId) as DataRow[];
+    return rows.map((r) => JSON.parse(r.data) as Task);
+  }
+
+  async listOldestQueuedTasks(limit: number): Promise<Task[]> {
+    const rows = this.db
+      .prepare(
+        `SELECT data FROM tasks WHERE status = 'queued' AND target_node_id IS NULL
+         ORDER BY created_at, queue_seq LIMIT ?`
+      )
+      .all(limit) as DataRow[];
+    return rows.map((r) => JSON.parse(r.data) as Task);
+  }
+
+  async listChildTasks(parentTaskId: string): Promise<Task[]> {
+    const rows = this.db
+      .prepare(
+        "SELECT data FROM tasks WHERE json_extract(data, '$.parentTaskId') = ? ORDER BY rowid"
+      )
+      .all(parentTaskId) as DataRow[];
+    return rows.map((r) => JSON.parse(r.data) as Task);
+  }
+
+  async listDependentTasks(taskId: string): Promise<Task[]> {
+    const rows = this.db
+      .prepare(
+        `SELECT t.data FROM task_dependencies d JOIN tasks t ON t.task_id = d.task_id
+         WHERE d.parent_id = ? ORDER BY t.rowid`
+      )
+      .all(taskId) as DataRow[];
+    return rows.map((r) => JSON.parse(r.data) as Task).filter((t) => t.dependsOn?.includes(taskId));
+  }
+
+  async countWaitingTasks(limits: readonly ConcurrencyLimit[]): Promise<number[]> {
+    const byKind = this.db.prepare(
+      "SELECT COUNT(*) AS n FROM tasks WHERE status = 'queued' AND kind = ?"
+    );
+    const byTag = this.db.prepare(
+      `SELECT COUNT(*) AS n FROM tasks WHERE status = 'queued'
+         AND EXISTS (SELECT 1 FROM json_each(required_tags) WHERE value = ?)`
+    );
+    return limits.map((limit) => {
+      const row = (limit.scope === "kind" ? byKind : byTag).get(limit.name) as { n: number };
+      return row.n;
+    });
+  }
+
+  async listTasks(status?: Task["status"]): Promise<Task[]> {
+    const rows = (
+      status
+        ? this.db.prepare("SELECT data FROM tasks WHERE status = ? ORDER BY rowid").all(status)
+        : this.db.prepare("SELECT data FROM tasks ORDER BY rowid").all()
+    ) as DataRow[];
+    return rows.map((r) => JSON.parse(r.data) as Task);
+  }
+
+  async countTasksByStatus(): Promise<Record<Task["status"], number>> {
+    const counts = {
+      blocked: 0,
+      queued: 0,
+      claimed: 0,
+      running: 0,
+      done: 0,
+      failed: 0,
+      cancelled: 0,
+    };
+    const rows = this.db
+      .prepare("SELECT status, COUNT(*) AS n FROM tasks GROUP BY status")
+      .all() as { status: Task["status"]; n: number }[];
+    for (const row of rows) counts[row.status] = row.n;
+    return counts;
+  }
+
+  async cancelTask(taskId: string, expectedRevision?: number): Promise<boolean> {
+    return this.transaction(() => {
+      const task = this.getTaskRecord(taskId);
+      if (!task) return false;
+      checkRevision(task, expectedRevision);
+      if (isTerminal(task.status)) return false;
+
+      task.status = "cancelled";
+      task.claimedAt = undefined;
+      task.revision = nextRevision(task);
+      this.putTask(task, false);
+      return true;
+    });
+  }
+
+  async requeueForRetry(
+    taskId: string,
+    retryAfter: number,
+    expectedRevision?: number
+  ): Promise<boolean> {
+    return this.transaction(() => {
+      const task = this.getTaskRecord(taskId);
+      if (!task) return false;
+      checkRevision(task, expectedRevision);
+      if (!RETRYABLE_STATUSES.includes(task.status))
+        throw new InvalidTransitionError(taskId, task.status, "queued");
+
+      task.status = "queued";
+      task.claimedAt = undefined;
+      task.assignedNodeId = undefined;
+      task.retryAfter = retryAfter;
+      task.revision = nextRevision(task);
+      this.putTask(task, true);
+      return true;
+    });
+  }
+
+  async preemptTask(taskId: string, expectedRevision?: number): Promise<boolean> {
+    return this.transaction(() => {
+      const task = this.getTaskRecord(taskId);
+      if (!task) return false;
+      checkRevision(task, expectedRevision);
+      if (!RETRYABLE_STATUSES.includes(task.status))
+        throw new InvalidTransitionError(taskId, task.status, "queued");
+
+      task.status = "queued";
+      task.claimedAt = undefined;
+      task.assignedNodeId = undefined;
+      task.retryAfter = undefined;
+      task.preemptions = (task.preemptions ?? 0) + 1;
+      task.revision = nextRevision(task);
+      this.putTask(task, true);
+      return true;
+    });
+  }
+
+  async renewLease(taskId: string, leaseToken: string): Promise<Task | null> {
+    return this.transaction(() => {
+      const task = this.getTaskRecord(taskId);
+      if (!task || !RETRYABLE_STATUSES.includes(task.status)) return null;
+      const now = Date.now();
+      if (task.leaseToken !== leaseToken || leaseExpired(task, now, this.claimTtlMs)) return null;
+      task.leaseExpiresAt = now + this.claimTtlMs;
+      this.putTask(task, false);
+      return task;
+    });
+  }
+
+  async listExpiredLeases(): Promise<Task[]> {
+    const now = Date.now();
+    return this.activeTasks().filter((t) => leaseExpired(t, now, this.claimTtlMs));
+  }
+
+  async deleteTask(taskId: string): Promise<boolean> {
+    return this.transaction(() => {
+      const { changes } = this.db.prepare("DELETE FROM tasks WHERE task_id = ?").run(taskId);
+      if (!changes) return false;
+      this.db.prepare("DELETE FROM results WHERE task_id = ?").run(taskId);
+      this.db.prepare("DELETE FROM task_dependencies WHERE task_id = ?").run(taskId);
+      return true;
+    });
+  }
+
+  // ── Results ───────────────────────────────────────────────────────────────
+
+  async setTaskResult(result: TaskResult): Promise<void> {
+    this.db
+      .prepare(
+        `INSERT INTO results (task_id, node_id, ok, finished_at, data) VALUES (?, ?, ?, ?, ?)
+         ON CONFLICT (task_id) DO UPDATE SET
+           node_id = excluded.node_id, ok = excluded.ok,
+           finished_at = excluded.finished_at, data = excluded.data`
+      )
+      .run(
+        result.taskId,
+        result.nodeId,
+        result.ok ? 1 : 0,
+        result.finishedAt,
+        JSON.stringify(result)
+      );
+  }
+
+  async getTaskResult(taskId: string): Promise<TaskResult | undefined> {
+    const row = this.db.prepare("SELECT data FROM results WHERE task_id = ?").get(taskId) as
+      | DataRow
+      | undefined;
+    return row ? (JSON.parse(row.data) as TaskResult) : undefined;
+  }
+
+  // ── DLQ ───────────────────────────────────────────────────────────────────
+
+  async enqueueDlq(entry: DlqEntry): Promise<void> {
+    this.db
+      .prepare(
+        `INSERT INTO dlq (task_id, reason, enqueued_at, data) VALUES (?, ?, ?, ?)
+         ON CONFLICT (task_id) DO UPDATE SET
+           reason = excluded.reason, enqueued_at = excluded.enqueued_at, data = excluded.data`
+      )
+      .run(entry.taskId, entry.reason, entry.enqueuedAt, JSON.stringify(entry));
+  }
+
+  async listDlq(): Promise<DlqEntry[]> {
+    const rows = this.db.prepare("SELECT data FROM dlq ORDER BY rowid").all() as DataRow[];
+    return rows.map((r) => JSON.parse(r.data) as DlqEntry);
+  }
+
+  async getDlqEntry(taskId: string): Promise<DlqEntry | undefined> {
+    const row = this.db.prepare("SELECT data FROM dlq WHERE task_id = ?").get(taskId) as
+      | DataRow
+      | undefined;
+    return row ? (JSON.parse(row.data) as DlqEntry) : undefined;
+  }
+
+  async requeueFromDlq(taskId: string): Promise<boolean> {
+    return this.transaction(() => {
+      if (!this.db.prepare("SELECT 1 FROM dlq WHERE task_id = ?").get(taskId)) return false;
+      const task = this.getTaskRecord(taskId);
+      if (!task) return false;
+      if (task.status !== "failed") throw new InvalidTransitionError(taskId, task.status, "queued");
+
+      task.status = "queued";
+      task.attempt = 0;
+      task.retryAfter = undefined;
+      task.claimedAt = undefined;
+      task.assignedNodeId = undefined;
+      task.revision = nextRevision(task);
+      this.putTask(task, true);
+      this.db.prepare("DELETE FROM dlq WHERE task_id = ?").run(taskId);
+      return true;
+    });
+  }
+
+  async deleteDlqEntry(taskId: string): Promise<boolean> {
+    const { changes } = this.db.prepare("DELETE FROM dlq WHERE task_id = ?").run(taskId);
+    return changes > 0;
+  }
+
+  // ── Schedules ────────────────────────────────────────────────────────────
+
+  async saveSchedule(schedule: Schedule, expectedRevision?: number): Promise<boolean> {
+    return this.transaction(() => {
+      const row = this.db
+        .prepare("SELECT revision FROM schedules WHERE schedule_id = ?")
+        .get(schedule.scheduleId) as { revision: number } | undefined;
+      const revision = row?.revision ?? 0;
+      if (expectedRevision !== undefined && expectedRevision !== revision) return false;
+
+      this.db
+        .prepare(
+          `INSERT INTO schedules (schedule_id, revision, data) VALUES (?, ?, ?)
+           ON CONFLICT (schedule_id) DO UPDATE SET
+             revision = excluded.revision, data = excluded.data`
+        )
+        .run(
+          schedule.scheduleId,
+          revision + 1,
+          JSON.stringify({ ...schedule, revision: undefined })
+        );
+      return true;
+    });
+  }
+
+  async getSchedule(scheduleId: string): Promise<Schedule | undefined> {
+    const row = this.db
+      .prepare("SELECT revision, data FROM schedules WHERE schedule_id = ?")
+      .get(scheduleId) as { revision: number; data: string } | undefined;
+    return row && { ...(JSON.parse(row.data) as Schedule), revision: row.revision };
+  }
+
+  async listSchedules(): Promise<Schedule[]> {
+    const rows = this.db
+      .prepare("SELECT revision, data FROM schedules ORDER BY schedule_id")
+      .all() as { revision: number; data: string }[];
+    return rows.map((row) => ({ ...(JSON.parse(row.data) as Schedule), revision: row.revision }));
+  }
+
+  async deleteSchedule(scheduleId: string): Promise<boolean> {
+    const { changes } = this.db
+      .prepare("DELETE FROM schedules WHERE schedule_id = ?")
+      .run(scheduleId);
+    return changes > 0;
+  }
+
+  // ── Concurrency limits ───────────────────────────────────────────────────
+
+  async saveConcurrencyLimit(limit: ConcurrencyLimit): Promise<void> {
+    this.db
+      .prepare(
+        `INSERT INTO concurrency_limits (scope, name, data) VALUES (?, ?, ?)
+         ON CONFLICT (scope, name) DO UPDATE SET data = excluded.data`
+      )
+      .run(limit.scope, limit.name, JSON.stringify(limit));
+  }
+
+  async listConcurrencyLimits(): Promise<ConcurrencyLimit[]> {
+    return this.listLimits();
+  }
+
+  async deleteConcurrencyLimit(scope: ConcurrencyLimit["scope"], name: string): Promise<boolean> {
+    const { changes } = this.db
+      .prepare("DELETE FROM concurrency_limits WHERE scope = ? AND name = ?")
+      .run(scope, name);
+    return changes > 0;
+  }
+
+  async reserveDedupeKey(key: string, taskId: string, ttlMs: number): Promise<string | undefined> {
+    return this.transaction(() => {
+      const now = Date.now();
+      this.db.prepare("DELETE FROM dedupe_keys WHERE expires_at <= ?").run(now);
+      const row = this.db.prepare("SELECT task_id FROM dedupe_keys WHERE key = ?").get(key) as
+        | { task_id: string }
+        | undefined;
+      if (row) return row.task_id;
+      this.db
+        .prepare("INSERT INTO dedupe_keys (key, task_id, expires_at) VALUES (?, ?, ?)")
+        .run(key, taskId, now + ttlMs);
+      return undefined;
+    });
+  }
+
+  async listDedupeKeys(): Promise<DedupeKeyRecord[]> {
+    const rows = this.db
+      .prepare("SELECT key, task_id, expires_at FROM dedupe_keys WHERE expires_at > ? ORDER BY key")
+      .all(Date.now()) as { key: string; task_id: string; expires_at: number }[];
+    return rows.map((row) => ({ key: row.key, taskId: row.task_id, expiresAt: row.expires_at }));
+  }
+
+  async saveDedupeKey(record: DedupeKeyRecord, expectedTaskId?: string): Promise<boolean> {
+    const now = Date.now();
+    if (record.expiresAt <= now) return false;
+    if (expectedTaskId !== undefined) {
+      const { changes } = this.db
+        .prepare(
+          `UPDATE dedupe_keys SET task_id = ?, expires_at = ?
+           WHERE key = ? AND task_id = ? AND expires_at > ?`
+        )
+        .run(record.taskId, record.expiresAt, record.key, expectedTaskId, now);
+      return changes > 0;
+    }
+    this.db
+      .prepare(
+        `INSERT INTO dedupe_keys (key, task_id, expires_at) VALUES (?, ?, ?)
+         ON CONFLICT (key) DO UPDATE SET task_id = excluded.task_id, expires_at = excluded.expires_at`
+      )
+      .run(record.key, record.taskId, record.expiresAt);
+    return true;
+  }
+
+  // ── Lifecycle ─────────────────────────────────────────────────────────────
+
+  /**
+   * Brings a database an older version wrote up to date: fills
+   * task_dependencies from the tasks already stored. Returns the number of
+   * links added.
+   */
+  async migrate(): Promise<number> {
+    const { user_version } = this.db.prepare("PRAGMA user_version").get() as {
+      user_version: number;
+    };
+    if (user_version >= DB_VERSION) return 0;
+    return this.transaction(() => {
+      const { changes } = this.db
+        .prepare(
+          `INSERT OR IGNORE INTO task_dependencies (parent_id, task_id)
+           SELECT d.value, t.task_id FROM tasks t, json_each(t.data, '$.dependsOn') d`
+        )
+        .run();
+      this.db.exec(`PRAGMA user_version = ${DB_VERSION}`);
+      return Number(changes);
+    });
+  }
+
+  async ping(): Promise<void> {
+    this.db.prepare("SELECT 1").get();
+  }
+
+  async close(): Promise<void> {
+    this.db.close();
+  }
+
+  // ── Private helpers ───────────────────────────────────────────────────────
+
+  private transaction<T>(fn: () => T): T {
+    // Nested calls (e.g. updateNode inside another transaction) join the outer one.
+    if (this.inTransaction) return fn();
+    this.db.exec("BEGIN IMMEDIATE");
+    this.inTransaction = true;
+    try {
+      const result = fn();
+      this.db.exec("COMMIT");
+      return result;
+    } catch (err) {
+      this.db.exec("ROLLBACK");
+      throw err;
+    } finally {
+      this.inTransaction = false;
+    }
+  }
+
+  private getNodeRecord(nodeId: string): NodeRecord | undefined {
+    const row = this.db.prepare("SELECT data FROM nodes WHERE node_id = ?").get(nodeId) as
+      | DataRow
+      | undefined;
+    return row ? (JSON.parse(row.data) as NodeRecord) : undefined;
+  }
+
+  private putNode(node: NodeRecord) {
+    this.db
+      .prepare(
+        `INSERT INTO nodes (node_id, region, trusted, revoked, draining, data)
+         VALUES (?, ?, ?, ?, ?, ?)
+         ON CONFLICT (node_id) DO UPDATE SET
+           region = excluded.region, trusted = excluded.trusted, revoked = excluded.revoked,
+           draining = excluded.draining, data = excluded.data`
+      )
+      .run(
+        node.nodeId,
+        node.region ?? null,
+        node.trusted ? 1 : 0,
+        node.revoked ? 1 : 0,
+        node.draining ? 1 : 0,
+        JSON.stringify(node)
+      );
+  }
+
+  private updateNode(nodeId: string, change: (node: NodeRecord) => void): boolean {
+    return this.transaction(() => {
+      const node = this.getNodeRecord(nodeId);
+      if (!node) return false;
+      change(node);
+      this.putNode(node);
+      return true;
+    });
+  }
+
+  private getTaskRecord(taskId: string): Task | undefined {
+    const row = this.db.prepare("SELECT data FROM tasks WHERE task_id = ?").get(taskId) as
+      | DataRow
+      | undefined;
+    return row ? (JSON.parse(row.data) as Task) : undefined;
+  }
+
+  private listLimits(): ConcurrencyLimit[] {
+    const rows = this.db
+      .prepare("SELECT data FROM concurrency_limits ORDER BY scope, name")
+      .all() as DataRow[];
+    return rows.map((r) => JSON.parse(r.data) as ConcurrencyLimit);
+  }
+
+  private activeTasks(): Task[] {
+    const rows = this.db
+      .prepare(`SELECT data FROM tasks WHERE status IN ('claimed', 'running')`)
+      .all() as DataRow[];
+    return rows.map((r) => JSON.parse(r.data) as Task);
+  }
+
+  /**
+   * Upserts a task row. `requeue` moves it to the back of the FIFO order among
+   * tasks with equal priority and createdAt, matching the in-memory queue.
+   */
+  private putTask(task: Task, requeue: boolean) {
+    const columns: Record<string, SQLInputValue> = {
+      taskId: task.taskId,
+      kind: task.kind,
+      status: task.status,
+      priority: task.priority ?? 0,
+      createdAt: task.createdAt,
+      claimedAt: task.claimedAt ?? null,
+      // retry_after is the claim gate, so it also carries runAt.
+      retryAfter: claimableAt(task) || null,
+      targetNodeId: task.targetNodeId ?? null,
+      requiredTags: task.requiredTags ? JSON.stringify(task.requiredTags) : null,
+      assignedNodeId: task.assignedNodeId ?? null,
+      data: JSON.stringify(task),
+    };
+    const queueSeq = "(SELECT COALESCE(MAX(queue_seq), 0) + 1 FROM tasks)";
+
+    this.db
+      .prepare(
+        `INSERT INTO tasks (task_id, kind, status, priority, created_at, queue_seq, claimed_at,
+           retry_after, target_node_id, required_tags, assigned_node_id, data)
+         VALUES (:taskId, :kind, :status, :priority, :createdAt, ${queueSeq}, :claimedAt,
+           :retryAfter, :targetNodeId, :requiredTags, :assignedNodeId, :data)
+         ON CONFLICT (task_id) DO UPDATE SET
+           kind = excluded.kind, status = excluded.status, priority = excluded.priority,
+           created_at = excluded.created_at, claimed_at = excluded.claimed_at,
+           retry_after = excluded.retry_after, target_node_id = excluded.target_node_id,
+           required_tags = excluded.required_tags, assigned_node_id = excluded.assigned_node_id,
+           data = excluded.data
+           ${requeue ? ", queue_seq = excluded.queue_seq" : ""}`
+      )
+      .run(columns);
+    // Links are only added; listDependentTasks skips any a rewrite left behind.
+    const link = this.db.prepare(
+      "INSERT OR IGNORE INTO task_dependencies (parent_id, task_id) VALUES (?, ?)"
+    );
+    for (const parent of task.dependsOn ?? []) link.run(parent, task.taskId);
+  }
+
+  private getFreshnessState(node: NodeRecord): NodeFreshnessState {
+    const hb = node.lastHeartbeat;
+    if (!hb) return "offline";
+    const age = Date.now() - hb.ts;
+    if (age > this.heartbeatDegradedMs) return "offline";
+    if (age > this.heartbeatHealthyMs) return "degraded";
+    if (hb.status === "degraded") return "degraded";
+    return "healthy";
+  }
+
+  private toNodeView(node: NodeRecord): NodeView {
+    return {
+      ...node,
+      freshnessState: this.getFreshnessState(node),
+      trusted: node.trusted ?? false,
+      revoked: node.revoked ?? false,
+      draining: node.draining ?? false,
+    };
+  }
+}
@@ -246,3 +246,24 @@ test("failure drills: invalid payload + timeout + crash", async () => {
   assert.equal(crash.ok, false);
   assert.equal(crash.errorCode, "NONZERO_EXIT");
 });
+
+test("aborting a running shell task kills it", async () => {
+  const controller = new AbortController();
+  const started = Date.now();
+  const run = executeRealTask(
+    {
+      schemaVersion: "1.0",
+      taskId: "drill-abort",
+      kind: "shell",
+      payload: { command: "node", args: ["-e", "setTimeout(() => {}, 5000)"] },
+      status: "running",
+      createdAt: Date.now(),
+    } as Task,
+    controller.signal
+  );
+  setTimeout(() => controller.abort(), 50);
+  const aborted = await run;
+  assert.equal(aborted.ok, false);
+  assert.equal(aborted.errorCode, "ABORTED");
+  assert.ok(Date.now() - started < 4000);
+});
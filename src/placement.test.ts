@@ -0,0 +1,122 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { buildControlPlane } from "./control-plane.js";
+
+// ── Helpers ────────────────────────────────────────────────────────────────
+
+type App = ReturnType<typeof buildControlPlane>;
+
+async function addNode(
+  app: App,
+  nodeId: string,
+  topology: { region?: string; zone?: string }
+): Promise<string> {
+  const res = await app.inject({
+    method: "POST",
+    url: "/v1/nodes/register",
+    headers: { "x-bootstrap-token": "bootstrap-dev" },
+    payload: {
+      schemaVersion: "1.0",
+      nodeId,
+      ...topology,
+      capabilities: { tags: [], maxConcurrentTasks: 4 },
+    },
+  });
+  const nodeToken = res.json().token as string;
+  await app.inject({
+    method: "POST",
+    url: `/v1/nodes/${nodeId}/heartbeat`,
+    headers: { authorization: `Bearer ${nodeToken}` },
+    payload: {
+      schemaVersion: "1.0",
+      nodeId,
+      ts: Date.now(),
+      status: "healthy",
+      load: 0,
+      runningTasks: 0,
+    },
+  });
+  return nodeToken;
+}
+
+async function submit(app: App, taskId: string, placement: unknown) {
+  const jt = await app.inject({
+    method: "POST",
+    url: "/v1/auth/job-token",
+    headers: { "x-admin-token": "admin-dev" },
+    payload: { jobId: taskId, ttlMs: 60_000 },
+  });
+  return app.inject({
+    method: "POST",
+    url: "/v1/tasks",
+    headers: { authorization: `Bearer ${jt.json().token as string}` },
+    payload: { taskId, kind: "echo", payload: {}, placement },
+  });
+}
+
+async function claim(app: App, nodeId: string, nodeToken: string): Promise<string | null> {
+  const res = await app.inject({
+    method: "POST",
+    url: `/v1/nodes/${nodeId}/tasks/claim`,
+    headers: { authorization: `Bearer ${nodeToken}` },
+  });
+  return res.json().task?.taskId ?? null;
+}
+
+// ── Tests ──────────────────────────────────────────────────────────────────
+
+test("GET /v1/nodes groups nodes by region and zone", async () => {
+  const app = buildControlPlane();
+  await addNode(app, "n-3", { region: "us", zone: "us-1" });
+  await addNode(app, "n-2", { region: "eu", zone: "eu-b" });
+  await addNode(app, "n-1", { region: "eu", zone: "eu-a" });
+  await addNode(app, "n-4", { region: "eu" });
+  await addNode(app, "n-5", {});
+
+  const res = await app.inject({ method: "GET", url: "/v1/nodes" });
+  assert.equal(res.json().nodes.length, 5);
+  assert.deepEqual(res.json().topology, [
+    {
+      region: "eu",
+      zones: [
+        { zone: "eu-a", nodes: ["n-1"] },
+        { zone: "eu-b", nodes: ["n-2"] },
+        { zone: null, nodes: ["n-4"] },
+      ],
+    },
+    { region: "us", zones: [{ zone: "us-1", nodes: ["n-3"] }] },
+    { region: null, zones: [{ zone: null, nodes: ["n-5"] }] },
+  ]);
+  await app.close();
+});
+
+test("a zone spread keeps a task group off a full zone", async () => {
+  const app = buildControlPlane(undefined, { admission: null });
+  const a1 = await addNode(app, "a-1", { region: "eu", zone: "eu-a" });
+  const a2 = await addNode(app, "a-2", { region: "eu", zone: "eu-a" });
+  const b1 = await addNode(app, "b-1", { region: "eu", zone: "eu-b" });
+  const bare = await addNode(app, "bare", { region: "eu" });
+  const spread = { group: "db", by: "zone", maxPerDomain: 1 };
+  await submit(app, "db-1", { regions: ["eu"], spread });
+  await submit(app, "db-2", { regions: ["eu"], spread });
+
+  assert.equal(await claim(app, "a-1", a1), "db-1");
+  assert.equal(await claim(app, "a-2", a2), null);
+  assert.equal(await claim(app, "bare", bare), null, "no zone to count against");
+  assert.equal(await claim(app, "b-1", b1), "db-2");
+  await app.close();
+});
+
+test("placement is validated on submission", async () => {
+  const app = buildControlPlane();
+  const bad = [
+    { spread: { group: "g", by: "rack", maxPerDomain: 1 } },
+    { spread: { group: "g", by: "zone", maxPerDomain: 0 } },
+    { spread: { by: "zone", maxPerDomain: 1 } },
+  ];
+  for (const [i, placement] of bad.entries()) {
+    assert.equal((await submit(app, `bad-${i}`, placement)).statusCode, 400);
+  }
+  assert.equal((await submit(app, "ok", { avoidRegions: ["us"] })).statusCode, 200);
+  await app.close();
+});
@@ -0,0 +1,206 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+import { buildControlPlane } from "./control-plane.js";
+
+// ── Helpers ────────────────────────────────────────────────────────────────
+
+type App = ReturnType<typeof buildControlPlane>;
+
+async function addNode(app: App, nodeId: string, maxConcurrentTasks = 1): Promise<string> {
+  const res = await app.inject({
+    method: "POST",
+    url: "/v1/nodes/register",
+    headers: { "x-bootstrap-token": "bootstrap-dev" },
+    payload: { schemaVersion: "1.0", nodeId, capabilities: { tags: [], maxConcurrentTasks } },
+  });
+  const nodeToken = res.json().token as string;
+  await heartbeat(app, nodeId, nodeToken);
+  return nodeToken;
+}
+
+function heartbeat(app: App, nodeId: string, nodeToken: string, activeTaskIds?: string[]) {
+  return app.inject({
+    method: "POST",
+    url: `/v1/nodes/${nodeId}/heartbeat`,
+    headers: { authorization: `Bearer ${nodeToken}` },
+    payload: {
+      schemaVersion: "1.0",
+      nodeId,
+      ts: Date.now(),
+      status: "healthy",
+      load: 0,
+      runningTasks: 0,
+      activeTaskIds,
+    },
+  });
+}
+
+async function submit(app: App, taskId: string, extra: Record<string, unknown> = {}) {
+  const jt = await app.inject({
+    method: "POST",
+    url: "/v1/auth/job-token",
+    headers: { "x-admin-token": "admin-dev" },
+    payload: { jobId: taskId, ttlMs: 60_000 },
+  });
+  return app.inject({
+    method: "POST",
+    url: "/v1/tasks",
+    headers: { authorization: `Bearer ${jt.json().token as string}` },
+    payload: { taskId, kind: "echo", payload: {}, ...extra },
+  });
+}
+
+async function claim(app: App, nodeId: string, nodeToken: string) {
+  const res = await app.inject({
+    method: "POST",
+    url: `/v1/nodes/${nodeId}/tasks/claim`,
+    headers: { authorization: `Bearer ${nodeToken}` },
+  });
+  return res.json().task as { taskId: string; attempt: number } | null;
+}
+
+function finish(app: App, nodeId: string, nodeToken: string, taskId: string, attempt: number) {
+  return app.inject({
+    method: "POST",
+    url: `/v1/tasks/${taskId}/result`,
+    headers: { authorization: `Bearer ${nodeToken}` },
+    payload: { schemaVersion: "1.0", taskId, nodeId, ok: false, finishedAt: Date.now(), attempt },
+  });
+}
+
+// ── Tests ──────────────────────────────────────────────────────────────────
+
+test("an urgent task evicts a preemptible one from a full node", async () => {
+  const app = buildControlPlane(undefined, { admission: null });
+  const token = await addNode(app, "n-1");
+  await submit(app, "batch", { preemptible: true, maxAttempts: 2 });
+  assert.equal((await claim(app, "n-1", token))?.attempt, 1);
+
+  const urgent = await submit(app, "incident", { priority: 100 });
+  assert.deepEqual(urgent.json(), { ok: true, taskId: "incident", preempted: "batch" });
+  const batch = (await app.inject({ method: "GET", url: "/v1/tasks/batch" })).json().task;
+  assert.equal(batch.status, "queued");
+  assert.equal(batch.preemptions, 1);
+
+  // The node is told to stop, and a late result from the evicted run is fenced off.
+  const hb = await heartbeat(app, "n-1", token, ["batch"]);
+  assert.deepEqual(hb.json(), { ok: true, stop: ["batch"] });
+  assert.equal((await finish(app, "n-1", token, "batch", 1)).statusCode, 403);
+
+  assert.equal((await claim(app, "n-1", token))?.taskId, "incident");
+  await app.inject({
+    method: "POST",
+    url: "/v1/tasks/incident/result",
+    headers: { authorization: `Bearer ${token}` },
+    payload: {
+      schemaVersion: "1.0",
+      taskId: "incident",
+      nodeId: "n-1",
+      ok: true,
+      finishedAt: Date.now(),
+    },
+  });
+
+  // The preempted claim was free: one real failure still leaves a retry.
+  const again = await claim(app, "n-1", token);
+  assert.equal(again?.taskId, "batch");
+  const failed = await finish(app, "n-1", token, "batch", again!.attempt);
+  assert.equal(failed.json().retrying, true);
+  await app.close();
+});
+
+test("nothing is preempted without a full node and a lower-priority preemptible task", async () => {
+  const app = buildControlPlane(undefined, { admission: null });
+  const t1 = await addNode(app, "n-1");
+  const t2 = await addNode(app, "n-2");
+  await submit(app, "pinned", { targetNodeId: "n-1", priority: 5 });
+  await submit(app, "steady", { targetNodeId: "n-2", preemptible: true, priority: 50 });
+  await claim(app, "n-1", t1);
+  await claim(app, "n-2", t2);
+
+  // n-1 runs a non-preemptible task; n-2's task is preemptible but not lower.
+  assert.equal((await submit(app, "same", { priority: 50 })).json().preempted, undefined);
+  assert.equal((await submit(app, "higher", { priority: 60 })).json().preempted, "steady");
+
+  // With room left on a matching node, nothing is evicted.
+  const app2 = buildControlPlane(undefined, { admission: null });
+  const t3 = await addNode(app2, "n-3", 2);
+  await submit(app2, "bg", { preemptible: true });
+  await claim(app2, "n-3", t3);
+  assert.equal((await submit(app2, "urgent", { priority: 100 })).json().preempted, undefined);
+  await app.close();
+  await app2.close();
+});
+
+test("preemption frees the concurrency limit that holds the urgent task back", async () => {
+  const app = buildControlPlane(undefined, { admission: null });
+  const token = await addNode(app, "n-1", 2);
+  const limit = await app.inject({
+    method: "PUT",
+    url: "/v1/limits/kind/render",
+    headers: { "x-admin-token": "admin-dev" },
+    payload: { max: 1 },
+  });
+  assert.equal(limit.statusCode, 200);
+  await submit(app, "bg-render", { kind: "render", preemptible: true, priority: 1 });
+  await submit(app, "bg-echo", { preemptible: true, priority: 0 });
+  await claim(app, "n-1", token);
+  await claim(app, "n-1", token);
+
+  // bg-echo is the cheaper victim, but only evicting bg-render lets a render run.
+  const urgent = await submit(app, "urgent", { kind: "render", priority: 100 });
+  assert.equal(urgent.json().preempted, "bg-render");
+
+  // A limit held by tasks that cannot be preempted evicts nothing.
+  const app2 = buildControlPlane(undefined, { admission: null });
+  const t2 = await addNode(app2, "n-2", 2);
+  await app2.inject({
+    method: "PUT",
+    url: "/v1/limits/kind/render",
+    headers: { "x-admin-token": "admin-dev" },
+    payload: { max: 1 },
+  });
+  await submit(app2, "pinned-render", { kind: "render", priority: 1 });
+  await submit(app2, "bg-echo", { preemptible: true, priority: 0 });
+  await claim(app2, "n-2", t2);
+  await claim(app2, "n-2", t2);
+  const blocked = await submit(app2, "urgent", { kind: "render", priority: 100 });
+  assert.equal(blocked.json().preempted, undefined);
+  await app.close();
+  await app2.close();
+});
+
+test("preemptions are published on the SSE stream", async () => {
+  const app = buildControlPlane(undefined, { admission: null });
+  await app.listen({ host: "127.0.0.1", port: 0 });
+  const { port } = app.server.address() as AddressInfo;
+  const token = await addNode(app, "n-1");
+  await submit(app, "batch", { preemptible: true });
+  await claim(app, "n-1", token);
+
+  const event = new Promise<Record<string, unknown>>((resolve) => {
+    const req = http.get(`http://127.0.0.1:${port}/v1/events`, (res) => {
+      res.on("data", (chunk: Buffer) => {
+        for (const line of chunk.toString().split("\n")) {
+          if (!line.startsWith("data: ")) continue;
+          const parsed = JSON.parse(line.slice(6));
+          if (parsed.type === "task.preempted") {
+            req.destroy();
+            resolve(parsed);
+          }
+        }
+      });
+    });
+    req.on("error", () => {}); // ECONNRESET after destroy
+    setTimeout(() => submit(app, "incident", { priority: 100 }), 50);
+  });
+
+  const preempted = await event;
+  assert.equal(preempted.taskId, "batch");
+  assert.equal(preempted.nodeId, "n-1");
+  assert.deepEqual(preempted.detail, { by: "incident", priority: 100, victimPriority: 0 });
+  (app.server as http.Server & { closeAllConnections(): void }).closeAllConnections();
+  await app.close();
+});
@@ -182,7 +182,9 @@ test("redis: claimTask skips tasks with pending retryAfter", async () => {
 
 test("redis: setTaskStatus transitions work correctly", async () => {
   const store = await makeStore();
+  await registerHealthyNode(store);
   await store.enqueueTask(BASE_TASK);
+  await store.claimTask(BASE_NODE.nodeId);
 
   const running = await store.setTaskStatus(BASE_TASK.taskId, "running");
   assert.equal(running?.status, "running");
@@ -193,7 +195,9 @@ test("redis: setTaskStatus transitions work correctly", async () => {
 
 test("redis: listTasks filters by status", async () => {
   const store = await makeStore();
+  await registerHealthyNode(store);
   await store.enqueueTask({ ...BASE_TASK, taskId: "t-list-1" });
+  await store.claimTask(BASE_NODE.nodeId);
   await store.enqueueTask({ ...BASE_TASK, taskId: "t-list-2" });
   await store.setTaskStatus("t-list-1", "done");
 
@@ -207,8 +211,10 @@ test("redis: listTasks filters by status", async () => {
 
 test("redis: listQueuedTasks and listRunningTasks", async () => {
   const store = await makeStore();
-  await store.enqueueTask({ ...BASE_TASK, taskId: "t-q1" });
+  await registerHealthyNode(store);
   await store.enqueueTask({ ...BASE_TASK, taskId: "t-r1" });
+  await store.claimTask(BASE_NODE.nodeId);
+  await store.enqueueTask({ ...BASE_TASK, taskId: "t-q1" });
   await store.setTaskStatus("t-r1", "running");
 
   const queued = await store.listQueuedTasks();
@@ -302,6 +308,7 @@ test("redis: requeueFromDlq restores task to queue", async () => {
   const store = await makeStore();
   await registerHealthyNode(store);
   await store.enqueueTask(BASE_TASK);
+  await store.claimTask(BASE_NODE.nodeId);
   await store.setTaskStatus(BASE_TASK.taskId, "failed");
 
   const entry = {
@@ -343,9 +350,9 @@ test("redis: requeueFromDlq returns false for unknown task", async () => {
   assert.equal(await store.requeueFromDlq("no-such-task"), false);
 });
 
-// ── Expired claim requeue ─────────────────────────────────────────────────
+// ── Expired leases ────────────────────────────────────────────────────────
 
-test("redis: expired claimed task is requeued on next claimTask call", async () => {
+test("redis: listExpiredLeases finds a lapsed claim and claiming leaves it", async () => {
   const store = await makeStore({ claimTtlMs: 1 }); // 1 ms TTL
   await registerHealthyNode(store, "node-exp");
 
@@ -358,9 +365,286 @@ test("redis: expired claimed task is requeued on next claimTask call", async ()
   // Wait for claim TTL to expire
   await new Promise((r) => setTimeout(r, 5));
 
-  // Next claimTask call triggers requeueExpiredClaims internally
-  const reclaimed = await store.claimTask("node-exp");
-  assert.ok(reclaimed);
-  assert.equal(reclaimed.taskId, "t-exp");
-  assert.equal(reclaimed.attempt, 2); // second attempt
+  // Claiming leaves lapsed leases to the timeout reaper.
+  assert.equal(await store.claimTask("node-exp"), null);
+  assert.deepEqual(
+    (await store.listExpiredLeases()).map((t) => t.taskId),
+    ["t-exp"]
+  );
+  assert.equal((await store.getTask("t-exp"))?.status, "claimed");
+});
+
+// ── Atomic claim ──────────────────────────────────────────────────────────
+
+test("redis: parallel claimers across replicas never receive the same task", async () => {
+  const store = await makeStore();
+  // ioredis-mock instances share state, so these behave like separate control-plane replicas
+  const replicas = [store, ...[1, 2, 3].map(() => new RedisControlPlaneStore(new RedisMock()))];
+
+  const nodeIds = ["node-p1", "node-p2", "node-p3", "node-p4"];
+  for (const nodeId of nodeIds) {
+    await store.upsertNode({
+      ...BASE_NODE,
+      nodeId,
+      capabilities: { tags: ["linux"], maxConcurrentTasks: 10 },
+    });
+    await store.setNodeTrust(nodeId, { trusted: true, revoked: false });
+    await store.setHeartbeat(nodeId, {
+      schemaVersion: "1.0",
+      nodeId,
+      ts: Date.now(),
+      status: "healthy",
+      load: 0,
+      runningTasks: 0,
+    });
+  }
+
+  const taskCount = 8;
+  for (let i = 0; i < taskCount; i++) {
+    await store.enqueueTask({ ...BASE_TASK, taskId: `t-par-${i}`, requiredTags: ["linux"] });
+  }
+
+  const claims = await Promise.all(
+    Array.from({ length: 24 }, (_, i) =>
+      replicas[i % replicas.length].claimTask(nodeIds[i % nodeIds.length])
+    )
+  );
+
+  const claimedIds = claims.filter((t) => t !== null).map((t) => t!.taskId);
+  assert.equal(claimedIds.length, taskCount);
+  assert.equal(new Set(claimedIds).size, taskCount, "no task may be claimed twice");
+  assert.equal((await store.listQueuedTasks()).length, 0);
+  for (const task of await store.listTasks("claimed")) assert.equal(task.attempt, 1);
+});
+
+test("redis: spread limits hold across replicas claiming at once", async () => {
+  const store = await makeStore();
+  const replicas = [store, new RedisControlPlaneStore(new RedisMock())];
+  const nodeIds = ["node-s1", "node-s2"];
+  for (const nodeId of nodeIds) {
+    await store.upsertNode({ ...BASE_NODE, nodeId, zone: "z1" });
+    await store.setNodeTrust(nodeId, { trusted: true, revoked: false });
+    await store.setHeartbeat(nodeId, {
+      schemaVersion: "1.0",
+      nodeId,
+      ts: Date.now(),
+      status: "healthy",
+      load: 0,
+      runningTasks: 0,
+    });
+  }
+  const placement = { spread: { group: "web", by: "zone" as const, maxPerDomain: 1 } };
+  for (const taskId of ["t-web-1", "t-web-2"]) {
+    await store.enqueueTask({ ...BASE_TASK, taskId, placement });
+  }
+
+  const claims = await Promise.all(nodeIds.map((id, i) => replicas[i].claimTask(id)));
+  const held = claims.filter((t) => t !== null);
+  assert.equal(held.length, 1, "one web task per zone");
+
+  // Finishing it frees the zone for the other node.
+  await store.setTaskStatus(held[0].taskId, "running");
+  await store.setTaskStatus(held[0].taskId, "done");
+  const other = nodeIds.find((id) => id !== held[0].assignedNodeId)!;
+  assert.ok(await store.claimTask(other));
+});
+
+test("redis: resource fit holds across replicas claiming at once", async () => {
+  const store = await makeStore();
+  const replica = new RedisControlPlaneStore(new RedisMock());
+  await registerHealthyNode(store, "node-gpu");
+  await store.upsertNode({
+    ...BASE_NODE,
+    nodeId: "node-gpu",
+    capabilities: { tags: [], maxConcurrentTasks: 4, resources: { gpu: 1, cpu: 2 } },
+  });
+  await store.setNodeTrust("node-gpu", { trusted: true, revoked: false });
+  for (const taskId of ["t-gpu-1", "t-gpu-2"]) {
+    await store.enqueueTask({ ...BASE_TASK, taskId, resources: { gpu: 1, cpu: 0.5 } });
+  }
+
+  const claims = await Promise.all([store, replica].map((s) => s.claimTask("node-gpu")));
+  const held = claims.filter((t) => t !== null);
+  assert.equal(held.length, 1, "one GPU, one task");
+
+  // Deleting the holder returns its resources.
+  await store.deleteTask(held[0].taskId);
+  assert.ok(await store.claimTask("node-gpu"));
+});
+
+test("redis: claim honours priority, targetNodeId and requiredTags", async () => {
+  const store = await makeStore();
+  await registerHealthyNode(store, "node-sel");
+
+  await store.enqueueTask({ ...BASE_TASK, taskId: "t-low", priority: 1 });
+  await store.enqueueTask({ ...BASE_TASK, taskId: "t-other-node", priority: 9, targetNodeId: "x" });
+  await store.enqueueTask({ ...BASE_TASK, taskId: "t-gpu", priority: 9, requiredTags: ["gpu"] });
+  await store.enqueueTask({ ...BASE_TASK, taskId: "t-high", priority: 5, requiredTags: [] });
+
+  assert.equal((await store.claimTask("node-sel"))?.taskId, "t-high");
+  assert.equal((await store.claimTask("node-sel"))?.taskId, "t-low");
+
+  const high = await store.getTask("t-high");
+  assert.deepEqual(high?.requiredTags, []);
+  assert.deepEqual(high?.payload, {});
+});
+
+// ── Secondary indexes ─────────────────────────────────────────────────────
+
+test("redis: status counts follow every transition", async () => {
+  const store = await makeStore();
+  await registerHealthyNode(store, "node-idx");
+
+  await store.enqueueTask({ ...BASE_TASK, taskId: "t-idx-1" });
+  await store.enqueueTask({ ...BASE_TASK, taskId: "t-idx-2" });
+  await store.enqueueTask({ ...BASE_TASK, taskId: "t-idx-3" });
+  // Re-enqueueing an existing id must not leave stale index entries behind
+  await store.enqueueTask({ ...BASE_TASK, taskId: "t-idx-3" });
+
+  await store.claimTask("node-idx");
+  await store.setTaskStatus("t-idx-1", "running");
+  await store.cancelTask("t-idx-2");
+
+  assert.deepEqual(await store.countTasksByStatus(), {
+    blocked: 0,
+    queued: 1,
+    claimed: 0,
+    running: 1,
+    done: 0,
+    failed: 0,
+    cancelled: 1,
+  });
+  assert.deepEqual(
+    (await store.listQueuedTasks()).map((t) => t.taskId),
+    ["t-idx-3"]
+  );
+
+  await store.requeueForRetry("t-idx-1", Date.now() + 60_000);
+  assert.equal((await store.claimTask("node-idx"))?.taskId, "t-idx-3");
+  await store.setTaskStatus("t-idx-3", "done");
+  const counts = await store.countTasksByStatus();
+  assert.equal(counts.queued, 1);
+  assert.equal(counts.running, 0);
+  assert.equal(counts.done, 1);
+  assert.deepEqual(
+    (await store.listTasks("queued")).map((t) => t.taskId),
+    ["t-idx-1"]
+  );
+});
+
+test("redis: finishing a task frees the node's active slot", async () => {
+  const store = await makeStore();
+  await store.upsertNode({
+    ...BASE_NODE,
+    nodeId: "node-slot",
+    capabilities: { tags: [], maxConcurrentTasks: 1 },
+  });
+  await store.setNodeTrust("node-slot", { trusted: true, revoked: false });
+  await store.setHeartbeat("node-slot", {
+    schemaVersion: "1.0",
+    nodeId: "node-slot",
+    ts: Date.now(),
+    status: "healthy",
+    load: 0,
+    runningTasks: 0,
+  });
+
+  await store.enqueueTask({ ...BASE_TASK, taskId: "t-slot-1" });
+  await store.enqueueTask({ ...BASE_TASK, taskId: "t-slot-2" });
+
+  assert.equal((await store.claimTask("node-slot"))?.taskId, "t-slot-1");
+  assert.equal(await store.claimTask("node-slot"), null);
+
+  await store.setTaskStatus("t-slot-1", "running");
+  assert.equal(await store.claimTask("node-slot"), null);
+
+  await store.setTaskStatus("t-slot-1", "done");
+  assert.equal((await store.claimTask("node-slot"))?.taskId, "t-slot-2");
+});
+
+test("redis: queue orders by priority then createdAt", async () => {
+  const store = await makeStore();
+  await registerHealthyNode(store, "node-ord");
+  const now = Date.now();
+
+  await store.enqueueTask({ ...BASE_TASK, taskId: "t-ord-late", createdAt: now + 10 });
+  await store.enqueueTask({ ...BASE_TASK, taskId: "t-ord-early", createdAt: now });
+  await store.enqueueTask({
+    ...BASE_TASK,
+    taskId: "t-ord-urgent",
+    createdAt: now + 20,
+    priority: 50,
+  });
+
+  assert.equal((await store.claimTask("node-ord"))?.taskId, "t-ord-urgent");
+  assert.equal((await store.claimTask("node-ord"))?.taskId, "t-ord-early");
+});
+
+test("redis: migrate converts the original string layout in place", async () => {
+  const mock = new RedisMock();
+  await mock.flushall();
+  // As the original adapter wrote them: JSON strings, a list queue, no indexes.
+  const legacy = [
+    { ...BASE_TASK, taskId: "t-old-queued" },
+    { ...BASE_TASK, taskId: "t-old-claimed", status: "claimed", assignedNodeId: "node-mig" },
+    { ...BASE_TASK, taskId: "t-old-blocked", status: "blocked", dependsOn: ["t-old-queued"] },
+  ];
+  for (const task of legacy) {
+    await mock.set(`task:${task.taskId}`, JSON.stringify(task));
+    await mock.sadd("tasks", task.taskId);
+  }
+  await mock.rpush("taskqueue", "t-old-queued");
+
+  const store = new RedisControlPlaneStore(mock);
+  assert.equal(await store.migrate(), 3);
+  assert.equal((await store.getTask("t-old-claimed"))?.assignedNodeId, "node-mig");
+  assert.deepEqual(
+    (await store.listDependentTasks("t-old-queued")).map((t) => t.taskId),
+    ["t-old-blocked"]
+  );
+  assert.deepEqual(await store.countTasksByStatus(), {
+    blocked: 1,
+    queued: 1,
+    claimed: 1,
+    running: 0,
+    done: 0,
+    failed: 0,
+    cancelled: 0,
+  });
+
+  // The migrated claimed task counts against concurrency limits.
+  await registerHealthyNode(store, "node-mig");
+  const limit = { schemaVersion: "1.0", scope: "kind", name: "echo", updatedAt: 1 } as const;
+  await store.saveConcurrencyLimit({ ...limit, max: 1 });
+  assert.equal(await store.claimTask("node-mig"), null);
+  await store.saveConcurrencyLimit({ ...limit, max: 2 });
+  assert.equal((await store.claimTask("node-mig"))?.taskId, "t-old-queued");
+  assert.equal(await store.migrate(), 0, "a migrated keyspace is left alone");
+});
+
+test("redis: claims read the queue in bounded windows", async () => {
+  const mock = new RedisMock();
+  await mock.flushall();
+  const store = new RedisControlPlaneStore(mock);
+  await registerHealthyNode(store, "node-win");
+  for (let i = 0; i < 150; i++) {
+    await store.enqueueTask({ ...BASE_TASK, taskId: `t-win-${i}`, createdAt: 1_000 + i });
+  }
+
+  let reads = 0;
+  const hgetall = mock.hgetall.bind(mock);
+  mock.hgetall = ((key: string) => {
+    reads++;
+    return hgetall(key);
+  }) as typeof mock.hgetall;
+  assert.equal((await store.claimTask("node-win"))?.taskId, "t-win-0");
+  assert.ok(reads <= 40, `read ${reads} tasks for one claim`);
+
+  // Past a head this node cannot take, later windows are read.
+  for (let i = 1; i < 150; i++) await store.deleteTask(`t-win-${i}`);
+  for (let i = 0; i < 40; i++) {
+    await store.enqueueTask({ ...BASE_TASK, taskId: `t-gpu-${i}`, requiredTags: ["gpu"] });
+  }
+  await store.enqueueTask({ ...BASE_TASK, taskId: "t-late", createdAt: Date.now() + 1 });
+  assert.equal((await store.claimTask("node-win"))?.taskId, "t-late");
 });
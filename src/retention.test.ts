@@ -0,0 +1,168 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import type { Task } from "./contracts.js";
+import { buildControlPlane } from "./control-plane.js";
+import { InMemoryControlPlaneStore } from "./persistence.js";
+import type { EdgeMeshEvent } from "./plugins/types.js";
+import {
+  pruneTerminalTasks,
+  retentionPolicyFromEnv,
+  startRetentionCompactor,
+} from "./control/retention-compactor.js";
+
+const HOUR = 3_600_000;
+
+async function addTask(
+  store: InMemoryControlPlaneStore,
+  taskId: string,
+  status: Task["status"],
+  finishedAgoMs?: number
+) {
+  await store.enqueueTask({
+    schemaVersion: "1.0",
+    taskId,
+    kind: "echo",
+    payload: {},
+    status,
+    createdAt: Date.now() - 2 * HOUR,
+  });
+  if (finishedAgoMs !== undefined) {
+    await store.setTaskResult({
+      schemaVersion: "1.0",
+      taskId,
+      nodeId: "node-x",
+      ok: status === "done",
+      finishedAt: Date.now() - finishedAgoMs,
+    });
+  }
+}
+
+function collector() {
+  const events: EdgeMeshEvent[] = [];
+  return { events, ctx: { emit: (event: EdgeMeshEvent) => events.push(event) } };
+}
+
+test("retention: prunes terminal tasks by age and by count per status", async () => {
+  const store = new InMemoryControlPlaneStore();
+  await addTask(store, "done-old", "done", HOUR);
+  await addTask(store, "done-new-1", "done", 1_000);
+  await addTask(store, "done-new-2", "done", 2_000);
+  await addTask(store, "done-new-3", "done", 3_000);
+  await addTask(store, "cancelled-old", "cancelled"); // no result: aged from createdAt
+  await addTask(store, "queued-old", "queued");
+  await addTask(store, "running-old", "running");
+
+  const { events, ctx } = collector();
+  const stats = await pruneTerminalTasks(store, ctx, {
+    maxAgeMs: { done: 10 * 60_000, cancelled: HOUR },
+    maxCount: { done: 2 },
+  });
+
+  assert.deepEqual(stats, { tasks: 3, dlq: 0 });
+  assert.deepEqual((await store.listTasks()).map((t) => t.taskId).sort(), [
+    "done-new-1",
+    "done-new-2",
+    "queued-old",
+    "running-old",
+  ]);
+  assert.equal(await store.getTaskResult("done-old"), undefined);
+
+  const pruned = events.filter((e) => e.type === "task.pruned");
+  assert.deepEqual(pruned.map((e) => [e.taskId, e.detail?.reason]).sort(), [
+    ["cancelled-old", "age"],
+    ["done-new-3", "count"],
+    ["done-old", "count"],
+  ]);
+});
+
+test("retention: failed tasks in the DLQ are kept until their entry expires", async () => {
+  const store = new InMemoryControlPlaneStore();
+  for (const [taskId, enqueuedAgo] of [
+    ["dead-fresh", 1_000],
+    ["dead-stale", 2 * HOUR],
+  ] as const) {
+    await addTask(store, taskId, "failed", HOUR);
+    await store.enqueueDlq({
+      schemaVersion: "1.0",
+      taskId,
+      task: (await store.getTask(taskId))!,
+      lastResult: (await store.getTaskResult(taskId))!,
+      reason: "max_attempts_exhausted",
+      enqueuedAt: Date.now() - enqueuedAgo,
+    });
+  }
+
+  const { events, ctx } = collector();
+  const stats = await pruneTerminalTasks(store, ctx, {
+    maxAgeMs: { failed: 60_000 },
+    dlqMaxAgeMs: HOUR,
+  });
+
+  assert.deepEqual(stats, { tasks: 1, dlq: 1 });
+  assert.deepEqual(
+    (await store.listDlq()).map((e) => e.taskId),
+    ["dead-fresh"]
+  );
+  assert.ok(await store.getTask("dead-fresh"));
+  assert.equal(await store.getTask("dead-stale"), undefined);
+  assert.deepEqual(
+    events.map((e) => [e.type, e.taskId]),
+    [
+      ["dlq.pruned", "dead-stale"],
+      ["task.pruned", "dead-stale"],
+    ]
+  );
+});
+
+test("retention: policy from env applies to every terminal status", () => {
+  assert.equal(retentionPolicyFromEnv({}), null);
+  assert.deepEqual(
+    retentionPolicyFromEnv({ EDGEMESH_RETENTION_MAX_COUNT: "100", EDGEMESH_DLQ_MAX_AGE_MS: "5" }),
+    {
+      maxAgeMs: undefined,
+      maxCount: { done: 100, failed: 100, cancelled: 100 },
+      dlqMaxAgeMs: 5,
+    }
+  );
+  assert.throws(
+    () => retentionPolicyFromEnv({ EDGEMESH_RETENTION_MAX_AGE_MS: "soon" }),
+    /invalid retention setting/
+  );
+});
+
+test("retention compactor runs in the control plane and feeds /metrics", async () => {
+  const store = new InMemoryControlPlaneStore();
+  await addTask(store, "done-1", "done", 1_000);
+  await addTask(store, "done-2", "done", 2_000);
+
+  const app = buildControlPlane(store, {
+    retention: { maxCount: { done: 1 } },
+    retentionIntervalMs: 20,
+  });
+  await app.ready();
+  await new Promise((r) => setTimeout(r, 100));
+
+  assert.deepEqual(
+    (await store.listTasks()).map((t) => t.taskId),
+    ["done-1"]
+  );
+  const metrics = await app.inject({ method: "GET", url: "/metrics" });
+  assert.match(metrics.body, /edgemesh_tasks_pruned_total 1/);
+  assert.match(metrics.body, /edgemesh_dlq_pruned_total 0/);
+  await app.close();
+});
+
+test("retention compactor logs a failed pass and keeps running", async () => {
+  const store = new InMemoryControlPlaneStore();
+  store.listDlq = async () => {
+    throw new Error("store unavailable");
+  };
+  const errors: unknown[] = [];
+  const log = { error: (obj: unknown) => errors.push(obj) };
+
+  const handle = startRetentionCompactor(store, { emit: () => {} }, log, { maxCount: {} }, 10);
+  await new Promise((r) => setTimeout(r, 60));
+  clearInterval(handle);
+  assert.ok(errors.length >= 2, "every failed tick is logged");
+  assert.match(String((errors[0] as { err: Error }).err), /store unavailable/);
+});
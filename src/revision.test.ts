@@ -0,0 +1,165 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import type { Task } from "./contracts.js";
+import { buildControlPlane } from "./control-plane.js";
+import { InMemoryControlPlaneStore } from "./persistence.js";
+
+/** Runs `race` right after the next getTask read, before the caller writes. */
+class RacingStore extends InMemoryControlPlaneStore {
+  race?: () => Promise<unknown>;
+
+  override async getTask(taskId: string): Promise<Task | undefined> {
+    const task = await super.getTask(taskId);
+    const race = this.race;
+    this.race = undefined;
+    if (race) await race();
+    return task;
+  }
+}
+
+async function setup(taskId: string) {
+  const store = new RacingStore();
+  const app = buildControlPlane(store);
+  await app.ready();
+
+  const reg = await app.inject({
+    method: "POST",
+    url: "/v1/nodes/register",
+    headers: { "x-bootstrap-token": "bootstrap-dev" },
+    payload: {
+      schemaVersion: "1.0",
+      nodeId: "node-rev",
+      capabilities: { tags: ["linux"], maxConcurrentTasks: 2 },
+    },
+  });
+  const nodeToken = reg.json().token as string;
+  await app.inject({
+    method: "POST",
+    url: "/v1/nodes/node-rev/heartbeat",
+    headers: { authorization: `Bearer ${nodeToken}` },
+    payload: {
+      schemaVersion: "1.0",
+      nodeId: "node-rev",
+      ts: Date.now(),
+      status: "healthy",
+      load: 0,
+      runningTasks: 0,
+    },
+  });
+
+  const jobToken = await app.inject({
+    method: "POST",
+    url: "/v1/auth/job-token",
+    headers: { "x-admin-token": "admin-dev" },
+    payload: { jobId: taskId, ttlMs: 60_000 },
+  });
+  await app.inject({
+    method: "POST",
+    url: "/v1/tasks",
+    headers: { authorization: `Bearer ${jobToken.json().token}` },
+    payload: { taskId, kind: "echo", payload: {} },
+  });
+  const claim = await app.inject({
+    method: "POST",
+    url: "/v1/nodes/node-rev/tasks/claim",
+    headers: { authorization: `Bearer ${nodeToken}` },
+  });
+  assert.equal(claim.json().task.revision, 2);
+
+  return { app, store, nodeToken };
+}
+
+test("result that loses a race with cancel gets 409 and is not stored", async () => {
+  const { app, store, nodeToken } = await setup("task-rev-1");
+
+  store.race = () => store.cancelTask("task-rev-1");
+  const res = await app.inject({
+    method: "POST",
+    url: "/v1/tasks/task-rev-1/result",
+    headers: { authorization: `Bearer ${nodeToken}` },
+    payload: {
+      schemaVersion: "1.0",
+      taskId: "task-rev-1",
+      nodeId: "node-rev",
+      ok: true,
+      finishedAt: Date.now(),
+    },
+  });
+  assert.equal(res.statusCode, 409);
+  assert.deepEqual(res.json(), {
+    ok: false,
+    error: "revision_conflict",
+    taskId: "task-rev-1",
+    expectedRevision: 2,
+    revision: 3,
+  });
+
+  const task = await app.inject({ method: "GET", url: "/v1/tasks/task-rev-1" });
+  assert.equal(task.json().task.status, "cancelled");
+  assert.equal(task.json().task.revision, 3);
+  assert.equal(task.json().result, null);
+  await app.close();
+});
+
+test("cancel that loses a race with a result gets 409", async () => {
+  const { app, store } = await setup("task-rev-2");
+
+  store.race = () => store.setTaskStatus("task-rev-2", "done");
+  const res = await app.inject({
+    method: "POST",
+    url: "/v1/tasks/task-rev-2/cancel",
+    headers: { "x-admin-token": "admin-dev" },
+  });
+  assert.equal(res.statusCode, 409);
+  assert.equal(res.json().error, "revision_conflict");
+  assert.equal((await store.getTask("task-rev-2"))?.status, "done");
+  await app.close();
+});
+
+test("ack that races a requeue gets 409 instead of resurrecting the claim", async () => {
+  const { app, store, nodeToken } = await setup("task-rev-3");
+
+  store.race = () => store.requeueForRetry("task-rev-3", Date.now());
+  const res = await app.inject({
+    method: "POST",
+    url: "/v1/tasks/task-rev-3/ack",
+    headers: { authorization: `Bearer ${nodeToken}` },
+  });
+  assert.equal(res.statusCode, 409);
+  assert.equal((await store.getTask("task-rev-3"))?.status, "queued");
+  await app.close();
+});
+
+test("a heartbeat renewing the lease between read and write does not fail the result", async () => {
+  const { app, store, nodeToken } = await setup("task-rev-4");
+
+  store.race = () =>
+    app.inject({
+      method: "POST",
+      url: "/v1/nodes/node-rev/heartbeat",
+      headers: { authorization: `Bearer ${nodeToken}` },
+      payload: {
+        schemaVersion: "1.0",
+        nodeId: "node-rev",
+        ts: Date.now(),
+        status: "healthy",
+        load: 0,
+        runningTasks: 1,
+      },
+    });
+  const res = await app.inject({
+    method: "POST",
+    url: "/v1/tasks/task-rev-4/result",
+    headers: { authorization: `Bearer ${nodeToken}` },
+    payload: {
+      schemaVersion: "1.0",
+      taskId: "task-rev-4",
+      nodeId: "node-rev",
+      ok: true,
+      finishedAt: Date.now(),
+    },
+  });
+  assert.equal(res.statusCode, 200);
+  assert.equal((await store.getTask("task-rev-4"))?.status, "done");
+  await app.close();
+});
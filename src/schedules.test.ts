@@ -0,0 +1,284 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { buildControlPlane } from "./control-plane.js";
+import type { Schedule } from "./contracts.js";
+import { InMemoryControlPlaneStore } from "./persistence.js";
+import type { EdgeMeshEvent } from "./plugins/types.js";
+import { InvalidCronError, nextCronTime, parseCron } from "./control/cron.js";
+import { runDueSchedules, startScheduler } from "./control/schedules.js";
+
+// ── Helpers ────────────────────────────────────────────────────────────────
+
+const MINUTE = 60_000;
+// Thursday 2026-01-01 00:00 UTC
+const T0 = Date.UTC(2026, 0, 1);
+
+function collector() {
+  const events: EdgeMeshEvent[] = [];
+  return { events, ctx: { emit: (event: EdgeMeshEvent) => events.push(event) } };
+}
+
+const next = (expression: string, after: number) => nextCronTime(parseCron(expression), after);
+
+/** Every ten minutes, first due at T0. */
+async function addSchedule(store: InMemoryControlPlaneStore, extra: Partial<Schedule> = {}) {
+  await store.saveSchedule({
+    schemaVersion: "1.0",
+    scheduleId: "s-1",
+    cron: "*/10 * * * *",
+    task: { kind: "echo", payload: { from: "schedule" }, priority: 5 },
+    overlap: "queue",
+    catchUp: "latest",
+    createdAt: T0 - MINUTE,
+    nextRunAt: T0,
+    ...extra,
+  });
+}
+
+const taskIds = async (store: InMemoryControlPlaneStore) =>
+  (await store.listTasks()).map((t) => t.taskId).sort();
+
+// ── Cron ───────────────────────────────────────────────────────────────────
+
+test("cron: steps, ranges and names", () => {
+  assert.equal(next("*/15 * * * *", T0 + 7 * MINUTE), T0 + 15 * MINUTE);
+  assert.equal(next("*/15 * * * *", T0 + 15 * MINUTE), T0 + 30 * MINUTE);
+  // Saturday 10:00 -> Monday 09:00
+  assert.equal(next("0 9 * * mon-fri", Date.UTC(2026, 0, 3, 10)), Date.UTC(2026, 0, 5, 9));
+  assert.equal(next("30 4 1 jan,jul *", T0), Date.UTC(2026, 0, 1, 4, 30));
+  assert.equal(next("@hourly", T0 + 59 * MINUTE + 59_999), T0 + 60 * MINUTE);
+  assert.equal(next("0 0 29 2 *", Date.UTC(2026, 2, 1)), Date.UTC(2028, 1, 29));
+});
+
+test("cron: restricted day-of-month and day-of-week fire on either", () => {
+  // The 13th, or any Friday: Friday 2026-01-02 comes first.
+  assert.equal(next("0 0 13 * fri", T0), Date.UTC(2026, 0, 2));
+  assert.equal(next("0 0 13 * 7", Date.UTC(2026, 0, 9)), Date.UTC(2026, 0, 11));
+});
+
+test("cron: bad expressions are rejected, impossible dates never fire", () => {
+  for (const bad of ["61 * * * *", "* * *", "*/0 * * * *", "5-1 * * * *", "* * * foo *"]) {
+    assert.throws(() => parseCron(bad), InvalidCronError, bad);
+  }
+  assert.equal(next("0 0 30 2 *", T0), undefined);
+});
+
+// ── Materialization ────────────────────────────────────────────────────────
+
+test("runDueSchedules materializes a due tick and advances the schedule", async () => {
+  const store = new InMemoryControlPlaneStore();
+  const { events, ctx } = collector();
+  await addSchedule(store);
+
+  assert.equal(await runDueSchedules(store, ctx, T0 - 1), 0);
+  assert.equal(await runDueSchedules(store, ctx, T0 + 5_000), 1);
+  assert.equal(await runDueSchedules(store, ctx, T0 + 6_000), 0);
+
+  const task = await store.getTask(`s-1-${T0}`);
+  assert.equal(task?.status, "queued");
+  assert.equal(task?.scheduleId, "s-1");
+  assert.equal(task?.priority, 5);
+  assert.deepEqual(task?.payload, { from: "schedule" });
+
+  const schedule = await store.getSchedule("s-1");
+  assert.equal(schedule?.nextRunAt, T0 + 10 * MINUTE);
+  assert.equal(schedule?.lastRunAt, T0);
+  assert.equal(schedule?.lastTaskId, `s-1-${T0}`);
+  assert.deepEqual(events[0].detail, { scheduleId: "s-1", scheduledAt: T0 });
+});
+
+test("runDueSchedules applies catchUp to ticks missed during downtime", async () => {
+  // Down from T0 until T0+35m: ticks at 0, 10, 20 and 30 were missed.
+  const now = T0 + 35 * MINUTE;
+  const expected: Record<Schedule["catchUp"], string[]> = {
+    none: [],
+    latest: [`s-1-${T0 + 30 * MINUTE}`],
+    all: [0, 10, 20, 30].map((m) => `s-1-${T0 + m * MINUTE}`),
+  };
+  for (const catchUp of ["none", "latest", "all"] as const) {
+    const store = new InMemoryControlPlaneStore();
+    await addSchedule(store, { catchUp });
+    await runDueSchedules(store, collector().ctx, now);
+    assert.deepEqual(await taskIds(store), expected[catchUp].sort(), catchUp);
+    assert.equal((await store.getSchedule("s-1"))?.nextRunAt, T0 + 40 * MINUTE, catchUp);
+  }
+
+  // A tick within the grace period is on time, not missed.
+  const store = new InMemoryControlPlaneStore();
+  await addSchedule(store, { catchUp: "none" });
+  await runDueSchedules(store, collector().ctx, T0 + 30_000);
+  assert.deepEqual(await taskIds(store), [`s-1-${T0}`]);
+});
+
+test("runDueSchedules overlap policies against an unfinished previous run", async () => {
+  const first = `s-1-${T0}`;
+  const second = `s-1-${T0 + 10 * MINUTE}`;
+  for (const overlap of ["skip", "queue", "cancel-previous"] as const) {
+    const store = new InMemoryControlPlaneStore();
+    const { events, ctx } = collector();
+    await addSchedule(store, { overlap });
+    await runDueSchedules(store, ctx, T0);
+    await runDueSchedules(store, ctx, T0 + 10 * MINUTE);
+
+    const statuses = Object.fromEntries((await store.listTasks()).map((t) => [t.taskId, t.status]));
+    if (overlap === "skip") {
+      assert.deepEqual(statuses, { [first]: "queued" });
+      assert.equal(events.at(-1)?.type, "schedule.skipped");
+      assert.equal((await store.getSchedule("s-1"))?.lastTaskId, first);
+    } else if (overlap === "queue") {
+      assert.deepEqual(statuses, { [first]: "queued", [second]: "queued" });
+    } else {
+      assert.deepEqual(statuses, { [first]: "cancelled", [second]: "queued" });
+      const cancelled = events.find((e) => e.type === "task.cancelled");
+      assert.equal(cancelled?.detail?.reason, "schedule_overlap");
+    }
+    assert.equal((await store.getSchedule("s-1"))?.nextRunAt, T0 + 20 * MINUTE);
+  }
+});
+
+test("runDueSchedules fires a tick once even when passes race", async () => {
+  const store = new InMemoryControlPlaneStore();
+  await addSchedule(store);
+  const { ctx } = collector();
+  const counts = await Promise.all([
+    runDueSchedules(store, ctx, T0),
+    runDueSchedules(store, ctx, T0),
+  ]);
+  assert.equal(counts[0] + counts[1], 1);
+  assert.deepEqual(await taskIds(store), [`s-1-${T0}`]);
+});
+
+// ── Routes ─────────────────────────────────────────────────────────────────
+
+test("/v1/schedules: create, read, replace and delete", async () => {
+  const app = buildControlPlane(undefined, { scheduleIntervalMs: 60_000 });
+  const body = {
+    scheduleId: "nightly",
+    cron: "0 2 * * *",
+    task: { kind: "echo", payload: { job: "backup" } },
+    overlap: "cancel-previous",
+  };
+
+  const anon = await app.inject({ method: "POST", url: "/v1/schedules", payload: body });
+  assert.equal(anon.statusCode, 401);
+
+  const created = await app.inject({
+    method: "POST",
+    url: "/v1/schedules",
+    headers: { "x-admin-token": "admin-dev" },
+    payload: body,
+  });
+  assert.equal(created.statusCode, 200);
+  const schedule = created.json().schedule;
+  assert.equal(schedule.overlap, "cancel-previous");
+  assert.equal(schedule.catchUp, "latest");
+  assert.equal(new Date(schedule.nextRunAt).getUTCHours(), 2);
+  assert.ok(schedule.nextRunAt > Date.now());
+
+  const replaced = await app.inject({
+    method: "POST",
+    url: "/v1/schedules",
+    headers: { "x-admin-token": "admin-dev" },
+    payload: { ...body, cron: "@hourly" },
+  });
+  assert.equal(replaced.json().schedule.revision, 2);
+  assert.equal(replaced.json().schedule.createdAt, schedule.createdAt);
+
+  const list = await app.inject({ method: "GET", url: "/v1/schedules" });
+  assert.deepEqual(
+    list.json().schedules.map((s: Schedule) => [s.scheduleId, s.cron]),
+    [["nightly", "@hourly"]]
+  );
+
+  const del = () =>
+    app.inject({
+      method: "DELETE",
+      url: "/v1/schedules/nightly",
+      headers: { "x-admin-token": "admin-dev" },
+    });
+  assert.equal((await del()).statusCode, 200);
+  assert.equal((await del()).statusCode, 404);
+  const gone = await app.inject({ method: "GET", url: "/v1/schedules/nightly" });
+  assert.equal(gone.json().error, "schedule_not_found");
+  await app.close();
+});
+
+test("/v1/schedules rejects cron expressions that do not parse or never fire", async () => {
+  const app = buildControlPlane(undefined, { scheduleIntervalMs: 60_000 });
+  for (const cron of ["every day", "0 0 30 2 *"]) {
+    const res = await app.inject({
+      method: "POST",
+      url: "/v1/schedules",
+      headers: { "x-admin-token": "admin-dev" },
+      payload: { scheduleId: "bad", cron, task: { kind: "echo", payload: {} } },
+    });
+    assert.equal(res.statusCode, 400, cron);
+    assert.equal(res.json().error, "invalid_cron");
+  }
+  await app.close();
+});
+
+test("a task with a future runAt is not claimable yet", async () => {
+  const app = buildControlPlane();
+  const reg = await app.inject({
+    method: "POST",
+    url: "/v1/nodes/register",
+    headers: { "x-bootstrap-token": "bootstrap-dev" },
+    payload: {
+      schemaVersion: "1.0",
+      nodeId: "n-run",
+      capabilities: { tags: [], maxConcurrentTasks: 2 },
+    },
+  });
+  const nodeToken = reg.json().token as string;
+  await app.inject({
+    method: "POST",
+    url: "/v1/nodes/n-run/heartbeat",
+    headers: { authorization: `Bearer ${nodeToken}` },
+    payload: {
+      schemaVersion: "1.0",
+      nodeId: "n-run",
+      ts: Date.now(),
+      status: "healthy",
+      load: 0,
+      runningTasks: 0,
+    },
+  });
+  const jt = await app.inject({
+    method: "POST",
+    url: "/v1/auth/job-token",
+    headers: { "x-admin-token": "admin-dev" },
+    payload: { jobId: "later", ttlMs: 60_000 },
+  });
+  await app.inject({
+    method: "POST",
+    url: "/v1/tasks",
+    headers: { authorization: `Bearer ${jt.json().token as string}` },
+    payload: { taskId: "later", kind: "echo", payload: {}, runAt: Date.now() + 60 * MINUTE },
+  });
+
+  const claim = await app.inject({
+    method: "POST",
+    url: "/v1/nodes/n-run/tasks/claim",
+    headers: { authorization: `Bearer ${nodeToken}` },
+  });
+  assert.equal(claim.json().task, null);
+  const task = await app.inject({ method: "GET", url: "/v1/tasks/later" });
+  assert.equal(task.json().task.status, "queued");
+  await app.close();
+});
+
+test("scheduler logs a failed pass and keeps running", async () => {
+  const store = new InMemoryControlPlaneStore();
+  store.listSchedules = async () => {
+    throw new Error("store unavailable");
+  };
+  const errors: unknown[] = [];
+  const log = { error: (obj: unknown) => errors.push(obj) };
+
+  const handle = startScheduler(store, collector().ctx, log, 10);
+  await new Promise((r) => setTimeout(r, 60));
+  clearInterval(handle);
+  assert.ok(errors.length >= 2, "every failed tick is logged");
+  assert.match(String((errors[0] as { err: Error }).err), /store unavailable/);
+});
@@ -1,7 +1,17 @@
 import test from "node:test";
 import assert from "node:assert/strict";
+import type { RegisterNodeRequest, Task } from "./contracts.js";
 import { buildControlPlane } from "./control-plane.js";
+import { InMemoryControlPlaneStore } from "./persistence.js";
 import { NodeJwtManager } from "./security.js";
+import {
+  agingFromEnv,
+  effectivePriority,
+  rankCandidates,
+  schedulingFromEnv,
+  shortestExpectedRuntime,
+  weightedPriority,
+} from "./control/scheduling.js";
 
 // Short-lived JWT so tests don't depend on global secret
 const jwtMgr = new NodeJwtManager("sched-test-secret");
@@ -46,7 +56,12 @@ async function heartbeat(app: ReturnType<typeof buildControlPlane>, nodeId: stri
 async function enqueueTask(
   app: ReturnType<typeof buildControlPlane>,
   taskId: string,
-  options: { priority?: number; requiredTags?: string[]; maxAttempts?: number } = {}
+  options: {
+    priority?: number;
+    requiredTags?: string[];
+    maxAttempts?: number;
+    expectedRuntimeMs?: number;
+  } = {}
 ) {
   const tokenRes = await app.inject({
     method: "POST",
@@ -68,6 +83,7 @@ async function enqueueTask(
       requiredTags: options.requiredTags ?? ["linux"],
       priority: options.priority,
       maxAttempts: options.maxAttempts,
+      expectedRuntimeMs: options.expectedRuntimeMs,
     },
   });
   assert.equal(res.statusCode, 200);
@@ -159,6 +175,161 @@ test("priority is mixed with tag filtering — highest eligible wins", async ()
   await app.close();
 });
 
+// ── Scheduling strategies ──────────────────────────────────────────────────
+
+const NODE: RegisterNodeRequest = {
+  schemaVersion: "1.0",
+  nodeId: "rank-node",
+  capabilities: { tags: [], maxConcurrentTasks: 1 },
+};
+
+function rankTask(taskId: string, extra: Partial<Task> = {}): Task {
+  return {
+    schemaVersion: "1.0",
+    taskId,
+    kind: "echo",
+    payload: {},
+    status: "queued",
+    createdAt: 0,
+    ...extra,
+  };
+}
+
+test("shortest-expected-runtime store claims quick tasks first", async () => {
+  const store = new InMemoryControlPlaneStore({
+    scheduling: { strategy: shortestExpectedRuntime },
+  });
+  const app = buildControlPlane(store, { nodeJwtManager: jwtMgr });
+  await app.ready();
+
+  const token = await registerNode(app, "sched-node-sert");
+  await heartbeat(app, "sched-node-sert", token);
+
+  await enqueueTask(app, "unknown-runtime", { priority: 50 });
+  await enqueueTask(app, "slow", { expectedRuntimeMs: 60_000 });
+  await enqueueTask(app, "quick", { expectedRuntimeMs: 200 });
+
+  assert.equal(await claimTask(app, "sched-node-sert", token), "quick");
+  assert.equal(await claimTask(app, "sched-node-sert", token), "slow");
+  assert.equal(await claimTask(app, "sched-node-sert", token), "unknown-runtime");
+
+  await app.close();
+});
+
+test("weighted-priority draws priority levels in proportion to their weight", () => {
+  const candidates = [
+    rankTask("low-1", { createdAt: 1 }),
+    rankTask("low-2", { createdAt: 2 }),
+    rankTask("high-1", { priority: 3, createdAt: 3 }),
+  ];
+  // Weights are 4 (priority 3) and 1 (priority 0): rolls below 0.8 go to priority 3.
+  const rolls = [0.9, 0.1, 0.5];
+  const strategy = weightedPriority({ random: () => rolls.shift()! });
+
+  const ranked = strategy.rank(candidates, { node: NODE, now: 0 });
+  assert.deepEqual(
+    ranked.map((t) => t.taskId),
+    ["low-1", "high-1", "low-2"]
+  );
+});
+
+test("rankCandidates defaults to strict priority with FIFO tiebreak", () => {
+  const ranked = rankCandidates(
+    [
+      rankTask("b", { createdAt: 2 }),
+      rankTask("a", { createdAt: 1 }),
+      rankTask("urgent", { priority: 9, createdAt: 3 }),
+    ],
+    undefined,
+    { node: NODE, now: 0 }
+  );
+  assert.deepEqual(
+    ranked.map((t) => t.taskId),
+    ["urgent", "a", "b"]
+  );
+});
+
+test("priority aging lets a long-waiting task overtake fresher urgent ones", () => {
+  const candidates = [
+    rankTask("urgent", { priority: 5, createdAt: 9_000 }),
+    rankTask("starved", { createdAt: 0 }),
+    rankTask("delayed", { createdAt: 0, runAt: 8_000 }),
+  ];
+  const ctx = { node: NODE, now: 10_000 };
+
+  // One point per second waited: starved is at 0 + 10, delayed at 0 + 2.
+  const aged = rankCandidates(candidates, { aging: { stepMs: 1_000 } }, ctx);
+  assert.deepEqual(
+    aged.map((t) => t.taskId),
+    ["starved", "urgent", "delayed"]
+  );
+  const capped = rankCandidates(candidates, { aging: { stepMs: 1_000, maxBoost: 3 } }, ctx);
+  assert.deepEqual(
+    capped.map((t) => t.taskId),
+    ["urgent", "starved", "delayed"]
+  );
+  assert.equal(effectivePriority(candidates[1], { stepMs: 1_000, maxBoost: 3 }, 10_000), 3);
+  assert.equal(candidates[1].priority, undefined, "stored priority is untouched");
+});
+
+test("GET /v1/tasks/queue shows effective priority and /metrics the starvation age", async () => {
+  const store = new InMemoryControlPlaneStore({ scheduling: { aging: { stepMs: 20 } } });
+  const app = buildControlPlane(store, { nodeJwtManager: jwtMgr });
+  await enqueueTask(app, "old", { priority: 1 });
+  await new Promise((r) => setTimeout(r, 100));
+  await enqueueTask(app, "new", { priority: 3 });
+
+  const queue = (await app.inject({ method: "GET", url: "/v1/tasks/queue" })).json().tasks;
+  const old = queue.find((t: { taskId: string }) => t.taskId === "old");
+  assert.equal(old.priority, 1);
+  assert.ok(old.effectivePriority >= 6, `effectivePriority ${old.effectivePriority}`);
+
+  const metrics = (await app.inject({ method: "GET", url: "/metrics" })).body;
+  const age = Number(/^edgemesh_queue_starvation_age_seconds (\S+)$/m.exec(metrics)?.[1]);
+  assert.ok(age >= 0.1 && age < 10, `starvation age ${age}`);
+
+  const token = await registerNode(app, "sched-node-aging");
+  await heartbeat(app, "sched-node-aging", token);
+  assert.equal(await claimTask(app, "sched-node-aging", token), "old");
+  await app.close();
+});
+
+test("priority aging is configurable from env", () => {
+  assert.equal(agingFromEnv({}), undefined);
+  assert.deepEqual(agingFromEnv({ EDGEMESH_PRIORITY_AGING_MS: "30000" }), { stepMs: 30_000 });
+  assert.deepEqual(
+    schedulingFromEnv({ EDGEMESH_PRIORITY_AGING_MS: "30000", EDGEMESH_PRIORITY_AGING_MAX: "20" })
+      ?.aging,
+    { stepMs: 30_000, maxBoost: 20 }
+  );
+  assert.throws(() => agingFromEnv({ EDGEMESH_PRIORITY_AGING_MS: "0" }), /invalid/);
+  assert.throws(() => agingFromEnv({ EDGEMESH_PRIORITY_AGING_MAX: "5" }), /requires/);
+});
+
+test("scheduling strategies are selectable from env, globally and per queue", () => {
+  assert.equal(schedulingFromEnv({}), undefined);
+  const config = schedulingFromEnv({
+    EDGEMESH_SCHEDULING: "fifo",
+    EDGEMESH_QUEUE_SCHEDULING: "batch=weighted-priority, interactive=shortest-expected-runtime",
+  });
+  assert.equal(config?.strategy?.name, "fifo");
+  assert.deepEqual(
+    Object.entries(config?.queues ?? {}).map(([queue, s]) => [queue, s.name]),
+    [
+      ["batch", "weighted-priority"],
+      ["interactive", "shortest-expected-runtime"],
+    ]
+  );
+  assert.throws(
+    () => schedulingFromEnv({ EDGEMESH_SCHEDULING: "random" }),
+    /unknown scheduling strategy: random/
+  );
+  assert.throws(
+    () => schedulingFromEnv({ EDGEMESH_QUEUE_SCHEDULING: "batch" }),
+    /invalid EDGEMESH_QUEUE_SCHEDULING entry/
+  );
+});
+
 // ── Per-node stats ─────────────────────────────────────────────────────────
 
 test("GET /v1/nodes/:nodeId/stats returns 404 for unknown node", async () => {
@@ -253,3 +424,38 @@ test("GET /v1/nodes/:nodeId/stats successRatio is null when no terminal tasks",
 
   await app.close();
 });
+
+test("GET /v1/nodes/:nodeId/stats reports allocated and free resources", async () => {
+  const store = new InMemoryControlPlaneStore();
+  const app = buildControlPlane(store, { nodeJwtManager: jwtMgr });
+  const reg = await app.inject({
+    method: "POST",
+    url: "/v1/nodes/register",
+    headers: { "x-bootstrap-token": "bootstrap-dev" },
+    payload: {
+      schemaVersion: "1.0",
+      nodeId: "sched-node-res",
+      capabilities: {
+        tags: ["linux"],
+        maxConcurrentTasks: 4,
+        resources: { cpu: 4000, memoryMb: 8192, gpu: 1 },
+      },
+    },
+  });
+  await heartbeat(app, "sched-node-res", reg.json().token);
+  await store.enqueueTask({
+    ...rankTask("build"),
+    resources: { cpu: 3000, memoryMb: 4096 },
+  });
+  await store.enqueueTask({ ...rankTask("render"), resources: { cpu: 2000, gpu: 1 } });
+  assert.equal(await claimTask(app, "sched-node-res", reg.json().token), "build");
+  assert.equal(await claimTask(app, "sched-node-res", reg.json().token), null);
+
+  const res = await app.inject({ method: "GET", url: "/v1/nodes/sched-node-res/stats" });
+  assert.deepEqual(res.json().resources, {
+    capacity: { cpu: 4000, memoryMb: 8192, gpu: 1 },
+    allocated: { cpu: 3000, memoryMb: 4096 },
+    free: { cpu: 1000, memoryMb: 4096, gpu: 1 },
+  });
+  await app.close();
+});
@@ -0,0 +1,249 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { SqliteControlPlaneStore, sqliteAvailable } from "./persistence/sqlite-adapter.js";
+
+const skip = sqliteAvailable ? false : "node:sqlite requires Node.js 22.5+";
+
+function makeStore(options?: { claimTtlMs?: number }) {
+  return new SqliteControlPlaneStore(":memory:", options);
+}
+
+const BASE_TASK = {
+  schemaVersion: "1.0" as const,
+  taskId: "task-s1",
+  kind: "echo",
+  payload: {},
+  status: "queued" as const,
+  createdAt: Date.now(),
+};
+
+async function registerHealthyNode(
+  store: SqliteControlPlaneStore,
+  nodeId: string,
+  capabilities = { tags: ["linux"], maxConcurrentTasks: 2 }
+) {
+  await store.upsertNode({ schemaVersion: "1.0", nodeId, capabilities });
+  await store.setNodeTrust(nodeId, { trusted: true, revoked: false });
+  await store.setHeartbeat(nodeId, {
+    schemaVersion: "1.0",
+    nodeId,
+    ts: Date.now(),
+    status: "healthy",
+    load: 0,
+    runningTasks: 0,
+  });
+}
+
+test("sqlite: node round-trip and freshness", { skip }, async () => {
+  const store = makeStore();
+  await store.upsertNode({
+    schemaVersion: "1.0",
+    nodeId: "node-s1",
+    region: "eu",
+    capabilities: { tags: ["linux"], maxConcurrentTasks: 1 },
+  });
+  assert.equal((await store.getNode("node-s1"))?.freshnessState, "offline");
+
+  await registerHealthyNode(store, "node-s1");
+  const node = await store.getNode("node-s1");
+  assert.equal(node?.freshnessState, "healthy");
+  assert.equal(node?.trusted, true);
+  assert.deepEqual(
+    (await store.listNodes()).map((n) => n.nodeId),
+    ["node-s1"]
+  );
+  await store.close();
+});
+
+test("sqlite: claim honours priority, FIFO, target and tags", { skip }, async () => {
+  const store = makeStore();
+  await registerHealthyNode(store, "node-sel", { tags: ["linux"], maxConcurrentTasks: 10 });
+  const now = Date.now();
+
+  await store.enqueueTask({ ...BASE_TASK, taskId: "t-late", createdAt: now + 10 });
+  await store.enqueueTask({ ...BASE_TASK, taskId: "t-early", createdAt: now });
+  await store.enqueueTask({ ...BASE_TASK, taskId: "t-other", priority: 9, targetNodeId: "x" });
+  await store.enqueueTask({ ...BASE_TASK, taskId: "t-gpu", priority: 9, requiredTags: ["gpu"] });
+  await store.enqueueTask({
+    ...BASE_TASK,
+    taskId: "t-urgent",
+    priority: 5,
+    requiredTags: ["linux"],
+  });
+  await store.enqueueTask({
+    ...BASE_TASK,
+    taskId: "t-retry",
+    priority: 50,
+    retryAfter: now + 60_000,
+  });
+
+  const order = [];
+  for (let i = 0; i < 4; i++) order.push((await store.claimTask("node-sel"))?.taskId ?? null);
+  assert.deepEqual(order, ["t-urgent", "t-early", "t-late", null]);
+
+  const claimed = await store.getTask("t-urgent");
+  assert.equal(claimed?.status, "claimed");
+  assert.equal(claimed?.assignedNodeId, "node-sel");
+  assert.equal(claimed?.attempt, 1);
+  await store.close();
+});
+
+test("sqlite: claim gates on trust, drain, freshness and capacity", { skip }, async () => {
+  const store = makeStore();
+  await registerHealthyNode(store, "node-cap", { tags: [], maxConcurrentTasks: 1 });
+  await store.enqueueTask({ ...BASE_TASK, taskId: "t-cap-1" });
+  await store.enqueueTask({ ...BASE_TASK, taskId: "t-cap-2" });
+
+  await store.setNodeDrain("node-cap", true);
+  assert.equal(await store.claimTask("node-cap"), null);
+  await store.setNodeDrain("node-cap", false);
+
+  assert.equal((await store.claimTask("node-cap"))?.taskId, "t-cap-1");
+  assert.equal(await store.claimTask("node-cap"), null, "at capacity");
+
+  await store.setTaskStatus("t-cap-1", "done");
+  await store.setNodeTrust("node-cap", { trusted: false, revoked: true });
+  assert.equal(await store.claimTask("node-cap"), null);
+  assert.equal(await store.claimTask("ghost"), null);
+  await store.close();
+});
+
+test("sqlite: retry, cancel, DLQ replay and status counts", { skip }, async () => {
+  const store = makeStore();
+  await registerHealthyNode(store, "node-life");
+  await store.enqueueTask({ ...BASE_TASK, taskId: "t-life-1" });
+  await store.enqueueTask({ ...BASE_TASK, taskId: "t-life-2" });
+
+  await store.claimTask("node-life");
+  assert.equal(await store.requeueForRetry("t-life-1", Date.now() - 1), true);
+  assert.equal((await store.getTask("t-life-1"))?.assignedNodeId, undefined);
+
+  assert.equal(await store.cancelTask("t-life-2"), true);
+  assert.equal(await store.cancelTask("t-life-2"), false);
+
+  assert.equal((await store.claimTask("node-life"))?.taskId, "t-life-1");
+  await store.setTaskStatus("t-life-1", "failed");
+  await store.setTaskResult({
+    schemaVersion: "1.0",
+    taskId: "t-life-1",
+    nodeId: "node-life",
+    ok: false,
+    error: "boom",
+    finishedAt: Date.now(),
+  });
+  await store.enqueueDlq({
+    schemaVersion: "1.0",
+    taskId: "t-life-1",
+    task: (await store.getTask("t-life-1"))!,
+    lastResult: (await store.getTaskResult("t-life-1"))!,
+    reason: "max_attempts_exhausted",
+    enqueuedAt: Date.now(),
+  });
+  assert.equal((await store.listDlq()).length, 1);
+  assert.equal((await store.getDlqEntry("t-life-1"))?.reason, "max_attempts_exhausted");
+
+  assert.deepEqual(await store.countTasksByStatus(), {
+    blocked: 0,
+    queued: 0,
+    claimed: 0,
+    running: 0,
+    done: 0,
+    failed: 1,
+    cancelled: 1,
+  });
+
+  assert.equal(await store.requeueFromDlq("t-life-1"), true);
+  assert.equal(await store.requeueFromDlq("t-life-1"), false);
+  const replayed = await store.getTask("t-life-1");
+  assert.equal(replayed?.status, "queued");
+  assert.equal(replayed?.attempt, 0);
+  assert.equal(replayed?.retryAfter, undefined);
+  assert.equal((await store.claimTask("node-life"))?.taskId, "t-life-1");
+  await store.close();
+});
+
+test(
+  "sqlite: listExpiredLeases finds a lapsed claim and claiming leaves it",
+  { skip },
+  async () => {
+    const store = makeStore({ claimTtlMs: 1 });
+    await registerHealthyNode(store, "node-exp");
+    await store.enqueueTask({ ...BASE_TASK, taskId: "t-exp" });
+    await store.claimTask("node-exp");
+
+    await new Promise((r) => setTimeout(r, 5));
+    // Claiming leaves lapsed leases to the timeout reaper.
+    assert.equal(await store.claimTask("node-exp"), null);
+    assert.deepEqual(
+      (await store.listExpiredLeases()).map((t) => t.taskId),
+      ["t-exp"]
+    );
+    assert.equal((await store.getTask("t-exp"))?.status, "claimed");
+    await store.close();
+  }
+);
+
+test("sqlite: migrate links the dependencies an older version stored", { skip }, async () => {
+  const dir = mkdtempSync(join(tmpdir(), "edgemesh-sqlite-"));
+  const path = join(dir, "edgemesh.db");
+  try {
+    const old = new SqliteControlPlaneStore(path);
+    await old.enqueueTask({ ...BASE_TASK, taskId: "t-parent" });
+    await old.enqueueTask({
+      ...BASE_TASK,
+      taskId: "t-child",
+      status: "blocked",
+      dependsOn: ["t-parent"],
+    });
+    await old.close();
+    // As a version without the link table left the file.
+    const { DatabaseSync } = await import("node:sqlite");
+    const db = new DatabaseSync(path);
+    db.exec("DROP TABLE task_dependencies; PRAGMA user_version = 0;");
+    db.close();
+
+    const store = new SqliteControlPlaneStore(path);
+    assert.deepEqual(await store.listDependentTasks("t-parent"), []);
+    assert.equal(await store.migrate(), 1);
+    assert.deepEqual(
+      (await store.listDependentTasks("t-parent")).map((t) => t.taskId),
+      ["t-child"]
+    );
+    assert.equal(await store.migrate(), 0, "a migrated database is left alone");
+    await store.close();
+  } finally {
+    rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+test(
+  "sqlite: connections sharing a database file never claim the same task",
+  { skip },
+  async () => {
+    const dir = mkdtempSync(join(tmpdir(), "edgemesh-sqlite-"));
+    const path = join(dir, "edgemesh.db");
+    const stores = [1, 2, 3].map(() => new SqliteControlPlaneStore(path));
+    try {
+      const nodeIds = ["node-p1", "node-p2", "node-p3"];
+      for (const nodeId of nodeIds) {
+        await registerHealthyNode(stores[0], nodeId, { tags: [], maxConcurrentTasks: 10 });
+      }
+      for (let i = 0; i < 6; i++) {
+        await stores[0].enqueueTask({ ...BASE_TASK, taskId: `t-par-${i}` });
+      }
+
+      const claims = await Promise.all(
+        Array.from({ length: 18 }, (_, i) => stores[i % 3].claimTask(nodeIds[i % 3]))
+      );
+      const ids = claims.filter((t) => t !== null).map((t) => t!.taskId);
+      assert.equal(ids.length, 6);
+      assert.equal(new Set(ids).size, 6);
+    } finally {
+      for (const store of stores) await store.close();
+      rmSync(dir, { recursive: true, force: true });
+    }
+  }
+);
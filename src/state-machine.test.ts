@@ -0,0 +1,194 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { buildControlPlane } from "./control-plane.js";
+import { TASK_TRANSITIONS, canTransition, isTerminal } from "./task-state.js";
+
+// ── Helpers ────────────────────────────────────────────────────────────────
+
+async function bootstrapNode(
+  app: ReturnType<typeof buildControlPlane>,
+  nodeId: string
+): Promise<string> {
+  const res = await app.inject({
+    method: "POST",
+    url: "/v1/nodes/register",
+    headers: { "x-bootstrap-token": "bootstrap-dev" },
+    payload: {
+      schemaVersion: "1.0",
+      nodeId,
+      capabilities: { tags: ["linux"], maxConcurrentTasks: 2 },
+    },
+  });
+  assert.equal(res.statusCode, 200);
+  const nodeToken = res.json().token as string;
+
+  await app.inject({
+    method: "POST",
+    url: `/v1/nodes/${nodeId}/heartbeat`,
+    headers: { authorization: `Bearer ${nodeToken}` },
+    payload: {
+      schemaVersion: "1.0",
+      nodeId,
+      ts: Date.now(),
+      status: "healthy",
+      load: 0,
+      runningTasks: 0,
+    },
+  });
+  return nodeToken;
+}
+
+/** Enqueues `taskId` and claims it on "sm-node"; returns that node's token. */
+async function claimedTask(app: ReturnType<typeof buildControlPlane>, taskId: string) {
+  const nodeToken = await bootstrapNode(app, "sm-node");
+  const jtRes = await app.inject({
+    method: "POST",
+    url: "/v1/auth/job-token",
+    headers: { "x-admin-token": "admin-dev" },
+    payload: { jobId: taskId, ttlMs: 60_000 },
+  });
+  await app.inject({
+    method: "POST",
+    url: "/v1/tasks",
+    headers: { authorization: `Bearer ${jtRes.json().token as string}` },
+    payload: { taskId, kind: "echo", payload: {} },
+  });
+  const claim = await app.inject({
+    method: "POST",
+    url: "/v1/nodes/sm-node/tasks/claim",
+    headers: { authorization: `Bearer ${nodeToken}` },
+  });
+  assert.equal(claim.json().task.taskId, taskId);
+  return nodeToken;
+}
+
+function postResult(
+  app: ReturnType<typeof buildControlPlane>,
+  taskId: string,
+  token: string,
+  body: { ok: boolean; attempt?: number; nodeId?: string }
+) {
+  return app.inject({
+    method: "POST",
+    url: `/v1/tasks/${taskId}/result`,
+    headers: { authorization: `Bearer ${token}` },
+    payload: {
+      schemaVersion: "1.0",
+      taskId,
+      nodeId: "sm-node",
+      finishedAt: Date.now(),
+      ...body,
+    },
+  });
+}
+
+// ── Tests ──────────────────────────────────────────────────────────────────
+
+test("transition table: final statuses have no way out", () => {
+  for (const status of ["done", "cancelled"] as const) {
+    assert.deepEqual(TASK_TRANSITIONS[status], []);
+    assert.ok(isTerminal(status));
+  }
+  assert.ok(isTerminal("failed"));
+  assert.ok(canTransition("failed", "queued"));
+  assert.ok(!canTransition("queued", "running"));
+  assert.ok(!canTransition("done", "failed"));
+});
+
+test("result from a node that does not hold the claim gets 403", async () => {
+  const app = buildControlPlane();
+  await claimedTask(app, "sm-1");
+  const otherToken = await bootstrapNode(app, "sm-other");
+
+  const res = await postResult(app, "sm-1", otherToken, { ok: true, nodeId: "sm-other" });
+  assert.equal(res.statusCode, 403);
+  assert.equal(res.json().error, "token_node_mismatch");
+
+  const task = await app.inject({ method: "GET", url: "/v1/tasks/sm-1" });
+  assert.equal(task.json().task.status, "claimed");
+  assert.equal(task.json().result, null);
+  await app.close();
+});
+
+test("result for a cancelled task gets 409 invalid_transition and is not stored", async () => {
+  const app = buildControlPlane();
+  const nodeToken = await claimedTask(app, "sm-2");
+  await app.inject({
+    method: "POST",
+    url: "/v1/tasks/sm-2/cancel",
+    headers: { "x-admin-token": "admin-dev" },
+  });
+
+  const res = await postResult(app, "sm-2", nodeToken, { ok: false });
+  assert.equal(res.statusCode, 409);
+  assert.deepEqual(res.json(), {
+    ok: false,
+    error: "invalid_transition",
+    taskId: "sm-2",
+    from: "cancelled",
+    to: "failed",
+  });
+
+  const task = await app.inject({ method: "GET", url: "/v1/tasks/sm-2" });
+  assert.equal(task.json().task.status, "cancelled");
+  assert.equal(task.json().result, null);
+  await app.close();
+});
+
+test("a second result cannot flip a done task to failed or into the DLQ", async () => {
+  const app = buildControlPlane();
+  const nodeToken = await claimedTask(app, "sm-3");
+  assert.equal((await postResult(app, "sm-3", nodeToken, { ok: true })).statusCode, 200);
+
+  const res = await postResult(app, "sm-3", nodeToken, { ok: false });
+  assert.equal(res.statusCode, 409);
+  assert.equal(res.json().error, "invalid_transition");
+  assert.equal(res.json().from, "done");
+
+  const task = await app.inject({ method: "GET", url: "/v1/tasks/sm-3" });
+  assert.equal(task.json().task.status, "done");
+  assert.equal(task.json().result.ok, true);
+  const dlq = await app.inject({ method: "GET", url: "/v1/dlq" });
+  assert.deepEqual(dlq.json().entries, []);
+  await app.close();
+});
+
+test("ack and result for an older attempt get 409 stale_attempt", async () => {
+  const app = buildControlPlane();
+  const nodeToken = await claimedTask(app, "sm-4");
+
+  const ack = await app.inject({
+    method: "POST",
+    url: "/v1/tasks/sm-4/ack",
+    headers: { authorization: `Bearer ${nodeToken}` },
+    payload: { attempt: 0 },
+  });
+  assert.equal(ack.statusCode, 409);
+  assert.deepEqual(ack.json(), { ok: false, error: "stale_attempt", attempt: 1 });
+
+  const res = await postResult(app, "sm-4", nodeToken, { ok: true, attempt: 0 });
+  assert.equal(res.statusCode, 409);
+  assert.equal(res.json().error, "stale_attempt");
+
+  const ok = await postResult(app, "sm-4", nodeToken, { ok: true, attempt: 1 });
+  assert.equal(ok.statusCode, 200);
+  await app.close();
+});
+
+test("acking a task twice gets 409 invalid_transition", async () => {
+  const app = buildControlPlane();
+  const nodeToken = await claimedTask(app, "sm-5");
+  const ack = () =>
+    app.inject({
+      method: "POST",
+      url: "/v1/tasks/sm-5/ack",
+      headers: { authorization: `Bearer ${nodeToken}` },
+    });
+
+  assert.equal((await ack()).statusCode, 200);
+  const again = await ack();
+  assert.equal(again.statusCode, 409);
+  assert.equal(again.json().from, "running");
+  assert.equal(again.json().to, "running");
+  await app.close();
+});
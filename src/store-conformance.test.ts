@@ -0,0 +1,46 @@
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { Redis } from "ioredis";
+// ioredis-mock is CJS; cast to ioredis Redis type so tsc is satisfied
+import RedisMockDefault from "ioredis-mock";
+const RedisMock = RedisMockDefault as unknown as typeof Redis;
+import { InMemoryControlPlaneStore } from "./persistence.js";
+import { runStoreConformance } from "./persistence/conformance.js";
+import { FileControlPlaneStore } from "./persistence/file-adapter.js";
+import { RedisControlPlaneStore } from "./persistence/redis-adapter.js";
+import { SqliteControlPlaneStore, sqliteAvailable } from "./persistence/sqlite-adapter.js";
+
+runStoreConformance("memory", {
+  create: (options) => new InMemoryControlPlaneStore(options),
+});
+
+runStoreConformance("redis", {
+  create: async (options) => {
+    const mock = new RedisMock();
+    await mock.flushall(); // ioredis-mock shares state across instances; flush each time
+    return new RedisControlPlaneStore(mock, options);
+  },
+});
+
+const fileDirs = new Map<FileControlPlaneStore, string>();
+runStoreConformance("file", {
+  create: (options) => {
+    const dir = mkdtempSync(join(tmpdir(), "edgemesh-conformance-"));
+    const store = new FileControlPlaneStore(dir, { ...options, fsync: false });
+    fileDirs.set(store, dir);
+    return store;
+  },
+  destroy: async (store) => {
+    const fileStore = store as FileControlPlaneStore;
+    await fileStore.close();
+    rmSync(fileDirs.get(fileStore)!, { recursive: true, force: true });
+    fileDirs.delete(fileStore);
+  },
+});
+
+runStoreConformance("sqlite", {
+  skip: sqliteAvailable ? false : "node:sqlite requires Node.js 22.5+",
+  create: (options) => new SqliteControlPlaneStore(":memory:", options),
+  destroy: (store) => (store as SqliteControlPlaneStore).close(),
+});
@@ -0,0 +1,129 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { startControlPlane } from "./control-plane.js";
+import { InMemoryControlPlaneStore } from "./persistence.js";
+import {
+  createStore,
+  registerStoreAdapter,
+  registeredStoreSchemes,
+  storeOptionsFromEnv,
+  storeUrlFromEnv,
+  unregisterStoreAdapter,
+  verifyStore,
+  type StoreAdapterOptions,
+} from "./persistence/registry.js";
+import { SqliteControlPlaneStore, sqliteAvailable } from "./persistence/sqlite-adapter.js";
+
+class UnreachableStore extends InMemoryControlPlaneStore {
+  closed = false;
+
+  async ping(): Promise<void> {
+    throw new Error("connection refused");
+  }
+
+  async close(): Promise<void> {
+    this.closed = true;
+  }
+}
+
+test("registry: EDGEMESH_STORE resolves to a store URL", () => {
+  assert.equal(storeUrlFromEnv({}), "memory:");
+  assert.equal(storeUrlFromEnv({ EDGEMESH_STORE: "redis" }), "redis://localhost:6379");
+  assert.equal(
+    storeUrlFromEnv({ EDGEMESH_STORE: "redis", EDGEMESH_REDIS_URL: "redis://cache:6380" }),
+    "redis://cache:6380"
+  );
+  assert.equal(
+    storeUrlFromEnv({ EDGEMESH_STORE: "file", EDGEMESH_DATA_DIR: "/var/edgemesh" }),
+    "file:/var/edgemesh"
+  );
+  assert.equal(storeUrlFromEnv({ EDGEMESH_STORE: "sqlite:./x.db" }), "sqlite:./x.db");
+});
+
+test("registry: adapter options come from env and reject junk", () => {
+  assert.deepEqual(storeOptionsFromEnv({ EDGEMESH_CLAIM_TTL_MS: "5000" }), {
+    claimTtlMs: 5000,
+    heartbeatHealthyMs: undefined,
+    heartbeatDegradedMs: undefined,
+    scheduling: undefined,
+  });
+  assert.throws(
+    () => storeOptionsFromEnv({ EDGEMESH_HEARTBEAT_HEALTHY_MS: "-1" }),
+    /invalid EDGEMESH_HEARTBEAT_HEALTHY_MS/
+  );
+});
+
+test("registry: built-in memory adapter applies heartbeat thresholds", async () => {
+  const store = createStore("memory:", { heartbeatHealthyMs: 1, heartbeatDegradedMs: 2 });
+  assert.ok(store instanceof InMemoryControlPlaneStore);
+  await store.upsertNode({
+    schemaVersion: "1.0",
+    nodeId: "n-1",
+    capabilities: { tags: [], maxConcurrentTasks: 1 },
+  });
+  await store.setHeartbeat("n-1", {
+    schemaVersion: "1.0",
+    nodeId: "n-1",
+    ts: Date.now() - 50,
+    status: "healthy",
+    load: 0,
+    runningTasks: 0,
+  });
+  assert.equal((await store.getNode("n-1"))?.freshnessState, "offline");
+});
+
+test("registry: sqlite URLs open a pingable store", { skip: !sqliteAvailable }, async () => {
+  const store = createStore("sqlite::memory:");
+  assert.ok(store instanceof SqliteControlPlaneStore);
+  await verifyStore(store);
+  await store.close?.();
+});
+
+test("registry: plugins register their own schemes", async () => {
+  const seen: [string, StoreAdapterOptions][] = [];
+  registerStoreAdapter("custom", (url, options) => {
+    seen.push([url, options]);
+    return new InMemoryControlPlaneStore(options);
+  });
+  try {
+    assert.ok(registeredStoreSchemes().includes("custom:"));
+    assert.throws(
+      () => registerStoreAdapter("custom:", () => new InMemoryControlPlaneStore()),
+      /already registered for custom:/
+    );
+    createStore("custom://db-1/edgemesh", { claimTtlMs: 10 });
+    assert.deepEqual(seen, [["custom://db-1/edgemesh", { claimTtlMs: 10 }]]);
+  } finally {
+    assert.equal(unregisterStoreAdapter("custom"), true);
+  }
+
+  assert.throws(() => createStore("custom://db-1"), /no store adapter for custom:/);
+  assert.throws(() => createStore("./data"), /store URL has no scheme/);
+});
+
+test("registry: verifyStore fails on errors and on silence", async () => {
+  await verifyStore(new InMemoryControlPlaneStore());
+  await assert.rejects(
+    () => verifyStore(new UnreachableStore()),
+    /store connection check failed: connection refused/
+  );
+
+  const silent = new InMemoryControlPlaneStore();
+  Object.assign(silent, { ping: () => new Promise<void>(() => undefined) });
+  await assert.rejects(() => verifyStore(silent, 20), /did not answer within 20ms/);
+});
+
+test("startControlPlane refuses to listen on an unreachable store", async () => {
+  const store = new UnreachableStore();
+  registerStoreAdapter("unreachable", () => store);
+  const previous = process.env.EDGEMESH_STORE;
+  process.env.EDGEMESH_STORE = "unreachable://nowhere";
+  try {
+    await assert.rejects(() => startControlPlane(), /store connection check failed/);
+    assert.equal(store.closed, true);
+  } finally {
+    if (previous === undefined) delete process.env.EDGEMESH_STORE;
+    else process.env.EDGEMESH_STORE = previous;
+    unregisterStoreAdapter("unreachable");
+  }
+});
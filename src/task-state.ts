@@ -0,0 +1,54 @@
+import type { Task } from "./contracts.js";
+
+export type TaskStatus = Task["status"];
+
+/**
+ * The only status edges a task may take. Stores enforce this on every write
+ * and routes check it up front to answer with a precise error.
+ *
+ *   blocked -> queued (parents done) | cancelled (parent failed or cancelled)
+ *            | done | failed (broadcast parent, once its children settle)
+ *   queued  -> claimed (claim) | cancelled
+ *   claimed -> running (ack) | done | failed (result, timeout)
+ *            | queued (retry, claim TTL expiry) | cancelled
+ *   running -> done | failed | queued (retry) | cancelled
+ *   failed  -> queued (DLQ replay)
+ *   done, cancelled are final.
+ */
+export const TASK_TRANSITIONS: Readonly<Record<TaskStatus, readonly TaskStatus[]>> = {
+  blocked: ["queued", "cancelled", "done", "failed"],
+  queued: ["claimed", "cancelled"],
+  claimed: ["running", "done", "failed", "queued", "cancelled"],
+  running: ["done", "failed", "queued", "cancelled"],
+  done: [],
+  failed: ["queued"],
+  cancelled: [],
+};
+
+/** Statuses a retry (failed result, timeout) may requeue from. */
+export const RETRYABLE_STATUSES: readonly TaskStatus[] = ["claimed", "running"];
+
+export function canTransition(from: TaskStatus, to: TaskStatus): boolean {
+  return TASK_TRANSITIONS[from].includes(to);
+}
+
+export function isTerminal(status: TaskStatus): boolean {
+  return status === "done" || status === "failed" || status === "cancelled";
+}
+
+export class InvalidTransitionError extends Error {
+  constructor(
+    readonly taskId: string,
+    readonly from: TaskStatus,
+    readonly to: TaskStatus
+  ) {
+    super(`task ${taskId} cannot move from ${from} to ${to}`);
+    this.name = "InvalidTransitionError";
+  }
+}
+
+/** Throws InvalidTransitionError unless `task` may move to `to`. */
+export function assertTransition(task: Task, to: TaskStatus): void {
+  if (!canTransition(task.status, to))
+    throw new InvalidTransitionError(task.taskId, task.status, to);
+}
@@ -163,7 +163,7 @@ test("task selector respects required tags", async () => {
 
 test("expired claims are re-queued", async () => {
   const store = new InMemoryControlPlaneStore({ claimTtlMs: 5 });
-  const app = buildControlPlane(store);
+  const app = buildControlPlane(store, { reaperIntervalMs: 10 });
   await app.ready();
 
   const nodeToken = await registerNode(app, "node-c");
@@ -197,7 +197,8 @@ test("expired claims are re-queued", async () => {
   assert.equal(firstClaim.statusCode, 200);
   assert.equal(firstClaim.json().task.taskId, "task-3");
 
-  await new Promise((r) => setTimeout(r, 12));
+  // The reaper requeues the lapsed claim after a retry backoff of 275ms.
+  await new Promise((r) => setTimeout(r, 350));
 
   await app.inject({
     method: "POST",
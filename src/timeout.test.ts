@@ -1,6 +1,8 @@
 import test from "node:test";
 import assert from "node:assert/strict";
 import { buildControlPlane } from "./control-plane.js";
+import { startTimeoutReaper } from "./control/timeout-reaper.js";
+import { InMemoryControlPlaneStore } from "./persistence.js";
 
 // Reaper fires every 50ms in these tests so we only need to wait ~200ms.
 const REAPER_MS = 50;
@@ -124,3 +126,30 @@ test("task without timeoutMs is not affected by reaper", async () => {
 
   await app.close();
 });
+
+test("reaper logs a failed phase and still runs the others", async () => {
+  const store = new InMemoryControlPlaneStore();
+  store.listExpiredLeases = async () => {
+    throw new Error("store unavailable");
+  };
+  await store.enqueueTask({
+    schemaVersion: "1.0",
+    taskId: "to-task-4",
+    kind: "echo",
+    payload: {},
+    status: "claimed",
+    assignedNodeId: "to-node-4",
+    claimedAt: Date.now() - 1_000,
+    timeoutMs: TASK_TIMEOUT_MS,
+    createdAt: Date.now() - 1_000,
+  });
+  const errors: unknown[] = [];
+  const log = { error: (obj: unknown) => errors.push(obj) };
+
+  const handle = startTimeoutReaper(store, { emit: () => {} }, log, 10);
+  await new Promise((r) => setTimeout(r, 60));
+  clearInterval(handle);
+  assert.ok(errors.length >= 2, "every failed tick is logged");
+  assert.match(String((errors[0] as { err: Error }).err), /store unavailable/);
+  assert.equal((await store.getTask("to-task-4"))?.status, "queued", "timeouts still ran");
+});